@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "withdrawal_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "withdrawalId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "note" TEXT,
+    "actorId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "withdrawal_events_withdrawalId_fkey" FOREIGN KEY ("withdrawalId") REFERENCES "withdrawal_requests" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "withdrawal_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_withdrawal_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "bankName" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "reason" TEXT,
+    "payoutReference" TEXT,
+    "userId" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" DATETIME,
+    "paidAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "withdrawal_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "withdrawal_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_withdrawal_requests" ("amount", "bankName", "accountNumber", "accountName", "createdAt", "id", "status", "updatedAt", "userId") SELECT "amount", '', '', '', "createdAt", "id", "status", "updatedAt", "userId" FROM "withdrawal_requests";
+DROP TABLE "withdrawal_requests";
+ALTER TABLE "new_withdrawal_requests" RENAME TO "withdrawal_requests";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "businesses" ADD COLUMN "reservedCapital" REAL NOT NULL DEFAULT 0;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "distributions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "totalAmount" REAL NOT NULL,
+    "yieldPercent" REAL,
+    "description" TEXT NOT NULL,
+    "investorCount" INTEGER NOT NULL,
+    "scheduledFor" DATETIME,
+    "businessId" TEXT NOT NULL,
+    "scheduleId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "distributions_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "distributions_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "distribution_schedules" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "distributions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "distribution_schedules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "frequency" TEXT NOT NULL,
+    "yieldPercent" REAL NOT NULL,
+    "nextRunAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "businessId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "distribution_schedules_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "distribution_schedules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_returns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "description" TEXT NOT NULL,
+    "investmentId" TEXT NOT NULL,
+    "distributionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "returns_investmentId_fkey" FOREIGN KEY ("investmentId") REFERENCES "investments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "returns_distributionId_fkey" FOREIGN KEY ("distributionId") REFERENCES "distributions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_returns" ("amount", "createdAt", "description", "id", "investmentId") SELECT "amount", "createdAt", "description", "id", "investmentId" FROM "returns";
+DROP TABLE "returns";
+ALTER TABLE "new_returns" RENAME TO "returns";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "distributions_scheduleId_scheduledFor_key" ON "distributions"("scheduleId", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "distribution_schedules_active_nextRunAt_idx" ON "distribution_schedules"("active", "nextRunAt");
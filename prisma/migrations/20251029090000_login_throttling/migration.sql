@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "failedLoginCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN "lockedUntil" DATETIME;
+
+-- CreateTable
+CREATE TABLE "login_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "reason" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "login_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "login_events_userId_createdAt_idx" ON "login_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "login_events_ip_createdAt_idx" ON "login_events"("ip", "createdAt");
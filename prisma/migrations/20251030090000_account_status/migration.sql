@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'ACTIVE';
+ALTER TABLE "users" ADD COLUMN "statusChangedAt" DATETIME;
+ALTER TABLE "users" ADD COLUMN "statusExpiresAt" DATETIME;
+ALTER TABLE "users" ADD COLUMN "statusReason" TEXT;
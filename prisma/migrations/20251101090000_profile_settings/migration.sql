@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "pendingEmail" TEXT;
+ALTER TABLE "users" ADD COLUMN "theme" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_verification_tokens" ADD COLUMN "email" TEXT;
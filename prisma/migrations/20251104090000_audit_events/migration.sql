@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sequence" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "changes" TEXT,
+    "metadata" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "prevHash" TEXT NOT NULL,
+    "hash" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_events_sequence_key" ON "audit_events"("sequence");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_createdAt_idx" ON "audit_events"("action", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_createdAt_idx" ON "audit_events"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetType_targetId_idx" ON "audit_events"("targetType", "targetId");
+
+-- Audit events are append-only; the hash chain catches changes made with
+-- these triggers dropped
+CREATE TRIGGER "audit_events_no_update" BEFORE UPDATE ON "audit_events"
+BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+END;
+
+CREATE TRIGGER "audit_events_no_delete" BEFORE DELETE ON "audit_events"
+BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+END;
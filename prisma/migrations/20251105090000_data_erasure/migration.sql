@@ -0,0 +1,136 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "erasedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "erasure_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "reviewNote" TEXT,
+    "userId" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "erasure_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "erasure_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_businesses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "detailedPlan" TEXT NOT NULL,
+    "targetCapital" REAL NOT NULL,
+    "minimumInvestment" REAL NOT NULL,
+    "expectedROI" REAL NOT NULL,
+    "timeline" INTEGER NOT NULL,
+    "industry" TEXT NOT NULL,
+    "riskLevel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "currentRaised" REAL NOT NULL DEFAULT 0,
+    "reservedCapital" REAL NOT NULL DEFAULT 0,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "businesses_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_businesses" ("createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "reservedCapital", "riskLevel", "status", "targetCapital", "timeline", "title", "updatedAt") SELECT "createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "reservedCapital", "riskLevel", "status", "targetCapital", "timeline", "title", "updatedAt" FROM "businesses";
+DROP TABLE "businesses";
+ALTER TABLE "new_businesses" RENAME TO "businesses";
+CREATE TABLE "new_investments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "investorId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "investments_investorId_fkey" FOREIGN KEY ("investorId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "investments_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_investments" ("amount", "businessId", "createdAt", "id", "investorId", "status", "updatedAt") SELECT "amount", "businessId", "createdAt", "id", "investorId", "status", "updatedAt" FROM "investments";
+DROP TABLE "investments";
+ALTER TABLE "new_investments" RENAME TO "investments";
+CREATE TABLE "new_payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reference" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "checkoutUrl" TEXT,
+    "providerReference" TEXT,
+    "paidAt" DATETIME,
+    "investmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payments_investmentId_fkey" FOREIGN KEY ("investmentId") REFERENCES "investments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_payments" ("amount", "checkoutUrl", "createdAt", "currency", "id", "investmentId", "paidAt", "provider", "providerReference", "reference", "status", "updatedAt", "userId") SELECT "amount", "checkoutUrl", "createdAt", "currency", "id", "investmentId", "paidAt", "provider", "providerReference", "reference", "status", "updatedAt", "userId" FROM "payments";
+DROP TABLE "payments";
+ALTER TABLE "new_payments" RENAME TO "payments";
+CREATE UNIQUE INDEX "payments_reference_key" ON "payments"("reference");
+CREATE TABLE "new_returns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "description" TEXT NOT NULL,
+    "investmentId" TEXT NOT NULL,
+    "distributionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "returns_investmentId_fkey" FOREIGN KEY ("investmentId") REFERENCES "investments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "returns_distributionId_fkey" FOREIGN KEY ("distributionId") REFERENCES "distributions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_returns" ("amount", "createdAt", "description", "distributionId", "id", "investmentId") SELECT "amount", "createdAt", "description", "distributionId", "id", "investmentId" FROM "returns";
+DROP TABLE "returns";
+ALTER TABLE "new_returns" RENAME TO "returns";
+CREATE TABLE "new_distributions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "totalAmount" REAL NOT NULL,
+    "yieldPercent" REAL,
+    "description" TEXT NOT NULL,
+    "investorCount" INTEGER NOT NULL,
+    "scheduledFor" DATETIME,
+    "businessId" TEXT NOT NULL,
+    "scheduleId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "distributions_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "distributions_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "distribution_schedules" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "distributions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_distributions" ("businessId", "createdAt", "createdById", "description", "id", "investorCount", "scheduleId", "scheduledFor", "totalAmount", "yieldPercent") SELECT "businessId", "createdAt", "createdById", "description", "id", "investorCount", "scheduleId", "scheduledFor", "totalAmount", "yieldPercent" FROM "distributions";
+DROP TABLE "distributions";
+ALTER TABLE "new_distributions" RENAME TO "distributions";
+CREATE UNIQUE INDEX "distributions_scheduleId_scheduledFor_key" ON "distributions"("scheduleId", "scheduledFor");
+CREATE TABLE "new_withdrawal_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "bankName" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "reason" TEXT,
+    "payoutReference" TEXT,
+    "userId" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" DATETIME,
+    "paidAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "withdrawal_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "withdrawal_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_withdrawal_requests" ("accountName", "accountNumber", "amount", "bankName", "createdAt", "id", "paidAt", "payoutReference", "reason", "reviewedAt", "reviewedById", "status", "updatedAt", "userId") SELECT "accountName", "accountNumber", "amount", "bankName", "createdAt", "id", "paidAt", "payoutReference", "reason", "reviewedAt", "reviewedById", "status", "updatedAt", "userId" FROM "withdrawal_requests";
+DROP TABLE "withdrawal_requests";
+ALTER TABLE "new_withdrawal_requests" RENAME TO "withdrawal_requests";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "erasure_requests_status_createdAt_idx" ON "erasure_requests"("status", "createdAt");
@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "vetting_checks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "item" TEXT NOT NULL,
+    "note" TEXT,
+    "businessId" TEXT NOT NULL,
+    "checkedById" TEXT,
+    "checkedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "vetting_checks_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "vetting_checks_checkedById_fkey" FOREIGN KEY ("checkedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "vetting_notes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kind" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "vetting_notes_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "vetting_notes_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_businesses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "detailedPlan" TEXT NOT NULL,
+    "targetCapital" REAL NOT NULL,
+    "minimumInvestment" REAL NOT NULL,
+    "expectedROI" REAL NOT NULL,
+    "timeline" INTEGER NOT NULL,
+    "industry" TEXT NOT NULL,
+    "riskLevel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "currentRaised" REAL NOT NULL DEFAULT 0,
+    "reservedCapital" REAL NOT NULL DEFAULT 0,
+    "ownerId" TEXT NOT NULL,
+    "submittedAt" DATETIME,
+    "reviewedById" TEXT,
+    "approvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "businesses_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "businesses_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_businesses" ("createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "reservedCapital", "riskLevel", "status", "targetCapital", "timeline", "title", "updatedAt") SELECT "createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "reservedCapital", "riskLevel", "status", "targetCapital", "timeline", "title", "updatedAt" FROM "businesses";
+DROP TABLE "businesses";
+ALTER TABLE "new_businesses" RENAME TO "businesses";
+CREATE INDEX "businesses_status_submittedAt_idx" ON "businesses"("status", "submittedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vetting_checks_businessId_item_key" ON "vetting_checks"("businessId", "item");
+
+-- CreateIndex
+CREATE INDEX "vetting_notes_businessId_createdAt_idx" ON "vetting_notes"("businessId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "businesses" ADD COLUMN "pausedByOwner" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "company_profiles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ownerId" TEXT NOT NULL,
+    "registeredName" TEXT NOT NULL,
+    "rcNumber" TEXT NOT NULL,
+    "yearFounded" INTEGER NOT NULL,
+    "state" TEXT NOT NULL,
+    "city" TEXT,
+    "website" TEXT,
+    "linkedinUrl" TEXT,
+    "twitterUrl" TEXT,
+    "facebookUrl" TEXT,
+    "instagramUrl" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "company_profiles_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "team_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyProfileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "bio" TEXT,
+    "linkedinUrl" TEXT,
+    "photoKey" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "team_members_companyProfileId_fkey" FOREIGN KEY ("companyProfileId") REFERENCES "company_profiles" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_businesses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "detailedPlan" TEXT NOT NULL,
+    "targetCapital" REAL NOT NULL,
+    "minimumInvestment" REAL NOT NULL,
+    "expectedROI" REAL NOT NULL,
+    "timeline" INTEGER NOT NULL,
+    "industry" TEXT NOT NULL,
+    "riskLevel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "currentRaised" REAL NOT NULL DEFAULT 0,
+    "reservedCapital" REAL NOT NULL DEFAULT 0,
+    "pausedByOwner" BOOLEAN NOT NULL DEFAULT false,
+    "ownerId" TEXT NOT NULL,
+    "companyProfileId" TEXT,
+    "submittedAt" DATETIME,
+    "reviewedById" TEXT,
+    "approvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "businesses_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "businesses_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "businesses_companyProfileId_fkey" FOREIGN KEY ("companyProfileId") REFERENCES "company_profiles" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_businesses" ("approvedAt", "createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "pausedByOwner", "reservedCapital", "reviewedById", "riskLevel", "status", "submittedAt", "targetCapital", "timeline", "title", "updatedAt") SELECT "approvedAt", "createdAt", "currentRaised", "description", "detailedPlan", "expectedROI", "id", "industry", "minimumInvestment", "ownerId", "pausedByOwner", "reservedCapital", "reviewedById", "riskLevel", "status", "submittedAt", "targetCapital", "timeline", "title", "updatedAt" FROM "businesses";
+DROP TABLE "businesses";
+ALTER TABLE "new_businesses" RENAME TO "businesses";
+CREATE INDEX "businesses_status_submittedAt_idx" ON "businesses"("status", "submittedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "company_profiles_ownerId_idx" ON "company_profiles"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "team_members_companyProfileId_position_idx" ON "team_members"("companyProfileId", "position");
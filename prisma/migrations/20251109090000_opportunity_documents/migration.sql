@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "opportunity_documents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "businessId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "visibility" TEXT NOT NULL DEFAULT 'INVESTORS',
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "opportunity_documents_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "opportunity_documents_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "document_downloads" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "documentId" TEXT NOT NULL,
+    "userId" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "document_downloads_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "opportunity_documents" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "document_downloads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opportunity_documents_storageKey_key" ON "opportunity_documents"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "opportunity_documents_businessId_createdAt_idx" ON "opportunity_documents"("businessId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "document_downloads_documentId_createdAt_idx" ON "document_downloads"("documentId", "createdAt");
@@ -0,0 +1,28 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reference" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "checkoutUrl" TEXT,
+    "providerReference" TEXT,
+    "paidAt" DATETIME,
+    "investmentId" TEXT,
+    "businessId" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payments_investmentId_fkey" FOREIGN KEY ("investmentId") REFERENCES "investments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "payments_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_payments" ("amount", "checkoutUrl", "createdAt", "currency", "id", "investmentId", "paidAt", "provider", "providerReference", "reference", "status", "updatedAt", "userId") SELECT "amount", "checkoutUrl", "createdAt", "currency", "id", "investmentId", "paidAt", "provider", "providerReference", "reference", "status", "updatedAt", "userId" FROM "payments";
+DROP TABLE "payments";
+ALTER TABLE "new_payments" RENAME TO "payments";
+CREATE UNIQUE INDEX "payments_reference_key" ON "payments"("reference");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -81,8 +81,12 @@ async function createAdmin() {
       console.log(`   Email: ${existingAdmin.email}`);
       console.log(`   Name: ${existingAdmin.name}\n`);
 
+      console.log(
+        "Additional admins are normally invited from the Administrators tab of the dashboard.\n"
+      );
+
       const overwrite = await question(
-        "Do you want to create an additional admin? (y/N): "
+        "Do you want to create an additional admin here anyway? (y/N): "
       );
       if (
         overwrite.toLowerCase() !== "y" &&
@@ -93,6 +97,25 @@ async function createAdmin() {
       }
     }
 
+    // The first admin is a super-admin so they can invite the rest
+    let adminRole = "SUPER_ADMIN";
+    if (existingAdmin) {
+      const answer = (
+        await question(
+          "Admin role (SUPER_ADMIN, SUPPORT, COMPLIANCE, FINANCE) [SUPPORT]: "
+        )
+      )
+        .trim()
+        .toUpperCase();
+      if (
+        answer &&
+        !["SUPER_ADMIN", "SUPPORT", "COMPLIANCE", "FINANCE"].includes(answer)
+      ) {
+        throw new Error(`Unknown admin role: ${answer}`);
+      }
+      adminRole = answer || "SUPPORT";
+    }
+
     // Get admin details
     const name = await question("Enter admin full name: ");
     if (!name || name.trim().length < 2) {
@@ -140,6 +163,7 @@ async function createAdmin() {
         email: email.trim().toLowerCase(),
         password: hashedPassword,
         role: "ADMINISTRATOR",
+        adminRole,
         verified: true, // Auto-verify admin accounts
       },
       select: {
@@ -147,6 +171,7 @@ async function createAdmin() {
         name: true,
         email: true,
         role: true,
+        adminRole: true,
         createdAt: true,
       },
     });
@@ -156,7 +181,7 @@ async function createAdmin() {
     console.log(`ID: ${adminUser.id}`);
     console.log(`Name: ${adminUser.name}`);
     console.log(`Email: ${adminUser.email}`);
-    console.log(`Role: ${adminUser.role}`);
+    console.log(`Role: ${adminUser.role} (${adminUser.adminRole})`);
     console.log(`Created: ${adminUser.createdAt.toLocaleString()}\n`);
 
     console.log("🔑 You can now login at: http://localhost:3000/auth/signin");
@@ -11,7 +11,8 @@
 
 import readline from "readline";
 import bcrypt from "bcryptjs";
-import { PrismaClient } from "@prisma/client";
+import { AdminRole, PrismaClient } from "@prisma/client";
+import { checkPassword } from "../src/lib/password-policy";
 
 const prisma = new PrismaClient();
 
@@ -82,8 +83,12 @@ async function createAdmin(): Promise<void> {
       console.log(`   Email: ${existingAdmin.email}`);
       console.log(`   Name: ${existingAdmin.name}\n`);
 
+      console.log(
+        "Additional admins are normally invited from the Administrators tab of the dashboard.\n"
+      );
+
       const overwrite = await question(
-        "Do you want to create an additional admin? (y/N): "
+        "Do you want to create an additional admin here anyway? (y/N): "
       );
       if (
         overwrite.toLowerCase() !== "y" &&
@@ -94,6 +99,22 @@ async function createAdmin(): Promise<void> {
       }
     }
 
+    // The first admin is a super-admin so they can invite the rest
+    let adminRole: AdminRole = "SUPER_ADMIN";
+    if (existingAdmin) {
+      const answer = (
+        await question(
+          "Admin role (SUPER_ADMIN, SUPPORT, COMPLIANCE, FINANCE) [SUPPORT]: "
+        )
+      )
+        .trim()
+        .toUpperCase();
+      if (answer && !(answer in AdminRole)) {
+        throw new Error(`Unknown admin role: ${answer}`);
+      }
+      adminRole = (answer || "SUPPORT") as AdminRole;
+    }
+
     // Get admin details
     const name = await question("Enter admin full name: ");
     if (!name || name.trim().length < 2) {
@@ -115,12 +136,17 @@ async function createAdmin(): Promise<void> {
     }
 
     const password = await questionHidden(
-      "Enter admin password (min 8 characters): "
+      "Enter admin password (8+ characters with upper, lower, number and symbol): "
     );
     console.log(""); // New line after hidden input
 
-    if (!password || password.length < 8) {
-      throw new Error("Password must be at least 8 characters long");
+    const passwordCheck = checkPassword(password || "");
+    if (!passwordCheck.valid) {
+      throw new Error(
+        `Password does not meet the policy:\n${passwordCheck.failures
+          .map((failure) => `  - ${failure.label}`)
+          .join("\n")}`
+      );
     }
 
     const confirmPassword = await questionHidden("Confirm password: ");
@@ -141,6 +167,7 @@ async function createAdmin(): Promise<void> {
         email: email.trim().toLowerCase(),
         password: hashedPassword,
         role: "ADMINISTRATOR",
+        adminRole,
         verified: true, // Auto-verify admin accounts
       },
       select: {
@@ -148,6 +175,7 @@ async function createAdmin(): Promise<void> {
         name: true,
         email: true,
         role: true,
+        adminRole: true,
         createdAt: true,
       },
     });
@@ -157,7 +185,7 @@ async function createAdmin(): Promise<void> {
     console.log(`ID: ${adminUser.id}`);
     console.log(`Name: ${adminUser.name}`);
     console.log(`Email: ${adminUser.email}`);
-    console.log(`Role: ${adminUser.role}`);
+    console.log(`Role: ${adminUser.role} (${adminUser.adminRole})`);
     console.log(`Created: ${adminUser.createdAt.toLocaleString()}\n`);
 
     console.log("🔑 You can now login at: http://localhost:3000/auth/signin");
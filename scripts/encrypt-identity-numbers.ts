@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Identity Number Encryption
+ *
+ * Encrypts BVNs and NINs on verification submissions made before they were
+ * encrypted at rest. Safe to run repeatedly; values already encrypted are
+ * left alone.
+ *
+ * Usage: npm run kyc:encrypt-identity-numbers
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { encryptStoredIdentityNumbers } from "../src/lib/kyc";
+
+async function main(): Promise<void> {
+  try {
+    console.log("\n🔐 NaijaConnect Capital - Identity Number Encryption");
+    console.log("===================================================\n");
+
+    const updated = await encryptStoredIdentityNumbers();
+
+    console.log(
+      updated === 0
+        ? "All stored identity numbers are already encrypted."
+        : `✅ Encrypted identity numbers on ${updated} submission${
+            updated === 1 ? "" : "s"
+          }.`
+    );
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
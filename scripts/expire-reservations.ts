@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Reservation Expiry
+ *
+ * Cancels PENDING investments whose checkout was abandoned, releasing the
+ * capacity they reserved on their opportunity so others can invest.
+ * Safe to run repeatedly (e.g. from a cron job every few minutes).
+ *
+ * Usage: npm run reservations:expire
+ */
+
+import { prisma } from "../src/lib/prisma";
+import {
+  RESERVATION_TTL_MINUTES,
+  expireStaleReservations,
+} from "../src/lib/investments";
+
+async function main(): Promise<void> {
+  try {
+    console.log("\n⏳ NaijaConnect Capital - Reservation Expiry");
+    console.log("===========================================\n");
+
+    const expired = await expireStaleReservations();
+
+    if (expired.length === 0) {
+      console.log(
+        `No unpaid investments are older than ${RESERVATION_TTL_MINUTES} minutes.`
+      );
+      return;
+    }
+
+    for (const investment of expired) {
+      console.log(`✅ Cancelled ${investment.id}`);
+      console.log(`   Investor: ${investment.investor.name}`);
+      console.log(`   Opportunity: ${investment.business.title}`);
+      console.log(`   Released: ₦${investment.amount.toLocaleString()}`);
+    }
+
+    console.log(
+      `\nReleased ${expired.length} unpaid reservation${
+        expired.length === 1 ? "" : "s"
+      }.`
+    );
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Investment Maturity Processing
+ *
+ * Settles ACTIVE investments whose opportunity timeline has elapsed:
+ * the principal and any outstanding return are credited to the
+ * investor's wallet and the investment is marked COMPLETED.
+ * Safe to run repeatedly (e.g. from a daily cron job).
+ *
+ * Usage: npm run maturities:process [-- --dry-run]
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { processMaturedInvestments } from "../src/lib/maturity";
+
+const formatCurrency = (amount: number) => `₦${amount.toLocaleString()}`;
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes("--dry-run");
+
+  try {
+    console.log("\n📅 NaijaConnect Capital - Maturity Processing");
+    console.log("============================================\n");
+
+    if (dryRun) {
+      console.log("Dry run: no changes will be made.\n");
+    }
+
+    const results = await processMaturedInvestments({ dryRun });
+
+    if (results.length === 0) {
+      console.log("No investments have reached maturity.");
+      return;
+    }
+
+    for (const result of results) {
+      const label =
+        result.status === "settled"
+          ? "✅ Settled"
+          : result.status === "would_settle"
+          ? "📝 Would settle"
+          : "⏭️  Skipped";
+
+      console.log(`${label} ${result.investmentId}`);
+      console.log(`   Investor: ${result.investorName}`);
+      console.log(`   Opportunity: ${result.businessTitle}`);
+      console.log(`   Matured: ${result.maturedAt.toLocaleDateString()}`);
+      console.log(
+        `   Principal: ${formatCurrency(
+          result.principal
+        )} + Final return: ${formatCurrency(
+          result.finalReturn
+        )} = ${formatCurrency(result.total)}`
+      );
+      if (result.reason) {
+        console.log(`   Reason: ${result.reason}`);
+      }
+    }
+
+    const settled = results.filter((r) => r.status !== "skipped");
+    console.log(
+      `\n${dryRun ? "Would settle" : "Settled"} ${settled.length} of ${
+        results.length
+      } matured investment${results.length === 1 ? "" : "s"}.`
+    );
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,48 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Suspension Expiry
+ *
+ * Reinstates accounts whose suspension has run out and reopens the
+ * opportunities that were paused with them. Safe to run repeatedly
+ * (e.g. from an hourly cron job).
+ *
+ * Usage: npm run suspensions:reinstate
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { reinstateExpiredSuspensions } from "../src/lib/account-status";
+
+async function main(): Promise<void> {
+  try {
+    console.log("\n🔓 NaijaConnect Capital - Suspension Expiry");
+    console.log("==========================================\n");
+
+    const reinstated = await reinstateExpiredSuspensions();
+
+    if (reinstated.length === 0) {
+      console.log("No suspensions have expired.");
+      return;
+    }
+
+    for (const user of reinstated) {
+      console.log(`✅ Reinstated ${user.name} <${user.email}>`);
+      console.log(
+        `   Suspension ended: ${user.statusExpiresAt?.toLocaleString()}`
+      );
+    }
+
+    console.log(
+      `\nReinstated ${reinstated.length} account${
+        reinstated.length === 1 ? "" : "s"
+      }.`
+    );
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
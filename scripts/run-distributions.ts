@@ -0,0 +1,48 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Scheduled Distribution Runner
+ *
+ * Posts every recurring return distribution that has fallen due.
+ * Safe to run repeatedly (e.g. from a daily cron job): each period
+ * is only ever paid once.
+ *
+ * Usage: npm run distributions:run
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { runDueDistributions } from "../src/lib/distributions";
+
+async function main(): Promise<void> {
+  try {
+    console.log("\n💸 NaijaConnect Capital - Scheduled Distributions");
+    console.log("================================================\n");
+
+    const results = await runDueDistributions();
+
+    if (results.length === 0) {
+      console.log("No distributions are due.");
+      return;
+    }
+
+    for (const result of results) {
+      const period = result.scheduledFor.toISOString().slice(0, 10);
+      if (result.distributionId) {
+        console.log(
+          `✅ Schedule ${result.scheduleId} (${period}): posted ${result.distributionId}`
+        );
+      } else {
+        console.log(
+          `⏭️  Schedule ${result.scheduleId} (${period}): skipped - ${result.skipped}`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+
+/**
+ * NaijaConnect Capital - Audit Log Verification
+ *
+ * Recomputes the audit log's hash chain and reports the first event that
+ * has been altered or removed. Exits with status 1 if the chain is broken.
+ * Note the printed head hash somewhere outside the database; comparing it
+ * on the next run is what reveals events deleted from the end.
+ *
+ * Usage: npm run audit:verify
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { verifyAuditChain } from "../src/lib/audit";
+
+async function main(): Promise<void> {
+  try {
+    console.log("\n🔎 NaijaConnect Capital - Audit Log Verification");
+    console.log("================================================\n");
+
+    const result = await verifyAuditChain();
+
+    if (!result.valid) {
+      console.log(`❌ Chain broken at event ${result.failure!.sequence}`);
+      console.log(`   ${result.failure!.reason}`);
+      console.log(`   Events verified before the break: ${result.checked}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (result.checked === 0) {
+      console.log("The audit log is empty.");
+      return;
+    }
+
+    console.log(`✅ All ${result.checked} events verified.`);
+    console.log(`   Head hash: ${result.headHash}`);
+  } catch (error) {
+    console.error("Script error:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
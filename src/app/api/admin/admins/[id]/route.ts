@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ADMIN_ROLES, changeAdminRole, revokeAdmin } from "@/lib/admins";
+import { requireTwoFactorCode } from "@/lib/two-factor";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+const roleSchema = z.object({
+  adminRole: z.enum(ADMIN_ROLES),
+  twoFactorCode: z.string().optional(),
+});
+
+const revokeSchema = z.object({
+  twoFactorCode: z.string().optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Change an administrator's scope (for super-admins)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update administrator", permission: "admin:manage" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = roleSchema.parse(body);
+
+    // Changing what an administrator can do requires a fresh second factor
+    const unverified = await requireTwoFactorCode(
+      session.user.id,
+      validatedData.twoFactorCode,
+      request
+    );
+    if (unverified) return unverified;
+
+    const before = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { adminRole: true },
+    });
+
+    const admin = await changeAdminRole(
+      params.id,
+      validatedData.adminRole,
+      session.user.id
+    );
+
+    await recordAuditEvent({
+      action: "admin:updateRole",
+      actor: auditActor(actor, request),
+      target: { type: "User", id: admin.id },
+      before,
+      after: { adminRole: admin.adminRole },
+    });
+
+    return NextResponse.json({
+      message: "Administrator role updated successfully",
+      admin,
+    });
+  }
+);
+
+// Revoke an administrator's access (for super-admins)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Revoke administrator", permission: "admin:manage" },
+  async ({ request, params, session, actor }) => {
+    // The code is sent in the body; an empty body is treated as no code
+    const body = await request.json().catch(() => ({}));
+    const validatedData = revokeSchema.parse(body);
+
+    const unverified = await requireTwoFactorCode(
+      session.user.id,
+      validatedData.twoFactorCode,
+      request
+    );
+    if (unverified) return unverified;
+
+    const before = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { adminRole: true, status: true },
+    });
+
+    await revokeAdmin(params.id, session.user.id);
+
+    await recordAuditEvent({
+      action: "admin:revoke",
+      actor: auditActor(actor, request),
+      target: { type: "User", id: params.id },
+      before,
+      after: { adminRole: null, status: "DEACTIVATED" },
+    });
+
+    return NextResponse.json({
+      message: "Administrator access revoked",
+    });
+  }
+);
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { listAdmins } from "@/lib/admins";
+
+// Administrators and pending invitations (for super-admins)
+export const GET = apiRoute(
+  { name: "Get administrators", permission: "admin:manage" },
+  async () => {
+    const { admins, invitations } = await listAdmins();
+
+    return NextResponse.json({ admins, invitations });
+  }
+);
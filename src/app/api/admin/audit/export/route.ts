@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { auditFiltersSchema, exportAuditEvents } from "@/lib/audit";
+
+// Download the filtered audit log as CSV (for compliance administrators)
+export const GET = apiRoute(
+  { name: "Export audit log", permission: "audit:read" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const filters = auditFiltersSchema
+      .omit({ page: true })
+      .parse(Object.fromEntries(searchParams));
+
+    const csvContent = await exportAuditEvents(filters);
+
+    return new NextResponse(csvContent, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="audit-log-${
+          new Date().toISOString().split("T")[0]
+        }.csv"`,
+      },
+    });
+  }
+);
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { auditFiltersSchema, listAuditEvents } from "@/lib/audit";
+
+// Search and filter the audit log (for compliance administrators)
+export const GET = apiRoute(
+  { name: "Get audit log", permission: "audit:read" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const { page, ...filters } = auditFiltersSchema.parse(
+      Object.fromEntries(searchParams)
+    );
+
+    return NextResponse.json(await listAuditEvents(filters, page));
+  }
+);
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { verifyAuditChain } from "@/lib/audit";
+
+// Check the audit log's hash chain (for compliance administrators)
+export const GET = apiRoute(
+  { name: "Verify audit log", permission: "audit:read" },
+  async () => {
+    return NextResponse.json({ verification: await verifyAuditChain() });
+  }
+);
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { runDueDistributions } from "@/lib/distributions";
+
+// Post every scheduled distribution that has fallen due
+export const POST = apiRoute(
+  { name: "Run distributions", permission: "distribution:runDue" },
+  async () => {
+    const results = await runDueDistributions();
+
+    return NextResponse.json({
+      message: `Processed ${results.length} scheduled distribution${
+        results.length === 1 ? "" : "s"
+      }`,
+      results,
+    });
+  }
+);
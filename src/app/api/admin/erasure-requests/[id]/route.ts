@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { reviewErasureRequest } from "@/lib/privacy";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+// Erasure review validation schema
+const reviewSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  note: z.string().min(1).max(500).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Approve or reject an account erasure request (for compliance administrators)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Review erasure request", permission: "erasure:review" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = reviewSchema.parse(body);
+
+    const erasureRequest = await reviewErasureRequest(
+      params.id,
+      validatedData.action,
+      session.user.id,
+      validatedData.note
+    );
+
+    await recordAuditEvent({
+      action: "erasure:review",
+      actor: auditActor(actor, request),
+      target: { type: "ErasureRequest", id: erasureRequest.id },
+      before: { status: "PENDING" },
+      after: { status: erasureRequest.status },
+      metadata: { note: validatedData.note },
+    });
+
+    return NextResponse.json({
+      message:
+        erasureRequest.status === "APPROVED"
+          ? "Account erased"
+          : "Erasure request rejected",
+      request: erasureRequest,
+    });
+  }
+);
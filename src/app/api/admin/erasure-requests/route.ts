@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { ERASURE_STATUSES, listErasureRequests } from "@/lib/privacy";
+
+// Erasure queue query validation schema
+const querySchema = z.object({
+  status: z.enum(ERASURE_STATUSES).default("PENDING"),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+// Get the account erasure review queue (for compliance administrators)
+export const GET = apiRoute(
+  { name: "Get erasure requests", permission: "erasure:review" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const { status, page } = querySchema.parse(
+      Object.fromEntries(searchParams)
+    );
+
+    const result = await listErasureRequests(status, page);
+
+    return NextResponse.json(result);
+  }
+);
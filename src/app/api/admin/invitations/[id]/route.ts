@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { revokeInvitation } from "@/lib/admins";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+interface RouteParams {
+  id: string;
+}
+
+// Withdraw a pending administrator invitation (for super-admins)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Revoke invitation", permission: "admin:invite" },
+  async ({ request, params, actor }) => {
+    await revokeInvitation(params.id);
+
+    await recordAuditEvent({
+      action: "admin:revokeInvitation",
+      actor: auditActor(actor, request),
+      target: { type: "AdminInvitation", id: params.id },
+    });
+
+    return NextResponse.json({
+      message: "Invitation revoked",
+    });
+  }
+);
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { ADMIN_ROLES, inviteAdmin } from "@/lib/admins";
+import { requireTwoFactorCode } from "@/lib/two-factor";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+const inviteSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  adminRole: z.enum(ADMIN_ROLES),
+  twoFactorCode: z.string().optional(),
+});
+
+// Invite a new administrator by email (for super-admins)
+export const POST = apiRoute(
+  { name: "Invite administrator", permission: "admin:invite" },
+  async ({ request, session, actor }) => {
+    const body = await request.json();
+    const validatedData = inviteSchema.parse(body);
+
+    // Granting administrator access requires a fresh second factor
+    const unverified = await requireTwoFactorCode(
+      session.user.id,
+      validatedData.twoFactorCode,
+      request
+    );
+    if (unverified) return unverified;
+
+    const invitation = await inviteAdmin(
+      validatedData.email,
+      validatedData.adminRole,
+      session.user.id
+    );
+
+    await recordAuditEvent({
+      action: "admin:invite",
+      actor: auditActor(actor, request),
+      target: { type: "AdminInvitation", id: invitation.id },
+      after: { email: invitation.email, adminRole: invitation.adminRole },
+    });
+
+    return NextResponse.json(
+      {
+        message: `Invitation sent to ${invitation.email}`,
+        invitation,
+      },
+      { status: 201 }
+    );
+  }
+);
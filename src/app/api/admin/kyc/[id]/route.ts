@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { reviewKycSubmission } from "@/lib/kyc";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+// Verification review validation schema
+const reviewSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  reason: z.string().min(1).max(500).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Approve or reject an identity verification (for administrators)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Review KYC submission", permission: "kyc:review" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = reviewSchema.parse(body);
+
+    const submission = await reviewKycSubmission(
+      params.id,
+      validatedData.action,
+      session.user.id,
+      validatedData.reason
+    );
+
+    await recordAuditEvent({
+      action: "kyc:review",
+      actor: auditActor(actor, request),
+      target: { type: "KycSubmission", id: submission.id },
+      before: { status: "PENDING" },
+      after: { status: submission.status },
+      metadata: {
+        requestedTier: submission.requestedTier,
+        reason: validatedData.reason,
+      },
+    });
+
+    return NextResponse.json({
+      message: "Verification reviewed successfully",
+      submission,
+    });
+  }
+);
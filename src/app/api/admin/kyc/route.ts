@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { prisma } from "@/lib/prisma";
+import { revealIdentityNumbers } from "@/lib/kyc";
+import { KycStatus, Prisma } from "@prisma/client";
+
+// Get the identity verification review queue (for administrators)
+export const GET = apiRoute(
+  { name: "Get KYC queue", permission: "kyc:review" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "PENDING";
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.KycSubmissionWhereInput = {};
+
+    if (["PENDING", "APPROVED", "REJECTED"].includes(status)) {
+      where.status = status as KycStatus;
+    }
+
+    const submissions = await prisma.kycSubmission.findMany({
+      where,
+      select: {
+        id: true,
+        requestedTier: true,
+        status: true,
+        bvn: true,
+        nin: true,
+        reason: true,
+        reviewedAt: true,
+        createdAt: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            kycTier: true,
+          },
+        },
+        reviewedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        documents: {
+          select: {
+            id: true,
+            type: true,
+            fileName: true,
+            contentType: true,
+            size: true,
+          },
+        },
+      },
+      // Oldest first so the queue is worked in order of arrival
+      orderBy: {
+        createdAt: "asc",
+      },
+      skip,
+      take: limit,
+    });
+
+    const total = await prisma.kycSubmission.count({ where });
+
+    return NextResponse.json({
+      submissions: submissions.map(revealIdentityNumbers),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
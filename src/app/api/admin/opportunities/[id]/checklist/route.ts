@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import {
+  getVettingRecord,
+  setVettingCheck,
+  VETTING_ITEMS,
+} from "@/lib/vetting";
+
+// Checklist item validation schema
+const checkSchema = z.object({
+  item: z.enum(VETTING_ITEMS),
+  checked: z.boolean(),
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Confirm or clear a due-diligence checklist item (for compliance
+// administrators)
+export const PUT = apiRoute<RouteParams>(
+  { name: "Update vetting checklist", permission: "opportunity:vet" },
+  async ({ request, params, session }) => {
+    const body = await request.json();
+    const validatedData = checkSchema.parse(body);
+
+    await setVettingCheck(
+      params.id,
+      validatedData.item,
+      validatedData.checked,
+      session.user.id,
+      validatedData.note
+    );
+
+    const opportunity = await getVettingRecord(params.id);
+
+    return NextResponse.json({ checklist: opportunity.checklist });
+  }
+);
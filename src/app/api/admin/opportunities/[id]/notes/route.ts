@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { addVettingComment } from "@/lib/vetting";
+
+// Reviewer comment validation schema
+const commentSchema = z.object({
+  content: z.string().trim().min(1, "Comment is required").max(2000),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Leave an internal comment on an opportunity's vetting record; owners
+// don't see these (for compliance administrators)
+export const POST = apiRoute<RouteParams>(
+  { name: "Add vetting comment", permission: "opportunity:vet" },
+  async ({ request, params, session }) => {
+    const body = await request.json();
+    const validatedData = commentSchema.parse(body);
+
+    const note = await addVettingComment(
+      params.id,
+      session.user.id,
+      validatedData.content
+    );
+
+    return NextResponse.json({ note }, { status: 201 });
+  }
+);
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { getVettingRecord, reviewOpportunity } from "@/lib/vetting";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+// Vetting decision validation schema
+const reviewSchema = z.object({
+  action: z.enum(["startReview", "requestChanges", "approve", "reject"]),
+  note: z.string().trim().min(1).max(2000).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Get an opportunity's submission, checklist and notes (for compliance
+// administrators)
+export const GET = apiRoute<RouteParams>(
+  { name: "Get vetting record", permission: "opportunity:vet" },
+  async ({ params }) => {
+    const opportunity = await getVettingRecord(params.id);
+
+    return NextResponse.json({ opportunity });
+  }
+);
+
+// Take an opportunity under review, approve it, reject it or request changes
+// (for compliance administrators)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Review opportunity", permission: "opportunity:vet" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = reviewSchema.parse(body);
+
+    const before = await getVettingRecord(params.id);
+    const opportunity = await reviewOpportunity(
+      params.id,
+      validatedData.action,
+      session.user.id,
+      validatedData.note
+    );
+
+    await recordAuditEvent({
+      action: "opportunity:vet",
+      actor: auditActor(actor, request),
+      target: { type: "Business", id: opportunity.id },
+      before: { status: before.status },
+      after: { status: opportunity.status },
+      metadata: { decision: validatedData.action, note: validatedData.note },
+    });
+
+    return NextResponse.json({
+      message: `Opportunity is now ${opportunity.status
+        .toLowerCase()
+        .replace(/_/g, " ")}`,
+      opportunity,
+    });
+  }
+);
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { listVettingQueue, VETTING_QUEUE_STATUSES } from "@/lib/vetting";
+
+// Vetting queue query validation schema
+const querySchema = z.object({
+  status: z.enum(VETTING_QUEUE_STATUSES).default("SUBMITTED"),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+// Get the opportunity vetting queue (for compliance administrators)
+export const GET = apiRoute(
+  { name: "Get vetting queue", permission: "opportunity:vet" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const { status, page } = querySchema.parse(
+      Object.fromEntries(searchParams)
+    );
+
+    const result = await listVettingQueue(status, page);
+
+    return NextResponse.json(result);
+  }
+);
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { changeAccountStatus } from "@/lib/account-status";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+// Account status change validation schema
+const statusSchema = z.object({
+  status: z.enum(["ACTIVE", "SUSPENDED", "DEACTIVATED"]),
+  reason: z.string().min(1).max(500).optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Suspend, deactivate or reinstate an account (for administrators)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update account status", permission: "user:updateStatus" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = statusSchema.parse(body);
+
+    // Administrator accounts are only managed by super-admins
+    const target = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: {
+        role: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
+      },
+    });
+    if (target?.role === "ADMINISTRATOR") {
+      authorize(actor, "admin:manage");
+    }
+
+    const user = await changeAccountStatus(
+      params.id,
+      validatedData,
+      session.user.id
+    );
+
+    await recordAuditEvent({
+      action: "user:updateStatus",
+      actor: auditActor(actor, request),
+      target: { type: "User", id: user.id },
+      before: target && {
+        status: target.status,
+        statusReason: target.statusReason,
+        statusExpiresAt: target.statusExpiresAt,
+      },
+      after: {
+        status: user.status,
+        statusReason: user.statusReason,
+        statusExpiresAt: user.statusExpiresAt,
+      },
+    });
+
+    return NextResponse.json({
+      message: "Account status updated successfully",
+      user,
+    });
+  }
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { unlockAccount } from "@/lib/login-throttle";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+interface RouteParams {
+  id: string;
+}
+
+// Clear a sign-in lockout (for administrators)
+export const POST = apiRoute<RouteParams>(
+  { name: "Unlock account", permission: "user:unlock" },
+  async ({ request, params, actor }) => {
+    await unlockAccount(params.id);
+
+    await recordAuditEvent({
+      action: "user:unlock",
+      actor: auditActor(actor, request),
+      target: { type: "User", id: params.id },
+    });
+
+    return NextResponse.json({ message: "Account unlocked successfully" });
+  }
+);
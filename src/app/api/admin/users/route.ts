@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { prisma } from "@/lib/prisma";
+import { AccountStatus, Prisma } from "@prisma/client";
+
+// List user accounts (for administrators)
+export const GET = apiRoute(
+  { name: "Get users", permission: "user:list" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search");
+    const status = searchParams.get("status");
+    const locked = searchParams.get("locked") === "true";
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.UserWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { email: { contains: search } },
+      ];
+    }
+
+    if (status && ["ACTIVE", "SUSPENDED", "DEACTIVATED"].includes(status)) {
+      where.status = status as AccountStatus;
+    }
+
+    if (locked) {
+      where.lockedUntil = { gt: new Date() };
+    }
+
+    const users = await prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        verified: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
+        failedLoginCount: true,
+        lockedUntil: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      skip,
+      take: limit,
+    });
+
+    const total = await prisma.user.count({ where });
+
+    return NextResponse.json({
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
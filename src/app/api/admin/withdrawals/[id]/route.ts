@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { transitionWithdrawal } from "@/lib/withdrawals";
+import { requireTwoFactorCode } from "@/lib/two-factor";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+
+// Withdrawal review validation schema
+const reviewSchema = z.object({
+  action: z.enum(["approve", "reject", "mark_paid"]),
+  reason: z.string().min(1).max(500).optional(),
+  note: z.string().max(500).optional(),
+  payoutReference: z.string().max(100).optional(),
+  twoFactorCode: z.string().optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Approve, reject or mark a withdrawal request as paid (for administrators)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Review withdrawal", permission: "withdrawal:review" },
+  async ({ request, params, session, actor }) => {
+    const body = await request.json();
+    const validatedData = reviewSchema.parse(body);
+
+    // Releasing funds requires a fresh second factor
+    if (validatedData.action !== "reject") {
+      const unverified = await requireTwoFactorCode(
+        session.user.id,
+        validatedData.twoFactorCode,
+        request
+      );
+      if (unverified) return unverified;
+    }
+
+    const withdrawal = await transitionWithdrawal(
+      params.id,
+      validatedData.action,
+      session.user.id,
+      {
+        reason: validatedData.reason,
+        note: validatedData.note,
+        payoutReference: validatedData.payoutReference,
+      }
+    );
+
+    await recordAuditEvent({
+      action: "withdrawal:review",
+      actor: auditActor(actor, request),
+      target: { type: "WithdrawalRequest", id: withdrawal.id },
+      after: { status: withdrawal.status },
+      metadata: {
+        action: validatedData.action,
+        userId: withdrawal.userId,
+        amount: withdrawal.amount,
+        reason: validatedData.reason,
+        payoutReference: validatedData.payoutReference,
+      },
+    });
+
+    return NextResponse.json({
+      message: "Withdrawal request updated successfully",
+      withdrawal,
+    });
+  }
+);
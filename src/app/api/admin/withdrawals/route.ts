@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { prisma } from "@/lib/prisma";
+import { Prisma, WithdrawalStatus } from "@prisma/client";
+
+// Get the withdrawal review queue (for administrators)
+export const GET = apiRoute(
+  { name: "Get withdrawal queue", permission: "withdrawal:listAll" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "PENDING";
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WithdrawalRequestWhereInput = {};
+
+    if (
+      ["PENDING", "APPROVED", "REJECTED", "PAID", "CANCELLED"].includes(status)
+    ) {
+      where.status = status as WithdrawalStatus;
+    }
+
+    const withdrawals = await prisma.withdrawalRequest.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        reviewedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      // Oldest first so the queue is worked in order of arrival
+      orderBy: {
+        createdAt: "asc",
+      },
+      skip,
+      take: limit,
+    });
+
+    const total = await prisma.withdrawalRequest.count({ where });
+    const statusCounts = await prisma.withdrawalRequest.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+      _sum: { amount: true },
+    });
+
+    return NextResponse.json({
+      withdrawals,
+      summary: statusCounts.map((row) => ({
+        status: row.status,
+        count: row._count._all,
+        totalAmount: row._sum.amount ?? 0,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
@@ -1,31 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
-import {
-  calculateBusinessMetrics,
-  type BusinessMetrics,
-} from "@/lib/analytics";
-
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only allow business owners to access business analytics
-    if (session.user.role !== "BUSINESS_OWNER") {
-      return NextResponse.json(
-        { error: "Access denied. Business owner role required." },
-        { status: 403 }
-      );
-    }
+import { calculateBusinessMetrics } from "@/lib/analytics";
 
+export const GET = apiRoute(
+  { name: "Business analytics API", permission: "analytics:business" },
+  async ({ session }) => {
     // Fetch user's business opportunities
     const opportunities = await prisma.business.findMany({
       where: {
@@ -125,14 +105,8 @@ export async function GET(request: NextRequest) {
         monthlyTrends: monthlyMetrics,
       },
     });
-  } catch (error) {
-    console.error("Business analytics API error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch business analytics" },
-      { status: 500 }
-    );
   }
-}
+);
 
 // Helper function to calculate monthly metrics
 function calculateMonthlyMetrics(investments: any[]) {
@@ -1,31 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
-import {
-  calculatePlatformMetrics,
-  type PlatformMetrics,
-} from "@/lib/analytics";
-
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only allow administrators to access platform analytics
-    if (session.user.role !== "ADMINISTRATOR") {
-      return NextResponse.json(
-        { error: "Access denied. Administrator role required." },
-        { status: 403 }
-      );
-    }
+import { calculatePlatformMetrics } from "@/lib/analytics";
 
+export const GET = apiRoute(
+  { name: "Platform analytics API", permission: "analytics:platform" },
+  async () => {
     // Fetch platform-wide data
     const [users, businesses, investments] = await Promise.all([
       prisma.user.findMany({
@@ -174,11 +154,5 @@ export async function GET(request: NextRequest) {
         },
       },
     });
-  } catch (error) {
-    console.error("Platform analytics API error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch platform analytics" },
-      { status: 500 }
-    );
   }
-}
+);
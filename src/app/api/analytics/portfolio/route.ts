@@ -1,6 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 import {
   calculatePortfolioMetrics,
@@ -8,26 +7,11 @@ import {
   generateTimeSeriesData,
   type Investment,
 } from "@/lib/analytics";
+import { fromKobo, getWalletSummary } from "@/lib/ledger";
 
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only allow investors to access portfolio analytics
-    if (session.user.role !== "INVESTOR") {
-      return NextResponse.json(
-        { error: "Access denied. Investor role required." },
-        { status: 403 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Portfolio analytics API", permission: "analytics:portfolio" },
+  async ({ request, session }) => {
     const { searchParams } = new URL(request.url);
     const timeRange = searchParams.get("timeRange") || "12"; // months
     const includeReturns = searchParams.get("includeReturns") === "true";
@@ -44,6 +28,10 @@ export async function GET(request: NextRequest) {
             industry: true,
           },
         },
+        payments: {
+          where: { status: "SUCCESSFUL" },
+          select: { id: true },
+        },
         returns: includeReturns
           ? {
               select: {
@@ -64,7 +52,8 @@ export async function GET(request: NextRequest) {
     const analyticsData: Investment[] = investments.map((inv: any) => ({
       id: inv.id,
       amount: inv.amount,
-      currentValue: inv.currentValue || inv.amount * 1.15, // Estimated growth if no current value
+      // Held at principal; returns are counted separately
+      currentValue: inv.amount,
       investmentDate: inv.createdAt.toISOString(),
       status: inv.status,
       business: {
@@ -82,8 +71,27 @@ export async function GET(request: NextRequest) {
           : undefined,
     }));
 
-    // Calculate portfolio metrics
-    const portfolioMetrics = calculatePortfolioMetrics(analyticsData);
+    // Paid investments that haven't been cancelled or settled, the same set
+    // whose principal makes up the ledger's invested balance
+    const heldIds = new Set(
+      investments
+        .filter(
+          (inv) =>
+            (inv.status === "PENDING" || inv.status === "ACTIVE") &&
+            inv.payments.length > 0
+        )
+        .map((inv) => inv.id)
+    );
+    const heldInvestments = analyticsData.filter((inv) => heldIds.has(inv.id));
+
+    // Calculate portfolio metrics, reconciled against the investor's ledger
+    const wallet = await getWalletSummary(session.user.id);
+    const portfolioMetrics = calculatePortfolioMetrics(heldInvestments, {
+      totalInvested: fromKobo(wallet.invested),
+      totalReturns: fromKobo(wallet.totalReturns),
+      availableBalance: fromKobo(wallet.available),
+      totalWithdrawn: fromKobo(wallet.totalWithdrawn),
+    });
 
     // Calculate sector analysis
     const sectorAnalysis = analyzeBySector(analyticsData);
@@ -110,14 +118,10 @@ export async function GET(request: NextRequest) {
           totalInvested: portfolioMetrics.totalInvested,
           totalCurrentValue: portfolioMetrics.totalCurrentValue,
           totalReturns: portfolioMetrics.totalReturns,
+          availableBalance: portfolioMetrics.availableBalance,
+          totalWithdrawn: portfolioMetrics.totalWithdrawn,
         },
       },
     });
-  } catch (error) {
-    console.error("Portfolio analytics API error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch portfolio analytics" },
-      { status: 500 }
-    );
   }
-}
+);
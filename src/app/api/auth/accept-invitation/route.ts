@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import { acceptInvitation, getInvitation } from "@/lib/admins";
+import { recordAuditEvent, requestOrigin } from "@/lib/audit";
+
+const acceptSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  password: passwordSchema,
+});
+
+// Who an invitation link is for, shown on the accept page
+export const GET = publicRoute(
+  { name: "Get invitation" },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const invitation = await getInvitation(searchParams.get("token") ?? "");
+
+    return NextResponse.json({ invitation });
+  }
+);
+
+// Create an administrator account from an emailed invitation
+export const POST = publicRoute(
+  { name: "Accept invitation" },
+  async ({ request }) => {
+    const body = await request.json();
+    const validatedData = acceptSchema.parse(body);
+
+    const admin = await acceptInvitation(validatedData.token, {
+      name: validatedData.name,
+      password: validatedData.password,
+    });
+
+    await recordAuditEvent({
+      action: "admin:create",
+      actor: { id: admin.id, role: admin.adminRole, ...requestOrigin(request) },
+      target: { type: "User", id: admin.id },
+      after: { email: admin.email, adminRole: admin.adminRole },
+      metadata: { method: "invitation" },
+    });
+
+    return NextResponse.json(
+      {
+        message: "Administrator account created. Please sign in.",
+        admin,
+      },
+      { status: 201 }
+    );
+  }
+);
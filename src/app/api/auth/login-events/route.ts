@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { getRecentLoginEvents } from "@/lib/login-throttle";
+
+// Current user's recent sign-ins, successful or not
+export const GET = apiRoute(
+  { name: "Get login events", permission: "account:manage" },
+  async ({ session }) => {
+    const events = await getRecentLoginEvents(session.user.id);
+
+    return NextResponse.json({ events });
+  }
+);
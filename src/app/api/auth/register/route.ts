@@ -1,17 +1,21 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
 import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import { sendVerificationEmail } from "@/lib/email-verification";
 
 const registerSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email address"),
-  password: z.string().min(8, "Password must be at least 8 characters"),
+  password: passwordSchema,
   role: z.enum(["INVESTOR", "BUSINESS_OWNER"]).default("INVESTOR"),
 });
 
-export async function POST(request: NextRequest) {
-  try {
+export const POST = publicRoute(
+  { name: "Registration" },
+  async ({ request }) => {
     const body = await request.json();
     const validatedData = registerSchema.parse(body);
 
@@ -47,22 +51,16 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    return NextResponse.json(
-      { message: "User created successfully", user },
-      { status: 201 }
-    );
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
-      );
+    // The account exists either way; the user can ask for a new link later
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error("Verification email error:", mailError);
     }
 
-    console.error("Registration error:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+      { message: "User created successfully", user },
+      { status: 201 }
     );
   }
-}
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { requestPasswordReset } from "@/lib/password-reset";
+
+const requestResetSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const POST = publicRoute(
+  { name: "Password reset request" },
+  async ({ request }) => {
+    const body = await request.json();
+    const validatedData = requestResetSchema.parse(body);
+
+    await requestPasswordReset(validatedData.email);
+
+    // Same response whether or not the account exists
+    return NextResponse.json({
+      message:
+        "If an account exists for that email, a password reset link has been sent",
+    });
+  }
+);
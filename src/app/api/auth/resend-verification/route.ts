@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { resendVerificationEmail } from "@/lib/email-verification";
+
+export const POST = apiRoute(
+  { name: "Resend verification", permission: "account:manage" },
+  async ({ session }) => {
+    await resendVerificationEmail(session.user.id);
+
+    return NextResponse.json({
+      message: "A new verification link has been sent to your email",
+    });
+  }
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import { resetPassword } from "@/lib/password-reset";
+
+const resetSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: passwordSchema,
+});
+
+export const POST = publicRoute(
+  { name: "Password reset" },
+  async ({ request }) => {
+    const body = await request.json();
+    const validatedData = resetSchema.parse(body);
+
+    await resetPassword(validatedData.token, validatedData.password);
+
+    return NextResponse.json({
+      message: "Password reset successfully. Please sign in again.",
+    });
+  }
+);
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { revokeSession } from "@/lib/sessions";
+
+interface RouteParams {
+  id: string;
+}
+
+// Sign out one of the current user's devices
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Revoke session", permission: "account:manage" },
+  async ({ params, session }) => {
+    await revokeSession(session.user.id, params.id);
+
+    return NextResponse.json({
+      message: "Session signed out",
+      current: params.id === session.sessionId,
+    });
+  }
+);
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { listActiveSessions, revokeSessions } from "@/lib/sessions";
+import { prisma } from "@/lib/prisma";
+
+// Current user's signed-in devices
+export const GET = apiRoute(
+  { name: "Get sessions", permission: "account:manage" },
+  async ({ session }) => {
+    const sessions = await listActiveSessions(session.user.id);
+
+    return NextResponse.json({
+      sessions: sessions.map((record) => ({
+        ...record,
+        current: record.id === session.sessionId,
+      })),
+    });
+  }
+);
+
+// Sign out every device except this one
+export const DELETE = apiRoute(
+  { name: "Revoke other sessions", permission: "account:manage" },
+  async ({ session }) => {
+    const count = await revokeSessions(
+      prisma,
+      session.user.id,
+      "REVOKED",
+      session.sessionId ?? null
+    );
+
+    return NextResponse.json({
+      message: `Signed out ${count} other session${count === 1 ? "" : "s"}`,
+      count,
+    });
+  }
+);
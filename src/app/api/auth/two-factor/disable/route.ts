@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { disableTwoFactor } from "@/lib/two-factor";
+
+const codeSchema = z.object({
+  code: z.string().min(1, "Authentication code is required"),
+});
+
+// Turn two-factor authentication off (not allowed for administrators)
+export const POST = apiRoute(
+  { name: "Disable two-factor", permission: "account:manage" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const validatedData = codeSchema.parse(body);
+
+    await disableTwoFactor(session.user.id, validatedData.code, request);
+
+    return NextResponse.json({
+      message: "Two-factor authentication disabled",
+    });
+  }
+);
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { enableTwoFactor } from "@/lib/two-factor";
+
+const codeSchema = z.object({
+  code: z.string().min(1, "Authentication code is required"),
+});
+
+// Confirm enrollment with a code from the authenticator app
+export const POST = apiRoute(
+  { name: "Enable two-factor", permission: "account:manage" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const validatedData = codeSchema.parse(body);
+
+    const recoveryCodes = await enableTwoFactor(
+      session.user.id,
+      validatedData.code
+    );
+
+    return NextResponse.json({
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+    });
+  }
+);
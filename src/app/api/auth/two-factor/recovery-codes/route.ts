@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { regenerateRecoveryCodes } from "@/lib/two-factor";
+
+const codeSchema = z.object({
+  code: z.string().min(1, "Authentication code is required"),
+});
+
+// Replace recovery codes; the old ones stop working
+export const POST = apiRoute(
+  { name: "Regenerate recovery codes", permission: "account:manage" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const validatedData = codeSchema.parse(body);
+
+    const recoveryCodes = await regenerateRecoveryCodes(
+      session.user.id,
+      validatedData.code,
+      request
+    );
+
+    return NextResponse.json({
+      message: "New recovery codes generated",
+      recoveryCodes,
+    });
+  }
+);
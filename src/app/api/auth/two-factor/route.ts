@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { getTwoFactorStatus } from "@/lib/two-factor";
+
+// Current user's two-factor status
+export const GET = apiRoute(
+  { name: "Get two-factor status", permission: "account:manage" },
+  async ({ session }) => {
+    const status = await getTwoFactorStatus(session.user.id);
+
+    return NextResponse.json(status);
+  }
+);
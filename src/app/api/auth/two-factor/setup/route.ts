@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { beginTwoFactorSetup } from "@/lib/two-factor";
+
+// Start enrollment and return the secret and otpauth URI for the QR code
+export const POST = apiRoute(
+  { name: "Two-factor setup", permission: "account:manage" },
+  async ({ session }) => {
+    const setup = await beginTwoFactorSetup(session.user.id);
+
+    return NextResponse.json(setup);
+  }
+);
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { verifyEmail } from "@/lib/email-verification";
+
+const verifySchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export const POST = publicRoute(
+  { name: "Email verification" },
+  async ({ request }) => {
+    const body = await request.json();
+    const validatedData = verifySchema.parse(body);
+
+    const user = await verifyEmail(validatedData.token);
+
+    return NextResponse.json({
+      message: "Email verified successfully",
+      user,
+    });
+  }
+);
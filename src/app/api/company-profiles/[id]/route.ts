@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+import {
+  companyProfileSchema,
+  deleteCompanyProfile,
+  getCompanyProfile,
+  updateCompanyProfile,
+} from "@/lib/company-profiles";
+
+interface RouteParams {
+  id: string;
+}
+
+// Company profile update validation schema; send null to clear an optional
+// field
+const updateSchema = companyProfileSchema.partial();
+
+// Registration details reviewers check during vetting
+const auditedRegistration = (profile: {
+  registeredName: string;
+  rcNumber: string;
+}) => ({
+  registeredName: profile.registeredName,
+  rcNumber: profile.rcNumber,
+});
+
+// One company profile with its team (for its owner)
+export const GET = apiRoute<RouteParams>(
+  { name: "Get company profile" },
+  async ({ params, actor }) => {
+    const profile = await getCompanyProfile(params.id);
+    authorize(actor, "company:manage", profile);
+
+    return NextResponse.json({ profile });
+  }
+);
+
+// Update a company profile; every opportunity linked to it shows the change
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update company profile" },
+  async ({ request, params, actor }) => {
+    const profile = await getCompanyProfile(params.id);
+    authorize(actor, "company:manage", profile);
+
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const updated = await updateCompanyProfile(profile.id, validatedData);
+
+    await recordAuditEvent({
+      action: "company:update",
+      actor: auditActor(actor, request),
+      target: { type: "CompanyProfile", id: profile.id },
+      before: auditedRegistration(profile),
+      after: auditedRegistration(updated),
+    });
+
+    return NextResponse.json({
+      message: "Company profile updated",
+      profile: updated,
+    });
+  }
+);
+
+// Delete a company profile no opportunity uses
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Delete company profile" },
+  async ({ params, actor }) => {
+    const profile = await getCompanyProfile(params.id);
+    authorize(actor, "company:manage", profile);
+
+    await deleteCompanyProfile(profile.id);
+
+    return NextResponse.json({ message: "Company profile deleted" });
+  }
+);
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { apiRoute, publicRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import {
+  CompanyProfileError,
+  MAX_PHOTO_SIZE,
+  getTeamMember,
+  readTeamMemberPhoto,
+  removeTeamMemberPhoto,
+  setTeamMemberPhoto,
+} from "@/lib/company-profiles";
+
+interface RouteParams {
+  id: string;
+  memberId: string;
+}
+
+// Team member photo, shown with their bio on opportunity pages
+export const GET = publicRoute<RouteParams>(
+  { name: "Get team member photo" },
+  async ({ params }) => {
+    const stored = await readTeamMemberPhoto(params.id, params.memberId);
+
+    return new Response(new Uint8Array(stored.body), {
+      headers: {
+        "Content-Type": stored.contentType,
+        // The URL changes whenever the photo does
+        "Cache-Control": "public, max-age=86400",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  }
+);
+
+// Upload or replace a team member's photo as the multipart field "photo"
+// (for the company's owner)
+export const PUT = apiRoute<RouteParams>(
+  { name: "Upload team member photo" },
+  async ({ request, params, actor }) => {
+    const member = await getTeamMember(params.id, params.memberId);
+    authorize(actor, "company:manage", member.companyProfile);
+
+    const form = await request.formData();
+    const file = form.get("photo");
+    if (!(file instanceof File) || file.size === 0) {
+      throw new CompanyProfileError("Choose a photo to upload");
+    }
+
+    // Checked before reading so oversized uploads aren't buffered
+    if (file.size > MAX_PHOTO_SIZE) {
+      throw new CompanyProfileError(
+        `Photos must be ${MAX_PHOTO_SIZE / (1024 * 1024)} MB or smaller`
+      );
+    }
+
+    const updated = await setTeamMemberPhoto(member.id, {
+      fileName: file.name,
+      contentType: file.type,
+      body: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ message: "Photo uploaded", member: updated });
+  }
+);
+
+// Remove a team member's photo (for the company's owner)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Remove team member photo" },
+  async ({ params, actor }) => {
+    const member = await getTeamMember(params.id, params.memberId);
+    authorize(actor, "company:manage", member.companyProfile);
+
+    const updated = await removeTeamMemberPhoto(member.id);
+
+    return NextResponse.json({ message: "Photo removed", member: updated });
+  }
+);
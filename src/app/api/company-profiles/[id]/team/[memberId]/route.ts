@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import {
+  getTeamMember,
+  removeTeamMember,
+  teamMemberSchema,
+  updateTeamMember,
+} from "@/lib/company-profiles";
+
+interface RouteParams {
+  id: string;
+  memberId: string;
+}
+
+// Team member update validation schema; send null to clear an optional field
+const updateSchema = teamMemberSchema.partial();
+
+// Update a team member's details or display order (for the company's owner)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update team member" },
+  async ({ request, params, actor }) => {
+    const member = await getTeamMember(params.id, params.memberId);
+    authorize(actor, "company:manage", member.companyProfile);
+
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const updated = await updateTeamMember(member.id, validatedData);
+
+    return NextResponse.json({
+      message: "Team member updated",
+      member: updated,
+    });
+  }
+);
+
+// Remove a team member and their photo (for the company's owner)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Remove team member" },
+  async ({ params, actor }) => {
+    const member = await getTeamMember(params.id, params.memberId);
+    authorize(actor, "company:manage", member.companyProfile);
+
+    await removeTeamMember(member.id);
+
+    return NextResponse.json({ message: "Team member removed" });
+  }
+);
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import {
+  addTeamMember,
+  getCompanyProfile,
+  teamMemberSchema,
+} from "@/lib/company-profiles";
+
+interface RouteParams {
+  id: string;
+}
+
+// Add a member to a company's management team (for its owner)
+export const POST = apiRoute<RouteParams>(
+  { name: "Add team member" },
+  async ({ request, params, actor }) => {
+    const profile = await getCompanyProfile(params.id);
+    authorize(actor, "company:manage", profile);
+
+    const body = await request.json();
+    const validatedData = teamMemberSchema.parse(body);
+
+    const member = await addTeamMember(profile.id, validatedData);
+
+    return NextResponse.json(
+      { message: "Team member added", member },
+      { status: 201 }
+    );
+  }
+);
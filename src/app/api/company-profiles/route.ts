@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import {
+  NIGERIAN_STATES,
+  companyProfileSchema,
+  createCompanyProfile,
+  listCompanyProfiles,
+} from "@/lib/company-profiles";
+
+// The current owner's company profiles with their management teams, and the
+// states a head office can be in
+export const GET = apiRoute(
+  { name: "Get company profiles", permission: "company:create" },
+  async ({ actor }) => {
+    const profiles = await listCompanyProfiles(actor.id);
+
+    return NextResponse.json({ profiles, states: NIGERIAN_STATES });
+  }
+);
+
+// Create a company profile to link to opportunities (for business owners)
+export const POST = apiRoute(
+  { name: "Create company profile", permission: "company:create" },
+  async ({ request, actor }) => {
+    const body = await request.json();
+    const validatedData = companyProfileSchema.parse(body);
+
+    const profile = await createCompanyProfile(actor.id, validatedData);
+
+    return NextResponse.json(
+      { message: "Company profile created", profile },
+      { status: 201 }
+    );
+  }
+);
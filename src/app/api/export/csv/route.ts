@@ -1,20 +1,18 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
 import { PrismaClient } from "@prisma/client";
 
 const prisma = new PrismaClient();
 
-export async function POST(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
+export const POST = apiRoute(
+  { name: "CSV export", permission: "export:create" },
+  async ({ request, actor }) => {
     const { userId, options } = await request.json();
-    const actualUserId = userId || session.user.id;
+    const actualUserId = userId || actor.id;
+
+    // Exporting someone else's portfolio is for administrators only
+    authorize(actor, "portfolio:export", { userId: actualUserId });
 
     // Fetch user's investment data from database
     const user = await prisma.user.findUnique({
@@ -87,11 +85,5 @@ export async function POST(request: NextRequest) {
         }.csv"`,
       },
     });
-  } catch (error) {
-    console.error("CSV export error:", error);
-    return NextResponse.json(
-      { error: "Failed to generate CSV export" },
-      { status: 500 }
-    );
   }
-}
+);
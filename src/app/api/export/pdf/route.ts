@@ -1,15 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
-
-export async function POST(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 
+export const POST = apiRoute(
+  { name: "PDF generation", permission: "export:create" },
+  async ({ request }) => {
     const { htmlContent, filename } = await request.json();
 
     if (!htmlContent) {
@@ -60,11 +54,5 @@ export async function POST(request: NextRequest) {
         "Install Puppeteer or similar library for HTML to PDF conversion",
       htmlContent: htmlContent.substring(0, 200) + "...",
     });
-  } catch (error) {
-    console.error("PDF generation error:", error);
-    return NextResponse.json(
-      { error: "Failed to generate PDF" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,33 +1,29 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import {
+  resolveInvestmentActor,
+  transitionInvestment,
+} from "@/lib/investments";
+import { requestOrigin } from "@/lib/audit";
 
 // Investment status update validation schema
 const statusUpdateSchema = z.object({
-  status: z.enum(["PENDING", "ACTIVE", "COMPLETED", "CANCELLED"]),
+  status: z.enum(["ACTIVE", "COMPLETED", "CANCELLED"]),
   note: z.string().optional(),
 });
 
-interface RouteContext {
-  params: {
-    id: string;
-  };
+interface RouteParams {
+  id: string;
 }
 
 // Get specific investment details
-export async function GET(request: NextRequest, context: RouteContext) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const investmentId = context.params.id;
+export const GET = apiRoute<RouteParams>(
+  { name: "Get investment" },
+  async ({ params, actor }) => {
+    const investmentId = params.id;
 
     const investment = await prisma.investment.findUnique({
       where: { id: investmentId },
@@ -55,6 +51,20 @@ export async function GET(request: NextRequest, context: RouteContext) {
             createdAt: "desc",
           },
         },
+        statusHistory: {
+          include: {
+            actor: {
+              select: {
+                id: true,
+                name: true,
+                role: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
       },
     });
 
@@ -65,18 +75,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Check authorization - user must be the investor, business owner, or admin
-    const isAuthorized =
-      session.user.id === investment.investorId ||
-      session.user.id === investment.business.ownerId ||
-      session.user.role === "ADMINISTRATOR";
-
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: "Not authorized to view this investment" },
-        { status: 403 }
-      );
-    }
+    authorize(actor, "investment:read", investment);
 
     // Calculate investment performance
     const totalReturns = investment.returns.reduce(
@@ -98,27 +97,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
         },
       },
     });
-  } catch (error) {
-    console.error("Get investment error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
 
-// Update investment status (for business owners and admins)
-export async function PATCH(request: NextRequest, context: RouteContext) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const investmentId = context.params.id;
+// Move an investment through its status workflow
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update investment" },
+  async ({ request, params, actor }) => {
+    const investmentId = params.id;
     const body = await request.json();
     const validatedData = statusUpdateSchema.parse(body);
 
@@ -126,11 +112,10 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       where: { id: investmentId },
       include: {
         business: {
-          include: {
-            owner: true,
+          select: {
+            ownerId: true,
           },
         },
-        investor: true,
       },
     });
 
@@ -141,95 +126,32 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Check authorization - only business owner or admin can update status
-    const isAuthorized =
-      session.user.id === investment.business.ownerId ||
-      session.user.role === "ADMINISTRATOR";
-
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: "Not authorized to update this investment" },
-        { status: 403 }
-      );
-    }
-
-    // Update investment status
-    const updatedInvestment = await prisma.investment.update({
-      where: { id: investmentId },
-      data: {
-        status: validatedData.status,
-        updatedAt: new Date(),
-      },
-      include: {
-        business: {
-          select: {
-            title: true,
-          },
-        },
-        investor: {
-          select: {
-            name: true,
-          },
-        },
-      },
-    });
-
-    // Create notification for investor
-    const statusMessages = {
-      PENDING: "Your investment is pending review",
-      ACTIVE: "Your investment has been approved and is now active",
-      COMPLETED: "Your investment has been completed",
-      CANCELLED: "Your investment has been cancelled",
-    };
+    authorize(actor, "investment:updateStatus", investment);
 
-    await prisma.notification.create({
-      data: {
-        title: "Investment Status Updated",
-        content: `${statusMessages[validatedData.status]} for ${
-          investment.business.title
-        }${validatedData.note ? `. Note: ${validatedData.note}` : ""}`,
-        userId: investment.investorId,
+    // The transition table decides what each party may do
+    const updatedInvestment = await transitionInvestment(
+      investmentId,
+      validatedData.status,
+      {
+        ...resolveInvestmentActor(actor, investment)!,
+        ...requestOrigin(request),
       },
-    });
+      validatedData.note
+    );
 
     return NextResponse.json({
       message: "Investment status updated successfully",
       investment: updatedInvestment,
     });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
-      );
-    }
-
-    console.error("Update investment error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
 
 // Cancel investment (for investors, before approval)
-export async function DELETE(request: NextRequest, context: RouteContext) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const investmentId = context.params.id;
-
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Cancel investment" },
+  async ({ request, params, actor }) => {
     const investment = await prisma.investment.findUnique({
-      where: { id: investmentId },
-      include: {
-        business: true,
-      },
+      where: { id: params.id },
     });
 
     if (!investment) {
@@ -239,61 +161,18 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Check authorization - only investor can cancel their own investment
-    if (session.user.id !== investment.investorId) {
-      return NextResponse.json(
-        { error: "Not authorized to cancel this investment" },
-        { status: 403 }
-      );
-    }
-
-    // Can only cancel pending investments
-    if (investment.status !== "PENDING") {
-      return NextResponse.json(
-        { error: "Can only cancel pending investments" },
-        { status: 400 }
-      );
-    }
-
-    // Update investment status to cancelled
-    const cancelledInvestment = await prisma.investment.update({
-      where: { id: investmentId },
-      data: {
-        status: "CANCELLED",
-        updatedAt: new Date(),
-      },
-    });
-
-    // Reduce the business currentRaised amount
-    await prisma.business.update({
-      where: { id: investment.businessId },
-      data: {
-        currentRaised: {
-          decrement: investment.amount,
-        },
-      },
-    });
+    // Only the investor can withdraw their own investment here
+    authorize(actor, "investment:cancel", investment);
 
-    // Create notification for business owner
-    await prisma.notification.create({
-      data: {
-        title: "Investment Cancelled",
-        content: `An investment of ₦${investment.amount.toLocaleString()} in ${
-          investment.business.title
-        } has been cancelled by the investor`,
-        userId: investment.business.ownerId,
-      },
-    });
+    const cancelledInvestment = await transitionInvestment(
+      investment.id,
+      "CANCELLED",
+      { role: "INVESTOR", userId: actor.id, ...requestOrigin(request) }
+    );
 
     return NextResponse.json({
       message: "Investment cancelled successfully",
       investment: cancelledInvestment,
     });
-  } catch (error) {
-    console.error("Cancel investment error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
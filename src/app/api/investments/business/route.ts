@@ -1,32 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only business owners and administrators can access this endpoint
-    if (
-      session.user.role !== "BUSINESS_OWNER" &&
-      session.user.role !== "ADMINISTRATOR"
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Access denied. Business owner or administrator role required.",
-        },
-        { status: 403 }
-      );
-    }
-
+export const GET = apiRoute(
+  {
+    name: "Get business investments",
+    permission: "investment:listForBusiness",
+  },
+  async ({ request, actor }) => {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const page = parseInt(searchParams.get("page") || "1");
@@ -37,11 +18,11 @@ export async function GET(request: NextRequest) {
     // Build where clause based on user role
     let where: any = {};
 
-    if (session.user.role === "BUSINESS_OWNER") {
+    if (actor.role === "BUSINESS_OWNER") {
       // Business owners can only see investments in their own opportunities
       where = {
         business: {
-          ownerId: session.user.id,
+          ownerId: actor.id,
         },
       };
     }
@@ -129,11 +110,5 @@ export async function GET(request: NextRequest) {
         activeInvestments,
       },
     });
-  } catch (error) {
-    console.error("Get business investments error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
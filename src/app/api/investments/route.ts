@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { initializeInvestmentCheckout } from "@/lib/payments";
+import { fromKobo, getWalletSummary } from "@/lib/ledger";
+import { createInvestment } from "@/lib/investments";
+import { requireVerifiedEmail } from "@/lib/email-verification";
 
 // Investment submission validation schema
 const investmentSchema = z.object({
@@ -10,154 +13,38 @@ const investmentSchema = z.object({
   amount: z.number().min(1, "Investment amount must be greater than 0"),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only investors can make investments
-    if (session.user.role !== "INVESTOR") {
-      return NextResponse.json(
-        { error: "Only investors can make investments" },
-        { status: 403 }
-      );
-    }
+export const POST = apiRoute(
+  { name: "Investment creation", permission: "investment:create" },
+  async ({ request, session }) => {
+    const unverified = await requireVerifiedEmail(session.user.id, "investing");
+    if (unverified) return unverified;
 
     const body = await request.json();
     const validatedData = investmentSchema.parse(body);
 
-    // Get the business opportunity
-    const business = await prisma.business.findUnique({
-      where: { id: validatedData.businessId },
-      include: {
-        owner: true,
-        investments: true,
-      },
-    });
-
-    if (!business) {
-      return NextResponse.json(
-        { error: "Business opportunity not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check if business is still open for investment
-    if (business.status !== "OPEN") {
-      return NextResponse.json(
-        { error: "This investment opportunity is no longer open" },
-        { status: 400 }
-      );
-    }
-
-    // Validate minimum investment amount
-    if (validatedData.amount < business.minimumInvestment) {
-      return NextResponse.json(
-        {
-          error: `Minimum investment amount is ₦${business.minimumInvestment.toLocaleString()}`,
-        },
-        { status: 400 }
-      );
-    }
-
-    // Check if investment would exceed target capital
-    const totalAfterInvestment = business.currentRaised + validatedData.amount;
-    if (totalAfterInvestment > business.targetCapital) {
-      const remainingAmount = business.targetCapital - business.currentRaised;
-      return NextResponse.json(
-        {
-          error: `Investment amount exceeds remaining capacity. Maximum available: ₦${remainingAmount.toLocaleString()}`,
-        },
-        { status: 400 }
-      );
-    }
-
-    // Check if user has already invested in this business
-    const existingInvestment = await prisma.investment.findFirst({
-      where: {
-        investorId: session.user.id,
-        businessId: validatedData.businessId,
-        status: {
-          in: ["PENDING", "ACTIVE"],
-        },
-      },
+    // Validate, reserve capacity and create the investment atomically
+    const investment = await createInvestment({
+      investorId: session.user.id,
+      businessId: validatedData.businessId,
+      amount: validatedData.amount,
     });
 
-    if (existingInvestment) {
-      return NextResponse.json(
-        { error: "You already have an active investment in this opportunity" },
-        { status: 400 }
-      );
+    // Capital only counts toward currentRaised once the payment confirms
+    let payment = null;
+    try {
+      payment = await initializeInvestmentCheckout(investment.id);
+    } catch (checkoutError) {
+      // The investment stays PENDING and checkout can be retried later
+      console.error("Checkout initialization error:", checkoutError);
     }
 
-    // Create the investment
-    const investment = await prisma.investment.create({
-      data: {
-        amount: validatedData.amount,
-        status: "PENDING",
-        investorId: session.user.id,
-        businessId: validatedData.businessId,
-      },
-      include: {
-        investor: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        business: {
-          select: {
-            id: true,
-            title: true,
-            owner: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Update the business currentRaised amount
-    await prisma.business.update({
-      where: { id: validatedData.businessId },
-      data: {
-        currentRaised: {
-          increment: validatedData.amount,
-        },
-      },
-    });
-
-    // Create notification for business owner
-    await prisma.notification.create({
-      data: {
-        title: "New Investment Received",
-        content: `${
-          session.user.name
-        } has invested ₦${validatedData.amount.toLocaleString()} in ${
-          business.title
-        }`,
-        userId: business.ownerId,
-      },
-    });
-
     // Create notification for investor
     await prisma.notification.create({
       data: {
         title: "Investment Submitted",
         content: `Your investment of ₦${validatedData.amount.toLocaleString()} in ${
-          business.title
-        } is pending approval`,
+          investment.business.title
+        } is awaiting payment`,
         userId: session.user.id,
       },
     });
@@ -172,36 +59,21 @@ export async function POST(request: NextRequest) {
           businessTitle: investment.business.title,
           createdAt: investment.createdAt,
         },
+        payment: payment && {
+          reference: payment.reference,
+          provider: payment.provider,
+          checkoutUrl: payment.checkoutUrl,
+        },
       },
       { status: 201 }
     );
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
-      );
-    }
-
-    console.error("Investment creation error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
 
 // Get user's investments
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Get investments", permission: "investment:listOwn" },
+  async ({ request, session }) => {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const page = parseInt(searchParams.get("page") || "1");
@@ -253,13 +125,12 @@ export async function GET(request: NextRequest) {
     // Get total count for pagination
     const totalCount = await prisma.investment.count({ where });
 
-    // Calculate summary statistics
-    const totalInvested = investments.reduce((sum, inv) => sum + inv.amount, 0);
-    const totalReturns = investments.reduce(
-      (sum, inv) =>
-        sum + inv.returns.reduce((returnSum, ret) => returnSum + ret.amount, 0),
-      0
-    );
+    // Summary figures come from the ledger so they cover every investment,
+    // not just the current page
+    const wallet = await getWalletSummary(session.user.id);
+    const activeInvestments = await prisma.investment.count({
+      where: { investorId: session.user.id, status: "ACTIVE" },
+    });
 
     return NextResponse.json({
       investments,
@@ -270,18 +141,13 @@ export async function GET(request: NextRequest) {
         pages: Math.ceil(totalCount / limit),
       },
       summary: {
-        totalInvested,
-        totalReturns,
-        totalValue: totalInvested + totalReturns,
-        activeInvestments: investments.filter((inv) => inv.status === "ACTIVE")
-          .length,
+        totalInvested: fromKobo(wallet.invested),
+        totalReturns: fromKobo(wallet.totalReturns),
+        totalValue: fromKobo(wallet.invested + wallet.totalReturns),
+        walletBalance: fromKobo(wallet.available),
+        totalWithdrawn: fromKobo(wallet.totalWithdrawn),
+        activeInvestments,
       },
     });
-  } catch (error) {
-    console.error("Get investments error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,28 @@
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { getKycDocument } from "@/lib/kyc";
+import { contentDisposition } from "@/lib/storage";
+
+interface RouteParams {
+  id: string;
+}
+
+// Download an identity document (its owner or an administrator)
+export const GET = apiRoute<RouteParams>(
+  { name: "Get KYC document" },
+  async ({ params, actor }) => {
+    const document = await getKycDocument(params.id);
+    authorize(actor, "kyc:readDocument", document);
+
+    const stored = await document.read();
+
+    return new Response(new Uint8Array(stored.body), {
+      headers: {
+        "Content-Type": stored.contentType,
+        "Content-Disposition": contentDisposition("inline", document.fileName),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  }
+);
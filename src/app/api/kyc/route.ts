@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { KycDocumentType } from "@prisma/client";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import {
+  KycDocumentUpload,
+  KycError,
+  MAX_DOCUMENT_SIZE,
+  bvnSchema,
+  getKycStatus,
+  ninSchema,
+  submitKyc,
+} from "@/lib/kyc";
+
+// Verification submission validation schema; documents are separate
+// multipart file fields named after their type
+const submissionSchema = z.object({
+  tier: z.enum(["TIER_1", "TIER_2", "TIER_3"]),
+  bvn: bvnSchema.optional(),
+  nin: ninSchema.optional(),
+});
+
+const DOCUMENT_FIELDS: KycDocumentType[] = [
+  "PASSPORT",
+  "NIN_SLIP",
+  "UTILITY_BILL",
+];
+
+// Current user's verification tier, limits and latest submission
+export const GET = apiRoute(
+  { name: "Get KYC status", permission: "account:manage" },
+  async ({ session }) => {
+    const status = await getKycStatus(session.user.id);
+
+    return NextResponse.json(status);
+  }
+);
+
+// Submit identity numbers and documents for a higher tier
+export const POST = apiRoute(
+  { name: "KYC submission", permission: "kyc:submit" },
+  async ({ request, session }) => {
+    const form = await request.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === "string" && value.trim()
+        ? value.trim()
+        : undefined;
+    };
+
+    const validatedData = submissionSchema.parse({
+      tier: field("tier"),
+      bvn: field("bvn"),
+      nin: field("nin"),
+    });
+
+    const documents: KycDocumentUpload[] = [];
+    for (const type of DOCUMENT_FIELDS) {
+      const file = form.get(type);
+      if (!(file instanceof File) || file.size === 0) continue;
+
+      // Checked before reading so oversized uploads aren't buffered
+      if (file.size > MAX_DOCUMENT_SIZE) {
+        throw new KycError(
+          `Documents must be ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB or smaller`
+        );
+      }
+
+      documents.push({
+        type,
+        fileName: file.name,
+        contentType: file.type,
+        body: Buffer.from(await file.arrayBuffer()),
+      });
+    }
+
+    const submission = await submitKyc(session.user.id, {
+      ...validatedData,
+      documents,
+    });
+
+    return NextResponse.json(
+      {
+        message: "Verification submitted for review",
+        submission,
+      },
+      { status: 201 }
+    );
+  }
+);
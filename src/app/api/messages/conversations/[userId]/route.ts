@@ -1,26 +1,16 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 
-interface RouteContext {
-  params: {
-    userId: string;
-  };
+interface RouteParams {
+  userId: string;
 }
 
 // Get conversation between current user and another user
-export async function GET(request: NextRequest, context: RouteContext) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const { userId } = context.params;
+export const GET = apiRoute<RouteParams>(
+  { name: "Get conversation", permission: "message:read" },
+  async ({ request, params, session }) => {
+    const { userId } = params;
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "50");
@@ -113,11 +103,5 @@ export async function GET(request: NextRequest, context: RouteContext) {
         totalPages: Math.ceil(total / limit),
       },
     });
-  } catch (error) {
-    console.error("Error fetching conversation:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch conversation" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,19 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 
 // Get list of conversations (users that the current user has messaged with)
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Get conversations", permission: "message:read" },
+  async ({ session }) => {
     // Get all unique users that have had conversations with the current user
     const sentMessages = await prisma.message.findMany({
       where: { senderId: session.user.id },
@@ -97,11 +89,5 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       conversations: validConversations,
     });
-  } catch (error) {
-    console.error("Error fetching conversations:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch conversations" },
-      { status: 500 }
-    );
   }
-}
+);
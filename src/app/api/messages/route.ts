@@ -1,8 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
 
 // Message creation validation schema
 const messageSchema = z.object({
@@ -18,16 +18,9 @@ const messageSchema = z.object({
 });
 
 // Get messages for the authenticated user
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Get messages", permission: "message:read" },
+  async ({ request, session }) => {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get("type") || "received"; // received or sent
     const page = parseInt(searchParams.get("page") || "1");
@@ -93,26 +86,13 @@ export async function GET(request: NextRequest) {
         totalPages: Math.ceil(total / limit),
       },
     });
-  } catch (error) {
-    console.error("Error fetching messages:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch messages" },
-      { status: 500 }
-    );
   }
-}
+);
 
 // Send a new message
-export async function POST(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const POST = apiRoute(
+  { name: "Message sending", permission: "message:send" },
+  async ({ request, session, actor }) => {
     const body = await request.json();
     const validatedData = messageSchema.parse(body);
 
@@ -166,6 +146,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Who wrote to whom, not what was said
+    await recordAuditEvent({
+      action: "message:send",
+      actor: auditActor(actor, request),
+      target: { type: "Message", id: message.id },
+      metadata: { receiverId: validatedData.receiverId },
+    });
+
     // Create notification for the receiver
     await prisma.notification.create({
       data: {
@@ -182,18 +170,5 @@ export async function POST(request: NextRequest) {
       },
       { status: 201 }
     );
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
-      );
-    }
-
-    console.error("Message sending error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,19 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 
 // Get unread message count for current user
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Get unread count", permission: "message:read" },
+  async ({ session }) => {
     // Count unread messages for the current user
     const unreadCount = await prisma.message.count({
       where: {
@@ -25,11 +17,5 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       unreadCount,
     });
-  } catch (error) {
-    console.error("Error fetching unread count:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch unread count" },
-      { status: 500 }
-    );
   }
-}
+);
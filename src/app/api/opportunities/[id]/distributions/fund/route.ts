@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { AppError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { MAX_DISTRIBUTION_AMOUNT } from "@/lib/distributions";
+import { initializeDistributionFundingCheckout } from "@/lib/payments";
+
+const fundSchema = z.object({
+  amount: z
+    .number()
+    .positive("Amount must be greater than 0")
+    .max(
+      MAX_DISTRIBUTION_AMOUNT,
+      `Amount can't exceed ₦${MAX_DISTRIBUTION_AMOUNT.toLocaleString()}`
+    ),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Start a checkout for the owner to pay into the opportunity's distribution fund
+export const POST = apiRoute<RouteParams>(
+  { name: "Fund distributions" },
+  async ({ request, params, actor }) => {
+    const business = await prisma.business.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true },
+    });
+
+    if (!business) {
+      throw new AppError("Business opportunity not found", 404);
+    }
+
+    authorize(actor, "distribution:fund", business);
+
+    const body = await request.json();
+    const validatedData = fundSchema.parse(body);
+
+    const payment = await initializeDistributionFundingCheckout(
+      business.id,
+      validatedData.amount
+    );
+
+    return NextResponse.json(
+      {
+        message: "Checkout initialized",
+        payment: {
+          reference: payment.reference,
+          provider: payment.provider,
+          amount: payment.amount,
+          checkoutUrl: payment.checkoutUrl,
+        },
+      },
+      { status: 201 }
+    );
+  }
+);
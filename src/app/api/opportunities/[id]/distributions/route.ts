@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { Actor, authorize } from "@/lib/authorization";
+import { AppError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  MAX_DISTRIBUTION_AMOUNT,
+  MAX_YIELD_PERCENT,
+  createDistributionSchedule,
+  declareDistribution,
+} from "@/lib/distributions";
+import { fromKobo, getAccountBalance, getDistributionFund } from "@/lib/ledger";
+
+// A one-off payout is either a total amount or a yield on invested capital;
+// recurring schedules default their yield from the opportunity's expected ROI
+const distributionSchema = z
+  .object({
+    schedule: z
+      .enum(["ONE_OFF", "MONTHLY", "QUARTERLY", "AT_MATURITY"])
+      .default("ONE_OFF"),
+    totalAmount: z.number().positive().max(MAX_DISTRIBUTION_AMOUNT).optional(),
+    yieldPercent: z.number().positive().max(MAX_YIELD_PERCENT).optional(),
+    description: z.string().max(200).optional(),
+    startsAt: z.string().datetime().optional(),
+  })
+  .refine(
+    (data) =>
+      data.schedule !== "ONE_OFF" ||
+      (data.totalAmount === undefined) !== (data.yieldPercent === undefined),
+    { message: "Provide either a total amount or a yield percentage" }
+  )
+  .refine(
+    (data) => data.schedule === "ONE_OFF" || data.totalAmount === undefined,
+    { message: "Recurring distributions are set as a yield percentage" }
+  );
+
+interface RouteParams {
+  id: string;
+}
+
+// Only the opportunity's owner or an administrator manages payouts
+async function findManagedBusiness(actor: Actor, businessId: string) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true, ownerId: true },
+  });
+
+  if (!business) {
+    throw new AppError("Business opportunity not found", 404);
+  }
+
+  authorize(actor, "distribution:manage", business);
+
+  return business;
+}
+
+// List distributions and schedules for an opportunity
+export const GET = apiRoute<RouteParams>(
+  { name: "Get distributions" },
+  async ({ params, actor }) => {
+    const business = await findManagedBusiness(actor, params.id);
+
+    const fund = await getDistributionFund(prisma, business);
+    const [distributions, schedules, fundBalance] = await Promise.all([
+      prisma.distribution.findMany({
+        where: { businessId: business.id },
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.distributionSchedule.findMany({
+        where: { businessId: business.id },
+        orderBy: { createdAt: "desc" },
+      }),
+      getAccountBalance(prisma, fund.id),
+    ]);
+
+    const totalDistributed = distributions.reduce(
+      (sum, distribution) => sum + distribution.totalAmount,
+      0
+    );
+
+    return NextResponse.json({
+      distributions,
+      schedules,
+      summary: {
+        totalDistributed,
+        distributionCount: distributions.length,
+        activeSchedules: schedules.filter((schedule) => schedule.active).length,
+        fundBalance: fromKobo(fundBalance),
+      },
+    });
+  }
+);
+
+// Declare a one-off distribution or set up a recurring schedule
+export const POST = apiRoute<RouteParams>(
+  { name: "Create distribution" },
+  async ({ request, params, actor }) => {
+    const business = await findManagedBusiness(actor, params.id);
+
+    const body = await request.json();
+    const validatedData = distributionSchema.parse(body);
+
+    if (validatedData.schedule === "ONE_OFF") {
+      const distribution = await declareDistribution({
+        businessId: business.id,
+        actorId: actor.id,
+        totalAmount: validatedData.totalAmount,
+        yieldPercent: validatedData.yieldPercent,
+        description: validatedData.description,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Distribution posted successfully",
+          distribution,
+        },
+        { status: 201 }
+      );
+    }
+
+    const schedule = await createDistributionSchedule({
+      businessId: business.id,
+      frequency: validatedData.schedule,
+      actorId: actor.id,
+      yieldPercent: validatedData.yieldPercent,
+      startsAt: validatedData.startsAt
+        ? new Date(validatedData.startsAt)
+        : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        message: "Distribution schedule created successfully",
+        schedule,
+      },
+      { status: 201 }
+    );
+  }
+);
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+
+interface RouteParams {
+  id: string;
+  scheduleId: string;
+}
+
+// Stop a recurring distribution; payouts already made are kept
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Stop distribution schedule" },
+  async ({ params, actor }) => {
+    const schedule = await prisma.distributionSchedule.findFirst({
+      where: {
+        id: params.scheduleId,
+        businessId: params.id,
+      },
+      include: {
+        business: {
+          select: {
+            ownerId: true,
+          },
+        },
+      },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Distribution schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    authorize(actor, "distribution:manage", schedule.business);
+
+    const updatedSchedule = await prisma.distributionSchedule.update({
+      where: { id: schedule.id },
+      data: { active: false },
+    });
+
+    return NextResponse.json({
+      message: "Distribution schedule stopped",
+      schedule: updatedSchedule,
+    });
+  }
+);
@@ -0,0 +1,47 @@
+import { publicRoute } from "@/lib/api-route";
+import { requestOrigin } from "@/lib/audit";
+import {
+  DocumentError,
+  readDocumentDownload,
+} from "@/lib/opportunity-documents";
+import { contentDisposition } from "@/lib/storage";
+
+interface RouteParams {
+  id: string;
+  documentId: string;
+}
+
+// Download a document through a signed link from
+// GET /api/opportunities/{id}/documents/{documentId}; the signature stands
+// in for the session
+export const GET = publicRoute<RouteParams>(
+  { name: "Download opportunity document" },
+  async ({ request, params }) => {
+    const { searchParams } = new URL(request.url);
+    const expires = Number(searchParams.get("expires"));
+    const signature = searchParams.get("signature");
+
+    if (!Number.isInteger(expires) || !signature) {
+      throw new DocumentError("This download link is invalid", 403);
+    }
+
+    const { fileName, stored } = await readDocumentDownload(
+      {
+        documentId: params.documentId,
+        expires,
+        userId: searchParams.get("user"),
+        signature,
+      },
+      requestOrigin(request)
+    );
+
+    return new Response(new Uint8Array(stored.body), {
+      headers: {
+        "Content-Type": stored.contentType,
+        "Content-Disposition": contentDisposition("attachment", fileName),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  }
+);
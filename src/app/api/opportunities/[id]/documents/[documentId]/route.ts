@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { apiRoute, publicRoute } from "@/lib/api-route";
+import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/authorization";
+import { z } from "zod";
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_VISIBILITIES,
+  createDownloadUrl,
+  deleteDocument,
+  getDocument,
+  updateDocument,
+} from "@/lib/opportunity-documents";
+
+// Document update validation schema
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(200),
+    category: z.enum(DOCUMENT_CATEGORIES),
+    visibility: z.enum(DOCUMENT_VISIBILITIES),
+  })
+  .partial();
+
+interface RouteParams {
+  id: string;
+  documentId: string;
+}
+
+// Signed, expiring link to download a document the caller may see; public
+// documents don't need a session
+export const GET = publicRoute<RouteParams>(
+  { name: "Get document download link" },
+  async ({ params }) => {
+    const session = await getServerSession(authOptions);
+
+    const viewer = session
+      ? {
+          id: session.user.id,
+          role: session.user.role,
+          adminRole: session.user.adminRole,
+        }
+      : null;
+
+    const download = await createDownloadUrl(
+      params.id,
+      params.documentId,
+      viewer
+    );
+
+    return NextResponse.json(download);
+  }
+);
+
+// Rename, recategorize or change who can see a document (for the
+// opportunity's owner)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update opportunity document" },
+  async ({ request, params, actor }) => {
+    const document = await getDocument(params.id, params.documentId);
+    authorize(actor, "opportunity:manage", document.business);
+
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const updated = await updateDocument(document.id, validatedData);
+
+    return NextResponse.json({
+      message: "Document updated",
+      document: updated,
+    });
+  }
+);
+
+// Remove a document from the data room (for the opportunity's owner)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Delete opportunity document" },
+  async ({ params, actor }) => {
+    const document = await getDocument(params.id, params.documentId);
+    authorize(actor, "opportunity:manage", document.business);
+
+    await deleteDocument(document.id);
+
+    return NextResponse.json({ message: "Document deleted" });
+  }
+);
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_VISIBILITIES,
+  DocumentError,
+  MAX_DOCUMENT_SIZE,
+  listOwnerDocuments,
+  uploadDocument,
+} from "@/lib/opportunity-documents";
+
+// Document details validation schema; the file itself is the multipart
+// field "file"
+const documentSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  category: z.enum(DOCUMENT_CATEGORIES),
+  visibility: z.enum(DOCUMENT_VISIBILITIES).default("INVESTORS"),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+async function getOwnedBusiness(id: string) {
+  const business = await prisma.business.findUnique({
+    where: { id },
+    select: { id: true, ownerId: true },
+  });
+
+  if (!business) {
+    throw new DocumentError("Opportunity not found", 404);
+  }
+
+  return business;
+}
+
+// The opportunity's data room with download counts (for its owner)
+export const GET = apiRoute<RouteParams>(
+  { name: "Get opportunity documents" },
+  async ({ params, actor }) => {
+    const business = await getOwnedBusiness(params.id);
+    authorize(actor, "opportunity:manage", business);
+
+    const documents = await listOwnerDocuments(business.id);
+
+    return NextResponse.json({ documents });
+  }
+);
+
+// Add a document to the opportunity's data room (for its owner)
+export const POST = apiRoute<RouteParams>(
+  { name: "Upload opportunity document" },
+  async ({ request, params, actor }) => {
+    const business = await getOwnedBusiness(params.id);
+    authorize(actor, "opportunity:manage", business);
+
+    const form = await request.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === "string" && value.trim()
+        ? value.trim()
+        : undefined;
+    };
+
+    const validatedData = documentSchema.parse({
+      title: field("title"),
+      category: field("category"),
+      visibility: field("visibility"),
+    });
+
+    const file = form.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      throw new DocumentError("Choose a file to upload");
+    }
+
+    // Checked before reading so oversized uploads aren't buffered
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      throw new DocumentError(
+        `Documents must be ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB or smaller`
+      );
+    }
+
+    const document = await uploadDocument(
+      business.id,
+      actor.id,
+      validatedData,
+      {
+        fileName: file.name,
+        contentType: file.type,
+        body: Buffer.from(await file.arrayBuffer()),
+      }
+    );
+
+    return NextResponse.json(
+      { message: "Document uploaded", document },
+      { status: 201 }
+    );
+  }
+);
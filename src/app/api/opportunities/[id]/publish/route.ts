@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { requireVerifiedEmail } from "@/lib/email-verification";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+import { publishOpportunity, VettingError } from "@/lib/vetting";
+
+interface RouteParams {
+  id: string;
+}
+
+// Open an approved opportunity to investors (for its owner)
+export const POST = apiRoute<RouteParams>(
+  { name: "Publish opportunity" },
+  async ({ request, params, session, actor }) => {
+    const business = await prisma.business.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true, status: true },
+    });
+
+    if (!business) {
+      throw new VettingError("Opportunity not found", 404);
+    }
+
+    authorize(actor, "opportunity:manage", business);
+
+    const unverified = await requireVerifiedEmail(
+      session.user.id,
+      "publishing opportunities"
+    );
+    if (unverified) return unverified;
+
+    const published = await publishOpportunity(business.id);
+
+    await recordAuditEvent({
+      action: "opportunity:publish",
+      actor: auditActor(actor, request),
+      target: { type: "Business", id: business.id },
+      before: { status: business.status },
+      after: { status: published.status },
+    });
+
+    return NextResponse.json({
+      message: "Opportunity is now open to investors",
+      business: published,
+    });
+  }
+);
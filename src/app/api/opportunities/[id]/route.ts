@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { apiRoute, publicRoute } from "@/lib/api-route";
+import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { auditActor, recordAuditEvent, requestOrigin } from "@/lib/audit";
+import {
+  changeOpportunityStatus,
+  getOpportunityDetail,
+  OpportunityError,
+  opportunitySchema,
+  OWNER_STATUS_CHANGES,
+  updateOpportunity,
+} from "@/lib/opportunities";
+
+// Opportunity update validation schema: any of the details, and optionally
+// a new status with a reason shown to investors
+const updateSchema = opportunitySchema.partial().extend({
+  status: z.enum(OWNER_STATUS_CHANGES).optional(),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Terms recorded in the audit log when an opportunity is edited
+const auditedTerms = (business: {
+  title: string;
+  targetCapital: number;
+  minimumInvestment: number;
+  expectedROI: number;
+  timeline: number;
+  industry: string;
+  riskLevel: string;
+  companyProfileId: string | null;
+}) => ({
+  title: business.title,
+  targetCapital: business.targetCapital,
+  minimumInvestment: business.minimumInvestment,
+  expectedROI: business.expectedROI,
+  timeline: business.timeline,
+  industry: business.industry,
+  riskLevel: business.riskLevel,
+  companyProfileId: business.companyProfileId,
+});
+
+// Opportunity details; the detailed plan is only included when signed in,
+// and unpublished opportunities only for their owner and administrators
+export const GET = publicRoute<RouteParams>(
+  { name: "Get opportunity" },
+  async ({ params }) => {
+    const session = await getServerSession(authOptions);
+
+    const viewer = session
+      ? {
+          id: session.user.id,
+          role: session.user.role,
+          adminRole: session.user.adminRole,
+        }
+      : null;
+
+    const opportunity = await getOpportunityDetail(params.id, viewer);
+
+    return NextResponse.json({ opportunity });
+  }
+);
+
+// Edit an opportunity, or pause, reopen, close or cancel it (for its owner)
+export const PATCH = apiRoute<RouteParams>(
+  { name: "Update opportunity" },
+  async ({ request, params, actor }) => {
+    const business = await prisma.business.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!business) {
+      throw new OpportunityError("Opportunity not found", 404);
+    }
+
+    authorize(actor, "opportunity:manage", business);
+
+    const body = await request.json();
+    const { status, reason, ...details } = updateSchema.parse(body);
+
+    let updated = business;
+
+    if (Object.keys(details).length > 0) {
+      updated = await updateOpportunity(business.id, details);
+
+      await recordAuditEvent({
+        action: "opportunity:update",
+        actor: auditActor(actor, request),
+        target: { type: "Business", id: business.id },
+        before: auditedTerms(business),
+        after: auditedTerms(updated),
+      });
+    }
+
+    if (status && status !== updated.status) {
+      const before = updated.status;
+      updated = await changeOpportunityStatus(
+        business.id,
+        status,
+        {
+          role: "BUSINESS_OWNER",
+          userId: actor.id,
+          ...requestOrigin(request),
+        },
+        reason
+      );
+
+      await recordAuditEvent({
+        action: "opportunity:updateStatus",
+        actor: auditActor(actor, request),
+        target: { type: "Business", id: business.id },
+        before: { status: before },
+        after: { status: updated.status },
+        metadata: reason ? { reason } : undefined,
+      });
+    }
+
+    return NextResponse.json({
+      message: "Opportunity updated",
+      business: updated,
+    });
+  }
+);
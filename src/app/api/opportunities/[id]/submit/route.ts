@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { requireVerifiedEmail } from "@/lib/email-verification";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+import { submitOpportunity, VettingError } from "@/lib/vetting";
+
+// Submission validation schema; the response answers requested changes
+const submitSchema = z.object({
+  response: z.string().trim().min(1).max(2000).optional(),
+});
+
+interface RouteParams {
+  id: string;
+}
+
+// Send a draft or revised opportunity for vetting (for its owner)
+export const POST = apiRoute<RouteParams>(
+  { name: "Submit opportunity" },
+  async ({ request, params, session, actor }) => {
+    const business = await prisma.business.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true, status: true },
+    });
+
+    if (!business) {
+      throw new VettingError("Opportunity not found", 404);
+    }
+
+    authorize(actor, "opportunity:manage", business);
+
+    const unverified = await requireVerifiedEmail(
+      session.user.id,
+      "publishing opportunities"
+    );
+    if (unverified) return unverified;
+
+    const body = await request.json();
+    const validatedData = submitSchema.parse(body);
+
+    const submitted = await submitOpportunity(
+      business.id,
+      session.user.id,
+      validatedData.response
+    );
+
+    await recordAuditEvent({
+      action: "opportunity:submit",
+      actor: auditActor(actor, request),
+      target: { type: "Business", id: business.id },
+      before: { status: business.status },
+      after: { status: submitted.status },
+    });
+
+    return NextResponse.json({
+      message: "Opportunity submitted for review",
+      business: submitted,
+    });
+  }
+);
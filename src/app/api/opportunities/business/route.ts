@@ -1,32 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
+import { OWNER_NOTE_KINDS } from "@/lib/vetting";
 
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only business owners and administrators can access this endpoint
-    if (
-      session.user.role !== "BUSINESS_OWNER" &&
-      session.user.role !== "ADMINISTRATOR"
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Access denied. Business owner or administrator role required.",
-        },
-        { status: 403 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "Get business opportunities", permission: "opportunity:listOwn" },
+  async ({ request, actor }) => {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const page = parseInt(searchParams.get("page") || "1");
@@ -37,10 +16,10 @@ export async function GET(request: NextRequest) {
     // Build where clause based on user role
     let where: any = {};
 
-    if (session.user.role === "BUSINESS_OWNER") {
+    if (actor.role === "BUSINESS_OWNER") {
       // Business owners can only see their own opportunities
       where = {
-        ownerId: session.user.id,
+        ownerId: actor.id,
       };
     }
     // Administrators can see all opportunities (no additional where clause needed)
@@ -79,6 +58,19 @@ export async function GET(request: NextRequest) {
             createdAt: "desc",
           },
         },
+        // Requested changes and rejection reasons from vetting
+        vettingNotes: {
+          where: { kind: { in: OWNER_NOTE_KINDS } },
+          select: {
+            id: true,
+            kind: true,
+            content: true,
+            createdAt: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
         _count: {
           select: {
             investments: true,
@@ -135,11 +127,5 @@ export async function GET(request: NextRequest) {
         pendingInvestments,
       },
     });
-  } catch (error) {
-    console.error("Get business opportunities error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,41 +1,21 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute, publicRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-
-// Opportunity creation validation schema
-const opportunitySchema = z.object({
-  title: z.string().min(1, "Title is required").max(200, "Title is too long"),
-  description: z
-    .string()
-    .min(10, "Description must be at least 10 characters")
-    .max(1000, "Description is too long"),
-  detailedPlan: z
-    .string()
-    .min(50, "Detailed plan must be at least 50 characters")
-    .max(5000, "Detailed plan is too long"),
-  targetCapital: z
-    .number()
-    .min(1000, "Target capital must be at least ₦1,000")
-    .max(1000000000, "Target capital cannot exceed ₦1B"),
-  minimumInvestment: z
-    .number()
-    .min(100, "Minimum investment must be at least ₦100"),
-  expectedROI: z
-    .number()
-    .min(0, "Expected ROI cannot be negative")
-    .max(1000, "Expected ROI cannot exceed 1000%"),
-  timeline: z
-    .number()
-    .min(1, "Timeline must be at least 1 month")
-    .max(120, "Timeline cannot exceed 120 months"),
-  industry: z.string().min(1, "Industry is required"),
-  riskLevel: z.enum(["Low", "Medium", "High"]),
+import { requireVerifiedEmail } from "@/lib/email-verification";
+import { auditActor, recordAuditEvent } from "@/lib/audit";
+import { opportunitySchema } from "@/lib/opportunities";
+import { assertOwnCompanyProfile } from "@/lib/company-profiles";
+import { submitOpportunity } from "@/lib/vetting";
+
+// Opportunity creation validation schema; submit sends it straight for review
+const createSchema = opportunitySchema.extend({
+  submit: z.boolean().default(false),
 });
 
-export async function GET(request: NextRequest) {
-  try {
+export const GET = publicRoute(
+  { name: "Get opportunities" },
+  async ({ request }) => {
     const { searchParams } = new URL(request.url);
     const industry = searchParams.get("industry");
     const riskLevel = searchParams.get("riskLevel");
@@ -45,7 +25,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get("limit") || "12");
     const skip = (page - 1) * limit;
 
-    // Build filter conditions
+    // Only opportunities that passed vetting and were published are listed
     const where: any = {
       status: "OPEN",
     };
@@ -105,37 +85,22 @@ export async function GET(request: NextRequest) {
         totalPages: Math.ceil(total / limit),
       },
     });
-  } catch (error) {
-    console.error("Error fetching opportunities:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch opportunities" },
-      { status: 500 }
-    );
   }
-}
-
-// Create new opportunity (for business owners)
-export async function POST(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Only business owners can create opportunities
-    if (session.user.role !== "BUSINESS_OWNER") {
-      return NextResponse.json(
-        { error: "Only business owners can create opportunities" },
-        { status: 403 }
-      );
-    }
+);
+
+// Create a draft opportunity, optionally submitting it for vetting (for
+// business owners). Nothing goes live until a reviewer approves it.
+export const POST = apiRoute(
+  { name: "Opportunity creation", permission: "opportunity:create" },
+  async ({ request, session, actor }) => {
+    const unverified = await requireVerifiedEmail(
+      session.user.id,
+      "publishing opportunities"
+    );
+    if (unverified) return unverified;
 
     const body = await request.json();
-    const validatedData = opportunitySchema.parse(body);
+    const { submit, ...validatedData } = createSchema.parse(body);
 
     // Validate that minimum investment is not greater than target capital
     if (validatedData.minimumInvestment > validatedData.targetCapital) {
@@ -145,7 +110,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create the business opportunity
+    if (validatedData.companyProfileId) {
+      await assertOwnCompanyProfile(
+        session.user.id,
+        validatedData.companyProfileId
+      );
+    }
+
+    // Create the business opportunity as a draft
     const business = await prisma.business.create({
       data: {
         title: validatedData.title,
@@ -157,7 +129,8 @@ export async function POST(request: NextRequest) {
         timeline: validatedData.timeline,
         industry: validatedData.industry,
         riskLevel: validatedData.riskLevel,
-        status: "OPEN",
+        companyProfileId: validatedData.companyProfileId,
+        status: "DRAFT",
         currentRaised: 0,
         ownerId: session.user.id,
       },
@@ -172,41 +145,60 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAuditEvent({
+      action: "opportunity:create",
+      actor: auditActor(actor, request),
+      target: { type: "Business", id: business.id },
+      after: {
+        title: business.title,
+        targetCapital: business.targetCapital,
+        minimumInvestment: business.minimumInvestment,
+        expectedROI: business.expectedROI,
+        timeline: business.timeline,
+        status: business.status,
+      },
+    });
+
+    let status = business.status;
+    if (submit) {
+      const submitted = await submitOpportunity(business.id, session.user.id);
+      status = submitted.status;
+
+      await recordAuditEvent({
+        action: "opportunity:submit",
+        actor: auditActor(actor, request),
+        target: { type: "Business", id: business.id },
+        before: { status: business.status },
+        after: { status },
+      });
+    }
+
     // Create notification for successful creation
     await prisma.notification.create({
       data: {
-        title: "Opportunity Created",
-        content: `Your investment opportunity "${validatedData.title}" has been successfully created and is now live for investors.`,
+        title: submit ? "Opportunity Submitted" : "Opportunity Saved",
+        content: submit
+          ? `Your investment opportunity "${validatedData.title}" has been submitted for review. We'll let you know when our team has vetted it.`
+          : `Your investment opportunity "${validatedData.title}" has been saved as a draft. Submit it for review when it's ready.`,
         userId: session.user.id,
       },
     });
 
     return NextResponse.json(
       {
-        message: "Opportunity created successfully",
+        message: submit
+          ? "Opportunity submitted for review"
+          : "Opportunity saved as a draft",
         business: {
           id: business.id,
           title: business.title,
           targetCapital: business.targetCapital,
           minimumInvestment: business.minimumInvestment,
-          status: business.status,
+          status,
           createdAt: business.createdAt,
         },
       },
       { status: 201 }
     );
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
-      );
-    }
-
-    console.error("Opportunity creation error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+
+interface RouteParams {
+  reference: string;
+}
+
+// Get the status of a payment (used by checkout return pages)
+export const GET = apiRoute<RouteParams>(
+  { name: "Get payment" },
+  async ({ params, actor }) => {
+    const payment = await prisma.payment.findUnique({
+      where: { reference: params.reference },
+      include: {
+        investment: {
+          select: {
+            id: true,
+            status: true,
+            business: {
+              select: {
+                id: true,
+                title: true,
+              },
+            },
+          },
+        },
+        business: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    authorize(actor, "payment:read", payment);
+
+    return NextResponse.json({ payment });
+  }
+);
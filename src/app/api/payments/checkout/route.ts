@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { initializeInvestmentCheckout } from "@/lib/payments";
+
+const checkoutSchema = z.object({
+  investmentId: z.string().min(1, "Investment ID is required"),
+});
+
+// Start (or restart) checkout for one of the investor's pending investments
+export const POST = apiRoute(
+  { name: "Checkout initialization" },
+  async ({ request, actor }) => {
+    const body = await request.json();
+    const validatedData = checkoutSchema.parse(body);
+
+    const investment = await prisma.investment.findUnique({
+      where: { id: validatedData.investmentId },
+      select: { investorId: true },
+    });
+
+    if (!investment) {
+      return NextResponse.json(
+        { error: "Investment not found" },
+        { status: 404 }
+      );
+    }
+
+    authorize(actor, "payment:checkout", investment);
+
+    const payment = await initializeInvestmentCheckout(
+      validatedData.investmentId
+    );
+
+    return NextResponse.json(
+      {
+        message: "Checkout initialized",
+        payment: {
+          reference: payment.reference,
+          provider: payment.provider,
+          amount: payment.amount,
+          checkoutUrl: payment.checkoutUrl,
+        },
+      },
+      { status: 201 }
+    );
+  }
+);
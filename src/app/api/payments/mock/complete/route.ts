@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  buildMockWebhook,
+  isMockPaymentsEnabled,
+  processPaymentWebhook,
+} from "@/lib/payments";
+
+const completeSchema = z.object({
+  reference: z.string().min(1, "Payment reference is required"),
+  outcome: z.enum(["successful", "failed"]),
+});
+
+// Complete a mock checkout by sending a signed webhook through the normal path
+export const POST = apiRoute(
+  { name: "Mock payment" },
+  async ({ request, actor }) => {
+    // Only available while the mock provider is the active gateway
+    if (!isMockPaymentsEnabled()) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = completeSchema.parse(body);
+
+    const payment = await prisma.payment.findUnique({
+      where: { reference: validatedData.reference },
+    });
+
+    if (!payment || payment.provider !== "MOCK") {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    authorize(actor, "payment:completeMock", payment);
+
+    const { rawBody, headers } = buildMockWebhook({
+      reference: payment.reference,
+      amount: payment.amount,
+      currency: payment.currency,
+      status: validatedData.outcome,
+    });
+    await processPaymentWebhook("MOCK", rawBody, headers);
+
+    const updatedPayment = await prisma.payment.findUnique({
+      where: { id: payment.id },
+    });
+
+    return NextResponse.json({
+      message: "Mock payment processed",
+      payment: updatedPayment,
+    });
+  }
+);
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { publicRoute } from "@/lib/api-route";
+import { parseProviderName, processPaymentWebhook } from "@/lib/payments";
+
+interface RouteParams {
+  provider: string;
+}
+
+// Receive signed payment events from Paystack, Flutterwave or the mock gateway
+export const POST = publicRoute<RouteParams>(
+  { name: "Payment webhook" },
+  async ({ request, params }) => {
+    const providerName = parseProviderName(params.provider);
+    if (!providerName) {
+      return NextResponse.json(
+        { error: "Unknown payment provider" },
+        { status: 404 }
+      );
+    }
+
+    // Signatures are computed over the raw body, so it must not be re-serialized
+    const rawBody = await request.text();
+    const result = await processPaymentWebhook(
+      providerName,
+      rawBody,
+      request.headers
+    );
+
+    return NextResponse.json({ received: true, ...result });
+  }
+);
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import {
+  cancelErasureRequest,
+  getErasureStatus,
+  requestErasure,
+} from "@/lib/privacy";
+
+// Erasure request validation schema
+const erasureSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// The current user's latest erasure request and what is blocking one
+export const GET = apiRoute(
+  { name: "Get erasure status", permission: "account:manage" },
+  async ({ session }) => {
+    const status = await getErasureStatus(session.user.id);
+
+    return NextResponse.json(status);
+  }
+);
+
+// Ask for the current user's account to be erased
+export const POST = apiRoute(
+  { name: "Request account erasure", permission: "account:manage" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const validatedData = erasureSchema.parse(body);
+
+    const erasureRequest = await requestErasure(
+      session.user.id,
+      validatedData.password,
+      validatedData.reason || undefined
+    );
+
+    return NextResponse.json(
+      {
+        message:
+          "Erasure requested. We'll email you once it has been reviewed.",
+        request: erasureRequest,
+      },
+      { status: 201 }
+    );
+  }
+);
+
+// Cancel the current user's pending erasure request
+export const DELETE = apiRoute(
+  { name: "Cancel erasure request", permission: "account:manage" },
+  async ({ session }) => {
+    await cancelErasureRequest(session.user.id);
+
+    return NextResponse.json({ message: "Erasure request cancelled" });
+  }
+);
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { exportPersonalData } from "@/lib/privacy";
+
+// Download everything held about the current user as JSON
+export const GET = apiRoute(
+  { name: "Export personal data", permission: "account:manage" },
+  async ({ session }) => {
+    const data = await exportPersonalData(session.user.id);
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="naijaconnect-data-${
+          new Date().toISOString().split("T")[0]
+        }.json"`,
+      },
+    });
+  }
+);
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import { THEMES, getProfile, phoneSchema, updateProfile } from "@/lib/profile";
+
+// Profile update validation schema; send null to clear an optional field
+const profileSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(2, "Name must be at least 2 characters")
+      .max(100),
+    phone: phoneSchema.nullable(),
+    address: z.string().trim().max(500).nullable(),
+    email: z.string().trim().email("Invalid email address"),
+    theme: z.enum(THEMES).nullable(),
+    currentPassword: z.string().min(1),
+    newPassword: passwordSchema,
+  })
+  .partial();
+
+// Current user's profile
+export const GET = apiRoute(
+  { name: "Get profile", permission: "account:manage" },
+  async ({ session }) => {
+    const user = await getProfile(session.user.id);
+
+    return NextResponse.json({ user });
+  }
+);
+
+// Update the current user's profile, email, password or preferences
+export const PATCH = apiRoute(
+  { name: "Update profile", permission: "account:manage" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const validatedData = profileSchema.parse(body);
+
+    const result = await updateProfile(session.user.id, validatedData);
+
+    return NextResponse.json({
+      message: result.emailVerificationSent
+        ? `Profile updated. Check ${validatedData.email} to confirm your new email address.`
+        : "Profile updated successfully",
+      ...result,
+    });
+  }
+);
@@ -1,19 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
 import { prisma } from "@/lib/prisma";
 
 // Search for users to message
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+export const GET = apiRoute(
+  { name: "User search", permission: "user:search" },
+  async ({ request, session }) => {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q");
     const limit = parseInt(searchParams.get("limit") || "10");
@@ -34,6 +26,12 @@ export async function GET(request: NextRequest) {
               not: session.user.id,
             },
           },
+          // Deactivated accounts can no longer be messaged
+          {
+            status: {
+              not: "DEACTIVATED",
+            },
+          },
           {
             OR: [
               {
@@ -66,11 +64,5 @@ export async function GET(request: NextRequest) {
       users,
       total: users.length,
     });
-  } catch (error) {
-    console.error("User search error:", error);
-    return NextResponse.json(
-      { error: "Failed to search users" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { prisma } from "@/lib/prisma";
+import { fromKobo, getWalletSummary } from "@/lib/ledger";
+
+// Get the user's wallet balances and ledger history
+export const GET = apiRoute(
+  { name: "Get wallet", permission: "wallet:read" },
+  async ({ request, session }) => {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const summary = await getWalletSummary(session.user.id);
+
+    // Only the wallet legs are shown; the counterpart legs are platform accounts
+    const where = {
+      account: {
+        userId: session.user.id,
+        type: "WALLET" as const,
+      },
+    };
+
+    const entries = await prisma.ledgerEntry.findMany({
+      where,
+      include: {
+        transaction: {
+          select: {
+            type: true,
+            reference: true,
+            description: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      skip,
+      take: limit,
+    });
+
+    const total = await prisma.ledgerEntry.count({ where });
+
+    return NextResponse.json({
+      wallet: {
+        currency: "NGN",
+        availableBalance: fromKobo(summary.available),
+        invested: fromKobo(summary.invested),
+        totalReturns: fromKobo(summary.totalReturns),
+        totalWithdrawn: fromKobo(summary.totalWithdrawn),
+        totalFees: fromKobo(summary.totalFees),
+      },
+      transactions: entries.map((entry) => ({
+        id: entry.id,
+        type: entry.transaction.type,
+        reference: entry.transaction.reference,
+        description: entry.transaction.description,
+        amount: fromKobo(entry.amount),
+        createdAt: entry.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
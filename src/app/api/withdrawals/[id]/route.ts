@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { transitionWithdrawal } from "@/lib/withdrawals";
+
+interface RouteParams {
+  id: string;
+}
+
+// Get a withdrawal request with its audit trail
+export const GET = apiRoute<RouteParams>(
+  { name: "Get withdrawal" },
+  async ({ params, actor }) => {
+    const withdrawal = await prisma.withdrawalRequest.findUnique({
+      where: { id: params.id },
+      include: {
+        events: {
+          include: {
+            actor: {
+              select: {
+                id: true,
+                name: true,
+                role: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+      },
+    });
+
+    if (!withdrawal) {
+      return NextResponse.json(
+        { error: "Withdrawal request not found" },
+        { status: 404 }
+      );
+    }
+
+    authorize(actor, "withdrawal:read", withdrawal);
+
+    return NextResponse.json({ withdrawal });
+  }
+);
+
+// Cancel a pending withdrawal request (for the investor who made it)
+export const DELETE = apiRoute<RouteParams>(
+  { name: "Cancel withdrawal" },
+  async ({ params, actor }) => {
+    const withdrawal = await prisma.withdrawalRequest.findUnique({
+      where: { id: params.id },
+      select: { userId: true },
+    });
+
+    if (!withdrawal) {
+      return NextResponse.json(
+        { error: "Withdrawal request not found" },
+        { status: 404 }
+      );
+    }
+
+    authorize(actor, "withdrawal:cancel", withdrawal);
+
+    const cancelledWithdrawal = await transitionWithdrawal(
+      params.id,
+      "cancel",
+      actor.id
+    );
+
+    return NextResponse.json({
+      message: "Withdrawal request cancelled successfully",
+      withdrawal: cancelledWithdrawal,
+    });
+  }
+);
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "@/lib/api-route";
+import { prisma } from "@/lib/prisma";
+import { Prisma, WithdrawalStatus } from "@prisma/client";
+import { z } from "zod";
+import { fromKobo } from "@/lib/ledger";
+import {
+  MINIMUM_WITHDRAWAL,
+  getWithdrawableBalance,
+  requestWithdrawal,
+} from "@/lib/withdrawals";
+import { requireTwoFactorCode } from "@/lib/two-factor";
+
+// Withdrawal request validation schema
+const withdrawalSchema = z.object({
+  amount: z
+    .number()
+    .min(MINIMUM_WITHDRAWAL, `Minimum withdrawal is ₦${MINIMUM_WITHDRAWAL}`),
+  bankName: z.string().min(2, "Bank name is required"),
+  accountNumber: z
+    .string()
+    .regex(/^\d{10}$/, "Account number must be a 10-digit NUBAN"),
+  accountName: z.string().min(2, "Account name is required"),
+  twoFactorCode: z.string().optional(),
+});
+
+// Get the investor's withdrawal requests
+export const GET = apiRoute(
+  { name: "Get withdrawals", permission: "withdrawal:listOwn" },
+  async ({ request, session }) => {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WithdrawalRequestWhereInput = {
+      userId: session.user.id,
+    };
+
+    if (
+      status &&
+      ["PENDING", "APPROVED", "REJECTED", "PAID", "CANCELLED"].includes(status)
+    ) {
+      where.status = status as WithdrawalStatus;
+    }
+
+    const withdrawals = await prisma.withdrawalRequest.findMany({
+      where,
+      orderBy: {
+        createdAt: "desc",
+      },
+      skip,
+      take: limit,
+    });
+
+    const total = await prisma.withdrawalRequest.count({ where });
+    const withdrawable = await getWithdrawableBalance(prisma, session.user.id);
+
+    return NextResponse.json({
+      withdrawals,
+      availableForWithdrawal: fromKobo(Math.max(0, withdrawable)),
+      minimumWithdrawal: MINIMUM_WITHDRAWAL,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
+
+// Request a withdrawal of available earnings
+export const POST = apiRoute(
+  { name: "Withdrawal request", permission: "withdrawal:create" },
+  async ({ request, session }) => {
+    const body = await request.json();
+    const { twoFactorCode, ...validatedData } = withdrawalSchema.parse(body);
+
+    // Moving money out requires a fresh second factor
+    const unverified = await requireTwoFactorCode(
+      session.user.id,
+      twoFactorCode,
+      request
+    );
+    if (unverified) return unverified;
+
+    const withdrawal = await requestWithdrawal(session.user.id, validatedData);
+
+    return NextResponse.json(
+      {
+        message: "Withdrawal request submitted successfully",
+        withdrawal,
+      },
+      { status: 201 }
+    );
+  }
+);
@@ -0,0 +1,252 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import PasswordRequirements from "@/components/PasswordRequirements";
+
+const acceptInvitationSchema = z
+  .object({
+    name: z.string().min(2, "Name must be at least 2 characters"),
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type AcceptInvitationFormData = z.infer<typeof acceptInvitationSchema>;
+
+interface Invitation {
+  email: string;
+  adminRole: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  SUPER_ADMIN: "Super-admin",
+  SUPPORT: "Support",
+  COMPLIANCE: "Compliance",
+  FINANCE: "Finance",
+};
+
+const inputClassName =
+  "block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6";
+
+function AcceptInvitationForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [isInvalid, setIsInvalid] = useState(false);
+  const [isAccepted, setIsAccepted] = useState(false);
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<AcceptInvitationFormData>({
+    resolver: zodResolver(acceptInvitationSchema),
+  });
+
+  const password = watch("password") || "";
+
+  useEffect(() => {
+    if (!token) {
+      setIsInvalid(true);
+      return;
+    }
+
+    fetch(`/api/auth/accept-invitation?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (response.ok) {
+          setInvitation(result.invitation);
+        } else {
+          setIsInvalid(true);
+        }
+      })
+      .catch(() => setIsInvalid(true));
+  }, [token]);
+
+  const onSubmit = async (data: AcceptInvitationFormData) => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/accept-invitation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          token,
+          name: data.name,
+          password: data.password,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "An error occurred. Please try again.");
+      } else {
+        setIsAccepted(true);
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isAccepted) {
+    return (
+      <div className="rounded-md bg-green-50 p-4">
+        <div className="text-sm text-green-700">
+          Your administrator account is ready.{" "}
+          <Link href="/auth/signin" className="font-semibold underline">
+            Sign in
+          </Link>{" "}
+          to set up two-factor authentication.
+        </div>
+      </div>
+    );
+  }
+
+  if (isInvalid) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <div className="text-sm text-red-700">
+          This invitation is invalid or has expired. Ask a super-admin to send a
+          new one.
+        </div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return <div className="text-center text-gray-500">Loading...</div>;
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <p className="text-sm text-gray-600">
+        You&apos;ve been invited as a{" "}
+        <span className="font-semibold">
+          {ROLE_LABELS[invitation.adminRole] ?? invitation.adminRole}
+        </span>{" "}
+        administrator for{" "}
+        <span className="font-semibold">{invitation.email}</span>.
+      </p>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div>
+        <label
+          htmlFor="name"
+          className="block text-sm font-medium leading-6 text-gray-900"
+        >
+          Full name
+        </label>
+        <div className="mt-2">
+          <input
+            {...register("name")}
+            autoComplete="name"
+            className={inputClassName}
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label
+          htmlFor="password"
+          className="block text-sm font-medium leading-6 text-gray-900"
+        >
+          Password
+        </label>
+        <div className="mt-2">
+          <input
+            {...register("password")}
+            type="password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <PasswordRequirements
+            password={password}
+            showErrors={!!errors.password}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label
+          htmlFor="confirmPassword"
+          className="block text-sm font-medium leading-6 text-gray-900"
+        >
+          Confirm password
+        </label>
+        <div className="mt-2">
+          <input
+            {...register("confirmPassword")}
+            type="password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex w-full justify-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold leading-6 text-white shadow-sm hover:bg-green-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Creating account..." : "Create administrator account"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function AcceptInvitation() {
+  return (
+    <div className="flex min-h-full flex-1 flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="mt-6 text-center text-2xl font-bold leading-9 tracking-tight text-gray-900">
+          Join as an administrator
+        </h2>
+      </div>
+
+      <div className="mt-10 sm:mx-auto sm:w-full sm:max-w-[480px]">
+        <div className="bg-white px-6 py-12 shadow sm:rounded-lg sm:px-12">
+          <Suspense
+            fallback={
+              <div className="text-center text-gray-500">Loading...</div>
+            }
+          >
+            <AcceptInvitationForm />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { z } from "zod";
 const signinSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(1, "Password is required"),
+  totpCode: z.string().optional(),
 });
 
 type SigninFormData = z.infer<typeof signinSchema>;
@@ -18,6 +19,7 @@ type SigninFormData = z.infer<typeof signinSchema>;
 export default function SignIn() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
   const router = useRouter();
 
   const {
@@ -47,10 +49,30 @@ export default function SignIn() {
       const result = await signIn("credentials", {
         email: data.email,
         password: data.password,
+        totpCode: data.totpCode || "",
         redirect: false,
       });
 
-      if (result?.error) {
+      if (result?.error === "TWO_FACTOR_REQUIRED") {
+        // Password was right; ask for the second step
+        setNeedsTwoFactor(true);
+      } else if (result?.error === "INVALID_TWO_FACTOR_CODE") {
+        setError("Invalid authentication code");
+      } else if (result?.error === "ACCOUNT_LOCKED") {
+        setError(
+          "Too many failed sign-in attempts. Your account is temporarily locked; try again later or reset your password."
+        );
+      } else if (result?.error === "ACCOUNT_SUSPENDED") {
+        setError(
+          "Your account has been suspended. Check your email for details or contact support."
+        );
+      } else if (result?.error === "ACCOUNT_DEACTIVATED") {
+        setError(
+          "This account has been deactivated. Contact support if you think this is a mistake."
+        );
+      } else if (result?.error === "TOO_MANY_ATTEMPTS") {
+        setError("Too many sign-in attempts. Please wait a few minutes.");
+      } else if (result?.error) {
         setError("Invalid email or password");
       } else {
         router.push("/dashboard");
@@ -126,6 +148,31 @@ export default function SignIn() {
               </div>
             </div>
 
+            {needsTwoFactor && (
+              <div>
+                <label
+                  htmlFor="totpCode"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  Authentication code
+                </label>
+                <div className="mt-2">
+                  <input
+                    {...register("totpCode")}
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Enter the 6-digit code from your authenticator app, or one
+                    of your recovery codes.
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <input
@@ -158,7 +205,11 @@ export default function SignIn() {
                 disabled={isLoading}
                 className="flex w-full justify-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold leading-6 text-white shadow-sm hover:bg-green-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isLoading ? "Signing in..." : "Sign in"}
+                {isLoading
+                  ? "Signing in..."
+                  : needsTwoFactor
+                  ? "Verify"
+                  : "Sign in"}
               </button>
             </div>
           </form>
@@ -7,13 +7,15 @@ import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { passwordSchema } from "@/lib/password-policy";
+import PasswordRequirements from "@/components/PasswordRequirements";
 
 const signupSchema = z
   .object({
     name: z.string().min(2, "Name must be at least 2 characters"),
     email: z.string().email("Invalid email address"),
     role: z.enum(["INVESTOR", "BUSINESS_OWNER"]),
-    password: z.string().min(8, "Password must be at least 8 characters"),
+    password: passwordSchema,
     confirmPassword: z.string(),
     terms: z
       .boolean()
@@ -38,11 +40,14 @@ export default function SignUp() {
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors },
   } = useForm<SignupFormData>({
     resolver: zodResolver(signupSchema),
   });
 
+  const password = watch("password") || "";
+
   useEffect(() => {
     // Check if user is already logged in
     const checkSession = async () => {
@@ -80,7 +85,7 @@ export default function SignUp() {
         }, 2000);
       } else {
         const errorData = await response.json();
-        setError(errorData.message || "Registration failed");
+        setError(errorData.error || "Registration failed");
       }
     } catch (error) {
       setError("An error occurred. Please try again.");
@@ -99,7 +104,8 @@ export default function SignUp() {
                 Registration Successful!
               </h3>
               <p className="mt-2 text-sm text-green-700">
-                Your account has been created. Redirecting to sign in...
+                Your account has been created. Check your email for a link to
+                verify your address. Redirecting to sign in...
               </p>
             </div>
           </div>
@@ -209,11 +215,10 @@ export default function SignUp() {
                   autoComplete="new-password"
                   className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6"
                 />
-                {errors.password && (
-                  <p className="mt-1 text-sm text-red-600">
-                    {errors.password.message}
-                  </p>
-                )}
+                <PasswordRequirements
+                  password={password}
+                  showErrors={!!errors.password}
+                />
               </div>
             </div>
 
@@ -0,0 +1,156 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+
+function VerifyEmailStatus() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const { status: sessionStatus } = useSession();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    token ? "verifying" : "failed"
+  );
+  const [error, setError] = useState(
+    token ? "" : "This verification link is invalid."
+  );
+  const [resendMessage, setResendMessage] = useState("");
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          setError(result.error || "Verification failed");
+          setStatus("failed");
+        } else {
+          setStatus("verified");
+        }
+      } catch {
+        setError("An error occurred. Please try again.");
+        setStatus("failed");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const resend = async () => {
+    setIsResending(true);
+    setResendMessage("");
+
+    try {
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
+      });
+      const result = await response.json();
+      setResendMessage(
+        response.ok ? result.message : result.error || "Failed to resend"
+      );
+    } catch {
+      setResendMessage("An error occurred. Please try again.");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (status === "verifying") {
+    return (
+      <div className="text-center text-gray-500">
+        Verifying your email address...
+      </div>
+    );
+  }
+
+  if (status === "verified") {
+    return (
+      <div className="rounded-md bg-green-50 p-4">
+        <div className="text-sm text-green-700">
+          Your email address has been verified.{" "}
+          <Link
+            href={
+              sessionStatus === "authenticated" ? "/dashboard" : "/auth/signin"
+            }
+            className="font-semibold underline"
+          >
+            {sessionStatus === "authenticated"
+              ? "Go to your dashboard"
+              : "Sign in"}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md bg-red-50 p-4">
+        <div className="text-sm text-red-700">{error}</div>
+      </div>
+
+      {sessionStatus === "authenticated" ? (
+        <div>
+          <button
+            onClick={resend}
+            disabled={isResending}
+            className="flex w-full justify-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold leading-6 text-white shadow-sm hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isResending ? "Sending..." : "Send a new verification link"}
+          </button>
+          {resendMessage && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {resendMessage}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-center text-sm text-gray-600">
+          <Link
+            href="/auth/signin"
+            className="font-semibold text-green-600 hover:text-green-500"
+          >
+            Sign in
+          </Link>{" "}
+          to request a new verification link.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmail() {
+  return (
+    <div className="flex min-h-full flex-1 flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="mt-6 text-center text-2xl font-bold leading-9 tracking-tight text-gray-900">
+          Email verification
+        </h2>
+      </div>
+
+      <div className="mt-10 sm:mx-auto sm:w-full sm:max-w-[480px]">
+        <div className="bg-white px-6 py-12 shadow sm:rounded-lg sm:px-12">
+          <Suspense
+            fallback={
+              <div className="text-center text-gray-500">Loading...</div>
+            }
+          >
+            <VerifyEmailStatus />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,9 @@ export default function DashboardPage() {
       router.push("/auth/signin");
       return;
     }
+    if (session.user?.twoFactorSetupRequired) {
+      router.push("/settings/security");
+    }
   }, [session, status, router]);
 
   if (status === "loading") {
@@ -30,7 +33,7 @@ export default function DashboardPage() {
     );
   }
 
-  if (!session) {
+  if (!session || session.user?.twoFactorSetupRequired) {
     return null; // Redirecting
   }
 
@@ -0,0 +1,22 @@
+import Link from "next/link";
+
+export default function OpportunityNotFound() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900">
+          Opportunity not found
+        </h1>
+        <p className="mt-2 text-gray-600">
+          It may have been removed, or the link may be wrong.
+        </p>
+        <Link
+          href="/opportunities"
+          className="text-green-600 hover:text-green-500 mt-4 inline-block"
+        >
+          ← Back to Opportunities
+        </Link>
+      </div>
+    </div>
+  );
+}
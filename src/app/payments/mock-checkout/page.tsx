@@ -0,0 +1,165 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+
+interface MockPayment {
+  reference: string;
+  amount: number;
+  status: string;
+  // Investment payments carry the investment, distribution fund payments
+  // the opportunity itself
+  investment: {
+    business: {
+      title: string;
+    };
+  } | null;
+  business: {
+    title: string;
+  } | null;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+function MockCheckout() {
+  const { status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const reference = searchParams.get("reference");
+  const [payment, setPayment] = useState<MockPayment | null>(null);
+  const [error, setError] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+      return;
+    }
+    if (!reference) {
+      setError("Missing payment reference");
+      return;
+    }
+
+    const fetchPayment = async () => {
+      const response = await fetch(`/api/payments/${reference}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to load payment");
+        return;
+      }
+      setPayment(data.payment);
+    };
+    fetchPayment();
+  }, [reference, status, router]);
+
+  const completePayment = async (outcome: "successful" | "failed") => {
+    setIsProcessing(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/payments/mock/complete", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reference, outcome }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to process payment");
+      }
+
+      router.push(`/dashboard?payment=${reference}`);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to process payment"
+      );
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow max-w-md w-full p-6">
+        <h1 className="text-xl font-semibold text-gray-900">Test Checkout</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          This page simulates a payment gateway. No money will be moved.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {payment && (
+          <div className="mt-6 space-y-4">
+            <div className="rounded-lg bg-gray-50 p-4 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  {payment.investment ? "Opportunity" : "Distribution fund"}
+                </span>
+                <span className="font-medium text-gray-900">
+                  {(payment.investment?.business ?? payment.business)?.title}
+                </span>
+              </div>
+              <div className="flex justify-between mt-2">
+                <span className="text-gray-600">Amount</span>
+                <span className="font-medium text-gray-900">
+                  {formatCurrency(payment.amount)}
+                </span>
+              </div>
+              <div className="flex justify-between mt-2">
+                <span className="text-gray-600">Reference</span>
+                <span className="font-mono text-xs text-gray-900">
+                  {payment.reference}
+                </span>
+              </div>
+            </div>
+
+            {payment.status === "PENDING" ? (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => completePayment("successful")}
+                  disabled={isProcessing}
+                  className="flex-1 rounded-md bg-green-600 px-4 py-2 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Simulate success
+                </button>
+                <button
+                  onClick={() => completePayment("failed")}
+                  disabled={isProcessing}
+                  className="flex-1 rounded-md border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Simulate failure
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                This payment has already been processed ({payment.status}).
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MockCheckoutPage() {
+  return (
+    <Suspense fallback={null}>
+      <MockCheckout />
+    </Suspense>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signOut, useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import {
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+} from "@heroicons/react/24/outline";
+
+interface DeviceSession {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Rough browser and OS names; enough to recognise your own devices
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+    ? "Chrome"
+    : /Firefox\//.test(userAgent)
+    ? "Firefox"
+    : /Safari\//.test(userAgent)
+    ? "Safari"
+    : "Browser";
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+    ? "Android"
+    : /Windows/.test(userAgent)
+    ? "Windows"
+    : /Mac OS X/.test(userAgent)
+    ? "macOS"
+    : /Linux/.test(userAgent)
+    ? "Linux"
+    : "unknown OS";
+
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null) =>
+  !!userAgent && /iPhone|iPad|Android|Mobile/.test(userAgent);
+
+export default function DevicesSettingsPage() {
+  const { data: session, status: sessionStatus } = useSession();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    const response = await fetch("/api/auth/sessions");
+    if (response.ok) {
+      const data = await response.json();
+      setSessions(data.sessions);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    fetchSessions();
+  }, [session, sessionStatus, router, fetchSessions]);
+
+  const revoke = async (url: string, id: string) => {
+    setProcessingId(id);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch(url, { method: "DELETE" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Something went wrong");
+        return;
+      }
+
+      if (result.current) {
+        await signOut({ callbackUrl: "/auth/signin" });
+        return;
+      }
+
+      setMessage(result.message);
+      await fetchSessions();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (sessionStatus === "loading" || !sessions) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  const hasOthers = sessions.some((device) => !device.current);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Devices</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Where your account is signed in. If you don&apos;t recognise a
+            device, sign it out and change your password.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {message && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">{message}</div>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">
+              Active sessions
+            </h2>
+            {hasOthers && (
+              <button
+                onClick={() => revoke("/api/auth/sessions", "others")}
+                disabled={processingId !== null}
+                className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-red-500 disabled:opacity-50"
+              >
+                Sign out all other devices
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {sessions.map((device) => {
+              const Icon = isMobile(device.userAgent)
+                ? DevicePhoneMobileIcon
+                : ComputerDesktopIcon;
+
+              return (
+                <li
+                  key={device.id}
+                  className="px-6 py-4 flex items-center justify-between"
+                >
+                  <div className="flex items-center">
+                    <Icon className="h-6 w-6 mr-3 text-gray-400" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {describeDevice(device.userAgent)}
+                        {device.current && (
+                          <span className="ml-2 inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {device.ip || "Unknown IP"} · Signed in{" "}
+                        {new Date(device.createdAt).toLocaleDateString()} · Last
+                        active {new Date(device.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() =>
+                      revoke(`/api/auth/sessions/${device.id}`, device.id)
+                    }
+                    disabled={processingId !== null}
+                    className="text-sm font-medium text-red-600 hover:text-red-900 disabled:opacity-50"
+                  >
+                    Sign out
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
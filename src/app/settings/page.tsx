@@ -0,0 +1,394 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { signOut, useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import {
+  ComputerDesktopIcon,
+  DocumentArrowDownIcon,
+  IdentificationIcon,
+  ShieldCheckIcon,
+} from "@heroicons/react/24/outline";
+import { useTheme } from "@/contexts/ThemeContext";
+import PasswordRequirements from "@/components/PasswordRequirements";
+
+interface Profile {
+  id: string;
+  name: string;
+  email: string;
+  pendingEmail: string | null;
+  phone: string | null;
+  address: string | null;
+  verified: boolean;
+}
+
+const inputClassName =
+  "block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6";
+
+const labelClassName = "block text-sm font-medium leading-6 text-gray-900";
+
+const buttonClassName =
+  "rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50";
+
+export default function SettingsPage() {
+  const { data: session, status: sessionStatus } = useSession();
+  const router = useRouter();
+  const { theme, setTheme } = useTheme();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    const response = await fetch("/api/users/me");
+    if (response.ok) {
+      const data = await response.json();
+      setProfile(data.user);
+      setName(data.user.name);
+      setPhone(data.user.phone ?? "");
+      setAddress(data.user.address ?? "");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    fetchProfile();
+  }, [session, sessionStatus, router, fetchProfile]);
+
+  const save = async (body: Record<string, string | null>) => {
+    setIsSubmitting(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/users/me", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(
+          result.details?.[0]?.message || result.error || "Something went wrong"
+        );
+        return null;
+      }
+
+      setMessage(result.message);
+      setProfile(result.user);
+      return result;
+    } catch {
+      setError("An error occurred. Please try again.");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await save({
+      name,
+      phone: phone.trim() || null,
+      address: address.trim() || null,
+    });
+  };
+
+  const changeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await save({
+      email: newEmail,
+      currentPassword: emailPassword,
+    });
+    if (result) {
+      setNewEmail("");
+      setEmailPassword("");
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError("New passwords don't match");
+      return;
+    }
+
+    const result = await save({ currentPassword, newPassword });
+    if (result?.passwordChanged) {
+      // Every session, this one included, is signed out by the change
+      await signOut({ callbackUrl: "/auth/signin" });
+    }
+  };
+
+  if (sessionStatus === "loading" || !profile) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Manage your profile, sign-in details and preferences.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Link
+            href="/settings/security"
+            className="flex items-center bg-white shadow rounded-lg p-4 text-sm font-medium text-gray-900 hover:bg-gray-50"
+          >
+            <ShieldCheckIcon className="h-5 w-5 mr-2 text-green-600" />
+            Security and sign-in history
+          </Link>
+          <Link
+            href="/settings/verification"
+            className="flex items-center bg-white shadow rounded-lg p-4 text-sm font-medium text-gray-900 hover:bg-gray-50"
+          >
+            <IdentificationIcon className="h-5 w-5 mr-2 text-green-600" />
+            Identity verification
+          </Link>
+          <Link
+            href="/settings/devices"
+            className="flex items-center bg-white shadow rounded-lg p-4 text-sm font-medium text-gray-900 hover:bg-gray-50"
+          >
+            <ComputerDesktopIcon className="h-5 w-5 mr-2 text-green-600" />
+            Signed-in devices
+          </Link>
+          <Link
+            href="/settings/privacy"
+            className="flex items-center bg-white shadow rounded-lg p-4 text-sm font-medium text-gray-900 hover:bg-gray-50"
+          >
+            <DocumentArrowDownIcon className="h-5 w-5 mr-2 text-green-600" />
+            Your data and account erasure
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {message && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">{message}</div>
+          </div>
+        )}
+
+        <form
+          onSubmit={saveProfile}
+          className="bg-white shadow rounded-lg p-6 space-y-4"
+        >
+          <h2 className="text-lg font-medium text-gray-900">Profile</h2>
+          <div>
+            <label htmlFor="name" className={labelClassName}>
+              Full name
+            </label>
+            <input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="name"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor="phone" className={labelClassName}>
+              Phone number
+            </label>
+            <input
+              id="phone"
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              autoComplete="tel"
+              placeholder="+44 7700 900123"
+              className={`mt-2 ${inputClassName}`}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Include your country code if you live outside Nigeria.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="address" className={labelClassName}>
+              Address
+            </label>
+            <textarea
+              id="address"
+              rows={3}
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              autoComplete="street-address"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={buttonClassName}
+          >
+            Save profile
+          </button>
+        </form>
+
+        <form
+          onSubmit={changeEmail}
+          className="bg-white shadow rounded-lg p-6 space-y-4"
+        >
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Email address</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              {profile.email}
+              {!profile.verified && " (not verified)"}
+            </p>
+            {profile.pendingEmail && (
+              <p className="mt-1 text-sm text-yellow-700">
+                Waiting for you to confirm {profile.pendingEmail}. Your current
+                address stays in use until then.
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="new-email" className={labelClassName}>
+              New email address
+            </label>
+            <input
+              id="new-email"
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              autoComplete="email"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor="email-password" className={labelClassName}>
+              Current password
+            </label>
+            <input
+              id="email-password"
+              type="password"
+              value={emailPassword}
+              onChange={(e) => setEmailPassword(e.target.value)}
+              autoComplete="current-password"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !newEmail || !emailPassword}
+            className={buttonClassName}
+          >
+            Change email
+          </button>
+        </form>
+
+        <form
+          onSubmit={changePassword}
+          className="bg-white shadow rounded-lg p-6 space-y-4"
+        >
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Password</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Changing your password signs you out on every device.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="current-password" className={labelClassName}>
+              Current password
+            </label>
+            <input
+              id="current-password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor="new-password" className={labelClassName}>
+              New password
+            </label>
+            <input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              className={`mt-2 ${inputClassName}`}
+            />
+            <PasswordRequirements password={newPassword} />
+          </div>
+          <div>
+            <label htmlFor="confirm-password" className={labelClassName}>
+              Confirm new password
+            </label>
+            <input
+              id="confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              className={`mt-2 ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !currentPassword || !newPassword}
+            className={buttonClassName}
+          >
+            Change password
+          </button>
+        </form>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900">Appearance</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Saved to your account and used on every device you sign in on.
+          </p>
+          <div className="mt-4 flex space-x-4">
+            {(["light", "dark"] as const).map((option) => (
+              <label
+                key={option}
+                className="flex items-center text-sm text-gray-900"
+              >
+                <input
+                  type="radio"
+                  name="theme"
+                  value={option}
+                  checked={theme === option}
+                  onChange={() => setTheme(option)}
+                  className="h-4 w-4 border-gray-300 text-green-600 focus:ring-green-600 mr-2"
+                />
+                {option === "light" ? "Light" : "Dark"}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+
+interface ErasureRequest {
+  id: string;
+  status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+  reason: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface ErasureStatus {
+  request: ErasureRequest | null;
+  blockers: string[];
+}
+
+const inputClassName =
+  "block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6";
+
+const labelClassName = "block text-sm font-medium leading-6 text-gray-900";
+
+export default function PrivacySettingsPage() {
+  const { data: session, status: sessionStatus } = useSession();
+  const router = useRouter();
+  const [erasure, setErasure] = useState<ErasureStatus | null>(null);
+  const [password, setPassword] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchErasure = useCallback(async () => {
+    const response = await fetch("/api/users/me/erasure");
+    if (response.ok) {
+      setErasure(await response.json());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    fetchErasure();
+  }, [session, sessionStatus, router, fetchErasure]);
+
+  const send = async (init: RequestInit) => {
+    setIsSubmitting(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/users/me/erasure", init);
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(
+          result.details?.[0]?.message || result.error || "Something went wrong"
+        );
+        return;
+      }
+
+      setMessage(result.message);
+      setPassword("");
+      setReason("");
+      await fetchErasure();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const requestErasure = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      !confirm(
+        "Erase your account? Once approved this can't be undone and you won't be able to sign in again."
+      )
+    ) {
+      return;
+    }
+    send({
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ password, reason: reason || undefined }),
+    });
+  };
+
+  const cancelErasure = () => send({ method: "DELETE" });
+
+  if (sessionStatus === "loading" || !erasure) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  const pending = erasure.request?.status === "PENDING";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Your data</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Get a copy of your personal data or ask us to erase your account, as
+            the Nigeria Data Protection Regulation allows.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {message && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">{message}</div>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900">
+            Download your data
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Your profile, investments, returns, payments, withdrawals, messages,
+            notifications, identity verifications and sign-in history, as a JSON
+            file.
+          </p>
+          <a
+            href="/api/users/me/export"
+            className="mt-4 inline-flex items-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+            Download my data
+          </a>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Erase your account
+            </h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Your name, contact details, identity documents, messages you sent
+              and sign-in history are removed. Investment, payment, return and
+              withdrawal records are kept because the law requires it, but they
+              will no longer identify you. Our compliance team reviews every
+              request.
+            </p>
+          </div>
+
+          {erasure.request && erasure.request.status !== "CANCELLED" && (
+            <div
+              className={`rounded-md p-4 text-sm ${
+                erasure.request.status === "REJECTED"
+                  ? "bg-red-50 text-red-700"
+                  : "bg-yellow-50 text-yellow-700"
+              }`}
+            >
+              {pending
+                ? `Requested on ${new Date(
+                    erasure.request.createdAt
+                  ).toLocaleDateString()} and waiting for review.`
+                : `Your request from ${new Date(
+                    erasure.request.createdAt
+                  ).toLocaleDateString()} was declined: ${
+                    erasure.request.reviewNote
+                  }`}
+            </div>
+          )}
+
+          {pending ? (
+            <button
+              onClick={cancelErasure}
+              disabled={isSubmitting}
+              className="rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel request
+            </button>
+          ) : erasure.blockers.length > 0 ? (
+            <div className="text-sm text-gray-700">
+              Your account can&apos;t be erased yet:
+              <ul className="mt-1 list-disc pl-5">
+                {erasure.blockers.map((blocker) => (
+                  <li key={blocker}>{blocker}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <form onSubmit={requestErasure} className="space-y-4">
+              <div>
+                <label htmlFor="erasure-reason" className={labelClassName}>
+                  Why are you leaving? (optional)
+                </label>
+                <textarea
+                  id="erasure-reason"
+                  rows={3}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className={`mt-2 ${inputClassName}`}
+                />
+              </div>
+              <div>
+                <label htmlFor="erasure-password" className={labelClassName}>
+                  Password
+                </label>
+                <input
+                  id="erasure-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className={`mt-2 ${inputClassName}`}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting || !password}
+                className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-red-500 disabled:opacity-50"
+              >
+                Request account erasure
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
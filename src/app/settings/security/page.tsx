@@ -0,0 +1,362 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ShieldCheckIcon } from "@heroicons/react/24/outline";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface LoginEvent {
+  id: string;
+  success: boolean;
+  reason: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+const LOGIN_FAILURE_LABELS: Record<string, string> = {
+  INVALID_PASSWORD: "Wrong password",
+  INVALID_TWO_FACTOR_CODE: "Wrong authentication code",
+  ACCOUNT_LOCKED: "Refused while locked",
+};
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+const inputClassName =
+  "block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6";
+
+export default function SecuritySettingsPage() {
+  const { data: session, status: sessionStatus, update } = useSession();
+  const router = useRouter();
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loginEvents, setLoginEvents] = useState<LoginEvent[]>([]);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    const response = await fetch("/api/auth/two-factor");
+    if (response.ok) {
+      setTwoFactor(await response.json());
+    }
+  }, []);
+
+  const fetchLoginEvents = useCallback(async () => {
+    const response = await fetch("/api/auth/login-events");
+    if (response.ok) {
+      const data = await response.json();
+      setLoginEvents(data.events);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    fetchStatus();
+    fetchLoginEvents();
+  }, [session, sessionStatus, router, fetchStatus, fetchLoginEvents]);
+
+  const post = async (url: string, body?: Record<string, string>) => {
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Something went wrong");
+        return null;
+      }
+      return result;
+    } catch {
+      setError("An error occurred. Please try again.");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const result = await post("/api/auth/two-factor/setup");
+    if (result) setSetup(result);
+  };
+
+  const confirmSetup = async () => {
+    const result = await post("/api/auth/two-factor/enable", { code });
+    if (result) {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      await fetchStatus();
+      // Refresh the session so a pending enrollment requirement is lifted
+      await update();
+    }
+  };
+
+  const regenerateCodes = async () => {
+    const result = await post("/api/auth/two-factor/recovery-codes", { code });
+    if (result) {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      await fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    if (!confirm("Turn off two-factor authentication?")) return;
+    const result = await post("/api/auth/two-factor/disable", { code });
+    if (result) {
+      setCode("");
+      setRecoveryCodes([]);
+      await fetchStatus();
+    }
+  };
+
+  if (sessionStatus === "loading" || !twoFactor) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Protect your account with a code from an authenticator app such as
+            Google Authenticator, Authy or 1Password.
+          </p>
+        </div>
+
+        {session?.user?.twoFactorSetupRequired && (
+          <div className="rounded-md bg-yellow-50 p-4">
+            <div className="text-sm text-yellow-800">
+              Administrator accounts must set up two-factor authentication
+              before continuing.
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900">
+              Your recovery codes
+            </h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Store these somewhere safe. Each code signs you in once if you
+              lose access to your authenticator app. They will not be shown
+              again.
+            </p>
+            <ul className="mt-4 grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li
+                  key={recoveryCode}
+                  className="rounded bg-gray-100 px-3 py-1.5 text-gray-900"
+                >
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+            {session?.user?.twoFactorSetupRequired === false &&
+              twoFactor.required && (
+                <button
+                  onClick={() => router.push("/dashboard")}
+                  className="mt-4 rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500"
+                >
+                  Continue to dashboard
+                </button>
+              )}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center">
+            <ShieldCheckIcon
+              className={`h-6 w-6 mr-2 ${
+                twoFactor.enabled ? "text-green-600" : "text-gray-400"
+              }`}
+            />
+            <h2 className="text-lg font-medium text-gray-900">
+              Two-factor authentication is {twoFactor.enabled ? "on" : "off"}
+            </h2>
+          </div>
+
+          {!twoFactor.enabled && !setup && (
+            <button
+              onClick={startSetup}
+              disabled={isSubmitting}
+              className="mt-4 rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50"
+            >
+              Set up two-factor authentication
+            </button>
+          )}
+
+          {setup && (
+            <div className="mt-4 space-y-4">
+              <p className="text-sm text-gray-600">
+                Open{" "}
+                <a
+                  href={setup.otpauthUri}
+                  className="font-semibold text-green-600 hover:text-green-500"
+                >
+                  this link
+                </a>{" "}
+                on your phone, or add an account in your authenticator app with
+                this key:
+              </p>
+              <p className="rounded bg-gray-100 px-3 py-2 font-mono text-sm break-all text-gray-900">
+                {setup.secret}
+              </p>
+              <p className="text-xs text-gray-500 break-all">
+                {setup.otpauthUri}
+              </p>
+              <div>
+                <label
+                  htmlFor="setup-code"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  Enter the 6-digit code from the app to finish
+                </label>
+                <div className="mt-2 flex space-x-2">
+                  <input
+                    id="setup-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    className={inputClassName}
+                  />
+                  <button
+                    onClick={confirmSetup}
+                    disabled={isSubmitting || !code}
+                    className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50"
+                  >
+                    Verify
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {twoFactor.enabled && (
+            <div className="mt-4 space-y-4">
+              <p className="text-sm text-gray-600">
+                {twoFactor.recoveryCodesRemaining} recovery code
+                {twoFactor.recoveryCodesRemaining === 1 ? "" : "s"} left. Enter
+                a current authentication code to manage two-factor settings.
+              </p>
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Authentication code"
+                autoComplete="one-time-code"
+                className={inputClassName}
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={regenerateCodes}
+                  disabled={isSubmitting || !code}
+                  className="rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Generate new recovery codes
+                </button>
+                {!twoFactor.required && (
+                  <button
+                    onClick={disable}
+                    disabled={isSubmitting || !code}
+                    className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-red-500 disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">
+              Recent sign-ins
+            </h2>
+            <p className="mt-1 text-sm text-gray-600">
+              If you don&apos;t recognise an attempt, change your password and
+              review your{" "}
+              <Link
+                href="/settings/devices"
+                className="font-semibold text-green-600 hover:text-green-500"
+              >
+                signed-in devices
+              </Link>
+              .
+            </p>
+          </div>
+          {loginEvents.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-500">
+              No sign-ins recorded yet
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {loginEvents.map((event) => (
+                <li
+                  key={event.id}
+                  className="px-6 py-3 flex items-center justify-between"
+                >
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate max-w-md">
+                      {event.ip || "Unknown IP"} ·{" "}
+                      {event.userAgent || "Unknown device"}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-sm font-medium ${
+                      event.success ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {event.success
+                      ? "Signed in"
+                      : LOGIN_FAILURE_LABELS[event.reason ?? ""] || "Failed"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
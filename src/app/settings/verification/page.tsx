@@ -0,0 +1,319 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { IdentificationIcon } from "@heroicons/react/24/outline";
+
+type KycTier = "NONE" | "TIER_1" | "TIER_2" | "TIER_3";
+type DocumentType = "PASSPORT" | "NIN_SLIP" | "UTILITY_BILL";
+
+interface TierRequirements {
+  label: string;
+  investmentLimit: number | null;
+  identityNumbers: "none" | "either" | "both";
+  documents: DocumentType[][];
+}
+
+interface KycStatus {
+  tier: KycTier;
+  investmentLimit: number | null;
+  committed: number;
+  tiers: Record<KycTier, TierRequirements>;
+  latestSubmission: {
+    id: string;
+    requestedTier: KycTier;
+    status: "PENDING" | "APPROVED" | "REJECTED";
+    reason: string | null;
+    createdAt: string;
+    documents: { id: string; type: DocumentType; fileName: string }[];
+  } | null;
+}
+
+const TIER_ORDER: KycTier[] = ["NONE", "TIER_1", "TIER_2", "TIER_3"];
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  PASSPORT: "International passport",
+  NIN_SLIP: "NIN slip",
+  UTILITY_BILL: "Utility bill (proof of address)",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const inputClassName =
+  "block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-green-600 sm:text-sm sm:leading-6";
+
+export default function VerificationSettingsPage() {
+  const { data: session, status: sessionStatus } = useSession();
+  const router = useRouter();
+  const [kyc, setKyc] = useState<KycStatus | null>(null);
+  const [tier, setTier] = useState<KycTier>("TIER_1");
+  const [bvn, setBvn] = useState("");
+  const [nin, setNin] = useState("");
+  const [files, setFiles] = useState<Partial<Record<DocumentType, File>>>({});
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    const response = await fetch("/api/kyc");
+    if (response.ok) {
+      const data: KycStatus = await response.json();
+      setKyc(data);
+      // Default the form to the next tier up
+      const next = TIER_ORDER[TIER_ORDER.indexOf(data.tier) + 1];
+      if (next) setTier(next);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    fetchStatus();
+  }, [session, sessionStatus, router, fetchStatus]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const form = new FormData();
+      form.set("tier", tier);
+      if (bvn) form.set("bvn", bvn);
+      if (nin) form.set("nin", nin);
+      for (const [type, file] of Object.entries(files)) {
+        if (file) form.set(type, file);
+      }
+
+      const response = await fetch("/api/kyc", {
+        method: "POST",
+        body: form,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(
+          result.details?.[0]?.message || result.error || "Something went wrong"
+        );
+        return;
+      }
+
+      setMessage(
+        "Thanks! Your documents have been submitted and will be reviewed shortly."
+      );
+      setBvn("");
+      setNin("");
+      setFiles({});
+      await fetchStatus();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sessionStatus === "loading" || !kyc) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  const requirements = kyc.tiers[tier];
+  const upgradeTiers = TIER_ORDER.filter(
+    (option) => TIER_ORDER.indexOf(option) > TIER_ORDER.indexOf(kyc.tier)
+  );
+  const pending = kyc.latestSubmission?.status === "PENDING";
+  const documentTypes = Array.from(new Set(requirements.documents.flat()));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Identity verification
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            We are required to verify who our investors are. Higher verification
+            tiers raise how much you can invest.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {message && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">{message}</div>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center">
+            <IdentificationIcon
+              className={`h-6 w-6 mr-2 ${
+                kyc.tier === "NONE" ? "text-gray-400" : "text-green-600"
+              }`}
+            />
+            <h2 className="text-lg font-medium text-gray-900">
+              {kyc.tiers[kyc.tier].label}
+            </h2>
+          </div>
+          <p className="mt-2 text-sm text-gray-600">
+            {kyc.investmentLimit === null
+              ? "You can invest without a limit."
+              : kyc.investmentLimit === 0
+              ? "Verify your identity to start investing."
+              : `You have ${formatCurrency(
+                  kyc.committed
+                )} of your ${formatCurrency(
+                  kyc.investmentLimit
+                )} limit invested.`}
+          </p>
+
+          {kyc.latestSubmission && (
+            <p className="mt-2 text-sm text-gray-600">
+              Your {kyc.tiers[kyc.latestSubmission.requestedTier].label}{" "}
+              submission from{" "}
+              {new Date(kyc.latestSubmission.createdAt).toLocaleDateString()}{" "}
+              {kyc.latestSubmission.status === "PENDING"
+                ? "is awaiting review."
+                : kyc.latestSubmission.status === "APPROVED"
+                ? "was approved."
+                : `was rejected: ${kyc.latestSubmission.reason}`}
+            </p>
+          )}
+        </div>
+
+        {upgradeTiers.length > 0 && !pending && (
+          <form
+            onSubmit={submit}
+            className="bg-white shadow rounded-lg p-6 space-y-4"
+          >
+            <h2 className="text-lg font-medium text-gray-900">
+              Upgrade your verification
+            </h2>
+
+            <div>
+              <label
+                htmlFor="tier"
+                className="block text-sm font-medium leading-6 text-gray-900"
+              >
+                Tier
+              </label>
+              <select
+                id="tier"
+                value={tier}
+                onChange={(e) => setTier(e.target.value as KycTier)}
+                className={`mt-2 ${inputClassName}`}
+              >
+                {upgradeTiers.map((option) => {
+                  const limit = kyc.tiers[option].investmentLimit;
+                  return (
+                    <option key={option} value={option}>
+                      {kyc.tiers[option].label} —{" "}
+                      {limit === null
+                        ? "no investment limit"
+                        : `invest up to ${formatCurrency(limit)}`}
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label
+                  htmlFor="bvn"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  BVN
+                  {requirements.identityNumbers === "either" && " or NIN"}
+                </label>
+                <input
+                  id="bvn"
+                  value={bvn}
+                  onChange={(e) => setBvn(e.target.value)}
+                  inputMode="numeric"
+                  maxLength={11}
+                  placeholder="11 digits"
+                  className={`mt-2 ${inputClassName}`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="nin"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  NIN
+                </label>
+                <input
+                  id="nin"
+                  value={nin}
+                  onChange={(e) => setNin(e.target.value)}
+                  inputMode="numeric"
+                  maxLength={11}
+                  placeholder="11 digits"
+                  className={`mt-2 ${inputClassName}`}
+                />
+              </div>
+            </div>
+
+            {documentTypes.map((type) => (
+              <div key={type}>
+                <label
+                  htmlFor={type}
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  {DOCUMENT_LABELS[type]}
+                </label>
+                <input
+                  id={type}
+                  type="file"
+                  accept="application/pdf,image/jpeg,image/png"
+                  onChange={(e) =>
+                    setFiles({ ...files, [type]: e.target.files?.[0] })
+                  }
+                  className="mt-2 block w-full text-sm text-gray-600"
+                />
+              </div>
+            ))}
+
+            {requirements.documents.some((group) => group.length > 1) && (
+              <p className="text-xs text-gray-500">
+                A passport or NIN slip is enough; you don&apos;t need both.
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              PDF, JPEG or PNG, up to 5 MB each.
+            </p>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50"
+            >
+              {isSubmitting ? "Submitting..." : "Submit for review"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import {
+  EnvelopeIcon,
+  NoSymbolIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+type AdminRole = "SUPER_ADMIN" | "SUPPORT" | "COMPLIANCE" | "FINANCE";
+
+interface Administrator {
+  id: string;
+  name: string;
+  email: string;
+  adminRole: AdminRole | null;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  adminRole: AdminRole;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: { id: string; name: string };
+}
+
+const ADMIN_ROLES: { value: AdminRole; label: string; description: string }[] =
+  [
+    {
+      value: "SUPPORT",
+      label: "Support",
+      description: "Look up users and unlock accounts",
+    },
+    {
+      value: "COMPLIANCE",
+      label: "Compliance",
+      description: "Identity verification and account status",
+    },
+    {
+      value: "FINANCE",
+      label: "Finance",
+      description: "Withdrawals, distributions and investment status",
+    },
+    {
+      value: "SUPER_ADMIN",
+      label: "Super-admin",
+      description: "Everything, including managing administrators",
+    },
+  ];
+
+const roleLabel = (role: AdminRole | null) =>
+  ADMIN_ROLES.find((option) => option.value === role)?.label ?? "No role";
+
+export default function AdminManagement() {
+  const { data: session } = useSession();
+  const [admins, setAdmins] = useState<Administrator[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [adminRole, setAdminRole] = useState<AdminRole>("SUPPORT");
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+
+  const fetchAdmins = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/admins");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load administrators");
+      }
+      setAdmins(data.admins);
+      setInvitations(data.invitations);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load administrators"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProcessingId("invite");
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/admin/invitations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email,
+          adminRole,
+          twoFactorCode: twoFactorCode || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.code === "TWO_FACTOR_REQUIRED") {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            "Failed to send invitation"
+        );
+      }
+
+      setMessage(data.message);
+      setEmail("");
+      setTwoFactorCode("");
+      setNeedsTwoFactor(false);
+      await fetchAdmins();
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to send invitation"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const send = async (id: string, url: string, init: RequestInit) => {
+    setProcessingId(id);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Something went wrong");
+      }
+
+      setMessage(data.message);
+      await fetchAdmins();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const changeRole = (admin: Administrator, nextRole: AdminRole) => {
+    const code = prompt("Enter your authentication code:");
+    if (!code) return;
+    send(admin.id, `/api/admin/admins/${admin.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ adminRole: nextRole, twoFactorCode: code }),
+    });
+  };
+
+  const revokeAdmin = (admin: Administrator) => {
+    if (
+      !confirm(
+        `Revoke ${admin.name}'s administrator access? Their account will be deactivated and signed out everywhere.`
+      )
+    ) {
+      return;
+    }
+    const code = prompt("Enter your authentication code:");
+    if (!code) return;
+    send(admin.id, `/api/admin/admins/${admin.id}`, {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ twoFactorCode: code }),
+    });
+  };
+
+  const revokeInvitation = (invitation: Invitation) =>
+    send(invitation.id, `/api/admin/invitations/${invitation.id}`, {
+      method: "DELETE",
+    });
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {message && (
+        <div className="rounded-md bg-green-50 p-4">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <form onSubmit={invite} className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900">
+          Invite an administrator
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          They&apos;ll get an email link to set up their account, valid for 7
+          days.
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label
+              htmlFor="invite-email"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Email
+            </label>
+            <input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="mt-1 rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="invite-role"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Role
+            </label>
+            <select
+              id="invite-role"
+              value={adminRole}
+              onChange={(e) => setAdminRole(e.target.value as AdminRole)}
+              className="mt-1 rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+            >
+              {ADMIN_ROLES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {needsTwoFactor && (
+            <div>
+              <label
+                htmlFor="invite-code"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Authentication code
+              </label>
+              <input
+                id="invite-code"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                autoComplete="one-time-code"
+                className="mt-1 rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={processingId !== null || !email}
+            className="inline-flex items-center rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white hover:bg-green-500 disabled:opacity-50"
+          >
+            <EnvelopeIcon className="h-5 w-5 mr-1" />
+            Send invitation
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          {
+            ADMIN_ROLES.find((option) => option.value === adminRole)
+              ?.description
+          }
+        </p>
+      </form>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Administrators</h3>
+        </div>
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading...</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {admins.map((admin) => {
+              const isSelf = admin.id === session?.user.id;
+
+              return (
+                <li
+                  key={admin.id}
+                  className="px-6 py-4 flex items-center justify-between"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {admin.name}
+                      {isSelf && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          (you)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {admin.email}
+                      {!admin.twoFactorEnabled && " · 2FA not set up yet"}
+                    </p>
+                  </div>
+                  {isSelf ? (
+                    <span className="text-sm text-gray-500">
+                      {roleLabel(admin.adminRole)}
+                    </span>
+                  ) : (
+                    <div className="flex items-center space-x-4">
+                      <select
+                        value={admin.adminRole ?? ""}
+                        onChange={(e) =>
+                          changeRole(admin, e.target.value as AdminRole)
+                        }
+                        disabled={processingId !== null}
+                        className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+                      >
+                        {!admin.adminRole && (
+                          <option value="" disabled>
+                            No role
+                          </option>
+                        )}
+                        {ADMIN_ROLES.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => revokeAdmin(admin)}
+                        disabled={processingId !== null}
+                        className="inline-flex items-center text-sm text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        <NoSymbolIcon className="h-5 w-5 mr-1" />
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {invitations.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Pending invitations
+            </h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {invitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="px-6 py-4 flex items-center justify-between"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {invitation.email}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {roleLabel(invitation.adminRole)} · invited by{" "}
+                    {invitation.invitedBy.name} · expires{" "}
+                    {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => revokeInvitation(invitation)}
+                  disabled={processingId !== null}
+                  className="inline-flex items-center text-sm text-red-600 hover:text-red-900 disabled:opacity-50"
+                >
+                  <XMarkIcon className="h-5 w-5 mr-1" />
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
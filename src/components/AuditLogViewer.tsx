@@ -0,0 +1,373 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  ArrowDownTrayIcon,
+  ShieldCheckIcon,
+  ShieldExclamationIcon,
+} from "@heroicons/react/24/outline";
+
+interface AuditEvent {
+  id: string;
+  sequence: number;
+  action: string;
+  actorId: string | null;
+  actorRole: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: string;
+  actor: { id: string; name: string; email: string } | null;
+}
+
+interface Verification {
+  valid: boolean;
+  checked: number;
+  headHash: string | null;
+  failure?: { sequence: number; reason: string };
+}
+
+const ACTIONS = [
+  "admin:create",
+  "admin:invite",
+  "admin:revokeInvitation",
+  "admin:updateRole",
+  "admin:revoke",
+  "user:updateStatus",
+  "user:unlock",
+  "kyc:review",
+  "erasure:review",
+  "withdrawal:review",
+  "investment:updateStatus",
+  "payment:mismatch",
+  "opportunity:create",
+  "opportunity:update",
+  "opportunity:updateStatus",
+  "opportunity:submit",
+  "opportunity:vet",
+  "opportunity:publish",
+  "company:update",
+  "message:send",
+];
+
+const TARGET_TYPES = [
+  "User",
+  "AdminInvitation",
+  "KycSubmission",
+  "ErasureRequest",
+  "WithdrawalRequest",
+  "Investment",
+  "Business",
+  "Message",
+];
+
+const formatValue = (value: unknown) =>
+  value === null
+    ? "—"
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+
+export default function AuditLogViewer() {
+  const [search, setSearch] = useState("");
+  const [action, setAction] = useState("");
+  const [targetType, setTargetType] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  // Any filter change starts again from the first page
+  const changeFilter = (setter: (value: string) => void, value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    if (action) params.set("action", action);
+    if (targetType) params.set("targetType", targetType);
+    if (from) params.set("from", new Date(from).toISOString());
+    // Include the whole of the end day
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+    return params;
+  }, [search, action, targetType, from, to]);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const params = filterParams();
+      params.set("page", String(page));
+
+      const response = await fetch(`/api/admin/audit?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the audit log");
+      }
+      setEvents(data.events);
+      setTotal(data.total);
+      setPageSize(data.pageSize);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load the audit log"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [filterParams, page]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const verify = async () => {
+    setVerifying(true);
+    try {
+      const response = await fetch("/api/admin/audit/verify");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to verify the audit log");
+      }
+      setVerification(data.verification);
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to verify the audit log"
+      );
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="space-y-4">
+      {verification &&
+        (verification.valid ? (
+          <div className="rounded-md bg-green-50 p-4 flex items-start">
+            <ShieldCheckIcon className="h-5 w-5 mr-2 text-green-600" />
+            <div className="text-sm text-green-700">
+              All {verification.checked} events verified.
+              {verification.headHash && (
+                <div className="mt-1 font-mono text-xs break-all">
+                  Head hash: {verification.headHash}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-md bg-red-50 p-4 flex items-start">
+            <ShieldExclamationIcon className="h-5 w-5 mr-2 text-red-600" />
+            <div className="text-sm text-red-700">
+              The chain is broken at event {verification.failure?.sequence}:{" "}
+              {verification.failure?.reason}.
+            </div>
+          </div>
+        ))}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+          <h3 className="text-lg font-medium text-gray-900">Audit Log</h3>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={verify}
+              disabled={verifying}
+              className="inline-flex items-center text-sm text-green-600 hover:text-green-900 disabled:opacity-50"
+            >
+              <ShieldCheckIcon className="h-5 w-5 mr-1" />
+              {verifying ? "Verifying..." : "Verify integrity"}
+            </button>
+            <a
+              href={`/api/admin/audit/export?${filterParams().toString()}`}
+              className="inline-flex items-center text-sm text-green-600 hover:text-green-900"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+              Export CSV
+            </a>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center gap-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => changeFilter(setSearch, e.target.value)}
+            placeholder="Search IDs, IPs or values"
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          />
+          <select
+            value={action}
+            onChange={(e) => changeFilter(setAction, e.target.value)}
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          >
+            <option value="">All actions</option>
+            {ACTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={targetType}
+            onChange={(e) => changeFilter(setTargetType, e.target.value)}
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          >
+            <option value="">All targets</option>
+            {TARGET_TYPES.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => changeFilter(setFrom, e.target.value)}
+              className="ml-2 rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+            />
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => changeFilter(setTo, e.target.value)}
+              className="ml-2 rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="m-6 rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading...</div>
+        ) : events.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No events found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    #
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Target
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Changes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {events.map((event) => (
+                  <tr key={event.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {event.sequence}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {event.action}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">
+                        {event.actor?.name ??
+                          (event.actorId ? event.actorId : "System")}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {[event.actorRole, event.ip]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {event.targetType && (
+                        <>
+                          <div>{event.targetType}</div>
+                          <div className="font-mono text-xs">
+                            {event.targetId}
+                          </div>
+                        </>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-700">
+                      {event.changes &&
+                        Object.entries(event.changes).map(([field, change]) => (
+                          <div key={field}>
+                            <span className="font-medium">{field}</span>:{" "}
+                            {formatValue(change.from)} →{" "}
+                            {formatValue(change.to)}
+                          </div>
+                        ))}
+                      {event.metadata &&
+                        Object.entries(event.metadata).map(([key, value]) => (
+                          <div key={key} className="text-gray-500">
+                            {key}: {formatValue(value ?? null)}
+                          </div>
+                        ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between text-sm text-gray-700">
+          <span>
+            {total} event{total === 1 ? "" : "s"}
+          </span>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || loading}
+              className="text-green-600 hover:text-green-900 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount || loading}
+              className="text-green-600 hover:text-green-900 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
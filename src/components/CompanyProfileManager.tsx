@@ -0,0 +1,649 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import {
+  BuildingOfficeIcon,
+  PencilIcon,
+  PhotoIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+
+interface TeamMember {
+  id: string;
+  name: string;
+  role: string;
+  bio: string | null;
+  linkedinUrl: string | null;
+  position: number;
+  photoUrl: string | null;
+}
+
+interface CompanyProfile {
+  id: string;
+  registeredName: string;
+  rcNumber: string;
+  yearFounded: number;
+  state: string;
+  city: string | null;
+  website: string | null;
+  linkedinUrl: string | null;
+  twitterUrl: string | null;
+  facebookUrl: string | null;
+  instagramUrl: string | null;
+  opportunityCount: number;
+  teamMembers: TeamMember[];
+}
+
+const EMPTY_PROFILE = {
+  registeredName: "",
+  rcNumber: "",
+  yearFounded: "",
+  state: "",
+  city: "",
+  website: "",
+  linkedinUrl: "",
+  twitterUrl: "",
+  facebookUrl: "",
+  instagramUrl: "",
+};
+
+const EMPTY_MEMBER = {
+  name: "",
+  role: "",
+  bio: "",
+  linkedinUrl: "",
+};
+
+type ProfileForm = typeof EMPTY_PROFILE;
+type MemberForm = typeof EMPTY_MEMBER;
+
+const PROFILE_LINKS: { field: keyof ProfileForm; label: string }[] = [
+  { field: "website", label: "Website" },
+  { field: "linkedinUrl", label: "LinkedIn" },
+  { field: "twitterUrl", label: "X (Twitter)" },
+  { field: "facebookUrl", label: "Facebook" },
+  { field: "instagramUrl", label: "Instagram" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500";
+
+// Blank optional fields are sent as null so they are cleared
+const optional = (value: string) => value.trim() || null;
+
+export default function CompanyProfileManager() {
+  const [profiles, setProfiles] = useState<CompanyProfile[]>([]);
+  const [states, setStates] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+  // "new" while creating a profile, or the id of the profile being edited
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
+  const [profileForm, setProfileForm] = useState<ProfileForm>(EMPTY_PROFILE);
+  // Profile the member form belongs to, and the member being edited if any
+  const [memberTarget, setMemberTarget] = useState<{
+    profileId: string;
+    memberId: string | null;
+  } | null>(null);
+  const [memberForm, setMemberForm] = useState<MemberForm>(EMPTY_MEMBER);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/company-profiles");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load company profiles");
+      }
+      setProfiles(data.profiles);
+      setStates(data.states);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load company profiles"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  // Send a request and refresh the list; returns whether it succeeded
+  const send = async (
+    url: string,
+    method: string,
+    body?: Record<string, unknown> | FormData
+  ) => {
+    setSaving(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await fetch(url, {
+        method,
+        ...(body instanceof FormData
+          ? { body }
+          : body
+          ? {
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(body),
+            }
+          : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const detail = data.details?.[0]?.message;
+        throw new Error(detail || data.error || "Request failed");
+      }
+
+      setMessage(data.message);
+      await fetchProfiles();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Request failed");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startProfileEdit = (profile?: CompanyProfile) => {
+    setEditingProfileId(profile ? profile.id : "new");
+    setProfileForm(
+      profile
+        ? {
+            registeredName: profile.registeredName,
+            rcNumber: profile.rcNumber,
+            yearFounded: profile.yearFounded.toString(),
+            state: profile.state,
+            city: profile.city ?? "",
+            website: profile.website ?? "",
+            linkedinUrl: profile.linkedinUrl ?? "",
+            twitterUrl: profile.twitterUrl ?? "",
+            facebookUrl: profile.facebookUrl ?? "",
+            instagramUrl: profile.instagramUrl ?? "",
+          }
+        : EMPTY_PROFILE
+    );
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body = {
+      registeredName: profileForm.registeredName.trim(),
+      rcNumber: profileForm.rcNumber.trim(),
+      yearFounded: parseInt(profileForm.yearFounded),
+      state: profileForm.state,
+      city: optional(profileForm.city),
+      website: optional(profileForm.website),
+      linkedinUrl: optional(profileForm.linkedinUrl),
+      twitterUrl: optional(profileForm.twitterUrl),
+      facebookUrl: optional(profileForm.facebookUrl),
+      instagramUrl: optional(profileForm.instagramUrl),
+    };
+
+    const saved =
+      editingProfileId === "new"
+        ? await send("/api/company-profiles", "POST", body)
+        : await send(
+            `/api/company-profiles/${editingProfileId}`,
+            "PATCH",
+            body
+          );
+
+    if (saved) setEditingProfileId(null);
+  };
+
+  const deleteProfile = async (profile: CompanyProfile) => {
+    if (!confirm(`Delete the company profile for ${profile.registeredName}?`)) {
+      return;
+    }
+    await send(`/api/company-profiles/${profile.id}`, "DELETE");
+  };
+
+  const startMemberEdit = (profileId: string, member?: TeamMember) => {
+    setMemberTarget({ profileId, memberId: member?.id ?? null });
+    setMemberForm(
+      member
+        ? {
+            name: member.name,
+            role: member.role,
+            bio: member.bio ?? "",
+            linkedinUrl: member.linkedinUrl ?? "",
+          }
+        : EMPTY_MEMBER
+    );
+  };
+
+  const saveMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!memberTarget) return;
+
+    const body = {
+      name: memberForm.name.trim(),
+      role: memberForm.role.trim(),
+      bio: optional(memberForm.bio),
+      linkedinUrl: optional(memberForm.linkedinUrl),
+    };
+    const base = `/api/company-profiles/${memberTarget.profileId}/team`;
+
+    const saved = memberTarget.memberId
+      ? await send(`${base}/${memberTarget.memberId}`, "PATCH", body)
+      : await send(base, "POST", body);
+
+    if (saved) setMemberTarget(null);
+  };
+
+  const removeMember = async (profileId: string, member: TeamMember) => {
+    if (!confirm(`Remove ${member.name} from the team?`)) return;
+    await send(
+      `/api/company-profiles/${profileId}/team/${member.id}`,
+      "DELETE"
+    );
+  };
+
+  const uploadPhoto = async (
+    profileId: string,
+    member: TeamMember,
+    file: File | undefined
+  ) => {
+    if (!file) return;
+    const form = new FormData();
+    form.append("photo", file);
+    await send(
+      `/api/company-profiles/${profileId}/team/${member.id}/photo`,
+      "PUT",
+      form
+    );
+  };
+
+  const renderProfileForm = () => (
+    <form
+      onSubmit={saveProfile}
+      className="p-4 border border-gray-200 rounded-lg space-y-4"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Registered Name *
+          </label>
+          <input
+            type="text"
+            value={profileForm.registeredName}
+            onChange={(e) =>
+              setProfileForm({ ...profileForm, registeredName: e.target.value })
+            }
+            className={inputClass}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            CAC Registration Number *
+          </label>
+          <input
+            type="text"
+            value={profileForm.rcNumber}
+            onChange={(e) =>
+              setProfileForm({ ...profileForm, rcNumber: e.target.value })
+            }
+            placeholder="RC1234567"
+            className={inputClass}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Year Founded *
+          </label>
+          <input
+            type="number"
+            value={profileForm.yearFounded}
+            onChange={(e) =>
+              setProfileForm({ ...profileForm, yearFounded: e.target.value })
+            }
+            min="1900"
+            max={new Date().getFullYear()}
+            className={inputClass}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            State *
+          </label>
+          <select
+            value={profileForm.state}
+            onChange={(e) =>
+              setProfileForm({ ...profileForm, state: e.target.value })
+            }
+            className={inputClass}
+            required
+          >
+            <option value="">Select a state</option>
+            {states.map((state) => (
+              <option key={state} value={state}>
+                {state}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            City
+          </label>
+          <input
+            type="text"
+            value={profileForm.city}
+            onChange={(e) =>
+              setProfileForm({ ...profileForm, city: e.target.value })
+            }
+            className={inputClass}
+          />
+        </div>
+        {PROFILE_LINKS.map(({ field, label }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {label}
+            </label>
+            <input
+              type="url"
+              value={profileForm[field]}
+              onChange={(e) =>
+                setProfileForm({ ...profileForm, [field]: e.target.value })
+              }
+              placeholder="https://"
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => setEditingProfileId(null)}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Company"}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderMemberForm = () => (
+    <form
+      onSubmit={saveMember}
+      className="mt-3 p-4 bg-gray-50 rounded-lg space-y-3"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={memberForm.name}
+          onChange={(e) =>
+            setMemberForm({ ...memberForm, name: e.target.value })
+          }
+          placeholder="Name *"
+          className={inputClass}
+          required
+        />
+        <input
+          type="text"
+          value={memberForm.role}
+          onChange={(e) =>
+            setMemberForm({ ...memberForm, role: e.target.value })
+          }
+          placeholder="Role, e.g. Chief Executive Officer *"
+          className={inputClass}
+          required
+        />
+      </div>
+      <textarea
+        value={memberForm.bio}
+        onChange={(e) => setMemberForm({ ...memberForm, bio: e.target.value })}
+        placeholder="Short bio: experience and what they bring to the business"
+        rows={3}
+        maxLength={1000}
+        className={inputClass}
+      />
+      <input
+        type="url"
+        value={memberForm.linkedinUrl}
+        onChange={(e) =>
+          setMemberForm({ ...memberForm, linkedinUrl: e.target.value })
+        }
+        placeholder="LinkedIn profile (https://)"
+        className={inputClass}
+      />
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => setMemberTarget(null)}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Member"}
+        </button>
+      </div>
+    </form>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Company Profiles
+          </h3>
+          <p className="text-sm text-gray-500">
+            Investors see your company&apos;s registration details and
+            management team on every opportunity linked to it.
+          </p>
+        </div>
+        {editingProfileId === null && (
+          <button
+            onClick={() => startProfileEdit()}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Company
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md bg-green-50 p-4">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      {editingProfileId === "new" && renderProfileForm()}
+
+      {profiles.length === 0 && editingProfileId !== "new" && (
+        <div className="text-center py-8">
+          <BuildingOfficeIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-500">
+            Add your company so investors know who they are backing.
+          </p>
+        </div>
+      )}
+
+      {profiles.map((profile) =>
+        editingProfileId === profile.id ? (
+          <div key={profile.id}>{renderProfileForm()}</div>
+        ) : (
+          <div
+            key={profile.id}
+            className="p-4 border border-gray-200 rounded-lg"
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-medium text-gray-900">
+                  {profile.registeredName}
+                </h4>
+                <p className="text-sm text-gray-500">
+                  {profile.rcNumber} · Founded {profile.yearFounded} ·{" "}
+                  {profile.city
+                    ? `${profile.city}, ${profile.state}`
+                    : profile.state}{" "}
+                  · Used by {profile.opportunityCount}{" "}
+                  {profile.opportunityCount === 1
+                    ? "opportunity"
+                    : "opportunities"}
+                </p>
+              </div>
+              <div className="flex space-x-3 text-sm">
+                <button
+                  onClick={() => startProfileEdit(profile)}
+                  className="inline-flex items-center text-gray-600 hover:text-gray-900"
+                >
+                  <PencilIcon className="h-4 w-4 mr-1" />
+                  Edit
+                </button>
+                {profile.opportunityCount === 0 && (
+                  <button
+                    onClick={() => deleteProfile(profile)}
+                    disabled={saving}
+                    className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                  >
+                    <TrashIcon className="h-4 w-4 mr-1" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <div className="flex items-center justify-between">
+                <h5 className="text-sm font-medium text-gray-700">
+                  Management Team
+                </h5>
+                <button
+                  onClick={() => startMemberEdit(profile.id)}
+                  className="inline-flex items-center text-sm text-green-600 hover:text-green-900"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Add Member
+                </button>
+              </div>
+
+              {memberTarget?.profileId === profile.id &&
+                memberTarget.memberId === null &&
+                renderMemberForm()}
+
+              <ul className="mt-2 divide-y divide-gray-100">
+                {profile.teamMembers.map((member) => (
+                  <li key={member.id} className="py-3">
+                    {memberTarget?.memberId === member.id ? (
+                      renderMemberForm()
+                    ) : (
+                      <div className="flex items-start justify-between">
+                        <div className="flex space-x-3">
+                          {member.photoUrl ? (
+                            <Image
+                              src={member.photoUrl}
+                              alt={member.name}
+                              width={40}
+                              height={40}
+                              unoptimized
+                              className="h-10 w-10 rounded-full object-cover"
+                            />
+                          ) : (
+                            <div className="h-10 w-10 rounded-full bg-green-100 text-green-700 flex items-center justify-center font-semibold">
+                              {member.name.charAt(0)}
+                            </div>
+                          )}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {member.name}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {member.role}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex space-x-3 text-sm">
+                          <label className="inline-flex items-center text-gray-600 hover:text-gray-900 cursor-pointer">
+                            <PhotoIcon className="h-4 w-4 mr-1" />
+                            Photo
+                            <input
+                              type="file"
+                              accept="image/jpeg,image/png,image/webp"
+                              className="hidden"
+                              onChange={(e) =>
+                                uploadPhoto(
+                                  profile.id,
+                                  member,
+                                  e.target.files?.[0]
+                                )
+                              }
+                            />
+                          </label>
+                          <button
+                            onClick={() => startMemberEdit(profile.id, member)}
+                            className="inline-flex items-center text-gray-600 hover:text-gray-900"
+                          >
+                            <PencilIcon className="h-4 w-4 mr-1" />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => removeMember(profile.id, member)}
+                            disabled={saving}
+                            className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            <TrashIcon className="h-4 w-4 mr-1" />
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {profile.teamMembers.length === 0 &&
+                memberTarget?.profileId !== profile.id && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    No team members yet.
+                  </p>
+                )}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CheckCircleIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+interface ErasureRequest {
+  id: string;
+  status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+  reason: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+  blockers: string[];
+}
+
+const STATUSES = ["PENDING", "APPROVED", "REJECTED", "CANCELLED"];
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+export default function ErasureRequestQueue() {
+  const [status, setStatus] = useState("PENDING");
+  const [requests, setRequests] = useState<ErasureRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/erasure-requests?status=${status}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load erasure requests");
+      }
+      setRequests(data.requests);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load erasure requests"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const review = async (
+    request: ErasureRequest,
+    action: "approve" | "reject"
+  ) => {
+    const body: Record<string, string> = { action };
+
+    if (action === "approve") {
+      if (
+        !confirm(
+          `Erase ${request.user.name}'s account? Their personal data is removed for good.`
+        )
+      ) {
+        return;
+      }
+    } else {
+      const note = prompt(
+        "Reason for declining this request (shown to the user):"
+      );
+      if (!note) return;
+      body.note = note;
+    }
+
+    setProcessingId(request.id);
+    try {
+      const response = await fetch(
+        `/api/admin/erasure-requests/${request.id}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to review erasure request");
+      }
+
+      await fetchQueue();
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to review erasure request"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">
+          Account Erasure Requests
+        </h3>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+        >
+          {STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {formatLabel(option)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="m-6 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : requests.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No {status.toLowerCase()} erasure requests
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Requested
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {requests.map((request) => (
+                <tr key={request.id} className="align-top">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {request.user.name}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {request.user.email}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatLabel(request.user.role)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {request.reason || "—"}
+                    {request.blockers.length > 0 && (
+                      <ul className="mt-2 text-xs text-red-600 list-disc pl-4">
+                        {request.blockers.map((blocker) => (
+                          <li key={blocker}>{blocker}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(request.createdAt).toLocaleDateString()}
+                    {request.reviewedBy && (
+                      <div className="text-xs">
+                        Reviewed by {request.reviewedBy.name}
+                      </div>
+                    )}
+                    {request.reviewNote && (
+                      <div className="text-xs text-red-600">
+                        {request.reviewNote}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {request.status === "PENDING" && (
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => review(request, "approve")}
+                          disabled={
+                            processingId === request.id ||
+                            request.blockers.length > 0
+                          }
+                          className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          <CheckCircleIcon className="h-5 w-5 mr-1" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => review(request, "reject")}
+                          disabled={processingId === request.id}
+                          className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          <XMarkIcon className="h-5 w-5 mr-1" />
+                          Reject
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
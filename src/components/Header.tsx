@@ -84,6 +84,12 @@ export default function Header() {
               >
                 Dashboard
               </Link>
+              <Link
+                href="/settings"
+                className="text-sm font-semibold leading-6 text-gray-900 dark:text-gray-100 hover:text-green-600 dark:hover:text-green-400 transition-colors duration-200"
+              >
+                Settings
+              </Link>
               <button
                 onClick={() => signOut()}
                 className="text-sm font-semibold leading-6 text-gray-900 dark:text-gray-100 hover:text-green-600 dark:hover:text-green-400 transition-colors duration-200"
@@ -166,6 +172,13 @@ export default function Header() {
                       >
                         Dashboard
                       </Link>
+                      <Link
+                        href="/settings"
+                        className="-mx-3 block rounded-lg px-3 py-2.5 text-base font-semibold leading-7 text-gray-900 dark:text-gray-100 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors duration-200"
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        Settings
+                      </Link>
                       <button
                         onClick={() => {
                           signOut();
@@ -56,6 +56,8 @@ export default function InvestmentModal({
   const [acceptTerms, setAcceptTerms] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when the investment is over the investor's verification limit
+  const [needsVerification, setNeedsVerification] = useState(false);
 
   // Quick amount presets
   const quickAmounts = [
@@ -155,10 +157,18 @@ export default function InvestmentModal({
 
         if (!response.ok) {
           const errorData = await response.json();
+          setNeedsVerification(errorData.code === "VERIFICATION_REQUIRED");
           throw new Error(errorData.error || "Failed to submit investment");
         }
 
         const result = await response.json();
+
+        // Hand over to the payment gateway to fund the investment
+        if (result.payment?.checkoutUrl) {
+          window.location.href = result.payment.checkoutUrl;
+          return;
+        }
+
         alert(
           `Investment of ${formatCurrency(
             parseFloat(amount)
@@ -357,7 +367,17 @@ export default function InvestmentModal({
 
           {/* Submit Error */}
           {errors.submit && (
-            <div className="mb-4 text-sm text-red-600">{errors.submit}</div>
+            <div className="mb-4 text-sm text-red-600">
+              {errors.submit}
+              {needsVerification && (
+                <a
+                  href="/settings/verification"
+                  className="ml-1 font-medium text-green-600 hover:text-green-500"
+                >
+                  Verify your identity
+                </a>
+              )}
+            </div>
           )}
 
           {/* Action Buttons */}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  CheckCircleIcon,
+  XMarkIcon,
+  DocumentTextIcon,
+} from "@heroicons/react/24/outline";
+
+interface KycSubmission {
+  id: string;
+  requestedTier: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  bvn: string | null;
+  nin: string | null;
+  reason: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    kycTier: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+  documents: {
+    id: string;
+    type: string;
+    fileName: string;
+  }[];
+}
+
+const STATUSES = ["PENDING", "APPROVED", "REJECTED"];
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+export default function KycReviewQueue() {
+  const [status, setStatus] = useState("PENDING");
+  const [submissions, setSubmissions] = useState<KycSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/kyc?status=${status}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load verifications");
+      }
+      setSubmissions(data.submissions);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load verifications"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const review = async (
+    submission: KycSubmission,
+    action: "approve" | "reject"
+  ) => {
+    const body: Record<string, string> = { action };
+
+    if (action === "reject") {
+      const reason = prompt(
+        "Reason for rejecting this verification (shown to the user):"
+      );
+      if (!reason) return;
+      body.reason = reason;
+    }
+
+    setProcessingId(submission.id);
+    try {
+      const response = await fetch(`/api/admin/kyc/${submission.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to review verification");
+      }
+
+      await fetchQueue();
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Failed to review verification"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">
+          Identity Verification Queue
+        </h3>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+        >
+          {STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {formatLabel(option)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="m-6 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : submissions.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No {status.toLowerCase()} verifications
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Identity Numbers
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Documents
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Submitted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {submissions.map((submission) => (
+                <tr key={submission.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {submission.user.name}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {submission.user.email}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="text-gray-900">
+                      {formatLabel(submission.requestedTier)}
+                    </div>
+                    <div className="text-xs">
+                      Currently {formatLabel(submission.user.kycTier)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
+                    {submission.bvn && <div>BVN {submission.bvn}</div>}
+                    {submission.nin && <div>NIN {submission.nin}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {submission.documents.length === 0 ? (
+                      <span className="text-gray-500">None</span>
+                    ) : (
+                      submission.documents.map((document) => (
+                        <a
+                          key={document.id}
+                          href={`/api/kyc/documents/${document.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center text-green-600 hover:text-green-900"
+                        >
+                          <DocumentTextIcon className="h-4 w-4 mr-1" />
+                          {formatLabel(document.type)}
+                        </a>
+                      ))
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(submission.createdAt).toLocaleDateString()}
+                    {submission.reviewedBy && (
+                      <div className="text-xs">
+                        Reviewed by {submission.reviewedBy.name}
+                      </div>
+                    )}
+                    {submission.reason && (
+                      <div className="text-xs text-red-600">
+                        {submission.reason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {submission.status === "PENDING" && (
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => review(submission, "approve")}
+                          disabled={processingId === submission.id}
+                          className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          <CheckCircleIcon className="h-5 w-5 mr-1" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => review(submission, "reject")}
+                          disabled={processingId === submission.id}
+                          className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          <XMarkIcon className="h-5 w-5 mr-1" />
+                          Reject
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
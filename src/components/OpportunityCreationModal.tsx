@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { z } from "zod";
@@ -43,10 +43,35 @@ const opportunitySchema = z.object({
   riskLevel: z.enum(["Low", "Medium", "High"]),
 });
 
+// An existing draft, an opportunity sent back with requested changes, or a
+// published one (where only the target and minimum investment can change)
+export interface EditableOpportunity {
+  id: string;
+  status: string;
+  title: string;
+  description: string;
+  detailedPlan: string;
+  targetCapital: number;
+  minimumInvestment: number;
+  expectedROI: number;
+  timeline: number;
+  industry: string;
+  riskLevel: string;
+  companyProfileId: string | null;
+}
+
+// Company profile the opportunity can be linked to
+interface CompanyOption {
+  id: string;
+  registeredName: string;
+}
+
 interface OpportunityCreationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess?: () => void;
+  onSuccess?: (message: string) => void;
+  // Edit this opportunity instead of creating a new one
+  opportunity?: EditableOpportunity;
 }
 
 const industryOptions = [
@@ -91,26 +116,52 @@ export default function OpportunityCreationModal({
   isOpen,
   onClose,
   onSuccess,
+  opportunity,
 }: OpportunityCreationModalProps) {
   const { data: session } = useSession();
   const router = useRouter();
+  const isEditing = !!opportunity;
+  // Everything but the target and minimum investment stays as approved
+  const published = ["OPEN", "PAUSED", "FULLY_FUNDED"].includes(
+    opportunity?.status ?? ""
+  );
 
   const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    detailedPlan: "",
-    targetCapital: "",
-    minimumInvestment: "",
-    expectedROI: "",
-    timeline: "",
-    industry: "",
-    riskLevel: "",
+    title: opportunity?.title ?? "",
+    description: opportunity?.description ?? "",
+    detailedPlan: opportunity?.detailedPlan ?? "",
+    targetCapital: opportunity?.targetCapital.toString() ?? "",
+    minimumInvestment: opportunity?.minimumInvestment.toString() ?? "",
+    expectedROI: opportunity?.expectedROI.toString() ?? "",
+    timeline: opportunity?.timeline.toString() ?? "",
+    industry: opportunity?.industry ?? "",
+    riskLevel: opportunity?.riskLevel ?? "",
+    companyProfileId: opportunity?.companyProfileId ?? "",
   });
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [currentStep, setCurrentStep] = useState(1);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchCompanies = async () => {
+      try {
+        const response = await fetch("/api/company-profiles");
+        if (response.ok) {
+          const data = await response.json();
+          setCompanies(data.profiles);
+        }
+      } catch (error) {
+        console.error("Error fetching company profiles:", error);
+      }
+    };
+
+    fetchCompanies();
+  }, [isOpen]);
+
   const handleInputChange = (field: string, value: string | number) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     // Clear field error when user starts typing
@@ -167,9 +218,9 @@ export default function OpportunityCreationModal({
     setCurrentStep((prev) => prev - 1);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
+  // New opportunities are saved as drafts unless submitted for review;
+  // nothing is shown to investors until it has been vetted
+  const saveOpportunity = async (submit: boolean) => {
     if (!session) {
       router.push("/auth/signin");
       return;
@@ -198,29 +249,34 @@ export default function OpportunityCreationModal({
         timeline: parseInt(formData.timeline),
         industry: formData.industry,
         riskLevel: formData.riskLevel,
+        companyProfileId: formData.companyProfileId || null,
       };
 
       // Validate with Zod
       opportunitySchema.parse(submissionData);
 
-      const response = await fetch("/api/opportunities", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(submissionData),
-      });
+      const response = await fetch(
+        opportunity
+          ? `/api/opportunities/${opportunity.id}`
+          : "/api/opportunities",
+        {
+          method: isEditing ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            isEditing ? submissionData : { ...submissionData, submit }
+          ),
+        }
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to create opportunity");
+        throw new Error(errorData.error || "Failed to save opportunity");
       }
 
       const result = await response.json();
 
-      // Success feedback
-      alert(`Opportunity "${formData.title}" created successfully!`);
-
       // Reset form
       setFormData({
         title: "",
@@ -232,11 +288,12 @@ export default function OpportunityCreationModal({
         timeline: "",
         industry: "",
         riskLevel: "",
+        companyProfileId: "",
       });
       setCurrentStep(1);
 
       if (onSuccess) {
-        onSuccess();
+        onSuccess(result.message);
       }
 
       onClose();
@@ -255,7 +312,7 @@ export default function OpportunityCreationModal({
           submit:
             error instanceof Error
               ? error.message
-              : "Failed to create opportunity. Please try again.",
+              : "Failed to save opportunity. Please try again.",
         });
       }
     } finally {
@@ -263,6 +320,11 @@ export default function OpportunityCreationModal({
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveOpportunity(false);
+  };
+
   if (!isOpen) return null;
 
   const totalSteps = 3;
@@ -273,7 +335,7 @@ export default function OpportunityCreationModal({
         {/* Header */}
         <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
           <h3 className="text-lg font-medium text-gray-900">
-            Create Investment Opportunity
+            {isEditing ? "Edit Opportunity" : "Create Investment Opportunity"}
           </h3>
           <button
             onClick={onClose}
@@ -314,6 +376,13 @@ export default function OpportunityCreationModal({
 
         <form onSubmit={handleSubmit}>
           <div className="px-6 py-6">
+            {published && (
+              <div className="mb-6 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                This opportunity is published, so only its target capital (which
+                can be lowered but not raised) and minimum investment can
+                change. Everything else stays as approved in review.
+              </div>
+            )}
             {/* Step 1: Basic Information */}
             {currentStep === 1 && (
               <div className="space-y-6">
@@ -333,6 +402,7 @@ export default function OpportunityCreationModal({
                         onChange={(e) =>
                           handleInputChange("title", e.target.value)
                         }
+                        disabled={published}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                         placeholder="e.g., Lagos Tech Innovation Hub"
                         maxLength={200}
@@ -353,6 +423,7 @@ export default function OpportunityCreationModal({
                         onChange={(e) =>
                           handleInputChange("description", e.target.value)
                         }
+                        disabled={published}
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                         placeholder="Brief description of your investment opportunity"
@@ -379,6 +450,7 @@ export default function OpportunityCreationModal({
                         onChange={(e) =>
                           handleInputChange("industry", e.target.value)
                         }
+                        disabled={published}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                       >
                         <option value="">Select an industry</option>
@@ -394,6 +466,32 @@ export default function OpportunityCreationModal({
                         </p>
                       )}
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Company
+                      </label>
+                      <select
+                        value={formData.companyProfileId}
+                        onChange={(e) =>
+                          handleInputChange("companyProfileId", e.target.value)
+                        }
+                        disabled={published}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        <option value="">No company profile</option>
+                        {companies.map((company) => (
+                          <option key={company.id} value={company.id}>
+                            {company.registeredName}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Investors see the company&apos;s registration details
+                        and management team. Add companies in the Company tab of
+                        your dashboard.
+                      </p>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -424,7 +522,11 @@ export default function OpportunityCreationModal({
                             className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                             placeholder="50000000"
                             min="1000"
-                            max="1000000000"
+                            max={
+                              published
+                                ? opportunity?.targetCapital
+                                : 1000000000
+                            }
                           />
                         </div>
                         {formData.targetCapital && (
@@ -489,6 +591,7 @@ export default function OpportunityCreationModal({
                             onChange={(e) =>
                               handleInputChange("expectedROI", e.target.value)
                             }
+                            disabled={published}
                             className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                             placeholder="18"
                             min="0"
@@ -515,6 +618,7 @@ export default function OpportunityCreationModal({
                             onChange={(e) =>
                               handleInputChange("timeline", e.target.value)
                             }
+                            disabled={published}
                             className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                             placeholder="24"
                             min="1"
@@ -543,6 +647,7 @@ export default function OpportunityCreationModal({
                                 : "border-gray-300 hover:border-gray-400"
                             }`}
                             onClick={() =>
+                              !published &&
                               handleInputChange("riskLevel", option.value)
                             }
                           >
@@ -588,6 +693,7 @@ export default function OpportunityCreationModal({
                       onChange={(e) =>
                         handleInputChange("detailedPlan", e.target.value)
                       }
+                      disabled={published}
                       rows={12}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                       placeholder="Describe your business opportunity in detail..."
@@ -688,14 +794,32 @@ export default function OpportunityCreationModal({
                 >
                   Next
                 </button>
-              ) : (
+              ) : isEditing ? (
                 <button
                   type="submit"
                   disabled={isSubmitting}
                   className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
                 >
-                  {isSubmitting ? "Creating..." : "Create Opportunity"}
+                  {isSubmitting ? "Saving..." : "Save Changes"}
                 </button>
+              ) : (
+                <>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Save Draft
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => saveOpportunity(true)}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Submitting..." : "Submit for Review"}
+                  </button>
+                </>
               )}
             </div>
           </div>
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  ArrowUpTrayIcon,
+  DocumentTextIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+interface DataRoomDocument {
+  id: string;
+  title: string;
+  category: string;
+  visibility: string;
+  fileName: string;
+  size: number;
+  createdAt: string;
+  downloads: number;
+  uniqueDownloaders: number;
+}
+
+interface OpportunityDataRoomProps {
+  opportunity: { id: string; title: string };
+  onClose: () => void;
+}
+
+const CATEGORIES = [
+  { value: "BUSINESS_PLAN", label: "Business plan" },
+  { value: "FINANCIAL_PROJECTIONS", label: "Financial projections" },
+  { value: "CAC_CERTIFICATE", label: "CAC certificate" },
+  { value: "AUDITED_ACCOUNTS", label: "Audited accounts" },
+  { value: "OTHER", label: "Other" },
+];
+
+const VISIBILITIES = [
+  { value: "PUBLIC", label: "Public" },
+  { value: "SIGNED_IN", label: "Signed-in users" },
+  { value: "INVESTORS", label: "Investors only" },
+];
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(Math.round(bytes / 1024), 1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function OpportunityDataRoom({
+  opportunity,
+  onClose,
+}: OpportunityDataRoomProps) {
+  const [documents, setDocuments] = useState<DataRoomDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [category, setCategory] = useState("BUSINESS_PLAN");
+  const [visibility, setVisibility] = useState("INVESTORS");
+  const [file, setFile] = useState<File | null>(null);
+  // Bumped after an upload to clear the file input
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const baseUrl = `/api/opportunities/${opportunity.id}/documents`;
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load documents");
+      }
+      setDocuments(data.documents);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load documents"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError("Documents must be 10 MB or smaller");
+      return;
+    }
+
+    const form = new FormData();
+    form.append("title", title);
+    form.append("category", category);
+    form.append("visibility", visibility);
+    form.append("file", file);
+
+    setUploading(true);
+    setError("");
+    try {
+      const response = await fetch(baseUrl, { method: "POST", body: form });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to upload"
+        );
+      }
+
+      setTitle("");
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      await fetchDocuments();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to upload");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const changeVisibility = async (
+    document: DataRoomDocument,
+    value: string
+  ) => {
+    setProcessingId(document.id);
+    setError("");
+    try {
+      const response = await fetch(`${baseUrl}/${document.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ visibility: value }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update document");
+      }
+
+      await fetchDocuments();
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to update document"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDelete = async (document: DataRoomDocument) => {
+    if (!confirm(`Delete "${document.title}" from the data room?`)) return;
+
+    setProcessingId(document.id);
+    setError("");
+    try {
+      const response = await fetch(`${baseUrl}/${document.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete document");
+      }
+
+      await fetchDocuments();
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to delete document"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Data Room</h3>
+            <p className="text-sm text-gray-500">{opportunity.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form
+            onSubmit={handleUpload}
+            className="p-4 bg-gray-50 rounded-lg space-y-3"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Title, e.g. 2024 audited accounts"
+                className="md:col-span-3 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                required
+              />
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {CATEGORIES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {VISIBILITIES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                key={fileInputKey}
+                type="file"
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="w-full text-sm text-gray-600"
+                required
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                PDF, Word, Excel, CSV, JPEG or PNG, up to 10 MB. Investors only
+                means investors with a pending, active or completed investment.
+              </p>
+              <button
+                type="submit"
+                disabled={uploading || !file}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                <ArrowUpTrayIcon className="h-4 w-4 mr-1" />
+                {uploading ? "Uploading..." : "Upload"}
+              </button>
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : documents.length === 0 ? (
+            <div className="text-center py-8">
+              <DocumentTextIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-gray-500">
+                Share your business plan, projections, CAC certificate and
+                accounts so investors can do their due diligence.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {documents.map((document) => (
+                <li
+                  key={document.id}
+                  className="p-4 flex items-center justify-between"
+                >
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {document.title}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {CATEGORIES.find(
+                        (option) => option.value === document.category
+                      )?.label ?? document.category}{" "}
+                      · {document.fileName} · {formatFileSize(document.size)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {document.downloads} downloads by{" "}
+                      {document.uniqueDownloaders} signed-in users
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <select
+                      value={document.visibility}
+                      onChange={(e) =>
+                        changeVisibility(document, e.target.value)
+                      }
+                      disabled={processingId === document.id}
+                      className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+                    >
+                      {VISIBILITIES.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleDelete(document)}
+                      disabled={processingId === document.id}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,710 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import Image from "next/image";
+import InvestmentModal from "@/components/InvestmentModal";
+import type { OpportunityDetail as Opportunity } from "@/lib/opportunities";
+import {
+  ArrowLeftIcon,
+  ClockIcon,
+  ArrowTrendingUpIcon,
+  LockClosedIcon,
+  UserGroupIcon,
+  CurrencyDollarIcon,
+  BuildingOfficeIcon,
+  GlobeAltIcon,
+  DocumentArrowDownIcon,
+} from "@heroicons/react/24/outline";
+
+interface OpportunityDetailProps {
+  opportunity: Opportunity;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(Math.round(bytes / 1024), 1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Why a locked document can't be downloaded yet
+const LOCKED_REASONS: Record<string, string> = {
+  SIGNED_IN: "Sign in to download",
+  INVESTORS: "Available to investors",
+};
+
+export default function OpportunityDetail({
+  opportunity,
+}: OpportunityDetailProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [activeTab, setActiveTab] = useState("overview");
+  const [showInvestModal, setShowInvestModal] = useState(false);
+
+  const tabs = [
+    { id: "overview", name: "Overview" },
+    { id: "company", name: "Company & Team" },
+    { id: "business-plan", name: "Business Plan" },
+    { id: "financials", name: "Financials" },
+    { id: "documents", name: `Documents (${opportunity.documents.length})` },
+    { id: "reports", name: `Reports (${opportunity.reports.length})` },
+  ];
+
+  const isOpen = opportunity.status === "OPEN";
+  const company = opportunity.companyProfile;
+  const companyLinks = company
+    ? [
+        { label: "Website", url: company.website },
+        { label: "LinkedIn", url: company.linkedinUrl },
+        { label: "X (Twitter)", url: company.twitterUrl },
+        { label: "Facebook", url: company.facebookUrl },
+        { label: "Instagram", url: company.instagramUrl },
+      ].filter((link): link is { label: string; url: string } => !!link.url)
+    : [];
+
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Links are signed and expire after a few minutes, so one is fetched for
+  // each download
+  const handleDownload = async (documentId: string) => {
+    setDownloadingId(documentId);
+    try {
+      const response = await fetch(
+        `/api/opportunities/${opportunity.id}/documents/${documentId}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to download document");
+      }
+
+      window.location.assign(data.url);
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Failed to download document"
+      );
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleInvest = () => {
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    setShowInvestModal(true);
+  };
+
+  const handleInvestmentSubmit = async (investmentData: {
+    amount: number;
+    opportunityId: string;
+  }) => {
+    try {
+      const response = await fetch("/api/investments", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          amount: investmentData.amount,
+          businessId: investmentData.opportunityId,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to submit investment");
+      }
+
+      const result = await response.json();
+      alert(
+        `Investment of ${formatCurrency(
+          investmentData.amount
+        )} submitted successfully! Status: ${result.investment.status}`
+      );
+
+      // Re-render on the server to show the updated funding progress
+      router.refresh();
+    } catch (error) {
+      console.error("Investment submission failed:", error);
+      throw error;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Link
+                href="/opportunities"
+                className="flex items-center text-gray-500 hover:text-gray-700 mr-4"
+              >
+                <ArrowLeftIcon className="h-5 w-5 mr-1" />
+                Back to Opportunities
+              </Link>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span
+                className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                  opportunity.riskLevel === "Low"
+                    ? "bg-green-100 text-green-800"
+                    : opportunity.riskLevel === "Medium"
+                    ? "bg-yellow-100 text-yellow-800"
+                    : "bg-red-100 text-red-800"
+                }`}
+              >
+                {opportunity.riskLevel} Risk
+              </span>
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
+                {formatLabel(opportunity.status)}
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Main Content */}
+          <div className="lg:col-span-2">
+            {/* Opportunity Header */}
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h1 className="text-3xl font-bold text-gray-900 mb-4">
+                {opportunity.title}
+              </h1>
+              <p className="text-gray-600 mb-4">{opportunity.description}</p>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                <div className="text-center">
+                  <CurrencyDollarIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                  <div className="text-sm text-gray-500">Target Capital</div>
+                  <div className="font-semibold">
+                    {formatCurrency(opportunity.targetCapital)}
+                  </div>
+                </div>
+                <div className="text-center">
+                  <ArrowTrendingUpIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                  <div className="text-sm text-gray-500">Expected ROI</div>
+                  <div className="font-semibold">
+                    {opportunity.expectedROI}%
+                  </div>
+                </div>
+                <div className="text-center">
+                  <ClockIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                  <div className="text-sm text-gray-500">Timeline</div>
+                  <div className="font-semibold">
+                    {opportunity.timeline} months
+                  </div>
+                </div>
+                <div className="text-center">
+                  <UserGroupIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                  <div className="text-sm text-gray-500">Investors</div>
+                  <div className="font-semibold">
+                    {opportunity.investorCount}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="bg-white rounded-lg shadow">
+              <div className="border-b border-gray-200">
+                <nav className="-mb-px flex space-x-8 px-6">
+                  {tabs.map((tab) => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                        activeTab === tab.id
+                          ? "border-green-500 text-green-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                      }`}
+                    >
+                      {tab.name}
+                    </button>
+                  ))}
+                </nav>
+              </div>
+
+              <div className="p-6">
+                {activeTab === "overview" && (
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                        About the Business Owner
+                      </h3>
+                      <div className="bg-gray-50 rounded-lg p-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div>
+                            <div className="text-sm text-gray-500">Owner</div>
+                            <div className="font-medium">
+                              {opportunity.owner.name}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-sm text-gray-500">
+                              Member Since
+                            </div>
+                            <div className="font-medium">
+                              {new Date(
+                                opportunity.owner.memberSince
+                              ).getFullYear()}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-sm text-gray-500">
+                              Opportunities Listed
+                            </div>
+                            <div className="font-medium">
+                              {opportunity.owner.opportunityCount}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                        Summary
+                      </h3>
+                      <p className="text-gray-600 whitespace-pre-line">
+                        {opportunity.description}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {activeTab === "company" &&
+                  (company ? (
+                    <div className="space-y-6">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                          Company Profile
+                        </h3>
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <div className="text-sm text-gray-500">
+                                Registered Name
+                              </div>
+                              <div className="font-medium">
+                                {company.registeredName}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-gray-500">
+                                CAC Registration
+                              </div>
+                              <div className="font-medium">
+                                {company.rcNumber}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-gray-500">
+                                Founded
+                              </div>
+                              <div className="font-medium">
+                                {company.yearFounded}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-gray-500">
+                                Location
+                              </div>
+                              <div className="font-medium">
+                                {company.city
+                                  ? `${company.city}, ${company.state}`
+                                  : company.state}
+                              </div>
+                            </div>
+                          </div>
+                          {companyLinks.length > 0 && (
+                            <div className="mt-4 flex flex-wrap gap-4">
+                              {companyLinks.map((link) => (
+                                <a
+                                  key={link.label}
+                                  href={link.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer nofollow"
+                                  className="inline-flex items-center text-sm text-green-600 hover:text-green-500"
+                                >
+                                  <GlobeAltIcon className="h-4 w-4 mr-1" />
+                                  {link.label}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                          Management Team
+                        </h3>
+                        {company.teamMembers.length === 0 ? (
+                          <p className="text-gray-500">
+                            The business owner hasn&apos;t added their team yet.
+                          </p>
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {company.teamMembers.map((member) => (
+                              <div
+                                key={member.id}
+                                className="flex space-x-4 p-4 border border-gray-200 rounded-lg"
+                              >
+                                {member.photoUrl ? (
+                                  <Image
+                                    src={member.photoUrl}
+                                    alt={member.name}
+                                    width={64}
+                                    height={64}
+                                    unoptimized
+                                    className="h-16 w-16 rounded-full object-cover flex-shrink-0"
+                                  />
+                                ) : (
+                                  <div className="h-16 w-16 rounded-full bg-green-100 text-green-700 flex items-center justify-center text-xl font-semibold flex-shrink-0">
+                                    {member.name.charAt(0)}
+                                  </div>
+                                )}
+                                <div>
+                                  <div className="font-medium text-gray-900">
+                                    {member.name}
+                                  </div>
+                                  <div className="text-sm text-gray-500">
+                                    {member.role}
+                                  </div>
+                                  {member.bio && (
+                                    <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">
+                                      {member.bio}
+                                    </p>
+                                  )}
+                                  {member.linkedinUrl && (
+                                    <a
+                                      href={member.linkedinUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer nofollow"
+                                      className="mt-2 inline-block text-sm text-green-600 hover:text-green-500"
+                                    >
+                                      LinkedIn profile
+                                    </a>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <BuildingOfficeIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                      <p className="text-gray-600">
+                        The business owner hasn&apos;t added a company profile
+                        to this opportunity yet.
+                      </p>
+                    </div>
+                  ))}
+
+                {activeTab === "business-plan" &&
+                  (opportunity.detailedPlan !== null ? (
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                        Detailed Business Plan
+                      </h3>
+                      <p className="text-gray-600 whitespace-pre-line">
+                        {opportunity.detailedPlan}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <LockClosedIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                      <p className="text-gray-600">
+                        Sign in to read the detailed business plan.
+                      </p>
+                      <Link
+                        href="/auth/signin"
+                        className="text-green-600 hover:text-green-500 mt-2 inline-block font-medium"
+                      >
+                        Sign in
+                      </Link>
+                    </div>
+                  ))}
+
+                {activeTab === "financials" && (
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                        Investment Terms
+                      </h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <div className="text-sm text-gray-500">
+                            Minimum Investment
+                          </div>
+                          <div className="text-xl font-semibold text-gray-900">
+                            {formatCurrency(opportunity.minimumInvestment)}
+                          </div>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <div className="text-sm text-gray-500">
+                            Expected Returns
+                          </div>
+                          <div className="text-xl font-semibold text-green-600">
+                            {opportunity.expectedROI}% annually
+                          </div>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <div className="text-sm text-gray-500">
+                            Investment Period
+                          </div>
+                          <div className="text-xl font-semibold text-gray-900">
+                            {opportunity.timeline} months
+                          </div>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <div className="text-sm text-gray-500">
+                            Still Available
+                          </div>
+                          <div className="text-xl font-semibold text-gray-900">
+                            {formatCurrency(opportunity.funding.remaining)}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {activeTab === "documents" &&
+                  (opportunity.documents.length === 0 ? (
+                    <p className="text-gray-500">
+                      The business owner hasn&apos;t shared any documents yet.
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {opportunity.documents.map((document) => (
+                        <li
+                          key={document.id}
+                          className="p-4 flex items-center justify-between"
+                        >
+                          <div>
+                            <div className="font-medium text-gray-900">
+                              {document.title}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {formatLabel(document.category)} ·{" "}
+                              {formatFileSize(document.size)}
+                            </div>
+                          </div>
+                          {document.locked ? (
+                            <span className="inline-flex items-center text-sm text-gray-500">
+                              <LockClosedIcon className="h-4 w-4 mr-1" />
+                              {LOCKED_REASONS[document.visibility]}
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => handleDownload(document.id)}
+                              disabled={downloadingId === document.id}
+                              className="inline-flex items-center text-sm font-medium text-green-600 hover:text-green-500 disabled:opacity-50"
+                            >
+                              <DocumentArrowDownIcon className="h-4 w-4 mr-1" />
+                              Download
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ))}
+
+                {activeTab === "reports" &&
+                  (opportunity.reports.length === 0 ? (
+                    <p className="text-gray-500">
+                      The business owner hasn&apos;t published any reports yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {opportunity.reports.map((report) => (
+                        <div
+                          key={report.id}
+                          className="p-4 border border-gray-200 rounded-lg"
+                        >
+                          <div className="flex items-center justify-between">
+                            <h4 className="font-medium text-gray-900">
+                              {report.title}
+                            </h4>
+                            <span className="text-sm text-gray-500">
+                              {new Date(report.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          <p className="mt-2 text-gray-600 whitespace-pre-line">
+                            {report.content}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="lg:col-span-1">
+            {/* Investment Card */}
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Investment Progress
+              </h3>
+
+              <div className="mb-4">
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Progress</span>
+                  <span>{opportunity.funding.percentFunded.toFixed(1)}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-green-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${opportunity.funding.percentFunded}%` }}
+                  ></div>
+                </div>
+              </div>
+
+              <div className="space-y-3 mb-6">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Raised</span>
+                  <span className="font-medium">
+                    {formatCurrency(opportunity.funding.raised)}
+                  </span>
+                </div>
+                {opportunity.funding.reserved > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Awaiting payment</span>
+                    <span className="font-medium">
+                      {formatCurrency(opportunity.funding.reserved)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Target</span>
+                  <span className="font-medium">
+                    {formatCurrency(opportunity.funding.target)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Minimum</span>
+                  <span className="font-medium">
+                    {formatCurrency(opportunity.minimumInvestment)}
+                  </span>
+                </div>
+              </div>
+
+              {/* Conditional Investment Button */}
+              {!isOpen ? (
+                <div className="w-full bg-gray-100 text-gray-600 py-3 px-4 rounded-lg font-semibold text-center border border-gray-300">
+                  <p className="text-sm">Not accepting investments</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    This opportunity is {formatLabel(opportunity.status)}
+                  </p>
+                </div>
+              ) : session && session.user.role === "INVESTOR" ? (
+                <button
+                  onClick={handleInvest}
+                  className="w-full bg-green-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-green-500 transition-colors"
+                >
+                  Invest Now
+                </button>
+              ) : !session ? (
+                <Link
+                  href="/auth/signin"
+                  className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-blue-500 transition-colors text-center block"
+                >
+                  Login to Invest
+                </Link>
+              ) : session.user.role === "BUSINESS_OWNER" ? (
+                <div className="w-full bg-gray-100 text-gray-600 py-3 px-4 rounded-lg font-semibold text-center border border-gray-300">
+                  <p className="text-sm">Business Owner Access</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Manage your opportunities in your dashboard
+                  </p>
+                </div>
+              ) : (
+                <div className="w-full bg-gray-100 text-gray-600 py-3 px-4 rounded-lg font-semibold text-center border border-gray-300">
+                  <p className="text-sm">Investment Access Restricted</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Contact support for assistance
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Quick Facts */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Quick Facts
+              </h3>
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Industry</span>
+                  <span className="font-medium">{opportunity.industry}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Risk Level</span>
+                  <span className="font-medium">{opportunity.riskLevel}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Timeline</span>
+                  <span className="font-medium">
+                    {opportunity.timeline} months
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Total Investors</span>
+                  <span className="font-medium">
+                    {opportunity.investorCount}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Listed</span>
+                  <span className="font-medium">
+                    {new Date(opportunity.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Investment Modal */}
+      <InvestmentModal
+        isOpen={showInvestModal}
+        onClose={() => setShowInvestModal(false)}
+        opportunity={{
+          id: opportunity.id,
+          title: opportunity.title,
+          minimumInvestment: opportunity.minimumInvestment,
+          expectedROI: opportunity.expectedROI,
+          timeline: opportunity.timeline,
+          riskLevel: opportunity.riskLevel,
+          ownerId: opportunity.ownerId, // Include owner ID for ownership validation
+        }}
+        onInvestmentSubmit={handleInvestmentSubmit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,654 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  CheckCircleIcon,
+  XMarkIcon,
+  ArrowUturnLeftIcon,
+  MagnifyingGlassIcon,
+} from "@heroicons/react/24/outline";
+
+interface QueuedOpportunity {
+  id: string;
+  title: string;
+  industry: string;
+  targetCapital: number;
+  riskLevel: string;
+  status: string;
+  submittedAt: string | null;
+  approvedAt: string | null;
+  owner: {
+    id: string;
+    name: string;
+    email: string;
+    kycTier: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+  _count: {
+    vettingChecks: number;
+  };
+}
+
+interface VettingNote {
+  id: string;
+  kind: "COMMENT" | "CHANGES_REQUESTED" | "REJECTION" | "RESPONSE";
+  content: string;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface ChecklistItem {
+  key: string;
+  label: string;
+  description: string;
+  check: {
+    note: string | null;
+    checkedAt: string;
+    checkedBy: {
+      id: string;
+      name: string;
+    } | null;
+  } | null;
+}
+
+interface VettingRecord {
+  id: string;
+  title: string;
+  description: string;
+  detailedPlan: string;
+  targetCapital: number;
+  minimumInvestment: number;
+  expectedROI: number;
+  timeline: number;
+  industry: string;
+  riskLevel: string;
+  status: string;
+  submittedAt: string | null;
+  owner: {
+    id: string;
+    name: string;
+    email: string;
+    kycTier: string;
+    verified: boolean;
+    createdAt: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+  companyProfile: {
+    registeredName: string;
+    rcNumber: string;
+    yearFounded: number;
+    state: string;
+    city: string | null;
+    website: string | null;
+    teamMembers: { id: string; name: string; role: string }[];
+  } | null;
+  documents: {
+    id: string;
+    title: string;
+    category: string;
+    fileName: string;
+  }[];
+  checklist: ChecklistItem[];
+  notes: VettingNote[];
+}
+
+type ReviewAction = "startReview" | "requestChanges" | "approve" | "reject";
+
+const STATUSES = [
+  "SUBMITTED",
+  "UNDER_REVIEW",
+  "CHANGES_REQUESTED",
+  "APPROVED",
+  "REJECTED",
+];
+
+const NOTE_LABELS: Record<VettingNote["kind"], string> = {
+  COMMENT: "Reviewer comment",
+  CHANGES_REQUESTED: "Changes requested",
+  REJECTION: "Rejected",
+  RESPONSE: "Owner response",
+};
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+export default function OpportunityVettingQueue() {
+  const [status, setStatus] = useState("SUBMITTED");
+  const [opportunities, setOpportunities] = useState<QueuedOpportunity[]>([]);
+  const [checklistSize, setChecklistSize] = useState(0);
+  const [selected, setSelected] = useState<VettingRecord | null>(null);
+  const [comment, setComment] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/opportunities?status=${status}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the vetting queue");
+      }
+      setOpportunities(data.opportunities);
+      setChecklistSize(data.checklistSize);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load the vetting queue"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const openRecord = async (id: string) => {
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/opportunities/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the opportunity");
+      }
+      setSelected(data.opportunity);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load the opportunity"
+      );
+    }
+  };
+
+  // Send a request and reload the open record and the queue afterwards
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    if (!selected) return false;
+
+    setProcessing(true);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || failure);
+      }
+
+      await Promise.all([openRecord(selected.id), fetchQueue()]);
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Data room downloads go through a short-lived signed link
+  const downloadDocument = async (documentId: string) => {
+    if (!selected) return;
+
+    try {
+      const response = await fetch(
+        `/api/opportunities/${selected.id}/documents/${documentId}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to download document");
+      }
+      window.location.assign(data.url);
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Failed to download document"
+      );
+    }
+  };
+
+  const review = (action: ReviewAction) => {
+    if (!selected) return;
+    const body: Record<string, string> = { action };
+
+    if (action === "requestChanges" || action === "reject") {
+      const note = prompt(
+        action === "reject"
+          ? "Reason for rejecting this opportunity (shown to the owner):"
+          : "What does the owner need to change? (shown to the owner)"
+      );
+      if (!note) return;
+      body.note = note;
+    } else if (
+      action === "approve" &&
+      !confirm(
+        `Approve "${selected.title}"? The owner can then publish it to investors.`
+      )
+    ) {
+      return;
+    }
+
+    send(
+      `/api/admin/opportunities/${selected.id}`,
+      { method: "PATCH", body: JSON.stringify(body) },
+      "Failed to review opportunity"
+    );
+  };
+
+  const toggleCheck = (item: ChecklistItem) => {
+    if (!selected) return;
+
+    send(
+      `/api/admin/opportunities/${selected.id}/checklist`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ item: item.key, checked: !item.check }),
+      },
+      "Failed to update the checklist"
+    );
+  };
+
+  const addComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !comment.trim()) return;
+
+    const added = await send(
+      `/api/admin/opportunities/${selected.id}/notes`,
+      { method: "POST", body: JSON.stringify({ content: comment }) },
+      "Failed to add comment"
+    );
+    if (added) setComment("");
+  };
+
+  const underReview = selected?.status === "UNDER_REVIEW";
+  const checklistComplete =
+    !!selected && selected.checklist.every((item) => item.check);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            Opportunity Vetting
+          </h3>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          >
+            {STATUSES.map((option) => (
+              <option key={option} value={option}>
+                {formatLabel(option)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="m-6 rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading...</div>
+        ) : opportunities.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No {formatLabel(status).toLowerCase()} opportunities
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Opportunity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Owner
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Submitted
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Checklist
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {opportunities.map((opportunity) => (
+                  <tr
+                    key={opportunity.id}
+                    className={
+                      selected?.id === opportunity.id ? "bg-green-50" : ""
+                    }
+                  >
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {opportunity.title}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {opportunity.industry} ·{" "}
+                        {formatCurrency(opportunity.targetCapital)} ·{" "}
+                        {opportunity.riskLevel} risk
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {opportunity.owner.name}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {opportunity.owner.email}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        KYC {formatLabel(opportunity.owner.kycTier)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {opportunity.submittedAt
+                        ? new Date(opportunity.submittedAt).toLocaleDateString()
+                        : "—"}
+                      {opportunity.reviewedBy && (
+                        <div className="text-xs">
+                          Reviewer: {opportunity.reviewedBy.name}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {opportunity._count.vettingChecks} / {checklistSize}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => openRecord(opportunity.id)}
+                        className="inline-flex items-center text-green-600 hover:text-green-900"
+                      >
+                        <MagnifyingGlassIcon className="h-5 w-5 mr-1" />
+                        Review
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                {selected.title}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {formatLabel(selected.status)} · {selected.owner.name} (
+                {selected.owner.email}
+                {selected.owner.verified ? "" : ", email not verified"}) ·
+                member since{" "}
+                {new Date(selected.owner.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <button
+              onClick={() => setSelected(null)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="space-y-4 text-sm">
+              <dl className="grid grid-cols-2 gap-3">
+                <div>
+                  <dt className="text-gray-500">Target capital</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatCurrency(selected.targetCapital)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Minimum investment</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatCurrency(selected.minimumInvestment)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Expected ROI</dt>
+                  <dd className="font-medium text-gray-900">
+                    {selected.expectedROI}% over {selected.timeline} months
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Industry and risk</dt>
+                  <dd className="font-medium text-gray-900">
+                    {selected.industry}, {selected.riskLevel} risk
+                  </dd>
+                </div>
+              </dl>
+              <div>
+                <h4 className="font-medium text-gray-900">Company</h4>
+                {selected.companyProfile ? (
+                  <div className="mt-1 text-gray-700">
+                    <p>
+                      {selected.companyProfile.registeredName} (
+                      {selected.companyProfile.rcNumber}), founded{" "}
+                      {selected.companyProfile.yearFounded},{" "}
+                      {selected.companyProfile.city
+                        ? `${selected.companyProfile.city}, `
+                        : ""}
+                      {selected.companyProfile.state}
+                    </p>
+                    {selected.companyProfile.website && (
+                      <a
+                        href={selected.companyProfile.website}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow"
+                        className="text-green-600 hover:text-green-500"
+                      >
+                        {selected.companyProfile.website}
+                      </a>
+                    )}
+                    <p className="mt-1">
+                      Team:{" "}
+                      {selected.companyProfile.teamMembers.length > 0
+                        ? selected.companyProfile.teamMembers
+                            .map((member) => `${member.name} (${member.role})`)
+                            .join(", ")
+                        : "none listed"}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-gray-500">
+                    No company profile linked.
+                  </p>
+                )}
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-900">Summary</h4>
+                <p className="mt-1 text-gray-700 whitespace-pre-line">
+                  {selected.description}
+                </p>
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-900">Business plan</h4>
+                <p className="mt-1 max-h-64 overflow-y-auto text-gray-700 whitespace-pre-line">
+                  {selected.detailedPlan}
+                </p>
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-900">Documents</h4>
+                {selected.documents.length === 0 ? (
+                  <p className="mt-1 text-gray-500">No documents uploaded.</p>
+                ) : (
+                  <ul className="mt-1 space-y-1">
+                    {selected.documents.map((document) => (
+                      <li key={document.id}>
+                        <button
+                          onClick={() => downloadDocument(document.id)}
+                          className="text-green-600 hover:text-green-500"
+                        >
+                          {document.title}
+                        </button>{" "}
+                        <span className="text-gray-500">
+                          ({formatLabel(document.category)}, {document.fileName}
+                          )
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">
+                  Due-diligence checklist
+                </h4>
+                {!underReview && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Start the review to check items off.
+                  </p>
+                )}
+                <ul className="mt-2 space-y-2">
+                  {selected.checklist.map((item) => (
+                    <li key={item.key} className="flex items-start text-sm">
+                      <input
+                        type="checkbox"
+                        checked={!!item.check}
+                        disabled={!underReview || processing}
+                        onChange={() => toggleCheck(item)}
+                        className="mt-0.5 h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <div className="ml-2">
+                        <div className="font-medium text-gray-900">
+                          {item.label}
+                        </div>
+                        <div className="text-gray-500">{item.description}</div>
+                        {item.check && (
+                          <div className="text-xs text-gray-500">
+                            Confirmed by {item.check.checkedBy?.name ?? "—"} on{" "}
+                            {new Date(
+                              item.check.checkedAt
+                            ).toLocaleDateString()}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex flex-wrap gap-3 text-sm">
+                {selected.status === "SUBMITTED" && (
+                  <button
+                    onClick={() => review("startReview")}
+                    disabled={processing}
+                    className="inline-flex items-center px-3 py-1.5 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <MagnifyingGlassIcon className="h-4 w-4 mr-1" />
+                    Start review
+                  </button>
+                )}
+                {underReview && (
+                  <>
+                    <button
+                      onClick={() => review("approve")}
+                      disabled={processing || !checklistComplete}
+                      className="inline-flex items-center px-3 py-1.5 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <CheckCircleIcon className="h-4 w-4 mr-1" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => review("requestChanges")}
+                      disabled={processing}
+                      className="inline-flex items-center px-3 py-1.5 rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                      Request changes
+                    </button>
+                  </>
+                )}
+                {(selected.status === "SUBMITTED" || underReview) && (
+                  <button
+                    onClick={() => review("reject")}
+                    disabled={processing}
+                    className="inline-flex items-center px-3 py-1.5 rounded-md text-red-600 bg-white border border-red-200 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <XMarkIcon className="h-4 w-4 mr-1" />
+                    Reject
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Notes</h4>
+                {selected.notes.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500">No notes yet</p>
+                ) : (
+                  <ul className="mt-2 space-y-3">
+                    {selected.notes.map((note) => (
+                      <li key={note.id} className="text-sm">
+                        <div className="text-xs text-gray-500">
+                          {NOTE_LABELS[note.kind]} · {note.author?.name ?? "—"}{" "}
+                          · {new Date(note.createdAt).toLocaleString()}
+                        </div>
+                        <p className="text-gray-700 whitespace-pre-line">
+                          {note.content}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <form onSubmit={addComment} className="mt-3 space-y-2">
+                  <textarea
+                    rows={2}
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Comment for other reviewers (not shown to the owner)"
+                    className="block w-full rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={processing || !comment.trim()}
+                    className="px-3 py-1.5 text-sm rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Add comment
+                  </button>
+                </form>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
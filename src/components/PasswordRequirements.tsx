@@ -0,0 +1,41 @@
+"use client";
+
+import { CheckCircleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { checkPassword } from "@/lib/password-policy";
+
+interface PasswordRequirementsProps {
+  password: string;
+  // Highlight unmet rules in red, e.g. after a submit attempt
+  showErrors?: boolean;
+}
+
+export default function PasswordRequirements({
+  password,
+  showErrors = false,
+}: PasswordRequirementsProps) {
+  const { rules } = checkPassword(password);
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {rules.map((rule) => (
+        <li
+          key={rule.id}
+          className={`flex items-center text-xs ${
+            rule.passed
+              ? "text-green-600"
+              : showErrors
+              ? "text-red-600"
+              : "text-gray-500"
+          }`}
+        >
+          {rule.passed ? (
+            <CheckCircleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          ) : (
+            <XCircleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          )}
+          {rule.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
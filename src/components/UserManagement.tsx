@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  LockOpenIcon,
+  LockClosedIcon,
+  NoSymbolIcon,
+  PauseCircleIcon,
+  ArrowPathIcon,
+} from "@heroicons/react/24/outline";
+
+interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: "INVESTOR" | "BUSINESS_OWNER" | "ADMINISTRATOR";
+  verified: boolean;
+  status: "ACTIVE" | "SUSPENDED" | "DEACTIVATED";
+  statusReason: string | null;
+  statusExpiresAt: string | null;
+  failedLoginCount: number;
+  lockedUntil: string | null;
+  createdAt: string;
+}
+
+const STATUSES = ["ALL", "ACTIVE", "SUSPENDED", "DEACTIVATED"];
+
+const STATUS_STYLES: Record<ManagedUser["status"], string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  SUSPENDED: "bg-yellow-100 text-yellow-800",
+  DEACTIVATED: "bg-gray-200 text-gray-700",
+};
+
+const isLocked = (user: ManagedUser) =>
+  !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+export default function UserManagement() {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("ALL");
+  const [lockedOnly, setLockedOnly] = useState(false);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      if (status !== "ALL") params.set("status", status);
+      if (lockedOnly) params.set("locked", "true");
+
+      const response = await fetch(`/api/admin/users?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load users");
+      }
+      setUsers(data.users);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, [search, status, lockedOnly]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const unlock = async (user: ManagedUser) => {
+    setProcessingId(user.id);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/unlock`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to unlock account");
+      }
+
+      await fetchUsers();
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Failed to unlock account"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const changeStatus = async (
+    user: ManagedUser,
+    nextStatus: ManagedUser["status"]
+  ) => {
+    const body: Record<string, string> = { status: nextStatus };
+
+    if (nextStatus !== "ACTIVE") {
+      const reason = prompt(
+        `Reason for ${
+          nextStatus === "SUSPENDED" ? "suspending" : "deactivating"
+        } ${user.name}:`
+      );
+      if (!reason) return;
+      body.reason = reason;
+    }
+
+    if (nextStatus === "SUSPENDED") {
+      const days = prompt(
+        "Suspend for how many days? Leave blank for an indefinite suspension."
+      );
+      if (days === null) return;
+      if (days.trim()) {
+        const count = Number(days);
+        if (!Number.isFinite(count) || count <= 0) {
+          alert("Enter a positive number of days");
+          return;
+        }
+        body.expiresAt = new Date(
+          Date.now() + count * 24 * 60 * 60 * 1000
+        ).toISOString();
+      }
+    }
+
+    if (
+      nextStatus === "DEACTIVATED" &&
+      !confirm(
+        `Deactivate ${user.name}? They will no longer be able to sign in.`
+      )
+    ) {
+      return;
+    }
+
+    setProcessingId(user.id);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update account status");
+      }
+
+      await fetchUsers();
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to update account status"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-medium text-gray-900">Users</h3>
+        <div className="flex items-center space-x-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or email"
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+          >
+            {STATUSES.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0) + option.slice(1).toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={lockedOnly}
+              onChange={(e) => setLockedOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-600 mr-2"
+            />
+            Locked only
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="m-6 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : users.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No users found</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sign-in
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {user.name}
+                    </div>
+                    <div className="text-sm text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.role.replace("_", " ").toLowerCase()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                        STATUS_STYLES[user.status]
+                      }`}
+                    >
+                      {user.status.charAt(0) +
+                        user.status.slice(1).toLowerCase()}
+                    </span>
+                    {user.statusReason && (
+                      <div className="text-xs text-gray-500">
+                        {user.statusReason}
+                      </div>
+                    )}
+                    {user.status === "SUSPENDED" && user.statusExpiresAt && (
+                      <div className="text-xs text-gray-500">
+                        Until {new Date(user.statusExpiresAt).toLocaleString()}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {isLocked(user) ? (
+                      <span className="inline-flex items-center text-red-600">
+                        <LockClosedIcon className="h-4 w-4 mr-1" />
+                        Locked until{" "}
+                        {new Date(user.lockedUntil!).toLocaleString()}
+                      </span>
+                    ) : user.failedLoginCount > 0 ? (
+                      <span className="text-yellow-600">
+                        {user.failedLoginCount} failed attempt
+                        {user.failedLoginCount === 1 ? "" : "s"}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">OK</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(user.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <div className="flex justify-end space-x-2">
+                      {(isLocked(user) || user.failedLoginCount > 0) && (
+                        <button
+                          onClick={() => unlock(user)}
+                          disabled={processingId === user.id}
+                          className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          <LockOpenIcon className="h-5 w-5 mr-1" />
+                          Unlock
+                        </button>
+                      )}
+                      {user.status === "ACTIVE" ? (
+                        <>
+                          <button
+                            onClick={() => changeStatus(user, "SUSPENDED")}
+                            disabled={processingId === user.id}
+                            className="inline-flex items-center text-yellow-600 hover:text-yellow-900 disabled:opacity-50"
+                          >
+                            <PauseCircleIcon className="h-5 w-5 mr-1" />
+                            Suspend
+                          </button>
+                          <button
+                            onClick={() => changeStatus(user, "DEACTIVATED")}
+                            disabled={processingId === user.id}
+                            className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            <NoSymbolIcon className="h-5 w-5 mr-1" />
+                            Deactivate
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => changeStatus(user, "ACTIVE")}
+                          disabled={processingId === user.id}
+                          className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          <ArrowPathIcon className="h-5 w-5 mr-1" />
+                          Reinstate
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  CheckCircleIcon,
+  XMarkIcon,
+  BanknotesIcon,
+} from "@heroicons/react/24/outline";
+
+interface Withdrawal {
+  id: string;
+  amount: number;
+  status: "PENDING" | "APPROVED" | "REJECTED" | "PAID" | "CANCELLED";
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  reason: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+const STATUSES = ["PENDING", "APPROVED", "PAID", "REJECTED", "CANCELLED"];
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+export default function WithdrawalQueue() {
+  const [status, setStatus] = useState("PENDING");
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/withdrawals?status=${status}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load withdrawals");
+      }
+      setWithdrawals(data.withdrawals);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load withdrawals"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const review = async (
+    withdrawal: Withdrawal,
+    action: "approve" | "reject" | "mark_paid"
+  ) => {
+    const body: Record<string, string> = { action };
+
+    if (action === "reject") {
+      const reason = prompt("Reason for rejecting this withdrawal:");
+      if (!reason) return;
+      body.reason = reason;
+    }
+
+    if (action === "mark_paid") {
+      const payoutReference = prompt("Bank transfer reference (optional):");
+      if (payoutReference) body.payoutReference = payoutReference;
+    }
+
+    // Approving or paying out releases funds, so re-confirm with 2FA
+    if (action !== "reject") {
+      const twoFactorCode = prompt("Enter your authentication code:");
+      if (!twoFactorCode) return;
+      body.twoFactorCode = twoFactorCode;
+    }
+
+    setProcessingId(withdrawal.id);
+    try {
+      const response = await fetch(`/api/admin/withdrawals/${withdrawal.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update withdrawal");
+      }
+
+      await fetchQueue();
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Failed to update withdrawal"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Withdrawal Queue</h3>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="rounded-md border-gray-300 text-sm focus:ring-green-500 focus:border-green-500"
+        >
+          {STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {option.charAt(0) + option.slice(1).toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="m-6 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : withdrawals.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No {status.toLowerCase()} withdrawal requests
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Investor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Bank Account
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Requested
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {withdrawals.map((withdrawal) => (
+                <tr key={withdrawal.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {withdrawal.user.name}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {withdrawal.user.email}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(withdrawal.amount)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div>{withdrawal.accountName}</div>
+                    <div>
+                      {withdrawal.bankName} · {withdrawal.accountNumber}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(withdrawal.createdAt).toLocaleDateString()}
+                    {withdrawal.reason && (
+                      <div className="text-xs text-red-600">
+                        {withdrawal.reason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <div className="flex justify-end space-x-2">
+                      {withdrawal.status === "PENDING" && (
+                        <button
+                          onClick={() => review(withdrawal, "approve")}
+                          disabled={processingId === withdrawal.id}
+                          className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          <CheckCircleIcon className="h-5 w-5 mr-1" />
+                          Approve
+                        </button>
+                      )}
+                      {withdrawal.status === "APPROVED" && (
+                        <button
+                          onClick={() => review(withdrawal, "mark_paid")}
+                          disabled={processingId === withdrawal.id}
+                          className="inline-flex items-center text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          <BanknotesIcon className="h-5 w-5 mr-1" />
+                          Mark Paid
+                        </button>
+                      )}
+                      {(withdrawal.status === "PENDING" ||
+                        withdrawal.status === "APPROVED") && (
+                        <button
+                          onClick={() => review(withdrawal, "reject")}
+                          disabled={processingId === withdrawal.id}
+                          className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          <XMarkIcon className="h-5 w-5 mr-1" />
+                          Reject
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
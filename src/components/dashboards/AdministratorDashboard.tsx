@@ -1,8 +1,17 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
 import InvestmentManagement from "@/components/InvestmentManagement";
 import EducationalContentManager from "@/components/EducationalContentManager";
+import WithdrawalQueue from "@/components/WithdrawalQueue";
+import UserManagement from "@/components/UserManagement";
+import KycReviewQueue from "@/components/KycReviewQueue";
+import ErasureRequestQueue from "@/components/ErasureRequestQueue";
+import OpportunityVettingQueue from "@/components/OpportunityVettingQueue";
+import AdminManagement from "@/components/AdminManagement";
+import AuditLogViewer from "@/components/AuditLogViewer";
+import { can, RolePermission } from "@/lib/authorization";
 import { LineChart, BarChart, PieChart, DonutChart } from "@/components/charts";
 import {
   calculatePlatformMetrics,
@@ -20,9 +29,11 @@ import {
   ExclamationTriangleIcon,
   CheckBadgeIcon,
   ClockIcon,
+  KeyIcon,
+  ClipboardDocumentListIcon,
   EyeIcon,
   PencilIcon,
-  TrashIcon,
+  UserMinusIcon,
 } from "@heroicons/react/24/outline";
 
 // Mock data for demonstration
@@ -35,33 +46,6 @@ const platformStats = {
   activeReports: 3,
 };
 
-const pendingApprovals = [
-  {
-    id: 1,
-    type: "Business",
-    name: "Lagos Tech Hub",
-    submittedBy: "Adebayo Okunola",
-    submittedAt: "2024-01-15",
-    status: "pending",
-  },
-  {
-    id: 2,
-    type: "Investment",
-    name: "Series A Funding - ₦50M",
-    submittedBy: "TechCorp Ltd",
-    submittedAt: "2024-01-14",
-    status: "pending",
-  },
-  {
-    id: 3,
-    type: "User Verification",
-    name: "Sarah Johnson",
-    submittedBy: "Self-verification",
-    submittedAt: "2024-01-13",
-    status: "pending",
-  },
-];
-
 const recentReports = [
   {
     id: 1,
@@ -108,6 +92,7 @@ const systemAlerts = [
 ];
 
 export default function AdministratorDashboard() {
+  const { data: session } = useSession();
   const [activeTab, setActiveTab] = useState("overview");
   const [platformMetrics, setPlatformMetrics] =
     useState<PlatformMetrics | null>(null);
@@ -136,16 +121,70 @@ export default function AdministratorDashboard() {
     setIsLoading(false);
   }, []);
 
-  const tabs = [
+  // Tabs backed by a scoped API only show for admins whose role allows it
+  const actor = {
+    id: session?.user.id ?? "",
+    role: session?.user.role,
+    adminRole: session?.user.adminRole,
+  };
+  const allTabs: {
+    id: string;
+    name: string;
+    icon: typeof ChartBarIcon;
+    permission?: RolePermission;
+  }[] = [
     { id: "overview", name: "Overview", icon: ChartBarIcon },
     { id: "analytics", name: "Platform Analytics", icon: ClockIcon },
     { id: "investments", name: "Investments", icon: BanknotesIcon },
+    {
+      id: "withdrawals",
+      name: "Withdrawals",
+      icon: BanknotesIcon,
+      permission: "withdrawal:listAll",
+    },
+    {
+      id: "kyc",
+      name: "Verifications",
+      icon: CheckBadgeIcon,
+      permission: "kyc:review",
+    },
+    {
+      id: "erasure",
+      name: "Erasure Requests",
+      icon: UserMinusIcon,
+      permission: "erasure:review",
+    },
     { id: "education", name: "Educational Content", icon: UserGroupIcon },
-    { id: "approvals", name: "Approvals", icon: CheckBadgeIcon },
+    {
+      id: "approvals",
+      name: "Approvals",
+      icon: BuildingOfficeIcon,
+      permission: "opportunity:vet",
+    },
     { id: "reports", name: "Reports", icon: ExclamationTriangleIcon },
-    { id: "users", name: "User Management", icon: UserGroupIcon },
+    {
+      id: "users",
+      name: "User Management",
+      icon: UserGroupIcon,
+      permission: "user:list",
+    },
+    {
+      id: "audit",
+      name: "Audit Log",
+      icon: ClipboardDocumentListIcon,
+      permission: "audit:read",
+    },
+    {
+      id: "admins",
+      name: "Administrators",
+      icon: KeyIcon,
+      permission: "admin:manage",
+    },
     { id: "system", name: "System Health", icon: ClockIcon },
   ];
+  const tabs = allTabs.filter(
+    (tab) => !tab.permission || can(actor, tab.permission)
+  );
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-NG", {
@@ -439,68 +478,6 @@ export default function AdministratorDashboard() {
     );
   };
 
-  const renderApprovals = () => (
-    <div className="bg-white shadow rounded-lg">
-      <div className="px-6 py-4 border-b border-gray-200">
-        <h3 className="text-lg font-medium text-gray-900">Pending Approvals</h3>
-      </div>
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Type
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Name
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Submitted By
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Date
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Actions
-              </th>
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {pendingApprovals.map((item) => (
-              <tr key={item.id}>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {item.type}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {item.name}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {item.submittedBy}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {item.submittedAt}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <div className="flex space-x-2">
-                    <button className="text-green-600 hover:text-green-900">
-                      <CheckBadgeIcon className="h-5 w-5" />
-                    </button>
-                    <button className="text-blue-600 hover:text-blue-900">
-                      <EyeIcon className="h-5 w-5" />
-                    </button>
-                    <button className="text-red-600 hover:text-red-900">
-                      <TrashIcon className="h-5 w-5" />
-                    </button>
-                  </div>
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-    </div>
-  );
-
   const renderReports = () => (
     <div className="bg-white shadow rounded-lg">
       <div className="px-6 py-4 border-b border-gray-200">
@@ -617,16 +594,15 @@ export default function AdministratorDashboard() {
           {activeTab === "investments" && (
             <InvestmentManagement userRole="ADMINISTRATOR" />
           )}
+          {activeTab === "withdrawals" && <WithdrawalQueue />}
+          {activeTab === "kyc" && <KycReviewQueue />}
+          {activeTab === "erasure" && <ErasureRequestQueue />}
           {activeTab === "education" && <EducationalContentManager />}
-          {activeTab === "approvals" && renderApprovals()}
+          {activeTab === "approvals" && <OpportunityVettingQueue />}
           {activeTab === "reports" && renderReports()}
-          {activeTab === "users" && (
-            <div className="text-center py-12">
-              <p className="text-gray-500">
-                User Management interface coming soon...
-              </p>
-            </div>
-          )}
+          {activeTab === "users" && <UserManagement />}
+          {activeTab === "audit" && <AuditLogViewer />}
+          {activeTab === "admins" && <AdminManagement />}
           {activeTab === "system" && (
             <div className="text-center py-12">
               <p className="text-gray-500">
@@ -1,10 +1,14 @@
 import Link from "next/link";
 import { useState, useEffect } from "react";
 import InvestmentManagement from "@/components/InvestmentManagement";
-import OpportunityCreationModal from "@/components/OpportunityCreationModal";
+import OpportunityCreationModal, {
+  type EditableOpportunity,
+} from "@/components/OpportunityCreationModal";
 import MessageComposer from "@/components/MessageComposer";
 import MessageNotificationWidget from "@/components/MessageNotificationWidget";
 import EducationalContentLibrary from "@/components/EducationalContentLibrary";
+import CompanyProfileManager from "@/components/CompanyProfileManager";
+import OpportunityDataRoom from "@/components/OpportunityDataRoom";
 import { LineChart, BarChart, DonutChart, PieChart } from "@/components/charts";
 import {
   calculateBusinessMetrics,
@@ -27,16 +31,27 @@ import {
   CheckCircleIcon,
   ChatBubbleLeftRightIcon,
   PaperAirplaneIcon,
+  PencilIcon,
+  RocketLaunchIcon,
+  PauseIcon,
+  PlayIcon,
+  LockClosedIcon,
+  XCircleIcon,
+  FolderOpenIcon,
 } from "@heroicons/react/24/outline";
 
 // Interface for opportunity data
-interface Opportunity {
-  id: string;
-  title: string;
-  targetCapital: number;
+interface Opportunity extends EditableOpportunity {
   currentRaised: number;
   status: string;
   createdAt: string;
+  // Requested changes, rejection reasons and replies from vetting
+  vettingNotes: {
+    id: string;
+    kind: "CHANGES_REQUESTED" | "REJECTION" | "RESPONSE";
+    content: string;
+    createdAt: string;
+  }[];
   _count: {
     investments: number;
   };
@@ -102,8 +117,30 @@ const calculateProgress = (current: number, target: number) => {
   return Math.min((current / target) * 100, 100);
 };
 
+const OPPORTUNITY_STATUS_STYLES: Record<string, string> = {
+  DRAFT: "bg-gray-100 text-gray-800",
+  SUBMITTED: "bg-blue-100 text-blue-800",
+  UNDER_REVIEW: "bg-blue-100 text-blue-800",
+  CHANGES_REQUESTED: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+  OPEN: "bg-green-100 text-green-800",
+  FULLY_FUNDED: "bg-green-100 text-green-800",
+  PAUSED: "bg-yellow-100 text-yellow-800",
+  CLOSED: "bg-gray-100 text-gray-800",
+  CANCELLED: "bg-red-100 text-red-800",
+};
+
+const formatStatus = (status: string) =>
+  status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, " ");
+
 export default function BusinessOwnerDashboard({ user }: { user: any }) {
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingOpportunity, setEditingOpportunity] =
+    useState<Opportunity | null>(null);
+  const [dataRoomOpportunity, setDataRoomOpportunity] =
+    useState<Opportunity | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
   const [showMessageComposer, setShowMessageComposer] = useState(false);
   const [showInvestorManagement, setShowInvestorManagement] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
@@ -309,6 +346,113 @@ export default function BusinessOwnerDashboard({ user }: { user: any }) {
     }
   };
 
+  // Send an opportunity for vetting, or open an approved one to investors
+  const handleOpportunityAction = async (
+    opportunity: Opportunity,
+    action: "submit" | "publish"
+  ) => {
+    const body: Record<string, string> = {};
+
+    if (action === "submit" && opportunity.status === "CHANGES_REQUESTED") {
+      const response = prompt(
+        "Tell the reviewers what you changed (optional):"
+      );
+      if (response === null) return;
+      if (response.trim()) body.response = response.trim();
+    } else if (
+      action === "publish" &&
+      !confirm(`Open "${opportunity.title}" to investors now?`)
+    ) {
+      return;
+    }
+
+    setProcessingId(opportunity.id);
+    try {
+      const response = await fetch(
+        `/api/opportunities/${opportunity.id}/${action}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} opportunity`);
+      }
+
+      await fetchOpportunities();
+      setNotification({ type: "success", message: data.message });
+      setTimeout(() => setNotification(null), 5000);
+    } catch (err) {
+      setNotification({
+        type: "error",
+        message:
+          err instanceof Error
+            ? err.message
+            : `Failed to ${action} opportunity`,
+      });
+      setTimeout(() => setNotification(null), 8000);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // Pause, resume, close or cancel an opportunity. Closing or cancelling
+  // cancels and refunds any pending investments.
+  const handleStatusChange = async (
+    opportunity: Opportunity,
+    status: "OPEN" | "PAUSED" | "CLOSED" | "CANCELLED"
+  ) => {
+    const body: Record<string, string> = { status };
+
+    if (status === "CLOSED" || status === "CANCELLED") {
+      const verb = status === "CLOSED" ? "Close" : "Cancel";
+      if (
+        !confirm(
+          `${verb} "${opportunity.title}"? Pending investments will be cancelled and refunded.`
+        )
+      ) {
+        return;
+      }
+      const reason = prompt("Reason to share with investors (optional):");
+      if (reason === null) return;
+      if (reason.trim()) body.reason = reason.trim();
+    }
+
+    setProcessingId(opportunity.id);
+    try {
+      const response = await fetch(`/api/opportunities/${opportunity.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update opportunity");
+      }
+
+      await fetchOpportunities();
+      setNotification({ type: "success", message: data.message });
+      setTimeout(() => setNotification(null), 5000);
+    } catch (err) {
+      setNotification({
+        type: "error",
+        message:
+          err instanceof Error ? err.message : "Failed to update opportunity",
+      });
+      setTimeout(() => setNotification(null), 8000);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   useEffect(() => {
     fetchOpportunities();
     fetchInvestorAnalytics();
@@ -319,6 +463,7 @@ export default function BusinessOwnerDashboard({ user }: { user: any }) {
     { id: "overview", name: "Overview" },
     { id: "analytics", name: "Business Analytics" },
     { id: "opportunities", name: "Opportunities" },
+    { id: "company", name: "Company" },
     { id: "investments", name: "Investment Management" },
     { id: "education", name: "Education" },
   ];
@@ -694,8 +839,224 @@ export default function BusinessOwnerDashboard({ user }: { user: any }) {
                 </div>
               )}
 
-              {/* Other existing tabs content would go here */}
-              {/* Opportunities Tab, Investment Management Tab, etc. */}
+              {/* Opportunities Tab */}
+              {activeTab === "opportunities" && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                      New opportunities are vetted by our compliance team before
+                      investors can see them.
+                    </p>
+                    <button
+                      onClick={() => setShowCreateModal(true)}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+                    >
+                      <PlusIcon className="h-4 w-4 mr-1" />
+                      New Opportunity
+                    </button>
+                  </div>
+
+                  {opportunities.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      You haven&apos;t created any opportunities yet
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {opportunities.map((opportunity) => {
+                        const latestNote = opportunity.vettingNotes.find(
+                          (note) => note.kind !== "RESPONSE"
+                        );
+                        const editable =
+                          opportunity.status === "DRAFT" ||
+                          opportunity.status === "CHANGES_REQUESTED";
+                        const live = [
+                          "OPEN",
+                          "PAUSED",
+                          "FULLY_FUNDED",
+                        ].includes(opportunity.status);
+                        const cancellable =
+                          live || editable || opportunity.status === "APPROVED";
+
+                        return (
+                          <div key={opportunity.id} className="p-4">
+                            <div className="flex items-start justify-between">
+                              <div>
+                                <div className="flex items-center space-x-2">
+                                  <Link
+                                    href={`/opportunities/${opportunity.id}`}
+                                    className="text-sm font-medium text-gray-900 hover:text-green-600"
+                                  >
+                                    {opportunity.title}
+                                  </Link>
+                                  <span
+                                    className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                                      OPPORTUNITY_STATUS_STYLES[
+                                        opportunity.status
+                                      ] || "bg-gray-100 text-gray-800"
+                                    }`}
+                                  >
+                                    {formatStatus(opportunity.status)}
+                                  </span>
+                                </div>
+                                <p className="mt-1 text-sm text-gray-500">
+                                  {formatCurrency(opportunity.currentRaised)} of{" "}
+                                  {formatCurrency(opportunity.targetCapital)}{" "}
+                                  raised (
+                                  {formatPercentage(
+                                    calculateProgress(
+                                      opportunity.currentRaised,
+                                      opportunity.targetCapital
+                                    )
+                                  )}
+                                  ) · {opportunity._count.investments}{" "}
+                                  investments
+                                </p>
+                              </div>
+
+                              <div className="flex space-x-3 text-sm">
+                                {opportunity.status !== "REJECTED" &&
+                                  opportunity.status !== "CANCELLED" && (
+                                    <button
+                                      onClick={() =>
+                                        setDataRoomOpportunity(opportunity)
+                                      }
+                                      className="inline-flex items-center text-gray-600 hover:text-gray-900"
+                                    >
+                                      <FolderOpenIcon className="h-4 w-4 mr-1" />
+                                      Documents
+                                    </button>
+                                  )}
+                                {(editable || live) && (
+                                  <button
+                                    onClick={() =>
+                                      setEditingOpportunity(opportunity)
+                                    }
+                                    className="inline-flex items-center text-gray-600 hover:text-gray-900"
+                                  >
+                                    <PencilIcon className="h-4 w-4 mr-1" />
+                                    Edit
+                                  </button>
+                                )}
+                                {editable && (
+                                  <>
+                                    <button
+                                      onClick={() =>
+                                        handleOpportunityAction(
+                                          opportunity,
+                                          "submit"
+                                        )
+                                      }
+                                      disabled={processingId === opportunity.id}
+                                      className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                                    >
+                                      <PaperAirplaneIcon className="h-4 w-4 mr-1" />
+                                      Submit for Review
+                                    </button>
+                                  </>
+                                )}
+                                {opportunity.status === "APPROVED" && (
+                                  <button
+                                    onClick={() =>
+                                      handleOpportunityAction(
+                                        opportunity,
+                                        "publish"
+                                      )
+                                    }
+                                    disabled={processingId === opportunity.id}
+                                    className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                                  >
+                                    <RocketLaunchIcon className="h-4 w-4 mr-1" />
+                                    Publish
+                                  </button>
+                                )}
+                                {opportunity.status === "OPEN" && (
+                                  <button
+                                    onClick={() =>
+                                      handleStatusChange(opportunity, "PAUSED")
+                                    }
+                                    disabled={processingId === opportunity.id}
+                                    className="inline-flex items-center text-yellow-600 hover:text-yellow-900 disabled:opacity-50"
+                                  >
+                                    <PauseIcon className="h-4 w-4 mr-1" />
+                                    Pause
+                                  </button>
+                                )}
+                                {opportunity.status === "PAUSED" && (
+                                  <button
+                                    onClick={() =>
+                                      handleStatusChange(opportunity, "OPEN")
+                                    }
+                                    disabled={processingId === opportunity.id}
+                                    className="inline-flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                                  >
+                                    <PlayIcon className="h-4 w-4 mr-1" />
+                                    Resume
+                                  </button>
+                                )}
+                                {live && (
+                                  <button
+                                    onClick={() =>
+                                      handleStatusChange(opportunity, "CLOSED")
+                                    }
+                                    disabled={processingId === opportunity.id}
+                                    className="inline-flex items-center text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                                  >
+                                    <LockClosedIcon className="h-4 w-4 mr-1" />
+                                    Close
+                                  </button>
+                                )}
+                                {cancellable && (
+                                  <button
+                                    onClick={() =>
+                                      handleStatusChange(
+                                        opportunity,
+                                        "CANCELLED"
+                                      )
+                                    }
+                                    disabled={processingId === opportunity.id}
+                                    className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                                  >
+                                    <XCircleIcon className="h-4 w-4 mr-1" />
+                                    Cancel
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+
+                            {latestNote &&
+                              (opportunity.status === "CHANGES_REQUESTED" ||
+                                opportunity.status === "REJECTED") && (
+                                <div
+                                  className={`mt-3 rounded-md p-3 text-sm ${
+                                    opportunity.status === "REJECTED"
+                                      ? "bg-red-50 text-red-700"
+                                      : "bg-yellow-50 text-yellow-700"
+                                  }`}
+                                >
+                                  <p className="font-medium">
+                                    {opportunity.status === "REJECTED"
+                                      ? "Not approved"
+                                      : "Changes requested"}{" "}
+                                    on{" "}
+                                    {new Date(
+                                      latestNote.createdAt
+                                    ).toLocaleDateString()}
+                                  </p>
+                                  <p className="mt-1 whitespace-pre-line">
+                                    {latestNote.content}
+                                  </p>
+                                </div>
+                              )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === "company" && <CompanyProfileManager />}
+
               {activeTab === "education" && (
                 <EducationalContentLibrary userRole="BUSINESS_OWNER" />
               )}
@@ -709,14 +1070,35 @@ export default function BusinessOwnerDashboard({ user }: { user: any }) {
         <OpportunityCreationModal
           isOpen={showCreateModal}
           onClose={() => setShowCreateModal(false)}
-          onSuccess={() => {
+          onSuccess={(message) => {
             fetchOpportunities();
             fetchInvestorAnalytics();
-            alert("Opportunity created successfully!");
+            setNotification({ type: "success", message });
+            setTimeout(() => setNotification(null), 5000);
           }}
         />
       )}
 
+      {editingOpportunity && (
+        <OpportunityCreationModal
+          isOpen
+          opportunity={editingOpportunity}
+          onClose={() => setEditingOpportunity(null)}
+          onSuccess={(message) => {
+            fetchOpportunities();
+            setNotification({ type: "success", message });
+            setTimeout(() => setNotification(null), 5000);
+          }}
+        />
+      )}
+
+      {dataRoomOpportunity && (
+        <OpportunityDataRoom
+          opportunity={dataRoomOpportunity}
+          onClose={() => setDataRoomOpportunity(null)}
+        />
+      )}
+
       {selectedInvestor && (
         <MessageComposer
           isOpen={showMessageComposer}
@@ -1,6 +1,13 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { useSession } from "next-auth/react";
 
 type Theme = "light" | "dark";
 
@@ -32,6 +39,7 @@ export function ThemeProvider({
 }: ThemeProviderProps) {
   const [theme, setThemeState] = useState<Theme>(defaultTheme);
   const [mounted, setMounted] = useState(false);
+  const { status } = useSession();
 
   // Load theme from localStorage on mount
   useEffect(() => {
@@ -63,12 +71,47 @@ export function ThemeProvider({
     // Save to localStorage
     localStorage.setItem("naijaconnect-theme", theme);
   }, [theme, mounted]);
+
+  // Signed-in users get the theme saved with their account, so it follows
+  // them across devices
+  useEffect(() => {
+    if (status !== "authenticated") return;
+
+    fetch("/api/users/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        const savedTheme = data?.user?.theme;
+        if (savedTheme === "light" || savedTheme === "dark") {
+          setThemeState(savedTheme);
+        }
+      })
+      .catch((error) => console.error("Failed to load theme:", error));
+  }, [status]);
+
+  const saveTheme = useCallback(
+    (newTheme: Theme) => {
+      if (status !== "authenticated") return;
+
+      fetch("/api/users/me", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ theme: newTheme }),
+      }).catch((error) => console.error("Failed to save theme:", error));
+    },
+    [status]
+  );
+
   const toggleTheme = () => {
-    setThemeState((prevTheme) => (prevTheme === "light" ? "dark" : "light"));
+    const newTheme = theme === "light" ? "dark" : "light";
+    setThemeState(newTheme);
+    saveTheme(newTheme);
   };
 
   const setTheme = (newTheme: Theme) => {
     setThemeState(newTheme);
+    saveTheme(newTheme);
   };
 
   // Prevent hydration mismatch
@@ -0,0 +1,21 @@
+// Runs once when the server starts, before any request is handled
+
+export async function register() {
+  // Settings are only checked on the server that handles requests, not while
+  // pages are prerendered during a build
+  if (
+    process.env.NEXT_RUNTIME !== "nodejs" ||
+    process.env.NEXT_PHASE === "phase-production-build"
+  ) {
+    return;
+  }
+
+  const { assertPaymentConfiguration } = await import("@/lib/payments");
+  const { assertDocumentConfiguration } = await import(
+    "@/lib/opportunity-documents"
+  );
+  const { assertEncryptionConfiguration } = await import("@/lib/encryption");
+  assertPaymentConfiguration();
+  assertDocumentConfiguration();
+  assertEncryptionConfiguration();
+}
@@ -0,0 +1,246 @@
+// Account suspension and deactivation. Sign-in and existing sessions are
+// refused while an account is not active, and a business owner's OPEN
+// opportunities are paused until the account is reinstated.
+
+import { AccountStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { AppError } from "@/lib/errors";
+import { revokeSessions } from "@/lib/sessions";
+
+// Error codes returned to clients from authorize()
+export const ACCOUNT_SUSPENDED = "ACCOUNT_SUSPENDED";
+export const ACCOUNT_DEACTIVATED = "ACCOUNT_DEACTIVATED";
+
+export type AccountRestriction =
+  | typeof ACCOUNT_SUSPENDED
+  | typeof ACCOUNT_DEACTIVATED;
+
+export interface AccountStatusChange {
+  status: AccountStatus;
+  reason?: string;
+  // Only meaningful for suspensions; omit for an indefinite suspension
+  expiresAt?: Date;
+}
+
+export class AccountStatusError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "AccountStatusError";
+  }
+}
+
+const STATUS_MESSAGES: Record<AccountStatus, string> = {
+  ACTIVE: "Your account has been reinstated. You can sign in again.",
+  SUSPENDED: "Your account has been suspended.",
+  DEACTIVATED: "Your account has been deactivated.",
+};
+
+const accountSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  status: true,
+  statusReason: true,
+  statusExpiresAt: true,
+  statusChangedAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Error code explaining why the account may not be used, or null if it is
+ * active. A suspension whose expiry has passed no longer counts.
+ */
+export function getAccountRestriction(
+  user: { status: AccountStatus; statusExpiresAt: Date | null },
+  now = new Date()
+): AccountRestriction | null {
+  if (user.status === "DEACTIVATED") return ACCOUNT_DEACTIVATED;
+  if (user.status === "SUSPENDED") {
+    if (user.statusExpiresAt && user.statusExpiresAt <= now) return null;
+    return ACCOUNT_SUSPENDED;
+  }
+  return null;
+}
+
+/**
+ * Pause or reopen the owner's opportunities to match the account status.
+ * Opportunities the owner paused themselves stay paused.
+ */
+export async function syncOwnerOpportunities(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  status: AccountStatus
+) {
+  if (status === "ACTIVE") {
+    await tx.business.updateMany({
+      where: { ownerId, status: "PAUSED", pausedByOwner: false },
+      data: { status: "OPEN" },
+    });
+  } else {
+    await tx.business.updateMany({
+      where: { ownerId, status: "OPEN" },
+      data: { status: "PAUSED" },
+    });
+  }
+}
+
+async function emailStatusChange(
+  user: { name: string; email: string },
+  change: AccountStatusChange
+) {
+  const lines = [`Hello ${user.name},`, "", STATUS_MESSAGES[change.status]];
+
+  if (change.reason) {
+    lines.push("", `Reason: ${change.reason}`);
+  }
+  if (change.status === "SUSPENDED" && change.expiresAt) {
+    lines.push("", `The suspension ends on ${change.expiresAt.toUTCString()}.`);
+  }
+  if (change.status !== "ACTIVE") {
+    lines.push("", "If you believe this is a mistake, contact support.");
+  }
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Your NaijaConnect Capital account status has changed",
+      text: lines.join("\n"),
+    });
+  } catch (mailError) {
+    console.error("Account status email error:", mailError);
+  }
+}
+
+/**
+ * Admin action: suspend, deactivate or reinstate an account
+ */
+export async function changeAccountStatus(
+  userId: string,
+  change: AccountStatusChange,
+  actorId: string
+) {
+  if (userId === actorId) {
+    throw new AccountStatusError("You cannot change your own account status");
+  }
+
+  if (change.status !== "ACTIVE" && !change.reason) {
+    throw new AccountStatusError("A reason is required");
+  }
+
+  if (change.expiresAt && change.status !== "SUSPENDED") {
+    throw new AccountStatusError("Only suspensions can have an expiry");
+  }
+
+  if (change.expiresAt && change.expiresAt <= new Date()) {
+    throw new AccountStatusError("Suspension expiry must be in the future");
+  }
+
+  const existing = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { status: true },
+  });
+
+  if (!existing) {
+    throw new AccountStatusError("User not found", 404);
+  }
+
+  if (change.status === "ACTIVE" && existing.status === "ACTIVE") {
+    throw new AccountStatusError("Account is already active");
+  }
+
+  const user = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id: userId },
+      data: {
+        status: change.status,
+        statusReason: change.status === "ACTIVE" ? null : change.reason,
+        statusExpiresAt: change.expiresAt ?? null,
+        statusChangedAt: new Date(),
+      },
+      select: accountSelect,
+    });
+
+    await syncOwnerOpportunities(tx, userId, change.status);
+
+    if (change.status !== "ACTIVE") {
+      await revokeSessions(tx, userId, "ACCOUNT_RESTRICTED");
+    }
+
+    if (change.status === "ACTIVE") {
+      await tx.notification.create({
+        data: {
+          title: "Account Reinstated",
+          content: STATUS_MESSAGES.ACTIVE,
+          userId,
+        },
+      });
+    }
+
+    return updated;
+  });
+
+  await emailStatusChange(user, change);
+
+  return user;
+}
+
+/**
+ * Reinstate one account if its suspension has run out. Guarded on the
+ * expiry so concurrent callers only reinstate it once.
+ */
+export async function reinstateIfExpired(
+  userId: string,
+  now = new Date()
+): Promise<boolean> {
+  const reinstated = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.user.updateMany({
+      where: {
+        id: userId,
+        status: "SUSPENDED",
+        statusExpiresAt: { lte: now },
+      },
+      data: {
+        status: "ACTIVE",
+        statusReason: null,
+        statusExpiresAt: null,
+        statusChangedAt: now,
+      },
+    });
+
+    if (claimed.count === 0) return false;
+
+    await syncOwnerOpportunities(tx, userId, "ACTIVE");
+    await tx.notification.create({
+      data: {
+        title: "Account Reinstated",
+        content: STATUS_MESSAGES.ACTIVE,
+        userId,
+      },
+    });
+
+    return true;
+  });
+
+  return reinstated;
+}
+
+/**
+ * Reinstate every account whose suspension has run out, so their
+ * opportunities reopen even if the owner has not signed in since
+ */
+export async function reinstateExpiredSuspensions(now = new Date()) {
+  const expired = await prisma.user.findMany({
+    where: { status: "SUSPENDED", statusExpiresAt: { lte: now } },
+    select: { id: true, name: true, email: true, statusExpiresAt: true },
+  });
+
+  const reinstated = [];
+  for (const user of expired) {
+    if (await reinstateIfExpired(user.id, now)) {
+      reinstated.push(user);
+    }
+  }
+
+  return reinstated;
+}
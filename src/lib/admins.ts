@@ -0,0 +1,320 @@
+// Administrator accounts: emailed invitations that onboard new
+// administrators, the admin role that scopes what each one may do, and
+// revoking access. Only super-admins manage other administrators; the first
+// one is created by the bootstrap endpoint or the CLI script.
+
+import bcrypt from "bcryptjs";
+import { AdminRole, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { generateToken, hashToken } from "@/lib/tokens";
+import { AppError } from "@/lib/errors";
+import { revokeSessions } from "@/lib/sessions";
+
+const BASE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// How long an invitation link stays valid
+export const INVITATION_TTL_DAYS = 7;
+
+export const ADMIN_ROLES = [
+  "SUPER_ADMIN",
+  "SUPPORT",
+  "COMPLIANCE",
+  "FINANCE",
+] as const satisfies readonly AdminRole[];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  SUPER_ADMIN: "Super-admin",
+  SUPPORT: "Support",
+  COMPLIANCE: "Compliance",
+  FINANCE: "Finance",
+};
+
+export class AdminError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "AdminError";
+  }
+}
+
+const adminSelect = {
+  id: true,
+  name: true,
+  email: true,
+  adminRole: true,
+  status: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  adminRole: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true } },
+} satisfies Prisma.AdminInvitationSelect;
+
+/**
+ * Whether any administrator account exists yet. Bootstrapping is only
+ * allowed while there is none.
+ */
+export async function hasAdministrator(): Promise<boolean> {
+  const admin = await prisma.user.findFirst({
+    where: { role: "ADMINISTRATOR" },
+    select: { id: true },
+  });
+  return !!admin;
+}
+
+/**
+ * Active administrators and invitations still waiting to be accepted
+ */
+export async function listAdmins() {
+  const [admins, invitations] = await Promise.all([
+    prisma.user.findMany({
+      where: { role: "ADMINISTRATOR", status: "ACTIVE" },
+      orderBy: { createdAt: "asc" },
+      select: adminSelect,
+    }),
+    prisma.adminInvitation.findMany({
+      where: {
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+      select: invitationSelect,
+    }),
+  ]);
+
+  return { admins, invitations };
+}
+
+/**
+ * Email an invitation to become an administrator with the given role.
+ * Inviting the same address again replaces the earlier link.
+ */
+export async function inviteAdmin(
+  email: string,
+  adminRole: AdminRole,
+  invitedById: string
+) {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true },
+  });
+  if (existingUser) {
+    throw new AdminError(
+      "An account with this email already exists. Invite a different address."
+    );
+  }
+
+  const inviter = await prisma.user.findUnique({
+    where: { id: invitedById },
+    select: { name: true },
+  });
+
+  const { token, tokenHash } = generateToken();
+
+  const [, invitation] = await prisma.$transaction([
+    prisma.adminInvitation.updateMany({
+      where: { email: normalizedEmail, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.adminInvitation.create({
+      data: {
+        email: normalizedEmail,
+        adminRole,
+        tokenHash,
+        invitedById,
+        expiresAt: new Date(
+          Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+        ),
+      },
+      select: invitationSelect,
+    }),
+  ]);
+
+  const acceptUrl = `${BASE_URL}/auth/accept-invitation?token=${token}`;
+  const inviterName = inviter?.name ?? "An administrator";
+  const roleLabel = ADMIN_ROLE_LABELS[adminRole];
+
+  await sendMail({
+    to: normalizedEmail,
+    subject: "You've been invited to administer NaijaConnect Capital",
+    text: [
+      "Hello,",
+      "",
+      `${inviterName} has invited you to join NaijaConnect Capital as a ${roleLabel} administrator. Use the link below to set up your account:`,
+      "",
+      acceptUrl,
+      "",
+      `This link expires in ${INVITATION_TTL_DAYS} days and can only be used once. You will be asked to set up two-factor authentication when you first sign in.`,
+    ].join("\n"),
+  });
+
+  return invitation;
+}
+
+async function findUsableInvitation(
+  client: Prisma.TransactionClient | typeof prisma,
+  token: string
+) {
+  const invitation = await client.adminInvitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (
+    !invitation ||
+    invitation.acceptedAt ||
+    invitation.revokedAt ||
+    invitation.expiresAt.getTime() < Date.now()
+  ) {
+    throw new AdminError("This invitation is invalid or has expired");
+  }
+
+  return invitation;
+}
+
+/**
+ * What an invitation link is for, so the accept page can show it
+ */
+export async function getInvitation(token: string) {
+  const invitation = await findUsableInvitation(prisma, token);
+  return { email: invitation.email, adminRole: invitation.adminRole };
+}
+
+/**
+ * Create the administrator account for an invitation. The invited address
+ * is treated as verified since the link was delivered to it.
+ */
+export async function acceptInvitation(
+  token: string,
+  account: { name: string; password: string }
+) {
+  const hashedPassword = await bcrypt.hash(account.password, 12);
+
+  return prisma.$transaction(async (tx) => {
+    const invitation = await findUsableInvitation(tx, token);
+
+    // Guard on acceptedAt so the same link cannot be redeemed twice
+    const claimed = await tx.adminInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new AdminError("This invitation is invalid or has expired");
+    }
+
+    const existingUser = await tx.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+    if (existingUser) {
+      throw new AdminError("An account with this email already exists");
+    }
+
+    return tx.user.create({
+      data: {
+        name: account.name,
+        email: invitation.email,
+        password: hashedPassword,
+        role: "ADMINISTRATOR",
+        adminRole: invitation.adminRole,
+        verified: true,
+      },
+      select: adminSelect,
+    });
+  });
+}
+
+/**
+ * Withdraw an invitation that has not been accepted yet
+ */
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const revoked = await prisma.adminInvitation.updateMany({
+    where: { id: invitationId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (revoked.count === 0) {
+    throw new AdminError("Invitation not found", 404);
+  }
+}
+
+async function findOtherAdmin(adminId: string, actorId: string) {
+  if (adminId === actorId) {
+    // Also guarantees a super-admin always remains
+    throw new AdminError("You cannot change your own administrator access");
+  }
+
+  const admin = await prisma.user.findUnique({
+    where: { id: adminId },
+    select: { id: true, name: true, email: true, role: true, status: true },
+  });
+
+  if (!admin || admin.role !== "ADMINISTRATOR" || admin.status !== "ACTIVE") {
+    throw new AdminError("Administrator not found", 404);
+  }
+
+  return admin;
+}
+
+/**
+ * Move an administrator to a different admin role. Takes effect on their
+ * next request, since the role is re-read for every session refresh.
+ */
+export async function changeAdminRole(
+  adminId: string,
+  adminRole: AdminRole,
+  actorId: string
+) {
+  await findOtherAdmin(adminId, actorId);
+
+  return prisma.user.update({
+    where: { id: adminId },
+    data: { adminRole },
+    select: adminSelect,
+  });
+}
+
+/**
+ * Take away an administrator's access: the account is deactivated and
+ * every session signed out. Reinstating it is left to a super-admin.
+ */
+export async function revokeAdmin(adminId: string, actorId: string) {
+  const admin = await findOtherAdmin(adminId, actorId);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: adminId },
+      data: {
+        adminRole: null,
+        status: "DEACTIVATED",
+        statusReason: "Administrator access revoked",
+        statusExpiresAt: null,
+        statusChangedAt: new Date(),
+      },
+    });
+
+    await revokeSessions(tx, adminId, "ACCOUNT_RESTRICTED");
+  });
+
+  try {
+    await sendMail({
+      to: admin.email,
+      subject: "Your NaijaConnect Capital administrator access was revoked",
+      text: [
+        `Hello ${admin.name},`,
+        "",
+        "Your administrator access has been revoked and you have been signed out. If you believe this is a mistake, contact another administrator.",
+      ].join("\n"),
+    });
+  } catch (mailError) {
+    console.error("Admin revocation email error:", mailError);
+  }
+}
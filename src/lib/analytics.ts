@@ -32,6 +32,18 @@ export interface PerformanceMetrics {
   portfolioGrowth: number;
   monthlyGrowthRate: number;
   yearlyGrowthRate: number;
+  availableBalance: number;
+  totalWithdrawn: number;
+}
+
+/**
+ * Wallet totals derived from the ledger, converted to naira
+ */
+export interface LedgerTotals {
+  totalInvested: number;
+  totalReturns: number;
+  availableBalance: number;
+  totalWithdrawn: number;
 }
 
 export interface SectorAnalysis {
@@ -64,16 +76,21 @@ export function calculateInvestmentROI(investment: Investment): number {
 }
 
 /**
- * Calculate overall portfolio performance metrics
+ * Calculate overall portfolio performance metrics. When ledger totals are
+ * given, invested capital, returns and balances are taken from the ledger
+ * instead of being summed from the investment rows, so the investments passed
+ * in must be the ones whose principal the ledger still holds (paid and not
+ * cancelled or completed) for current value and invested capital to agree.
  */
 export function calculatePortfolioMetrics(
-  investments: Investment[]
+  investments: Investment[],
+  ledgerTotals?: LedgerTotals
 ): PerformanceMetrics {
   if (!investments.length) {
     return {
-      totalInvested: 0,
+      totalInvested: ledgerTotals?.totalInvested ?? 0,
       totalCurrentValue: 0,
-      totalReturns: 0,
+      totalReturns: ledgerTotals?.totalReturns ?? 0,
       netGain: 0,
       roi: 0,
       averageROI: 0,
@@ -82,19 +99,26 @@ export function calculatePortfolioMetrics(
       portfolioGrowth: 0,
       monthlyGrowthRate: 0,
       yearlyGrowthRate: 0,
+      availableBalance: ledgerTotals?.availableBalance ?? 0,
+      totalWithdrawn: ledgerTotals?.totalWithdrawn ?? 0,
     };
   }
 
-  const totalInvested = investments.reduce((sum, inv) => sum + inv.amount, 0);
+  const totalInvested =
+    ledgerTotals?.totalInvested ??
+    investments.reduce((sum, inv) => sum + inv.amount, 0);
   const totalCurrentValue = investments.reduce(
     (sum, inv) => sum + inv.currentValue,
     0
   );
-  const totalReturns = investments.reduce((sum, inv) => {
-    return (
-      sum + (inv.returns?.reduce((retSum, ret) => retSum + ret.amount, 0) || 0)
-    );
-  }, 0);
+  const totalReturns =
+    ledgerTotals?.totalReturns ??
+    investments.reduce((sum, inv) => {
+      return (
+        sum +
+        (inv.returns?.reduce((retSum, ret) => retSum + ret.amount, 0) || 0)
+      );
+    }, 0);
 
   const netGain = totalCurrentValue - totalInvested + totalReturns;
   const roi = totalInvested > 0 ? (netGain / totalInvested) * 100 : 0;
@@ -159,6 +183,8 @@ export function calculatePortfolioMetrics(
     portfolioGrowth,
     monthlyGrowthRate: monthlyGrowthRate * 100,
     yearlyGrowthRate: yearlyGrowthRate * 100,
+    availableBalance: ledgerTotals?.availableBalance ?? 0,
+    totalWithdrawn: ledgerTotals?.totalWithdrawn ?? 0,
   };
 }
 
@@ -0,0 +1,107 @@
+// Route handler wrappers shared by everything under src/app/api. They load
+// the session, check the route's declared permission and turn thrown errors
+// into the standard { error } envelope, so handlers only contain the
+// route's own logic.
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession, Session } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import { Actor, RolePermission, authorize } from "@/lib/authorization";
+
+interface RouteContext<P extends object> {
+  params: P | Promise<P>;
+}
+
+export interface PublicHandlerContext<P extends object> {
+  request: NextRequest;
+  params: P;
+}
+
+export interface HandlerContext<P extends object>
+  extends PublicHandlerContext<P> {
+  session: Session;
+  actor: Actor;
+}
+
+interface RouteOptions {
+  // Used in the server log when the handler fails unexpectedly
+  name: string;
+}
+
+interface AuthenticatedRouteOptions extends RouteOptions {
+  // Checked before the handler runs. Leave out when access depends on the
+  // record, and call authorize() in the handler once it is loaded.
+  permission?: RolePermission;
+}
+
+function errorResponse(name: string, error: unknown): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Validation failed", details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  console.error(`${name} error:`, error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
+
+/**
+ * Route open to anyone, e.g. registration or payment webhooks
+ */
+export function publicRoute<P extends object = Record<string, string>>(
+  options: RouteOptions,
+  handler: (context: PublicHandlerContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    try {
+      const params = (await context?.params) ?? ({} as P);
+      return await handler({ request, params });
+    } catch (error) {
+      return errorResponse(options.name, error);
+    }
+  };
+}
+
+/**
+ * Route that needs a signed-in user holding the given permission
+ */
+export function apiRoute<P extends object = Record<string, string>>(
+  options: AuthenticatedRouteOptions,
+  handler: (context: HandlerContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user?.id) {
+        return NextResponse.json(
+          { error: "Authentication required" },
+          { status: 401 }
+        );
+      }
+
+      const actor: Actor = {
+        id: session.user.id,
+        role: session.user.role,
+        adminRole: session.user.adminRole,
+      };
+      if (options.permission) {
+        authorize(actor, options.permission);
+      }
+
+      const params = (await context?.params) ?? ({} as P);
+      return await handler({ request, params, session, actor });
+    } catch (error) {
+      return errorResponse(options.name, error);
+    }
+  };
+}
@@ -0,0 +1,398 @@
+// Tamper-evident audit log of privileged actions. Events are append-only
+// (database triggers refuse updates and deletes) and hash-chained: each
+// event's hash covers its contents and the previous event's hash, so
+// editing or removing a past event is caught by verifyAuditChain().
+
+import { createHash } from "crypto";
+import { AuditEvent, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { Actor } from "@/lib/authorization";
+import { getRequestContext } from "@/lib/login-throttle";
+
+// prevHash of the first event
+export const GENESIS_HASH = "0".repeat(64);
+export const AUDIT_PAGE_SIZE = 50;
+// Most rows a single export returns
+export const AUDIT_EXPORT_LIMIT = 10_000;
+
+// Named after the permission that allowed the action where there is one
+export type AuditAction =
+  | "admin:create"
+  | "admin:invite"
+  | "admin:revokeInvitation"
+  | "admin:updateRole"
+  | "admin:revoke"
+  | "user:updateStatus"
+  | "user:unlock"
+  | "kyc:review"
+  | "erasure:review"
+  | "withdrawal:review"
+  | "investment:updateStatus"
+  | "payment:mismatch"
+  | "opportunity:create"
+  | "opportunity:update"
+  | "opportunity:updateStatus"
+  | "opportunity:submit"
+  | "opportunity:vet"
+  | "opportunity:publish"
+  | "company:update"
+  | "message:send";
+
+export interface AuditActor {
+  // Both null for scheduled jobs and payment webhooks
+  id: string | null;
+  role: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+type AuditValues = Record<string, unknown>;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actor: AuditActor;
+  target?: { type: string; id: string };
+  // Field values before and after the action; only differences are stored
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  metadata?: AuditValues;
+}
+
+export interface AuditFilters {
+  search?: string;
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // Hash of the newest event. Keep a copy outside the database: removing
+  // events from the end of the chain can only be spotted by comparing it.
+  headHash: string | null;
+  failure?: { sequence: number; reason: string };
+}
+
+// Query string accepted by the audit log viewer and export
+export const auditFiltersSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  action: z.string().max(100).optional(),
+  actorId: z.string().max(100).optional(),
+  targetType: z.string().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+const MAX_APPEND_ATTEMPTS = 3;
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Client IP and user agent of an API request
+ */
+export function requestOrigin(request: Request) {
+  return getRequestContext(Object.fromEntries(request.headers));
+}
+
+/**
+ * Who performed an action from an API route, with where the request came
+ * from. Administrators are recorded with their admin role.
+ */
+export function auditActor(actor: Actor, request: Request): AuditActor {
+  return {
+    id: actor.id,
+    role: actor.adminRole ?? actor.role ?? null,
+    ...requestOrigin(request),
+  };
+}
+
+/**
+ * Fields whose value differs between the two snapshots. A missing
+ * snapshot counts as every field being null.
+ */
+export function diffValues(
+  before: AuditValues | null | undefined,
+  after: AuditValues | null | undefined
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+type HashedFields = Omit<AuditEvent, "id" | "hash">;
+
+function hashEvent(event: HashedFields): string {
+  // Fixed field order so the same event always hashes the same way
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        event.sequence,
+        event.prevHash,
+        event.createdAt.toISOString(),
+        event.action,
+        event.actorId,
+        event.actorRole,
+        event.targetType,
+        event.targetId,
+        event.changes,
+        event.metadata,
+        event.ip,
+        event.userAgent,
+      ])
+    )
+    .digest("hex");
+}
+
+async function appendEvent(client: Client, input: AuditEventInput) {
+  const last = await client.auditEvent.findFirst({
+    orderBy: { sequence: "desc" },
+    select: { sequence: true, hash: true },
+  });
+
+  const changes = diffValues(input.before, input.after);
+  const fields: HashedFields = {
+    sequence: (last?.sequence ?? 0) + 1,
+    prevHash: last?.hash ?? GENESIS_HASH,
+    createdAt: new Date(),
+    action: input.action,
+    actorId: input.actor.id,
+    actorRole: input.actor.role,
+    targetType: input.target?.type ?? null,
+    targetId: input.target?.id ?? null,
+    changes: Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+    metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+    ip: input.actor.ip ?? null,
+    userAgent: input.actor.userAgent ?? null,
+  };
+
+  return client.auditEvent.create({
+    data: { ...fields, hash: hashEvent(fields) },
+  });
+}
+
+function isSequenceConflict(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+/**
+ * Append an event to the audit log. Pass a transaction client to record it
+ * atomically with the change it describes; otherwise it gets its own
+ * transaction, retried if another event claimed the same sequence number.
+ */
+export async function recordAuditEvent(
+  input: AuditEventInput,
+  client?: Prisma.TransactionClient
+) {
+  if (client) {
+    return appendEvent(client, input);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction((tx) => appendEvent(tx, input));
+    } catch (error) {
+      if (attempt >= MAX_APPEND_ATTEMPTS || !isSequenceConflict(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function buildWhere(filters: AuditFilters): Prisma.AuditEventWhereInput {
+  const where: Prisma.AuditEventWhereInput = {};
+
+  if (filters.action) where.action = filters.action;
+  if (filters.actorId) where.actorId = filters.actorId;
+  if (filters.targetType) where.targetType = filters.targetType;
+  if (filters.from || filters.to) {
+    where.createdAt = { gte: filters.from, lte: filters.to };
+  }
+  if (filters.search) {
+    where.OR = [
+      { action: { contains: filters.search } },
+      { actorId: { contains: filters.search } },
+      { targetId: { contains: filters.search } },
+      { changes: { contains: filters.search } },
+      { metadata: { contains: filters.search } },
+      { ip: { contains: filters.search } },
+    ];
+  }
+
+  return where;
+}
+
+function parseJson(value: string | null) {
+  return value ? JSON.parse(value) : null;
+}
+
+async function withActorNames(events: AuditEvent[]) {
+  const actorIds = [...new Set(events.flatMap((event) => event.actorId ?? []))];
+  const actors = await prisma.user.findMany({
+    where: { id: { in: actorIds } },
+    select: { id: true, name: true, email: true },
+  });
+  const byId = new Map(actors.map((actor) => [actor.id, actor]));
+
+  return events.map((event) => ({
+    ...event,
+    changes: parseJson(event.changes),
+    metadata: parseJson(event.metadata),
+    actor: event.actorId ? byId.get(event.actorId) ?? null : null,
+  }));
+}
+
+/**
+ * One page of audit events, newest first, with the acting user's name
+ */
+export async function listAuditEvents(filters: AuditFilters, page = 1) {
+  const where = buildWhere(filters);
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { sequence: "desc" },
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+    prisma.auditEvent.count({ where }),
+  ]);
+
+  return {
+    events: await withActorNames(events),
+    total,
+    page,
+    pageSize: AUDIT_PAGE_SIZE,
+  };
+}
+
+function csvCell(value: unknown): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Matching events as CSV, oldest first, including the hashes so an export
+ * can be checked against the chain later
+ */
+export async function exportAuditEvents(
+  filters: AuditFilters
+): Promise<string> {
+  const events = await withActorNames(
+    await prisma.auditEvent.findMany({
+      where: buildWhere(filters),
+      orderBy: { sequence: "asc" },
+      take: AUDIT_EXPORT_LIMIT,
+    })
+  );
+
+  const header = [
+    "Sequence",
+    "Time",
+    "Action",
+    "Actor ID",
+    "Actor",
+    "Actor role",
+    "Target type",
+    "Target ID",
+    "Changes",
+    "Metadata",
+    "IP",
+    "User agent",
+    "Previous hash",
+    "Hash",
+  ];
+
+  const rows = events.map((event) =>
+    [
+      event.sequence,
+      event.createdAt.toISOString(),
+      event.action,
+      event.actorId,
+      event.actor?.email,
+      event.actorRole,
+      event.targetType,
+      event.targetId,
+      event.changes && JSON.stringify(event.changes),
+      event.metadata && JSON.stringify(event.metadata),
+      event.ip,
+      event.userAgent,
+      event.prevHash,
+      event.hash,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * Walk the whole chain checking sequence numbers, links and hashes. Stops
+ * at the first event that does not check out.
+ */
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  let expectedSequence = 1;
+  let prevHash = GENESIS_HASH;
+  let checked = 0;
+
+  for (;;) {
+    const batch = await prisma.auditEvent.findMany({
+      where: { sequence: { gte: expectedSequence } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+
+    for (const event of batch) {
+      const failure =
+        event.sequence !== expectedSequence
+          ? `expected event ${expectedSequence}; events are missing`
+          : event.prevHash !== prevHash
+          ? "does not link to the previous event"
+          : event.hash !== hashEvent(event)
+          ? "contents do not match the stored hash"
+          : null;
+
+      if (failure) {
+        return {
+          valid: false,
+          checked,
+          headHash: prevHash === GENESIS_HASH ? null : prevHash,
+          failure: { sequence: event.sequence, reason: failure },
+        };
+      }
+
+      checked++;
+      expectedSequence++;
+      prevHash = event.hash;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return {
+    valid: true,
+    checked,
+    headHash: checked > 0 ? prevHash : null,
+  };
+}
@@ -3,6 +3,30 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
+import {
+  INVALID_TWO_FACTOR_CODE,
+  TWO_FACTOR_REQUIRED,
+  isTwoFactorRequiredForRole,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import {
+  ACCOUNT_LOCKED,
+  TOO_MANY_ATTEMPTS,
+  getIpRetryAt,
+  getRequestContext,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "@/lib/login-throttle";
+import {
+  getAccountRestriction,
+  reinstateIfExpired,
+} from "@/lib/account-status";
+import {
+  SESSION_MAX_AGE_SECONDS,
+  createSession,
+  endSession,
+  validateSession,
+} from "@/lib/sessions";
 
 const prisma = new PrismaClient();
 
@@ -14,12 +38,25 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        totpCode: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
 
+        const context = {
+          email: credentials.email,
+          ...getRequestContext(req?.headers),
+        };
+
+        // Refuse before checking the password so a throttled IP or a locked
+        // account gets no signal about whether a guess was right
+        if (await getIpRetryAt(context.ip)) {
+          await recordLoginFailure(context, "TOO_MANY_ATTEMPTS");
+          throw new Error(TOO_MANY_ATTEMPTS);
+        }
+
         const user = await prisma.user.findUnique({
           where: {
             email: credentials.email,
@@ -27,45 +64,148 @@ export const authOptions: NextAuthOptions = {
         });
 
         if (!user) {
+          await recordLoginFailure(context, "UNKNOWN_USER");
           return null;
         }
 
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          await recordLoginFailure(context, "ACCOUNT_LOCKED", user.id);
+          throw new Error(ACCOUNT_LOCKED);
+        }
+
         const isPasswordValid = await bcrypt.compare(
           credentials.password,
           user.password
         );
 
         if (!isPasswordValid) {
+          await recordLoginFailure(context, "INVALID_PASSWORD", user.id);
           return null;
         }
 
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+          await recordLoginFailure(context, restriction, user.id);
+          throw new Error(restriction);
+        }
+        if (user.status === "SUSPENDED") {
+          // The suspension has run out; lift it now rather than waiting
+          // for the scheduled job
+          await reinstateIfExpired(user.id);
+        }
+
+        // Second step: the sign-in form asks for a code when it sees this
+        if (user.twoFactorEnabled) {
+          if (!credentials.totpCode) {
+            throw new Error(TWO_FACTOR_REQUIRED);
+          }
+          if (!(await verifySecondFactor(user.id, credentials.totpCode))) {
+            await recordLoginFailure(
+              context,
+              "INVALID_TWO_FACTOR_CODE",
+              user.id
+            );
+            throw new Error(INVALID_TWO_FACTOR_CODE);
+          }
+        }
+
+        await recordLoginSuccess(user.id, context);
+
         return {
           id: user.id,
           email: user.email,
           name: user.name,
           role: user.role,
+          adminRole: user.adminRole,
+          sessionId: await createSession(user.id, context),
         };
       },
     }),
   ],
   session: {
     strategy: "jwt",
+    maxAge: SESSION_MAX_AGE_SECONDS,
   },
   callbacks: {
     async jwt({ token, user }) {
       if (user) {
         token.role = user.role;
+        token.adminRole = user.adminRole;
+        token.authTime = Date.now();
+        token.sid = user.sessionId;
+        return token;
       }
+
+      // Refuse tokens whose session was signed out remotely or revoked by a
+      // password change or suspension
+      if (!(await validateSession(token.sid, token.sub))) {
+        throw new Error("Session is no longer valid");
+      }
+
+      // Reject sessions issued before the password was last changed, and
+      // sessions of suspended or deactivated accounts. Throwing makes
+      // next-auth clear the session cookie, so every route that reads the
+      // session sees the user as signed out.
+      const account = await prisma.user.findUnique({
+        where: { id: token.sub },
+        select: {
+          name: true,
+          email: true,
+          role: true,
+          adminRole: true,
+          passwordChangedAt: true,
+          twoFactorEnabled: true,
+          status: true,
+          statusExpiresAt: true,
+        },
+      });
+
+      if (
+        !account ||
+        (account.passwordChangedAt &&
+          (token.authTime ?? 0) < account.passwordChangedAt.getTime()) ||
+        getAccountRestriction(account)
+      ) {
+        throw new Error("Session is no longer valid");
+      }
+
+      token.role = account.role;
+      // Admin scope changes take effect on the next request
+      token.adminRole = account.adminRole;
+      // Pick up profile edits without signing in again
+      token.name = account.name;
+      token.email = account.email;
+
+      // Administrators must enroll in 2FA before using their role
+      token.twoFactorSetupRequired =
+        isTwoFactorRequiredForRole(account.role) && !account.twoFactorEnabled;
+
       return token;
     },
     async session({ session, token }) {
       if (token && session.user) {
         session.user.id = token.sub!;
-        session.user.role = token.role as string;
+        // Withhold the role until mandatory 2FA enrollment is done, so
+        // role-restricted routes refuse the session in the meantime
+        session.user.role = token.twoFactorSetupRequired
+          ? undefined
+          : (token.role as string);
+        session.user.adminRole = token.twoFactorSetupRequired
+          ? null
+          : token.adminRole;
+        session.user.twoFactorSetupRequired = !!token.twoFactorSetupRequired;
+        session.sessionId = token.sid;
       }
       return session;
     },
   },
+  events: {
+    async signOut({ token }) {
+      if (token?.sid) {
+        await endSession(token.sid);
+      }
+    },
+  },
   pages: {
     signIn: "/auth/signin",
   },
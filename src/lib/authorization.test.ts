@@ -0,0 +1,332 @@
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  Actor,
+  AuthorizationError,
+  POLICY,
+  Permission,
+  authorize,
+  can,
+} from "@/lib/authorization";
+
+type Role =
+  | "investor"
+  | "owner"
+  | "superAdmin"
+  | "support"
+  | "compliance"
+  | "finance"
+  | "unenrolledAdmin";
+
+const ACTORS: Record<Role, Actor> = {
+  investor: { id: "investor", role: "INVESTOR" },
+  owner: { id: "owner", role: "BUSINESS_OWNER" },
+  superAdmin: {
+    id: "super-admin",
+    role: "ADMINISTRATOR",
+    adminRole: "SUPER_ADMIN",
+  },
+  support: { id: "support", role: "ADMINISTRATOR", adminRole: "SUPPORT" },
+  compliance: {
+    id: "compliance",
+    role: "ADMINISTRATOR",
+    adminRole: "COMPLIANCE",
+  },
+  finance: { id: "finance", role: "ADMINISTRATOR", adminRole: "FINANCE" },
+  // Sessions carry no role until the administrator has enrolled in 2FA
+  unenrolledAdmin: { id: "unenrolled-admin", adminRole: "SUPER_ADMIN" },
+};
+
+const ROLES = Object.keys(ACTORS) as Role[];
+const EVERYONE = ROLES;
+const ADMINS: Role[] = ["superAdmin", "support", "compliance", "finance"];
+const NOBODY: Role[] = [];
+
+// Someone other than the actor, for records the actor has no part in
+const STRANGER = "stranger";
+
+interface Case {
+  label: string;
+  resource?: (actor: Actor) => unknown;
+  allowed: Role[];
+}
+
+const roleOnly = (allowed: Role[]): Case[] => [{ label: "", allowed }];
+
+// The actor's own record is always allowed; others' only for the given roles
+const owned = (build: (id: string) => unknown, others: Role[]): Case[] => [
+  {
+    label: "own record",
+    resource: (actor) => build(actor.id),
+    allowed: EVERYONE,
+  },
+  {
+    label: "someone else's record",
+    resource: () => build(STRANGER),
+    allowed: others,
+  },
+];
+
+const byUser = (userId: string) => ({ userId });
+const byOwner = (ownerId: string) => ({ ownerId });
+const byInvestor = (investorId: string) => ({ investorId });
+
+const investment = (investorId: string, ownerId: string) => ({
+  investorId,
+  business: { ownerId },
+});
+
+const document = (
+  visibility: string,
+  ownerId: string,
+  hasInvested: boolean
+) => ({ visibility, business: { ownerId }, hasInvested });
+
+// Who may do what, written out by hand so a change to a rule has to be
+// reflected here as well
+const MATRIX: Record<Permission, Case[]> = {
+  "account:manage": roleOnly(EVERYONE),
+  "wallet:read": roleOnly(EVERYONE),
+  "message:read": roleOnly(EVERYONE),
+  "message:send": roleOnly(EVERYONE),
+  "user:search": roleOnly(EVERYONE),
+  "kyc:submit": roleOnly(EVERYONE),
+  "kyc:readDocument": owned(byUser, ["superAdmin", "compliance"]),
+
+  "admin:invite": roleOnly(["superAdmin"]),
+  "admin:manage": roleOnly(["superAdmin"]),
+  "user:list": roleOnly(["superAdmin", "support", "compliance"]),
+  "user:updateStatus": roleOnly(["superAdmin", "compliance"]),
+  "user:unlock": roleOnly(["superAdmin", "support"]),
+  "withdrawal:listAll": roleOnly(["superAdmin", "finance"]),
+  "withdrawal:review": roleOnly(["superAdmin", "finance"]),
+  "distribution:runDue": roleOnly(["superAdmin", "finance"]),
+  "kyc:review": roleOnly(["superAdmin", "compliance"]),
+  "audit:read": roleOnly(["superAdmin", "compliance"]),
+  "erasure:review": roleOnly(["superAdmin", "compliance"]),
+  "opportunity:vet": roleOnly(["superAdmin", "compliance"]),
+
+  "analytics:platform": roleOnly(ADMINS),
+  "analytics:business": roleOnly(["owner"]),
+  "analytics:portfolio": roleOnly(["investor"]),
+
+  "portfolio:export": owned(byUser, ADMINS),
+  "export:create": roleOnly(EVERYONE),
+
+  "opportunity:create": roleOnly(["owner"]),
+  "opportunity:listOwn": roleOnly(["owner", ...ADMINS]),
+  "opportunity:manage": owned(byOwner, NOBODY),
+  "opportunity:preview": owned(byOwner, ADMINS),
+  "document:download": [
+    {
+      label: "signed-in document",
+      resource: () => document("SIGNED_IN", STRANGER, false),
+      allowed: EVERYONE,
+    },
+    {
+      label: "investor document, having invested",
+      resource: () => document("INVESTORS", STRANGER, true),
+      allowed: EVERYONE,
+    },
+    {
+      label: "investor document of own opportunity",
+      resource: (actor) => document("INVESTORS", actor.id, false),
+      allowed: EVERYONE,
+    },
+    {
+      label: "investor document, not invested",
+      resource: () => document("INVESTORS", STRANGER, false),
+      allowed: ADMINS,
+    },
+  ],
+  "company:create": roleOnly(["owner"]),
+  "company:manage": owned(byOwner, NOBODY),
+  "distribution:manage": owned(byOwner, ["superAdmin", "finance"]),
+  "distribution:fund": owned(byOwner, NOBODY),
+
+  "investment:create": roleOnly(["investor"]),
+  "investment:listOwn": roleOnly(EVERYONE),
+  "investment:listForBusiness": roleOnly(["owner", ...ADMINS]),
+  "investment:read": [
+    {
+      label: "as the investor",
+      resource: (actor) => investment(actor.id, STRANGER),
+      allowed: EVERYONE,
+    },
+    {
+      label: "as the opportunity owner",
+      resource: (actor) => investment(STRANGER, actor.id),
+      allowed: EVERYONE,
+    },
+    {
+      label: "unrelated",
+      resource: () => investment(STRANGER, STRANGER),
+      allowed: ADMINS,
+    },
+  ],
+  "investment:updateStatus": [
+    {
+      label: "as the investor",
+      resource: (actor) => investment(actor.id, STRANGER),
+      allowed: ["superAdmin", "finance"],
+    },
+    {
+      label: "as the opportunity owner",
+      resource: (actor) => investment(STRANGER, actor.id),
+      allowed: EVERYONE,
+    },
+    {
+      label: "unrelated",
+      resource: () => investment(STRANGER, STRANGER),
+      allowed: ["superAdmin", "finance"],
+    },
+  ],
+  "investment:cancel": owned(byInvestor, NOBODY),
+
+  "payment:read": owned(byUser, ADMINS),
+  "payment:checkout": owned(byInvestor, NOBODY),
+  "payment:completeMock": owned(byUser, NOBODY),
+
+  "withdrawal:listOwn": roleOnly(EVERYONE),
+  "withdrawal:create": roleOnly(["investor"]),
+  "withdrawal:read": owned(byUser, ADMINS),
+  "withdrawal:cancel": owned(byUser, NOBODY),
+};
+
+// Handlers that take no session, or check access through a lib helper
+const PUBLIC_ROUTES = [
+  "POST /api/admin/create",
+  "GET /api/auth/accept-invitation",
+  "POST /api/auth/accept-invitation",
+  "POST /api/auth/register",
+  "POST /api/auth/request-reset",
+  "POST /api/auth/reset",
+  "POST /api/auth/verify-email",
+  "GET /api/company-profiles/[id]/team/[memberId]/photo",
+  "GET /api/opportunities",
+  "GET /api/opportunities/[id]",
+  "GET /api/opportunities/[id]/documents/[documentId]",
+  "GET /api/opportunities/[id]/documents/[documentId]/download",
+  "POST /api/payments/webhooks/[provider]",
+];
+
+const API_DIR = path.join(process.cwd(), "src/app/api");
+
+function findRouteFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(entryPath);
+    return entry.name === "route.ts" ? [entryPath] : [];
+  });
+}
+
+/**
+ * Every handler exported through apiRoute() or publicRoute(), with the
+ * permissions it declares or checks
+ */
+function findRoutes() {
+  return findRouteFiles(API_DIR).flatMap((file) => {
+    const source = readFileSync(file, "utf8");
+    const routePath = path
+      .relative(path.join(process.cwd(), "src/app"), path.dirname(file))
+      .split(path.sep)
+      .join("/");
+    const handlers = [
+      ...source.matchAll(
+        /^export const (GET|POST|PUT|PATCH|DELETE) = (apiRoute|publicRoute)/gm
+      ),
+    ];
+
+    // Helpers above the handlers, such as a shared record loader, apply to
+    // each of them
+    const shared = source.slice(0, handlers[0]?.index);
+
+    return handlers.map((handler, i) => {
+      const body = shared + source.slice(handler.index, handlers[i + 1]?.index);
+      const permissions = [
+        ...body.matchAll(/permission:\s*"([\w:]+)"/g),
+        ...body.matchAll(/(?:authorize|can)\(\s*\w+,\s*"([\w:]+)"/g),
+      ].map((match) => match[1] as Permission);
+
+      return {
+        name: `${handler[1]} /${routePath}`,
+        isPublic: handler[2] === "publicRoute",
+        permissions,
+      };
+    });
+  });
+}
+
+function check(role: Role, permission: Permission, testCase: Case) {
+  const actor = ACTORS[role];
+  const args = testCase.resource ? [testCase.resource(actor)] : [];
+  const allowed = testCase.allowed.includes(role);
+  const label = `${role} ${permission} ${testCase.label}`.trim();
+
+  const canDo = can as (
+    actor: Actor,
+    permission: Permission,
+    ...args: unknown[]
+  ) => boolean;
+  const authorizeTo = authorize as (
+    actor: Actor,
+    permission: Permission,
+    ...args: unknown[]
+  ) => void;
+
+  expect(canDo(actor, permission, ...args), label).toBe(allowed);
+  if (allowed) {
+    expect(() => authorizeTo(actor, permission, ...args), label).not.toThrow();
+  } else {
+    expect(() => authorizeTo(actor, permission, ...args), label).toThrow(
+      AuthorizationError
+    );
+  }
+}
+
+describe("access policy", () => {
+  it("has an expectation for every permission", () => {
+    expect(Object.keys(MATRIX).sort()).toEqual(Object.keys(POLICY).sort());
+  });
+
+  describe.each(Object.keys(MATRIX) as Permission[])("%s", (permission) => {
+    it.each(ROLES)("allows or refuses %s", (role) => {
+      for (const testCase of MATRIX[permission]) {
+        check(role, permission, testCase);
+      }
+    });
+  });
+});
+
+describe("API routes", () => {
+  const routes = findRoutes();
+
+  it("finds the route handlers", () => {
+    expect(routes.length).toBeGreaterThan(50);
+  });
+
+  it("lists every public handler", () => {
+    const publicRoutes = routes
+      .filter((route) => route.isPublic)
+      .map((route) => route.name);
+    expect(publicRoutes.sort()).toEqual([...PUBLIC_ROUTES].sort());
+  });
+
+  describe.each(routes.filter((route) => !route.isPublic))(
+    "$name",
+    ({ permissions }) => {
+      it("checks a permission", () => {
+        expect(permissions.length).toBeGreaterThan(0);
+      });
+
+      it.each(ROLES)("allows or refuses %s", (role) => {
+        for (const permission of permissions) {
+          for (const testCase of MATRIX[permission]) {
+            check(role, permission, testCase);
+          }
+        }
+      });
+    }
+  );
+});
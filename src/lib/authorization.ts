@@ -0,0 +1,243 @@
+// Access policy for the API: one rule per action, answering whether an
+// actor may perform it, optionally against a specific record. Role-only
+// rules are checked by apiRoute() before the handler runs; rules that need
+// a record are checked with authorize() once the handler has loaded it.
+
+import { AppError } from "@/lib/errors";
+
+export interface Actor {
+  id: string;
+  // Withheld while an administrator still has to enroll in 2FA
+  role?: string;
+  // Scope of an administrator: SUPER_ADMIN, SUPPORT, COMPLIANCE or FINANCE
+  adminRole?: string | null;
+}
+
+interface PolicyRule<R> {
+  description: string;
+  allow: (actor: Actor, resource: R) => boolean;
+}
+
+export class AuthorizationError extends AppError {
+  constructor(message: string, status: number = 403) {
+    super(message, status);
+    this.name = "AuthorizationError";
+  }
+}
+
+function rule<R = void>(
+  description: string,
+  allow: (actor: Actor, resource: R) => boolean
+): PolicyRule<R> {
+  return { description, allow };
+}
+
+const isAdmin = (actor: Actor) => actor.role === "ADMINISTRATOR";
+// Administrators whose scope covers the action; super-admins cover them all
+const isAdminWith =
+  (...scopes: string[]) =>
+  (actor: Actor) =>
+    isAdmin(actor) &&
+    (actor.adminRole === "SUPER_ADMIN" ||
+      (!!actor.adminRole && scopes.includes(actor.adminRole)));
+const isSuperAdmin = isAdminWith();
+const isSupport = isAdminWith("SUPPORT");
+const isCompliance = isAdminWith("COMPLIANCE");
+const isFinance = isAdminWith("FINANCE");
+const isInvestor = (actor: Actor) => actor.role === "INVESTOR";
+const isBusinessOwner = (actor: Actor) => actor.role === "BUSINESS_OWNER";
+const isSignedIn = () => true;
+
+interface OwnedByUser {
+  userId: string;
+}
+
+interface InvestmentParties {
+  investorId: string;
+  business: { ownerId: string };
+}
+
+interface OwnedBusiness {
+  ownerId: string;
+}
+
+interface DataRoomDocument {
+  visibility: string;
+  business: { ownerId: string };
+  // Whether the actor has a pending, active or completed investment in it
+  hasInvested: boolean;
+}
+
+export const POLICY = {
+  // Own account: security, sign-in history, wallet, messages, verification
+  "account:manage": rule("manage this account", isSignedIn),
+  "wallet:read": rule("view this wallet", isSignedIn),
+  "message:read": rule("read messages", isSignedIn),
+  "message:send": rule("send messages", isSignedIn),
+  "user:search": rule("search users", isSignedIn),
+  "kyc:submit": rule("submit identity verification", isSignedIn),
+  "kyc:readDocument": rule<OwnedByUser>(
+    "view this identity document",
+    (actor, document) => document.userId === actor.id || isCompliance(actor)
+  ),
+
+  // Administration, by admin scope. Read-only access to records further
+  // down is open to every administrator.
+  "admin:invite": rule("invite administrators", isSuperAdmin),
+  "admin:manage": rule("manage administrators", isSuperAdmin),
+  "user:list": rule(
+    "list users",
+    (actor) => isSupport(actor) || isCompliance(actor)
+  ),
+  "user:updateStatus": rule("change account status", isCompliance),
+  "user:unlock": rule("unlock accounts", isSupport),
+  "withdrawal:listAll": rule("view the withdrawal queue", isFinance),
+  "withdrawal:review": rule("review withdrawals", isFinance),
+  "distribution:runDue": rule("run scheduled distributions", isFinance),
+  "kyc:review": rule("review identity verifications", isCompliance),
+  "audit:read": rule("view the audit log", isCompliance),
+  "erasure:review": rule("review account erasure requests", isCompliance),
+  "opportunity:vet": rule("vet opportunities", isCompliance),
+
+  // Analytics
+  "analytics:platform": rule("view platform analytics", isAdmin),
+  "analytics:business": rule("view business analytics", isBusinessOwner),
+  "analytics:portfolio": rule("view portfolio analytics", isInvestor),
+
+  // Portfolio export: your own, or anyone's for administrators
+  "portfolio:export": rule<OwnedByUser>(
+    "export this portfolio",
+    (actor, target) => target.userId === actor.id || isAdmin(actor)
+  ),
+  "export:create": rule("export reports", isSignedIn),
+
+  // Opportunities
+  "opportunity:create": rule("create opportunities", isBusinessOwner),
+  "opportunity:listOwn": rule(
+    "view business opportunities",
+    (actor) => isBusinessOwner(actor) || isAdmin(actor)
+  ),
+  "opportunity:manage": rule<OwnedBusiness>(
+    "manage this opportunity",
+    (actor, business) => business.ownerId === actor.id
+  ),
+  // Drafts and opportunities in vetting aren't public
+  "opportunity:preview": rule<OwnedBusiness>(
+    "view this unpublished opportunity",
+    (actor, business) => business.ownerId === actor.id || isAdmin(actor)
+  ),
+  // Data room documents for signed-in users; anyone can download PUBLIC ones
+  "document:download": rule<DataRoomDocument>(
+    "download this document",
+    (actor, document) =>
+      document.visibility !== "INVESTORS" ||
+      document.hasInvested ||
+      document.business.ownerId === actor.id ||
+      isAdmin(actor)
+  ),
+  // Company profiles can be shared by several of an owner's opportunities
+  "company:create": rule("create company profiles", isBusinessOwner),
+  "company:manage": rule<OwnedBusiness>(
+    "manage this company profile",
+    (actor, profile) => profile.ownerId === actor.id
+  ),
+  "distribution:manage": rule<OwnedBusiness>(
+    "manage distributions for this opportunity",
+    (actor, business) => business.ownerId === actor.id || isFinance(actor)
+  ),
+  "distribution:fund": rule<OwnedBusiness>(
+    "pay into this opportunity's distribution fund",
+    (actor, business) => business.ownerId === actor.id
+  ),
+
+  // Investments
+  "investment:create": rule("make investments", isInvestor),
+  "investment:listOwn": rule("view investments", isSignedIn),
+  "investment:listForBusiness": rule(
+    "view investments in business opportunities",
+    (actor) => isBusinessOwner(actor) || isAdmin(actor)
+  ),
+  "investment:read": rule<InvestmentParties>(
+    "view this investment",
+    (actor, investment) =>
+      investment.investorId === actor.id ||
+      investment.business.ownerId === actor.id ||
+      isAdmin(actor)
+  ),
+  "investment:updateStatus": rule<InvestmentParties>(
+    "update this investment",
+    (actor, investment) =>
+      investment.business.ownerId === actor.id || isFinance(actor)
+  ),
+  "investment:cancel": rule<{ investorId: string }>(
+    "cancel this investment",
+    (actor, investment) => investment.investorId === actor.id
+  ),
+
+  // Payments
+  "payment:read": rule<OwnedByUser>(
+    "view this payment",
+    (actor, payment) => payment.userId === actor.id || isAdmin(actor)
+  ),
+  "payment:checkout": rule<{ investorId: string }>(
+    "pay for this investment",
+    (actor, investment) => investment.investorId === actor.id
+  ),
+  "payment:completeMock": rule<OwnedByUser>(
+    "complete this payment",
+    (actor, payment) => payment.userId === actor.id
+  ),
+
+  // Withdrawals
+  "withdrawal:listOwn": rule("view withdrawals", isSignedIn),
+  "withdrawal:create": rule("request withdrawals", isInvestor),
+  "withdrawal:read": rule<OwnedByUser>(
+    "view this withdrawal request",
+    (actor, withdrawal) => withdrawal.userId === actor.id || isAdmin(actor)
+  ),
+  "withdrawal:cancel": rule<OwnedByUser>(
+    "cancel this withdrawal request",
+    (actor, withdrawal) => withdrawal.userId === actor.id
+  ),
+};
+
+export type Permission = keyof typeof POLICY;
+
+type ResourceOf<P extends Permission> = (typeof POLICY)[P] extends PolicyRule<
+  infer R
+>
+  ? R
+  : never;
+
+// Permissions decided by the actor alone, which routes can declare up front
+export type RolePermission = {
+  [P in Permission]: ResourceOf<P> extends void ? P : never;
+}[Permission];
+
+type ResourceArgs<P extends Permission> = ResourceOf<P> extends void
+  ? []
+  : [resource: ResourceOf<P>];
+
+export function can<P extends Permission>(
+  actor: Actor,
+  permission: P,
+  ...[resource]: ResourceArgs<P>
+): boolean {
+  const policyRule = POLICY[permission] as PolicyRule<unknown>;
+  return policyRule.allow(actor, resource);
+}
+
+/**
+ * Throw an AuthorizationError unless the actor may perform the action
+ */
+export function authorize<P extends Permission>(
+  actor: Actor,
+  permission: P,
+  ...args: ResourceArgs<P>
+): void {
+  if (!can(actor, permission, ...args)) {
+    throw new AuthorizationError(
+      `Not authorized to ${POLICY[permission].description}`
+    );
+  }
+}
@@ -0,0 +1,396 @@
+// Offline list of the most common and most frequently breached passwords,
+// compiled from public breach corpora. Checked case-insensitively by the
+// password policy; kept small so it can ship to the browser.
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "123456",
+  "password",
+  "12345678",
+  "qwerty",
+  "123456789",
+  "12345",
+  "1234",
+  "111111",
+  "1234567",
+  "dragon",
+  "123123",
+  "baseball",
+  "abc123",
+  "football",
+  "monkey",
+  "letmein",
+  "696969",
+  "shadow",
+  "master",
+  "666666",
+  "qwertyuiop",
+  "123321",
+  "mustang",
+  "1234567890",
+  "michael",
+  "654321",
+  "superman",
+  "1qaz2wsx",
+  "7777777",
+  "121212",
+  "000000",
+  "qazwsx",
+  "123qwe",
+  "killer",
+  "trustno1",
+  "jordan",
+  "jennifer",
+  "zxcvbnm",
+  "asdfgh",
+  "hunter",
+  "buster",
+  "soccer",
+  "harley",
+  "batman",
+  "andrew",
+  "tigger",
+  "sunshine",
+  "iloveyou",
+  "2000",
+  "charlie",
+  "robert",
+  "thomas",
+  "hockey",
+  "ranger",
+  "daniel",
+  "starwars",
+  "klaster",
+  "112233",
+  "george",
+  "computer",
+  "michelle",
+  "jessica",
+  "pepper",
+  "1111",
+  "zxcvbn",
+  "555555",
+  "11111111",
+  "131313",
+  "freedom",
+  "777777",
+  "pass",
+  "maggie",
+  "159753",
+  "aaaaaa",
+  "ginger",
+  "princess",
+  "joshua",
+  "cheese",
+  "amanda",
+  "summer",
+  "love",
+  "ashley",
+  "nicole",
+  "chelsea",
+  "biteme",
+  "matthew",
+  "access",
+  "yankees",
+  "987654321",
+  "dallas",
+  "austin",
+  "thunder",
+  "taylor",
+  "matrix",
+  "minecraft",
+  "william",
+  "corvette",
+  "hello",
+  "martin",
+  "heather",
+  "secret",
+  "merlin",
+  "diamond",
+  "1234qwer",
+  "gfhjkm",
+  "hammer",
+  "silver",
+  "222222",
+  "88888888",
+  "anthony",
+  "justin",
+  "test",
+  "bailey",
+  "q1w2e3r4t5",
+  "patrick",
+  "internet",
+  "scooter",
+  "orange",
+  "11111",
+  "golfer",
+  "cookie",
+  "richard",
+  "samantha",
+  "bigdog",
+  "guitar",
+  "jackson",
+  "whatever",
+  "mickey",
+  "chicken",
+  "sparky",
+  "snoopy",
+  "maverick",
+  "phoenix",
+  "camaro",
+  "peanut",
+  "morgan",
+  "welcome",
+  "falcon",
+  "cowboy",
+  "ferrari",
+  "samsung",
+  "andrea",
+  "smokey",
+  "steelers",
+  "joseph",
+  "mercedes",
+  "dakota",
+  "arsenal",
+  "eagles",
+  "melissa",
+  "boomer",
+  "booboo",
+  "spider",
+  "nascar",
+  "monster",
+  "tigers",
+  "yellow",
+  "xxxxxx",
+  "123123123",
+  "gateway",
+  "marina",
+  "diablo",
+  "bulldog",
+  "qwer1234",
+  "compaq",
+  "purple",
+  "hardcore",
+  "banana",
+  "junior",
+  "hannah",
+  "123654",
+  "porsche",
+  "lakers",
+  "iceman",
+  "money",
+  "cowboys",
+  "987654",
+  "london",
+  "tennis",
+  "999999",
+  "ncc1701",
+  "coffee",
+  "scooby",
+  "0000",
+  "miller",
+  "boston",
+  "q1w2e3r4",
+  "brandon",
+  "yamaha",
+  "chester",
+  "mother",
+  "forever",
+  "johnny",
+  "edward",
+  "333333",
+  "oliver",
+  "redsox",
+  "player",
+  "nikita",
+  "knight",
+  "fender",
+  "barney",
+  "midnight",
+  "please",
+  "brandy",
+  "chicago",
+  "badboy",
+  "slayer",
+  "rangers",
+  "charles",
+  "angel",
+  "flower",
+  "bigdaddy",
+  "rabbit",
+  "wizard",
+  "jasper",
+  "enter",
+  "rachel",
+  "chris",
+  "steven",
+  "winner",
+  "adidas",
+  "victoria",
+  "natasha",
+  "1q2w3e4r",
+  "jasmine",
+  "winter",
+  "prince",
+  "panties",
+  "marine",
+  "ghbdtn",
+  "fishing",
+  "cocacola",
+  "casper",
+  "james",
+  "232323",
+  "raiders",
+  "888888",
+  "marlboro",
+  "gandalf",
+  "asdfasdf",
+  "crystal",
+  "87654321",
+  "12344321",
+  "golden",
+  "8675309",
+  "disney",
+  "zxcvbnm1",
+  "qwe123",
+  "password1",
+  "password12",
+  "password123",
+  "password1234",
+  "passw0rd",
+  "p@ssw0rd",
+  "p@ssword",
+  "pa55word",
+  "admin",
+  "admin123",
+  "administrator",
+  "root",
+  "toor",
+  "changeme",
+  "default",
+  "guest",
+  "welcome1",
+  "welcome123",
+  "letmein1",
+  "iloveyou1",
+  "abc12345",
+  "abcd1234",
+  "qwerty1",
+  "qwerty12",
+  "qwerty123",
+  "qwertyui",
+  "1q2w3e",
+  "1q2w3e4r5t",
+  "zaq12wsx",
+  "123abc",
+  "a1b2c3",
+  "aa123456",
+  "naija",
+  "nigeria",
+  "lagos",
+  "abuja",
+  "naijaconnect",
+  "naijaconnectcapital",
+  "jesus",
+  "god",
+  "blessing",
+  "favour",
+  "godislove",
+  "jesus123",
+  "christ",
+  "loveme",
+  "lovely",
+  "babygirl",
+  "football1",
+  "sunshine1",
+  "princess1",
+  "monkey1",
+  "dragon1",
+  "shadow1",
+  "master1",
+  "superman1",
+  "batman1",
+  "baseball1",
+  "michael1",
+  "jordan23",
+  "liverpool",
+  "manutd",
+  "chelsea1",
+  "arsenal1",
+  "barcelona",
+  "realmadrid",
+  "ronaldo",
+  "messi",
+  "cristiano",
+  "test123",
+  "testing",
+  "temp",
+  "temp123",
+  "secret123",
+  "letmein123",
+  "master123",
+  "hello123",
+  "computer1",
+  "internet1",
+  "samsung1",
+  "iphone",
+  "google",
+  "facebook",
+  "instagram",
+  "twitter",
+  "linkedin",
+  "youtube",
+  "spotify",
+  "netflix",
+  "amazon",
+  "starwars1",
+  "pokemon",
+  "pikachu",
+  "naruto",
+  "hellokitty",
+  "unicorn",
+  "rainbow",
+  "butterfly",
+  "zxcvbnm123",
+  "asdf1234",
+  "asdfghjkl",
+  "1qazxsw2",
+  "qazwsxedc",
+  "zaqxswcde",
+  "147258369",
+  "159357",
+  "741852963",
+  "1122334455",
+  "121212121",
+  "12341234",
+  "123412341234",
+  "11223344",
+  "123456a",
+  "123456q",
+  "a123456",
+  "q123456",
+  "123456abc",
+  "654321a",
+  "password!",
+  "password@",
+  "welcome!",
+  "summer2024",
+  "winter2024",
+  "spring2024",
+  "autumn2024",
+  "summer2025",
+  "winter2025",
+  "spring2025",
+  "autumn2025",
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+]);
@@ -0,0 +1,456 @@
+// Company profiles (FR-2.2): the registered company behind an owner's
+// opportunities and its management team. One profile can be linked to any
+// number of the owner's opportunities and is shown on each of their detail
+// pages.
+
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { generateStorageKey, getStorage } from "@/lib/storage";
+
+export const MAX_PHOTO_SIZE = 2 * 1024 * 1024;
+export const ALLOWED_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const NIGERIAN_STATES = [
+  "Abia",
+  "Adamawa",
+  "Akwa Ibom",
+  "Anambra",
+  "Bauchi",
+  "Bayelsa",
+  "Benue",
+  "Borno",
+  "Cross River",
+  "Delta",
+  "Ebonyi",
+  "Edo",
+  "Ekiti",
+  "Enugu",
+  "FCT",
+  "Gombe",
+  "Imo",
+  "Jigawa",
+  "Kaduna",
+  "Kano",
+  "Katsina",
+  "Kebbi",
+  "Kogi",
+  "Kwara",
+  "Lagos",
+  "Nasarawa",
+  "Niger",
+  "Ogun",
+  "Ondo",
+  "Osun",
+  "Oyo",
+  "Plateau",
+  "Rivers",
+  "Sokoto",
+  "Taraba",
+  "Yobe",
+  "Zamfara",
+] as const;
+
+const webAddressSchema = z.url({
+  protocol: /^https?$/,
+  error: "Enter a full web address starting with https://",
+});
+
+/**
+ * CAC registration number: RC for companies, BN for business names and IT
+ * for incorporated trustees. Spaces are dropped and a bare number is taken
+ * to be an RC number.
+ */
+export const rcNumberSchema = z
+  .string()
+  .transform((value) => value.replace(/[\s-]/g, "").toUpperCase())
+  .transform((value) => (/^\d+$/.test(value) ? `RC${value}` : value))
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^(RC|BN|IT)\d{1,8}$/,
+        "Enter the CAC registration number, e.g. RC1234567"
+      )
+  );
+
+// Fields an owner fills in for a company; send null to clear an optional one
+export const companyProfileSchema = z.object({
+  registeredName: z
+    .string()
+    .trim()
+    .min(2, "Registered name is required")
+    .max(200, "Registered name is too long"),
+  rcNumber: rcNumberSchema,
+  yearFounded: z
+    .number()
+    .int()
+    .min(1900, "Year founded must be 1900 or later")
+    .max(new Date().getFullYear(), "Year founded can't be in the future"),
+  state: z.enum(NIGERIAN_STATES, "Choose the state of the head office"),
+  city: z.string().trim().max(100).nullable().optional(),
+  website: webAddressSchema.nullable().optional(),
+  linkedinUrl: webAddressSchema.nullable().optional(),
+  twitterUrl: webAddressSchema.nullable().optional(),
+  facebookUrl: webAddressSchema.nullable().optional(),
+  instagramUrl: webAddressSchema.nullable().optional(),
+});
+
+export type CompanyProfileInput = z.infer<typeof companyProfileSchema>;
+
+export const teamMemberSchema = z.object({
+  name: z.string().trim().min(2, "Name is required").max(100),
+  role: z.string().trim().min(2, "Role is required").max(100),
+  bio: z.string().trim().max(1000, "Bio is too long").nullable().optional(),
+  linkedinUrl: webAddressSchema.nullable().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+export type TeamMemberInput = z.infer<typeof teamMemberSchema>;
+
+export interface PhotoUpload {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export class CompanyProfileError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "CompanyProfileError";
+  }
+}
+
+// Storage keys stay inside this module; photos are served by URL
+const teamMemberSelect = {
+  id: true,
+  name: true,
+  role: true,
+  bio: true,
+  linkedinUrl: true,
+  photoKey: true,
+  position: true,
+  companyProfileId: true,
+  updatedAt: true,
+} satisfies Prisma.TeamMemberSelect;
+
+export const companyProfileSelect = {
+  id: true,
+  ownerId: true,
+  registeredName: true,
+  rcNumber: true,
+  yearFounded: true,
+  state: true,
+  city: true,
+  website: true,
+  linkedinUrl: true,
+  twitterUrl: true,
+  facebookUrl: true,
+  instagramUrl: true,
+  teamMembers: {
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: teamMemberSelect,
+  },
+} satisfies Prisma.CompanyProfileSelect;
+
+type TeamMemberRecord = Prisma.TeamMemberGetPayload<{
+  select: typeof teamMemberSelect;
+}>;
+
+type CompanyProfileRecord = Prisma.CompanyProfileGetPayload<{
+  select: typeof companyProfileSelect;
+}>;
+
+export type CompanyProfile = ReturnType<typeof presentCompanyProfile>;
+
+function presentTeamMember(member: TeamMemberRecord) {
+  const { photoKey, companyProfileId, updatedAt, ...details } = member;
+
+  return {
+    ...details,
+    // Versioned so a replaced photo isn't served from a cache
+    photoUrl: photoKey
+      ? `/api/company-profiles/${companyProfileId}/team/${
+          member.id
+        }/photo?v=${updatedAt.getTime()}`
+      : null,
+  };
+}
+
+/**
+ * Profile with its team as shown to investors, photos replaced by URLs
+ */
+export function presentCompanyProfile(profile: CompanyProfileRecord) {
+  return {
+    ...profile,
+    teamMembers: profile.teamMembers.map(presentTeamMember),
+  };
+}
+
+/**
+ * The owner's profiles with their team and how many opportunities use each
+ */
+export async function listCompanyProfiles(ownerId: string) {
+  const profiles = await prisma.companyProfile.findMany({
+    where: { ownerId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      ...companyProfileSelect,
+      _count: { select: { businesses: true } },
+    },
+  });
+
+  return profiles.map(({ _count, ...profile }) => ({
+    ...presentCompanyProfile(profile),
+    opportunityCount: _count.businesses,
+  }));
+}
+
+export async function getCompanyProfile(profileId: string) {
+  const profile = await prisma.companyProfile.findUnique({
+    where: { id: profileId },
+    select: companyProfileSelect,
+  });
+
+  if (!profile) {
+    throw new CompanyProfileError("Company profile not found", 404);
+  }
+
+  return presentCompanyProfile(profile);
+}
+
+export async function createCompanyProfile(
+  ownerId: string,
+  input: CompanyProfileInput
+) {
+  const profile = await prisma.companyProfile.create({
+    data: { ...input, ownerId },
+    select: companyProfileSelect,
+  });
+
+  return presentCompanyProfile(profile);
+}
+
+/**
+ * Changes show on every opportunity linked to the profile
+ */
+export async function updateCompanyProfile(
+  profileId: string,
+  changes: Partial<CompanyProfileInput>
+) {
+  const profile = await prisma.companyProfile.update({
+    where: { id: profileId },
+    data: changes,
+    select: companyProfileSelect,
+  });
+
+  return presentCompanyProfile(profile);
+}
+
+/**
+ * Delete a profile no opportunity uses any more, with its team's photos
+ */
+export async function deleteCompanyProfile(profileId: string) {
+  const linked = await prisma.business.count({
+    where: { companyProfileId: profileId },
+  });
+
+  if (linked > 0) {
+    throw new CompanyProfileError(
+      "This company profile is used by an opportunity and can't be deleted",
+      409
+    );
+  }
+
+  const members = await prisma.teamMember.findMany({
+    where: { companyProfileId: profileId, photoKey: { not: null } },
+    select: { photoKey: true },
+  });
+
+  await prisma.companyProfile.delete({ where: { id: profileId } });
+
+  await deletePhotos(members.map((member) => member.photoKey!));
+}
+
+/**
+ * Refuse to link an opportunity to another owner's company
+ */
+export async function assertOwnCompanyProfile(
+  ownerId: string,
+  profileId: string
+) {
+  const profile = await prisma.companyProfile.findUnique({
+    where: { id: profileId },
+    select: { ownerId: true },
+  });
+
+  if (!profile || profile.ownerId !== ownerId) {
+    throw new CompanyProfileError("Company profile not found", 404);
+  }
+}
+
+/**
+ * A team member with the owner of their company, for authorization
+ */
+export async function getTeamMember(profileId: string, memberId: string) {
+  const member = await prisma.teamMember.findFirst({
+    where: { id: memberId, companyProfileId: profileId },
+    select: {
+      ...teamMemberSelect,
+      companyProfile: { select: { ownerId: true } },
+    },
+  });
+
+  if (!member) {
+    throw new CompanyProfileError("Team member not found", 404);
+  }
+
+  return member;
+}
+
+/**
+ * Add a member at the end of the team unless a position is given
+ */
+export async function addTeamMember(profileId: string, input: TeamMemberInput) {
+  let position = input.position;
+  if (position === undefined) {
+    const last = await prisma.teamMember.aggregate({
+      where: { companyProfileId: profileId },
+      _max: { position: true },
+    });
+    position = (last._max.position ?? -1) + 1;
+  }
+
+  const member = await prisma.teamMember.create({
+    data: { ...input, position, companyProfileId: profileId },
+    select: teamMemberSelect,
+  });
+
+  return presentTeamMember(member);
+}
+
+export async function updateTeamMember(
+  memberId: string,
+  changes: Partial<TeamMemberInput>
+) {
+  const member = await prisma.teamMember.update({
+    where: { id: memberId },
+    data: changes,
+    select: teamMemberSelect,
+  });
+
+  return presentTeamMember(member);
+}
+
+export async function removeTeamMember(memberId: string) {
+  const member = await prisma.teamMember.delete({
+    where: { id: memberId },
+    select: { photoKey: true },
+  });
+
+  if (member.photoKey) {
+    await deletePhotos([member.photoKey]);
+  }
+}
+
+/**
+ * Store a new photo for the member and remove the one it replaces
+ */
+export async function setTeamMemberPhoto(
+  memberId: string,
+  upload: PhotoUpload
+) {
+  if (!ALLOWED_PHOTO_TYPES.includes(upload.contentType)) {
+    throw new CompanyProfileError("Photos must be JPEG, PNG or WebP images");
+  }
+  if (upload.body.length === 0) {
+    throw new CompanyProfileError("The photo is empty");
+  }
+  if (upload.body.length > MAX_PHOTO_SIZE) {
+    throw new CompanyProfileError(
+      `Photos must be ${MAX_PHOTO_SIZE / (1024 * 1024)} MB or smaller`
+    );
+  }
+
+  const current = await prisma.teamMember.findUniqueOrThrow({
+    where: { id: memberId },
+    select: { photoKey: true, companyProfileId: true },
+  });
+
+  const storage = getStorage();
+  const photoKey = generateStorageKey(
+    `team/${current.companyProfileId}`,
+    upload.fileName
+  );
+  await storage.put(photoKey, upload.body, upload.contentType);
+
+  let member: TeamMemberRecord;
+  try {
+    member = await prisma.teamMember.update({
+      where: { id: memberId },
+      data: { photoKey },
+      select: teamMemberSelect,
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind when the member isn't updated
+    await storage.delete(photoKey);
+    throw error;
+  }
+
+  if (current.photoKey) {
+    await deletePhotos([current.photoKey]);
+  }
+
+  return presentTeamMember(member);
+}
+
+export async function removeTeamMemberPhoto(memberId: string) {
+  const current = await prisma.teamMember.findUniqueOrThrow({
+    where: { id: memberId },
+    select: { photoKey: true },
+  });
+
+  const member = await prisma.teamMember.update({
+    where: { id: memberId },
+    data: { photoKey: null },
+    select: teamMemberSelect,
+  });
+
+  if (current.photoKey) {
+    await deletePhotos([current.photoKey]);
+  }
+
+  return presentTeamMember(member);
+}
+
+/**
+ * The member's photo from storage, for the public photo URL
+ */
+export async function readTeamMemberPhoto(profileId: string, memberId: string) {
+  const member = await getTeamMember(profileId, memberId);
+  const stored = member.photoKey
+    ? await getStorage().get(member.photoKey)
+    : null;
+
+  if (!stored) {
+    throw new CompanyProfileError("Photo not found", 404);
+  }
+
+  return stored;
+}
+
+// The database change has already happened, so a file that can't be removed
+// is only logged
+async function deletePhotos(keys: string[]) {
+  const storage = getStorage();
+  await Promise.all(
+    keys.map((key) =>
+      storage
+        .delete(key)
+        .catch((error) =>
+          console.error(`Failed to delete team photo ${key}:`, error)
+        )
+    )
+  );
+}
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+  getAccountBalance,
+  getDistributionFund,
+  getWalletSummary,
+  recordDistributionFunding,
+} from "@/lib/ledger";
+import {
+  allocateProRata,
+  createDistributionSchedule,
+  declareDistribution,
+  runDueDistributions,
+} from "@/lib/distributions";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+describe("allocateProRata", () => {
+  it("splits the whole amount in proportion to each investment", () => {
+    const shares = allocateProRata(
+      [
+        { id: "a", amount: 100 },
+        { id: "b", amount: 100 },
+        { id: "c", amount: 100 },
+      ],
+      1000
+    );
+
+    expect([...shares.values()].reduce((sum, kobo) => sum + kobo, 0)).toBe(
+      1000
+    );
+    for (const kobo of shares.values()) {
+      expect([333, 334]).toContain(kobo);
+    }
+  });
+});
+
+describe("distributions", () => {
+  let business: Awaited<ReturnType<typeof createOpportunity>>;
+  let investorIds: string[];
+
+  beforeEach(async () => {
+    business = await createOpportunity({ status: "FULLY_FUNDED" });
+    investorIds = [];
+    for (const amount of [300_000, 100_000]) {
+      const investor = await createUser();
+      investorIds.push(investor.id);
+      await prisma.investment.create({
+        data: {
+          amount,
+          status: "ACTIVE",
+          investorId: investor.id,
+          businessId: business.id,
+        },
+      });
+    }
+  });
+
+  function fund(naira: number) {
+    return recordDistributionFunding(prisma, {
+      business,
+      amount: naira * 100,
+      reference: `fund:${business.id}:${naira}`,
+      description: "Fund",
+    });
+  }
+
+  async function fundBalance() {
+    const account = await getDistributionFund(prisma, business);
+    return getAccountBalance(prisma, account.id);
+  }
+
+  async function returnsOf(userId: string) {
+    return (await getWalletSummary(userId, prisma)).totalReturns;
+  }
+
+  it("pays investors pro-rata out of the distribution fund", async () => {
+    await fund(50_000);
+
+    const distribution = await declareDistribution({
+      businessId: business.id,
+      totalAmount: 40_000,
+    });
+
+    expect(distribution).toMatchObject({
+      totalAmount: 40_000,
+      investorCount: 2,
+    });
+    expect(await returnsOf(investorIds[0])).toBe(30_000 * 100);
+    expect(await returnsOf(investorIds[1])).toBe(10_000 * 100);
+    expect(await fundBalance()).toBe(10_000 * 100);
+  });
+
+  it("refuses a distribution the fund can't cover", async () => {
+    await fund(10_000);
+
+    await expect(
+      declareDistribution({ businessId: business.id, yieldPercent: 5 })
+    ).rejects.toMatchObject({ status: 409 });
+
+    expect(await returnsOf(investorIds[0])).toBe(0);
+    expect(await fundBalance()).toBe(10_000 * 100);
+    expect(
+      await prisma.distribution.count({ where: { businessId: business.id } })
+    ).toBe(0);
+  });
+
+  it("keeps an underfunded scheduled period due until the fund is topped up", async () => {
+    const startsAt = new Date("2025-01-01T00:00:00Z");
+    const schedule = await createDistributionSchedule({
+      businessId: business.id,
+      frequency: "MONTHLY",
+      yieldPercent: 5,
+      startsAt,
+    });
+    const now = new Date("2025-02-15T00:00:00Z");
+
+    const [skipped] = (await runDueDistributions(now)).filter(
+      (result) => result.scheduleId === schedule.id
+    );
+    expect(skipped.skipped).toContain("doesn't cover");
+    expect(
+      await prisma.distributionSchedule.findUniqueOrThrow({
+        where: { id: schedule.id },
+      })
+    ).toMatchObject({ nextRunAt: schedule.nextRunAt });
+
+    // 5% of ₦400,000 invested
+    await fund(20_000);
+    const [paid] = (await runDueDistributions(now)).filter(
+      (result) => result.scheduleId === schedule.id
+    );
+    expect(paid.distributionId).toBeDefined();
+    expect(await fundBalance()).toBe(0);
+
+    // Running again pays nothing twice
+    expect(
+      (await runDueDistributions(now)).filter(
+        (result) => result.scheduleId === schedule.id
+      )
+    ).toEqual([]);
+    expect(await returnsOf(investorIds[0])).toBe(15_000 * 100);
+  });
+});
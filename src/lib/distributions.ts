@@ -0,0 +1,372 @@
+// Return distributions: split a payout across an opportunity's active
+// investments, credit each investor through the ledger and run recurring
+// schedules derived from the opportunity's expected ROI and timeline.
+// Payouts are drawn from the opportunity's distribution fund, which its owner
+// pays into through the payment gateway.
+
+import { addMonths } from "date-fns";
+import { Business, DistributionFrequency, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  fromKobo,
+  getAccountBalance,
+  getDistributionFund,
+  recordReturn,
+  toKobo,
+} from "@/lib/ledger";
+import { AppError } from "@/lib/errors";
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Largest single payout, in naira
+export const MAX_DISTRIBUTION_AMOUNT = 1_000_000_000;
+// Largest yield on invested capital a single payout or period can pay
+export const MAX_YIELD_PERCENT = 50;
+
+export class DistributionError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "DistributionError";
+  }
+}
+
+export interface DistributionInput {
+  businessId: string;
+  actorId?: string;
+  // Exactly one of totalAmount (naira) or yieldPercent must be given
+  totalAmount?: number;
+  yieldPercent?: number;
+  description?: string;
+}
+
+/**
+ * Number of months covered by one period of a schedule
+ */
+export function getPeriodMonths(
+  frequency: DistributionFrequency,
+  timeline: number
+): number {
+  switch (frequency) {
+    case "MONTHLY":
+      return 1;
+    case "QUARTERLY":
+      return 3;
+    case "AT_MATURITY":
+      return timeline;
+  }
+}
+
+/**
+ * Yield paid per period so that the schedule delivers the opportunity's
+ * annual expected ROI
+ */
+export function getPeriodYield(
+  business: Pick<Business, "expectedROI" | "timeline">,
+  frequency: DistributionFrequency
+): number {
+  const months = getPeriodMonths(frequency, business.timeline);
+  return Math.round(((business.expectedROI * months) / 12) * 10000) / 10000;
+}
+
+/**
+ * Split a total (in kobo) across investments in proportion to their amounts.
+ * Leftover kobo from rounding go to the largest remainders so the shares
+ * always add up to the total.
+ */
+export function allocateProRata(
+  investments: { id: string; amount: number }[],
+  totalKobo: number
+): Map<string, number> {
+  const invested = investments.reduce((sum, inv) => sum + inv.amount, 0);
+  const shares = investments.map((inv) => {
+    const exact = (totalKobo * inv.amount) / invested;
+    return { id: inv.id, kobo: Math.floor(exact), remainder: exact % 1 };
+  });
+
+  let leftover = totalKobo - shares.reduce((sum, s) => sum + s.kobo, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (leftover > 0) {
+        share.kobo += 1;
+        leftover -= 1;
+      }
+    });
+
+  return new Map(shares.map((share) => [share.id, share.kobo]));
+}
+
+/**
+ * Post a distribution inside an existing transaction: create Return rows,
+ * credit each investor's wallet and notify them
+ */
+export async function postDistribution(
+  tx: TransactionClient,
+  input: DistributionInput & { scheduleId?: string; scheduledFor?: Date }
+) {
+  const hasTotal = input.totalAmount !== undefined;
+  const hasYield = input.yieldPercent !== undefined;
+
+  if (hasTotal === hasYield) {
+    throw new DistributionError(
+      "Provide either a total amount or a yield percentage"
+    );
+  }
+
+  if ((input.totalAmount ?? input.yieldPercent ?? 0) <= 0) {
+    throw new DistributionError("Distribution amount must be greater than 0");
+  }
+
+  if ((input.totalAmount ?? 0) > MAX_DISTRIBUTION_AMOUNT) {
+    throw new DistributionError(
+      `A distribution can't exceed ₦${MAX_DISTRIBUTION_AMOUNT.toLocaleString()}`
+    );
+  }
+
+  if ((input.yieldPercent ?? 0) > MAX_YIELD_PERCENT) {
+    throw new DistributionError(
+      `A distribution can't pay more than ${MAX_YIELD_PERCENT}% of invested capital`
+    );
+  }
+
+  const business = await tx.business.findUnique({
+    where: { id: input.businessId },
+  });
+
+  if (!business) {
+    throw new DistributionError("Business opportunity not found", 404);
+  }
+
+  const investments = await tx.investment.findMany({
+    where: { businessId: business.id, status: "ACTIVE" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (investments.length === 0) {
+    throw new DistributionError(
+      "This opportunity has no active investments to distribute to"
+    );
+  }
+
+  let shares: Map<string, number>;
+  if (hasTotal) {
+    shares = allocateProRata(investments, toKobo(input.totalAmount!));
+  } else {
+    shares = new Map(
+      investments.map((inv) => [
+        inv.id,
+        Math.round((toKobo(inv.amount) * input.yieldPercent!) / 100),
+      ])
+    );
+  }
+
+  const totalKobo = [...shares.values()].reduce((sum, kobo) => sum + kobo, 0);
+
+  // Only money the owner has paid in can go out
+  const fund = await getDistributionFund(tx, business);
+  const fundBalance = await getAccountBalance(tx, fund.id);
+  if (fundBalance < totalKobo) {
+    throw new DistributionError(
+      `The distribution fund holds ₦${fromKobo(
+        fundBalance
+      ).toLocaleString()}, which doesn't cover this ₦${fromKobo(
+        totalKobo
+      ).toLocaleString()} distribution`,
+      409
+    );
+  }
+
+  const description =
+    input.description ||
+    (hasYield
+      ? `${input.yieldPercent}% return from ${business.title}`
+      : `Return from ${business.title}`);
+
+  const distribution = await tx.distribution.create({
+    data: {
+      totalAmount: fromKobo(totalKobo),
+      yieldPercent: input.yieldPercent,
+      description,
+      investorCount: investments.length,
+      scheduledFor: input.scheduledFor,
+      businessId: business.id,
+      scheduleId: input.scheduleId,
+      createdById: input.actorId,
+    },
+  });
+
+  for (const investment of investments) {
+    const kobo = shares.get(investment.id) ?? 0;
+    if (kobo <= 0) continue;
+
+    const amount = fromKobo(kobo);
+
+    await tx.return.create({
+      data: {
+        amount,
+        description,
+        investmentId: investment.id,
+        distributionId: distribution.id,
+      },
+    });
+
+    await recordReturn(tx, {
+      userId: investment.investorId,
+      amount: kobo,
+      reference: `distribution:${distribution.id}:${investment.id}`,
+      description,
+      fundAccountId: fund.id,
+    });
+
+    await tx.notification.create({
+      data: {
+        title: "Return Received",
+        content: `You received ₦${amount.toLocaleString()} from your investment in ${
+          business.title
+        }`,
+        userId: investment.investorId,
+      },
+    });
+  }
+
+  return distribution;
+}
+
+/**
+ * Declare a one-off distribution for an opportunity
+ */
+export async function declareDistribution(input: DistributionInput) {
+  return prisma.$transaction((tx) => postDistribution(tx, input));
+}
+
+/**
+ * Set up a recurring distribution. The yield per period defaults to the
+ * share of the opportunity's annual expected ROI for that period, and the
+ * schedule ends once the opportunity's timeline has elapsed.
+ */
+export async function createDistributionSchedule(input: {
+  businessId: string;
+  frequency: DistributionFrequency;
+  actorId?: string;
+  yieldPercent?: number;
+  startsAt?: Date;
+}) {
+  const business = await prisma.business.findUnique({
+    where: { id: input.businessId },
+  });
+
+  if (!business) {
+    throw new DistributionError("Business opportunity not found", 404);
+  }
+
+  const yieldPercent =
+    input.yieldPercent ?? getPeriodYield(business, input.frequency);
+
+  if (yieldPercent <= 0) {
+    throw new DistributionError("Distribution yield must be greater than 0");
+  }
+
+  if (yieldPercent > MAX_YIELD_PERCENT) {
+    throw new DistributionError(
+      `A distribution can't pay more than ${MAX_YIELD_PERCENT}% of invested capital per period`
+    );
+  }
+
+  const startsAt = input.startsAt ?? new Date();
+  const periodMonths = getPeriodMonths(input.frequency, business.timeline);
+
+  return prisma.distributionSchedule.create({
+    data: {
+      frequency: input.frequency,
+      yieldPercent,
+      nextRunAt: addMonths(startsAt, periodMonths),
+      endsAt: addMonths(startsAt, business.timeline),
+      businessId: business.id,
+      createdById: input.actorId,
+    },
+  });
+}
+
+/**
+ * Post every scheduled distribution that has fallen due. Each period is
+ * claimed by advancing the schedule with a guarded update, so overlapping
+ * runs cannot pay the same period twice. A period the distribution fund
+ * can't cover stays due.
+ */
+export async function runDueDistributions(now: Date = new Date()) {
+  const schedules = await prisma.distributionSchedule.findMany({
+    where: { active: true, nextRunAt: { lte: now } },
+    include: { business: true },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  const results: {
+    scheduleId: string;
+    scheduledFor: Date;
+    distributionId?: string;
+    skipped?: string;
+  }[] = [];
+
+  for (const schedule of schedules) {
+    const periodMonths = getPeriodMonths(
+      schedule.frequency,
+      schedule.business.timeline
+    );
+    let runAt = schedule.nextRunAt;
+
+    // Catch up on every period missed since the last run
+    while (runAt <= now) {
+      const scheduledFor = runAt;
+      const nextRunAt = addMonths(scheduledFor, periodMonths);
+      const finished =
+        schedule.frequency === "AT_MATURITY" || nextRunAt > schedule.endsAt;
+
+      let result: { distributionId?: string; skipped?: string };
+      try {
+        result = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.distributionSchedule.updateMany({
+            where: { id: schedule.id, active: true, nextRunAt: scheduledFor },
+            data: { nextRunAt, active: !finished },
+          });
+
+          if (claimed.count === 0) {
+            return { skipped: "Already processed" };
+          }
+
+          try {
+            const distribution = await postDistribution(tx, {
+              businessId: schedule.businessId,
+              yieldPercent: schedule.yieldPercent,
+              scheduleId: schedule.id,
+              scheduledFor,
+            });
+            return { distributionId: distribution.id };
+          } catch (error) {
+            // A period with no active investors is simply skipped
+            if (error instanceof DistributionError && error.status !== 409) {
+              return { skipped: error.message };
+            }
+            throw error;
+          }
+        });
+      } catch (error) {
+        // An underfunded period is rolled back and stays due, so it is paid
+        // by the first run after the owner tops up the fund
+        if (!(error instanceof DistributionError)) throw error;
+        results.push({
+          scheduleId: schedule.id,
+          scheduledFor,
+          skipped: error.message,
+        });
+        break;
+      }
+
+      results.push({ scheduleId: schedule.id, scheduledFor, ...result });
+
+      if (finished || result.skipped === "Already processed") break;
+      runAt = nextRunAt;
+    }
+  }
+
+  return results;
+}
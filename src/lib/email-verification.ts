@@ -0,0 +1,180 @@
+// Email verification for new accounts (FR-1.2). Unverified users can browse
+// but cannot invest or publish opportunities.
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { generateToken, hashToken } from "@/lib/tokens";
+import { AppError } from "@/lib/errors";
+
+const BASE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// How long a verification link stays valid
+export const VERIFICATION_TOKEN_TTL_HOURS = 24;
+
+// Error code returned to clients so they can prompt for verification
+export const EMAIL_NOT_VERIFIED = "EMAIL_NOT_VERIFIED";
+
+export class EmailVerificationError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "EmailVerificationError";
+  }
+}
+
+/**
+ * Issue a fresh verification token and email the link. Earlier unused
+ * links stop working. Pass newEmail to confirm a change of address
+ * instead; the account keeps its current email until the link is used.
+ */
+export async function sendVerificationEmail(
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  },
+  newEmail?: string
+): Promise<void> {
+  const { token, tokenHash } = generateToken();
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.emailVerificationToken.create({
+      data: {
+        tokenHash,
+        userId: user.id,
+        email: newEmail,
+        expiresAt: new Date(
+          Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000
+        ),
+      },
+    }),
+  ]);
+
+  const verifyUrl = `${BASE_URL}/auth/verify-email?token=${token}`;
+
+  await sendMail({
+    to: newEmail ?? user.email,
+    subject: "Verify your NaijaConnect Capital email address",
+    text: [
+      `Hello ${user.name},`,
+      "",
+      newEmail
+        ? "Please confirm this as the new email address for your NaijaConnect Capital account using the link below:"
+        : "Welcome to NaijaConnect Capital! Please confirm your email address using the link below:",
+      "",
+      verifyUrl,
+      "",
+      `This link expires in ${VERIFICATION_TOKEN_TTL_HOURS} hours.`,
+    ].join("\n"),
+  });
+}
+
+/**
+ * Mark the account behind a token as verified, switching it to the new
+ * address if the token confirms an email change
+ */
+export async function verifyEmail(token: string) {
+  const tokenHash = hashToken(token);
+
+  return prisma.$transaction(async (tx) => {
+    const verificationToken = await tx.emailVerificationToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (
+      !verificationToken ||
+      verificationToken.usedAt ||
+      verificationToken.expiresAt.getTime() < Date.now()
+    ) {
+      throw new EmailVerificationError(
+        "This verification link is invalid or has expired"
+      );
+    }
+
+    const claimed = await tx.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new EmailVerificationError(
+        "This verification link is invalid or has expired"
+      );
+    }
+
+    if (verificationToken.email) {
+      const taken = await tx.user.findUnique({
+        where: { email: verificationToken.email },
+        select: { id: true },
+      });
+      if (taken) {
+        throw new EmailVerificationError(
+          "This email address is already used by another account"
+        );
+      }
+    }
+
+    return tx.user.update({
+      where: { id: verificationToken.userId },
+      data: verificationToken.email
+        ? { verified: true, email: verificationToken.email, pendingEmail: null }
+        : { verified: true },
+      select: {
+        id: true,
+        email: true,
+        verified: true,
+      },
+    });
+  });
+}
+
+/**
+ * Send a new verification link to a signed-in user, to their pending new
+ * address if they are changing email
+ */
+export async function resendVerificationEmail(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new EmailVerificationError("User not found", 404);
+  }
+
+  // A pending change of address takes priority over the current one
+  if (user.pendingEmail) {
+    await sendVerificationEmail(user, user.pendingEmail);
+    return;
+  }
+
+  if (user.verified) {
+    throw new EmailVerificationError("Your email address is already verified");
+  }
+
+  await sendVerificationEmail(user);
+}
+
+/**
+ * Response to return when an unverified user attempts a restricted action,
+ * or null if the user is verified
+ */
+export async function requireVerifiedEmail(
+  userId: string,
+  action: string
+): Promise<NextResponse | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { verified: true },
+  });
+
+  if (user?.verified) return null;
+
+  return NextResponse.json(
+    {
+      error: `Please verify your email address before ${action}`,
+      code: EMAIL_NOT_VERIFIED,
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  assertEncryptionConfiguration,
+  decryptSecret,
+  encryptSecret,
+} from "@/lib/encryption";
+
+describe("field encryption", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips a value without repeating ciphertext", () => {
+    vi.stubEnv("FIELD_ENCRYPTION_KEY", "field-key");
+
+    const first = encryptSecret("12345678901");
+    const second = encryptSecret("12345678901");
+
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe("12345678901");
+    expect(decryptSecret(second)).toBe("12345678901");
+  });
+
+  it("refuses to run without FIELD_ENCRYPTION_KEY", () => {
+    vi.stubEnv("FIELD_ENCRYPTION_KEY", "");
+    vi.stubEnv("TWO_FACTOR_ENCRYPTION_KEY", "old-key");
+    vi.stubEnv("NEXTAUTH_SECRET", "nextauth-secret");
+
+    expect(() => assertEncryptionConfiguration()).toThrow(
+      "FIELD_ENCRYPTION_KEY is not set"
+    );
+    expect(() => encryptSecret("12345678901")).toThrow(
+      "FIELD_ENCRYPTION_KEY is not set"
+    );
+  });
+
+  it("can't decrypt with a different key", () => {
+    vi.stubEnv("FIELD_ENCRYPTION_KEY", "field-key");
+    const encrypted = encryptSecret("12345678901");
+
+    vi.stubEnv("FIELD_ENCRYPTION_KEY", "another-key");
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+});
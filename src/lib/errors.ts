@@ -0,0 +1,14 @@
+// Base class for expected failures raised by lib modules. API routes turn
+// these into an { error } response with the given status instead of a 500,
+// adding the code, if any, for clients that need to tell failures apart.
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "AppError";
+  }
+}
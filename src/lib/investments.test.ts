@@ -0,0 +1,193 @@
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { setImmediate } from "timers/promises";
+import initSqlJs, { Database } from "sql.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  InvestmentError,
+  confirmReservation,
+  releaseRaisedCapital,
+  releaseReservation,
+  reserveCapacity,
+} from "@/lib/investments";
+
+type TransactionClient = Parameters<typeof reserveCapacity>[0];
+
+const TARGET = 1_000_000;
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma/migrations");
+
+// A database with every migration applied, so the capital updates run
+// against the real schema
+async function createDatabase() {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  const migrations = readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    db.exec(
+      readFileSync(
+        path.join(MIGRATIONS_DIR, migration, "migration.sql"),
+        "utf8"
+      )
+    );
+  }
+  return db;
+}
+
+function toSqlValue(value: unknown) {
+  return value instanceof Date ? value.getTime() : (value as number | string);
+}
+
+/**
+ * The parts of a transaction client the capital updates use. Every statement
+ * yields first, so calls started together interleave the way concurrent
+ * requests would.
+ */
+function createClient(db: Database): TransactionClient {
+  const client = {
+    async $executeRaw(strings: TemplateStringsArray, ...values: unknown[]) {
+      await setImmediate();
+      db.run(strings.join("?"), values.map(toSqlValue));
+      return db.getRowsModified();
+    },
+    business: {
+      async findUnique({ where }: { where: { id: string } }) {
+        await setImmediate();
+        return getBusiness(db, where.id);
+      },
+    },
+  };
+  return client as unknown as TransactionClient;
+}
+
+function getBusiness(db: Database, id: string) {
+  const statement = db.prepare(
+    `SELECT "status", "targetCapital", "currentRaised", "reservedCapital"
+     FROM "businesses" WHERE "id" = ?`
+  );
+  statement.bind([id]);
+  const business = statement.step()
+    ? (statement.getAsObject() as {
+        status: string;
+        targetCapital: number;
+        currentRaised: number;
+        reservedCapital: number;
+      })
+    : null;
+  statement.free();
+  return business;
+}
+
+function createOpportunity(db: Database) {
+  const now = Date.now();
+  db.run(
+    `INSERT INTO "users" ("id", "email", "name", "password", "role", "createdAt", "updatedAt")
+     VALUES ('owner', 'owner@example.com', 'Owner', 'x', 'BUSINESS_OWNER', ?, ?)`,
+    [now, now]
+  );
+  db.run(
+    `INSERT INTO "businesses" ("id", "title", "description", "detailedPlan",
+       "targetCapital", "minimumInvestment", "expectedROI", "timeline",
+       "industry", "riskLevel", "status", "ownerId", "createdAt", "updatedAt")
+     VALUES ('business', 'Farm', 'Farm', 'Farm', ?, 10000, 20, 12,
+       'Agriculture', 'Medium', 'OPEN', 'owner', ?, ?)`,
+    [TARGET, now, now]
+  );
+  return "business";
+}
+
+describe("capacity reservations", () => {
+  let db: Database;
+  let tx: TransactionClient;
+  let businessId: string;
+
+  beforeEach(async () => {
+    db = await createDatabase();
+    tx = createClient(db);
+    businessId = createOpportunity(db);
+  });
+
+  it("never reserves more than the target when investors reserve in parallel", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 30 }, () => reserveCapacity(tx, businessId, 75_000))
+    );
+
+    const reserved = results.filter((r) => r.status === "fulfilled");
+    const refused = results.filter(
+      (r): r is PromiseRejectedResult => r.status === "rejected"
+    );
+
+    // 13 x 75,000 fits in 1,000,000; a 14th would not
+    expect(reserved).toHaveLength(13);
+    for (const result of refused) {
+      expect(result.reason).toBeInstanceOf(InvestmentError);
+    }
+
+    await Promise.all(
+      reserved.map(() => confirmReservation(tx, businessId, 75_000))
+    );
+
+    const business = getBusiness(db, businessId)!;
+    expect(business.currentRaised).toBe(975_000);
+    expect(business.currentRaised).toBeLessThanOrEqual(TARGET);
+    expect(business.reservedCapital).toBe(0);
+  });
+
+  it("marks the opportunity fully funded and refuses further reservations", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, async () => {
+        await reserveCapacity(tx, businessId, 100_000);
+        await confirmReservation(tx, businessId, 100_000);
+      })
+    );
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => reserveCapacity(tx, businessId, 10_000))
+    );
+
+    expect(results.every((r) => r.status === "rejected")).toBe(true);
+    expect(getBusiness(db, businessId)).toMatchObject({
+      status: "FULLY_FUNDED",
+      currentRaised: TARGET,
+      reservedCapital: 0,
+    });
+  });
+
+  it("keeps raised capital within the target while payments, abandoned checkouts and cancellations interleave", async () => {
+    const violations: number[] = [];
+    const checkInvariant = () => {
+      const business = getBusiness(db, businessId)!;
+      const held = business.currentRaised + business.reservedCapital;
+      if (business.currentRaised > TARGET || held > TARGET) {
+        violations.push(held);
+      }
+    };
+
+    // Each investor reserves, then pays, abandons the checkout, or pays and
+    // later cancels; every 4th amount is larger to push past the target
+    await Promise.allSettled(
+      Array.from({ length: 60 }, async (_, i) => {
+        const amount = i % 4 === 0 ? 150_000 : 50_000;
+        await reserveCapacity(tx, businessId, amount);
+        checkInvariant();
+
+        if (i % 3 === 1) {
+          await releaseReservation(tx, businessId, amount);
+        } else {
+          await confirmReservation(tx, businessId, amount);
+          if (i % 5 === 0) {
+            await releaseRaisedCapital(tx, businessId, amount);
+          }
+        }
+        checkInvariant();
+      })
+    );
+
+    const business = getBusiness(db, businessId)!;
+    expect(violations).toEqual([]);
+    expect(business.currentRaised).toBeLessThanOrEqual(TARGET);
+    expect(business.reservedCapital).toBe(0);
+  });
+});
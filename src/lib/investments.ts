@@ -0,0 +1,612 @@
+// Investment lifecycle operations that must keep Business capital consistent.
+// Every change to currentRaised/reservedCapital is a single conditional
+// UPDATE so concurrent requests can never overfund an opportunity.
+
+import { InvestmentStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { addMonths } from "date-fns";
+import {
+  fromKobo,
+  getAccountBalance,
+  getDistributionFund,
+  recordInvestmentRefund,
+  recordMaturity,
+  recordReturn,
+  toKobo,
+} from "@/lib/ledger";
+import { AppError } from "@/lib/errors";
+import { assertWithinInvestmentLimit } from "@/lib/kyc";
+import { recordAuditEvent } from "@/lib/audit";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class InvestmentError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "InvestmentError";
+  }
+}
+
+/**
+ * Reserve capacity for an unpaid investment. Fails if the opportunity is no
+ * longer open or if raised plus reserved capital would exceed the target.
+ */
+export async function reserveCapacity(
+  tx: TransactionClient,
+  businessId: string,
+  amount: number
+) {
+  const reserved = await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "reservedCapital" = "reservedCapital" + ${amount},
+        "updatedAt" = ${new Date()}
+    WHERE "id" = ${businessId}
+      AND "status" = 'OPEN'
+      AND "currentRaised" + "reservedCapital" + ${amount} <= "targetCapital"`;
+
+  if (reserved === 0) {
+    const business = await tx.business.findUnique({
+      where: { id: businessId },
+    });
+
+    if (!business || business.status !== "OPEN") {
+      throw new InvestmentError(
+        "This investment opportunity is no longer open"
+      );
+    }
+
+    const remainingAmount = Math.max(
+      0,
+      business.targetCapital - business.currentRaised - business.reservedCapital
+    );
+    throw new InvestmentError(
+      `Investment amount exceeds remaining capacity. Maximum available: ₦${remainingAmount.toLocaleString()}`
+    );
+  }
+}
+
+/**
+ * Give back capacity held by an investment that was never paid for
+ */
+export async function releaseReservation(
+  tx: TransactionClient,
+  businessId: string,
+  amount: number
+) {
+  await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "reservedCapital" = MAX(0, "reservedCapital" - ${amount}),
+        "updatedAt" = ${new Date()}
+    WHERE "id" = ${businessId}`;
+}
+
+/**
+ * Convert a reservation into raised capital once payment confirms, and mark
+ * the opportunity FULLY_FUNDED when the target is reached
+ */
+export async function confirmReservation(
+  tx: TransactionClient,
+  businessId: string,
+  amount: number
+) {
+  await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "reservedCapital" = MAX(0, "reservedCapital" - ${amount}),
+        "currentRaised" = "currentRaised" + ${amount},
+        "updatedAt" = ${new Date()}
+    WHERE "id" = ${businessId}`;
+
+  await markFullyFundedIfMet(tx, businessId);
+}
+
+/**
+ * Mark an OPEN opportunity FULLY_FUNDED if what it has raised meets its
+ * target. Returns whether it was marked.
+ */
+export async function markFullyFundedIfMet(
+  tx: TransactionClient,
+  businessId: string
+): Promise<boolean> {
+  const marked = await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "status" = 'FULLY_FUNDED'
+    WHERE "id" = ${businessId}
+      AND "status" = 'OPEN'
+      AND "currentRaised" >= "targetCapital"`;
+  return marked > 0;
+}
+
+/**
+ * Remove paid capital from an opportunity, reopening it if it had been
+ * marked FULLY_FUNDED
+ */
+export async function releaseRaisedCapital(
+  tx: TransactionClient,
+  businessId: string,
+  amount: number
+) {
+  await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "currentRaised" = MAX(0, "currentRaised" - ${amount}),
+        "updatedAt" = ${new Date()}
+    WHERE "id" = ${businessId}`;
+
+  await tx.$executeRaw`
+    UPDATE "businesses"
+    SET "status" = 'OPEN'
+    WHERE "id" = ${businessId}
+      AND "status" = 'FULLY_FUNDED'
+      AND "currentRaised" < "targetCapital"`;
+}
+
+/**
+ * Create a PENDING investment and reserve its capacity in one transaction
+ */
+export async function createInvestment(input: {
+  investorId: string;
+  businessId: string;
+  amount: number;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const business = await tx.business.findUnique({
+      where: { id: input.businessId },
+    });
+
+    if (!business) {
+      throw new InvestmentError("Business opportunity not found", 404);
+    }
+
+    // Check if business is still open for investment
+    if (business.status !== "OPEN") {
+      throw new InvestmentError(
+        "This investment opportunity is no longer open"
+      );
+    }
+
+    // Validate minimum investment amount
+    if (input.amount < business.minimumInvestment) {
+      throw new InvestmentError(
+        `Minimum investment amount is ₦${business.minimumInvestment.toLocaleString()}`
+      );
+    }
+
+    // Check if user has already invested in this business
+    const existingInvestment = await tx.investment.findFirst({
+      where: {
+        investorId: input.investorId,
+        businessId: input.businessId,
+        status: {
+          in: ["PENDING", "ACTIVE"],
+        },
+      },
+    });
+
+    if (existingInvestment) {
+      throw new InvestmentError(
+        "You already have an active investment in this opportunity"
+      );
+    }
+
+    // Verification tier caps the investor's total commitment
+    await assertWithinInvestmentLimit(tx, input.investorId, input.amount);
+
+    await reserveCapacity(tx, input.businessId, input.amount);
+
+    return tx.investment.create({
+      data: {
+        amount: input.amount,
+        status: "PENDING",
+        investorId: input.investorId,
+        businessId: input.businessId,
+        statusHistory: {
+          create: {
+            toStatus: "PENDING",
+            actorId: input.investorId,
+            actorRole: "INVESTOR",
+          },
+        },
+      },
+      include: {
+        business: {
+          select: {
+            id: true,
+            title: true,
+            ownerId: true,
+          },
+        },
+      },
+    });
+  });
+}
+
+export type InvestmentActorRole =
+  | "INVESTOR"
+  | "BUSINESS_OWNER"
+  | "ADMINISTRATOR"
+  | "SYSTEM";
+
+export interface InvestmentActor {
+  role: InvestmentActorRole;
+  userId?: string;
+  // Where the request came from, for the audit log
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+interface InvestmentTransition {
+  from: InvestmentStatus;
+  to: InvestmentStatus;
+  actors: InvestmentActorRole[];
+}
+
+/**
+ * Allowed status changes and who may make them. COMPLETED and CANCELLED are
+ * terminal; anything not listed here is rejected.
+ */
+export const INVESTMENT_TRANSITIONS: InvestmentTransition[] = [
+  {
+    from: "PENDING",
+    to: "ACTIVE",
+    actors: ["BUSINESS_OWNER", "ADMINISTRATOR"],
+  },
+  {
+    from: "PENDING",
+    to: "CANCELLED",
+    actors: ["INVESTOR", "BUSINESS_OWNER", "ADMINISTRATOR", "SYSTEM"],
+  },
+  {
+    from: "ACTIVE",
+    to: "COMPLETED",
+    actors: ["ADMINISTRATOR", "SYSTEM"],
+  },
+  {
+    from: "ACTIVE",
+    to: "CANCELLED",
+    actors: ["ADMINISTRATOR"],
+  },
+];
+
+const STATUS_MESSAGES: Record<InvestmentStatus, string> = {
+  PENDING: "Your investment is pending review",
+  ACTIVE: "Your investment has been approved and is now active",
+  COMPLETED: "Your investment has been completed",
+  CANCELLED: "Your investment has been cancelled",
+};
+
+/**
+ * Date an investment matures: its start plus the opportunity's timeline
+ */
+export function getMaturityDate(
+  investment: { createdAt: Date },
+  business: { timeline: number }
+): Date {
+  return addMonths(investment.createdAt, business.timeline);
+}
+
+/**
+ * Final payout for a matured investment, in kobo: the principal plus
+ * whatever part of the expected return over the full timeline has not
+ * already been paid through distributions
+ */
+export function calculateMaturitySettlement(
+  investment: { amount: number },
+  business: { expectedROI: number; timeline: number },
+  returnsPaid: number
+) {
+  const principal = toKobo(investment.amount);
+  const expectedReturn = Math.round(
+    (principal * business.expectedROI * business.timeline) / 100 / 12
+  );
+  const finalReturn = Math.max(0, expectedReturn - toKobo(returnsPaid));
+
+  return {
+    principal,
+    expectedReturn,
+    finalReturn,
+    total: principal + finalReturn,
+  };
+}
+
+/**
+ * Work out in which capacity a user acts on an investment, or null if they
+ * have no relationship to it
+ */
+export function resolveInvestmentActor(
+  user: { id: string; role?: string },
+  investment: { investorId: string; business: { ownerId: string } }
+): InvestmentActor | null {
+  if (user.role === "ADMINISTRATOR") {
+    return { role: "ADMINISTRATOR", userId: user.id };
+  }
+  if (user.id === investment.business.ownerId) {
+    return { role: "BUSINESS_OWNER", userId: user.id };
+  }
+  if (user.id === investment.investorId) {
+    return { role: "INVESTOR", userId: user.id };
+  }
+  return null;
+}
+
+/**
+ * Apply a status change inside an existing transaction, enforcing the
+ * transition table and running its side effects
+ */
+export async function applyInvestmentTransition(
+  tx: TransactionClient,
+  investmentId: string,
+  toStatus: InvestmentStatus,
+  actor: InvestmentActor,
+  note?: string
+) {
+  const investment = await tx.investment.findUnique({
+    where: { id: investmentId },
+    include: {
+      business: true,
+      payments: true,
+      returns: true,
+    },
+  });
+
+  if (!investment) {
+    throw new InvestmentError("Investment not found", 404);
+  }
+
+  const fromStatus = investment.status;
+  const transition = INVESTMENT_TRANSITIONS.find(
+    (t) => t.from === fromStatus && t.to === toStatus
+  );
+
+  if (!transition) {
+    throw new InvestmentError(
+      `Cannot change an investment from ${fromStatus} to ${toStatus}`,
+      409
+    );
+  }
+
+  if (!transition.actors.includes(actor.role)) {
+    throw new InvestmentError(
+      `Not authorized to change this investment to ${toStatus}`,
+      403
+    );
+  }
+
+  const isPaid = investment.payments.some(
+    (payment) => payment.status === "SUCCESSFUL"
+  );
+
+  if (toStatus === "ACTIVE" && !isPaid) {
+    throw new InvestmentError(
+      "Payment has not been confirmed for this investment",
+      409
+    );
+  }
+
+  // Guard on status so concurrent transitions cannot both apply
+  const updated = await tx.investment.updateMany({
+    where: { id: investmentId, status: fromStatus },
+    data: { status: toStatus },
+  });
+
+  if (updated.count === 0) {
+    throw new InvestmentError("Investment was updated by someone else", 409);
+  }
+
+  if (toStatus === "CANCELLED") {
+    if (isPaid) {
+      await releaseRaisedCapital(tx, investment.businessId, investment.amount);
+
+      // Release the committed principal back to the investor's wallet
+      await recordInvestmentRefund(tx, {
+        userId: investment.investorId,
+        amount: toKobo(investment.amount),
+        reference: `investment:${investment.id}:refund`,
+        description: `Cancelled investment in ${investment.business.title}`,
+      });
+    } else {
+      await releaseReservation(tx, investment.businessId, investment.amount);
+    }
+  }
+
+  let settlementNote: string | undefined;
+
+  if (toStatus === "COMPLETED") {
+    const settlement = calculateMaturitySettlement(
+      investment,
+      investment.business,
+      investment.returns.reduce((sum, ret) => sum + ret.amount, 0)
+    );
+
+    await recordMaturity(tx, {
+      userId: investment.investorId,
+      amount: settlement.principal,
+      reference: `investment:${investment.id}:maturity`,
+      description: `Principal returned from ${investment.business.title}`,
+    });
+
+    if (settlement.finalReturn > 0) {
+      // The final return is paid from money the owner has put in the
+      // distribution fund, like any other distribution
+      const fund = await getDistributionFund(tx, investment.business);
+      const fundBalance = await getAccountBalance(tx, fund.id);
+      if (fundBalance < settlement.finalReturn) {
+        throw new InvestmentError(
+          `The distribution fund holds ₦${fromKobo(
+            fundBalance
+          ).toLocaleString()}, which doesn't cover the ₦${fromKobo(
+            settlement.finalReturn
+          ).toLocaleString()} final return`,
+          409
+        );
+      }
+
+      await tx.return.create({
+        data: {
+          amount: fromKobo(settlement.finalReturn),
+          description: "Final return at maturity",
+          investmentId: investment.id,
+        },
+      });
+
+      await recordReturn(tx, {
+        userId: investment.investorId,
+        amount: settlement.finalReturn,
+        reference: `investment:${investment.id}:maturity-return`,
+        description: `Final return from ${investment.business.title}`,
+        fundAccountId: fund.id,
+      });
+    }
+
+    settlementNote = `₦${fromKobo(
+      settlement.total
+    ).toLocaleString()} (principal plus final return) has been credited to your wallet`;
+
+    await tx.notification.create({
+      data: {
+        title: "Investment Matured",
+        content: `An investment of ₦${investment.amount.toLocaleString()} in ${
+          investment.business.title
+        } has matured and been settled with ₦${fromKobo(
+          settlement.total
+        ).toLocaleString()}`,
+        userId: investment.business.ownerId,
+      },
+    });
+  }
+
+  await tx.investmentStatusHistory.create({
+    data: {
+      investmentId,
+      fromStatus,
+      toStatus,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      note,
+    },
+  });
+
+  await recordAuditEvent(
+    {
+      action: "investment:updateStatus",
+      actor: {
+        id: actor.userId ?? null,
+        role: actor.role,
+        ip: actor.ip,
+        userAgent: actor.userAgent,
+      },
+      target: { type: "Investment", id: investmentId },
+      before: { status: fromStatus },
+      after: { status: toStatus },
+      metadata: note ? { note } : undefined,
+    },
+    tx
+  );
+
+  if (actor.role === "INVESTOR") {
+    await tx.notification.create({
+      data: {
+        title: `Investment ${
+          toStatus === "CANCELLED" ? "Cancelled" : "Status Updated"
+        }`,
+        content: `An investment of ₦${investment.amount.toLocaleString()} in ${
+          investment.business.title
+        } has been ${toStatus.toLowerCase()} by the investor`,
+        userId: investment.business.ownerId,
+      },
+    });
+  } else {
+    await tx.notification.create({
+      data: {
+        title: "Investment Status Updated",
+        content: `${STATUS_MESSAGES[toStatus]} for ${
+          investment.business.title
+        }${settlementNote ? `. ${settlementNote}` : ""}${
+          note ? `. Note: ${note}` : ""
+        }`,
+        userId: investment.investorId,
+      },
+    });
+  }
+
+  return tx.investment.findUniqueOrThrow({ where: { id: investmentId } });
+}
+
+/**
+ * Change an investment's status in its own transaction
+ */
+export async function transitionInvestment(
+  investmentId: string,
+  toStatus: InvestmentStatus,
+  actor: InvestmentActor,
+  note?: string
+) {
+  return prisma.$transaction((tx) =>
+    applyInvestmentTransition(tx, investmentId, toStatus, actor, note)
+  );
+}
+
+// How long an unpaid investment holds its share of an opportunity after its
+// latest checkout was opened
+export const RESERVATION_TTL_MINUTES = 60;
+
+/**
+ * Cancel PENDING investments that haven't been paid for within
+ * RESERVATION_TTL_MINUTES of their latest checkout, releasing the capacity
+ * they reserved and expiring their open checkouts. Investments paid for while
+ * the job runs are left alone, so it can be re-run safely.
+ */
+export async function expireStaleReservations(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() - RESERVATION_TTL_MINUTES * 60 * 1000);
+
+  const stale = await prisma.investment.findMany({
+    where: {
+      status: "PENDING",
+      createdAt: { lt: cutoff },
+      payments: {
+        none: {
+          OR: [{ status: "SUCCESSFUL" }, { createdAt: { gte: cutoff } }],
+        },
+      },
+    },
+    include: {
+      investor: { select: { name: true } },
+      business: { select: { title: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const expired: typeof stale = [];
+
+  for (const investment of stale) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Expire the checkouts first so a payment settling at the same time
+        // either lands before this check or is credited to the wallet
+        await tx.payment.updateMany({
+          where: { investmentId: investment.id, status: "PENDING" },
+          data: { status: "EXPIRED" },
+        });
+
+        const paid = await tx.payment.count({
+          where: { investmentId: investment.id, status: "SUCCESSFUL" },
+        });
+        if (paid > 0) {
+          throw new InvestmentError("Investment has been paid for", 409);
+        }
+
+        await applyInvestmentTransition(
+          tx,
+          investment.id,
+          "CANCELLED",
+          { role: "SYSTEM" },
+          "Payment was not completed in time"
+        );
+      });
+      expired.push(investment);
+    } catch (error) {
+      // Paid or cancelled in the meantime
+      if (!(error instanceof InvestmentError)) throw error;
+    }
+  }
+
+  return expired;
+}
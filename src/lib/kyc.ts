@@ -0,0 +1,486 @@
+// Know-your-customer verification: what each tier requires, BVN/NIN format
+// checks, identity document upload and the admin review that raises a
+// user's tier. The tier caps how much an investor can have committed.
+
+import { KycDocumentType, KycTier, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { generateStorageKey, getStorage } from "@/lib/storage";
+
+export const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024;
+export const ALLOWED_DOCUMENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+
+// Both are 11-digit numbers issued by NIBSS (BVN) and NIMC (NIN)
+export const bvnSchema = z
+  .string()
+  .regex(/^\d{11}$/, "BVN must be exactly 11 digits");
+export const ninSchema = z
+  .string()
+  .regex(/^\d{11}$/, "NIN must be exactly 11 digits");
+
+interface TierRequirements {
+  label: string;
+  // Most an investor may hold in PENDING and ACTIVE investments; null is
+  // unlimited
+  investmentLimit: number | null;
+  // Whether a BVN or NIN is needed, or both
+  identityNumbers: "none" | "either" | "both";
+  // Each group needs at least one document of the listed types
+  documents: KycDocumentType[][];
+}
+
+export const KYC_TIERS: Record<KycTier, TierRequirements> = {
+  NONE: {
+    label: "Unverified",
+    investmentLimit: 0,
+    identityNumbers: "none",
+    documents: [],
+  },
+  TIER_1: {
+    label: "Tier 1",
+    investmentLimit: 500_000,
+    identityNumbers: "either",
+    documents: [],
+  },
+  TIER_2: {
+    label: "Tier 2",
+    investmentLimit: 5_000_000,
+    identityNumbers: "both",
+    documents: [["PASSPORT", "NIN_SLIP"]],
+  },
+  TIER_3: {
+    label: "Tier 3",
+    investmentLimit: null,
+    identityNumbers: "both",
+    documents: [["PASSPORT", "NIN_SLIP"], ["UTILITY_BILL"]],
+  },
+};
+
+const TIER_ORDER: KycTier[] = ["NONE", "TIER_1", "TIER_2", "TIER_3"];
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  PASSPORT: "international passport",
+  NIN_SLIP: "NIN slip",
+  UTILITY_BILL: "utility bill",
+};
+
+export interface KycDocumentUpload {
+  type: KycDocumentType;
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface KycSubmissionInput {
+  tier: KycTier;
+  bvn?: string;
+  nin?: string;
+  documents: KycDocumentUpload[];
+}
+
+// Error code returned when an investment needs a higher verification tier
+export const VERIFICATION_REQUIRED = "VERIFICATION_REQUIRED";
+
+export class KycError extends AppError {
+  constructor(message: string, status: number = 400, code?: string) {
+    super(message, status, code);
+    this.name = "KycError";
+  }
+}
+
+// Never expose storage keys outside this module
+const documentSelect = {
+  id: true,
+  type: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.KycDocumentSelect;
+
+// Submissions made before identity numbers were encrypted hold the digits
+const PLAIN_IDENTITY_NUMBER = /^\d{11}$/;
+
+function revealIdentityNumber(stored: string | null): string | null {
+  if (!stored || PLAIN_IDENTITY_NUMBER.test(stored)) return stored;
+  return decryptSecret(stored);
+}
+
+/**
+ * A submission with its BVN and NIN decrypted, for the reviewer or the
+ * user's own data export. They are encrypted at rest.
+ */
+export function revealIdentityNumbers<
+  T extends { bvn: string | null; nin: string | null }
+>(submission: T): T {
+  return {
+    ...submission,
+    bvn: revealIdentityNumber(submission.bvn),
+    nin: revealIdentityNumber(submission.nin),
+  };
+}
+
+/**
+ * Encrypt identity numbers stored before encryption at rest was introduced.
+ * Returns how many submissions were updated.
+ */
+export async function encryptStoredIdentityNumbers(): Promise<number> {
+  const submissions = await prisma.kycSubmission.findMany({
+    where: { OR: [{ bvn: { not: null } }, { nin: { not: null } }] },
+    select: { id: true, bvn: true, nin: true },
+  });
+
+  const encrypt = (value: string | null) =>
+    value && PLAIN_IDENTITY_NUMBER.test(value) ? encryptSecret(value) : value;
+
+  let updated = 0;
+  for (const submission of submissions) {
+    const bvn = encrypt(submission.bvn);
+    const nin = encrypt(submission.nin);
+    if (bvn === submission.bvn && nin === submission.nin) continue;
+
+    // Only if it wasn't changed in the meantime
+    const result = await prisma.kycSubmission.updateMany({
+      where: { id: submission.id, bvn: submission.bvn, nin: submission.nin },
+      data: { bvn, nin },
+    });
+    updated += result.count;
+  }
+
+  return updated;
+}
+
+function formatNaira(amount: number): string {
+  return `₦${amount.toLocaleString()}`;
+}
+
+function checkRequirements(input: KycSubmissionInput) {
+  const requirements = KYC_TIERS[input.tier];
+
+  if (requirements.identityNumbers === "either" && !input.bvn && !input.nin) {
+    throw new KycError(`${requirements.label} requires your BVN or NIN`);
+  }
+  if (requirements.identityNumbers === "both" && (!input.bvn || !input.nin)) {
+    throw new KycError(`${requirements.label} requires your BVN and NIN`);
+  }
+
+  const uploadedTypes = new Set<KycDocumentType>();
+  for (const document of input.documents) {
+    if (uploadedTypes.has(document.type)) {
+      throw new KycError(`Upload only one ${DOCUMENT_LABELS[document.type]}`);
+    }
+    uploadedTypes.add(document.type);
+
+    if (!ALLOWED_DOCUMENT_TYPES.includes(document.contentType)) {
+      throw new KycError("Documents must be PDF, JPEG or PNG files");
+    }
+    if (document.body.length === 0) {
+      throw new KycError(`The ${DOCUMENT_LABELS[document.type]} is empty`);
+    }
+    if (document.body.length > MAX_DOCUMENT_SIZE) {
+      throw new KycError(
+        `Documents must be ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB or smaller`
+      );
+    }
+  }
+
+  for (const group of requirements.documents) {
+    if (!group.some((type) => uploadedTypes.has(type))) {
+      throw new KycError(
+        `${requirements.label} requires your ${group
+          .map((type) => DOCUMENT_LABELS[type])
+          .join(" or ")}`
+      );
+    }
+  }
+}
+
+/**
+ * Sum of the investor's PENDING and ACTIVE investments
+ */
+async function getCommittedAmount(
+  client: Prisma.TransactionClient,
+  userId: string
+): Promise<number> {
+  const committed = await client.investment.aggregate({
+    where: { investorId: userId, status: { in: ["PENDING", "ACTIVE"] } },
+    _sum: { amount: true },
+  });
+  return committed._sum.amount ?? 0;
+}
+
+/**
+ * Refuse an investment that would take the investor past their tier's
+ * limit. Runs inside the investment transaction.
+ */
+export async function assertWithinInvestmentLimit(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number
+) {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { kycTier: true },
+  });
+  const tier = KYC_TIERS[user?.kycTier ?? "NONE"];
+
+  if (tier.investmentLimit === null) return;
+  if (tier.investmentLimit === 0) {
+    throw new KycError(
+      "Verify your identity before investing",
+      403,
+      VERIFICATION_REQUIRED
+    );
+  }
+
+  const committed = await getCommittedAmount(tx, userId);
+  if (committed + amount > tier.investmentLimit) {
+    const remaining = Math.max(tier.investmentLimit - committed, 0);
+    throw new KycError(
+      `${tier.label} verification allows up to ${formatNaira(
+        tier.investmentLimit
+      )} invested at a time (${formatNaira(
+        remaining
+      )} remaining). Upgrade your verification to invest more.`,
+      403,
+      VERIFICATION_REQUIRED
+    );
+  }
+}
+
+/**
+ * Current tier, limit usage and the latest submission for the settings page
+ */
+export async function getKycStatus(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { kycTier: true },
+  });
+
+  if (!user) {
+    throw new KycError("User not found", 404);
+  }
+
+  const latestSubmission = await prisma.kycSubmission.findFirst({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      requestedTier: true,
+      status: true,
+      reason: true,
+      reviewedAt: true,
+      createdAt: true,
+      documents: { select: documentSelect },
+    },
+  });
+
+  return {
+    tier: user.kycTier,
+    investmentLimit: KYC_TIERS[user.kycTier].investmentLimit,
+    committed: await getCommittedAmount(prisma, userId),
+    latestSubmission,
+    tiers: KYC_TIERS,
+  };
+}
+
+/**
+ * Store the uploaded documents and queue a submission for review
+ */
+export async function submitKyc(userId: string, input: KycSubmissionInput) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { kycTier: true },
+  });
+
+  if (!user) {
+    throw new KycError("User not found", 404);
+  }
+
+  if (TIER_ORDER.indexOf(input.tier) <= TIER_ORDER.indexOf(user.kycTier)) {
+    throw new KycError(
+      `You are already verified to ${KYC_TIERS[user.kycTier].label}`
+    );
+  }
+
+  const pending = await prisma.kycSubmission.findFirst({
+    where: { userId, status: "PENDING" },
+    select: { id: true },
+  });
+
+  if (pending) {
+    throw new KycError("You already have a verification awaiting review");
+  }
+
+  checkRequirements(input);
+
+  const storage = getStorage();
+  const stored: { upload: KycDocumentUpload; storageKey: string }[] = [];
+
+  try {
+    for (const upload of input.documents) {
+      const storageKey = generateStorageKey(`kyc/${userId}`, upload.fileName);
+      await storage.put(storageKey, upload.body, upload.contentType);
+      stored.push({ upload, storageKey });
+    }
+
+    return await prisma.kycSubmission.create({
+      data: {
+        userId,
+        requestedTier: input.tier,
+        bvn: input.bvn && encryptSecret(input.bvn),
+        nin: input.nin && encryptSecret(input.nin),
+        documents: {
+          create: stored.map(({ upload, storageKey }) => ({
+            type: upload.type,
+            fileName: upload.fileName,
+            contentType: upload.contentType,
+            size: upload.body.length,
+            storageKey,
+          })),
+        },
+      },
+      select: {
+        id: true,
+        requestedTier: true,
+        status: true,
+        createdAt: true,
+        documents: { select: documentSelect },
+      },
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind when the submission isn't saved
+    await Promise.all(
+      stored.map(({ storageKey }) => storage.delete(storageKey))
+    );
+    throw error;
+  }
+}
+
+/**
+ * Admin decision on a pending submission. Approval raises the user's tier.
+ */
+export async function reviewKycSubmission(
+  submissionId: string,
+  decision: "approve" | "reject",
+  reviewerId: string,
+  reason?: string
+) {
+  const submission = await prisma.kycSubmission.findUnique({
+    where: { id: submissionId },
+    include: { user: { select: { kycTier: true } } },
+  });
+
+  if (!submission) {
+    throw new KycError("Verification submission not found", 404);
+  }
+
+  if (submission.userId === reviewerId) {
+    throw new KycError("You cannot review your own verification");
+  }
+
+  if (submission.status !== "PENDING") {
+    throw new KycError("This verification has already been reviewed");
+  }
+
+  if (decision === "reject" && !reason) {
+    throw new KycError("A reason is required to reject a verification");
+  }
+
+  const label = KYC_TIERS[submission.requestedTier].label;
+
+  return prisma.$transaction(async (tx) => {
+    // Guarded on PENDING so two reviewers can't both decide it
+    const claimed = await tx.kycSubmission.updateMany({
+      where: { id: submissionId, status: "PENDING" },
+      data: {
+        status: decision === "approve" ? "APPROVED" : "REJECTED",
+        reason: decision === "reject" ? reason : null,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new KycError("This verification has already been reviewed");
+    }
+
+    if (decision === "approve") {
+      // Never lower a tier granted by a later submission
+      if (
+        TIER_ORDER.indexOf(submission.requestedTier) >
+        TIER_ORDER.indexOf(submission.user.kycTier)
+      ) {
+        await tx.user.update({
+          where: { id: submission.userId },
+          data: { kycTier: submission.requestedTier },
+        });
+      }
+
+      const limit = KYC_TIERS[submission.requestedTier].investmentLimit;
+      await tx.notification.create({
+        data: {
+          title: "Identity Verified",
+          content: `Your ${label} verification was approved. ${
+            limit === null
+              ? "You can now invest without a limit."
+              : `You can now have up to ${formatNaira(limit)} invested.`
+          }`,
+          userId: submission.userId,
+        },
+      });
+    } else {
+      await tx.notification.create({
+        data: {
+          title: "Identity Verification Rejected",
+          content: `Your ${label} verification was not approved: ${reason}`,
+          userId: submission.userId,
+        },
+      });
+    }
+
+    return tx.kycSubmission.findUniqueOrThrow({
+      where: { id: submissionId },
+      select: {
+        id: true,
+        requestedTier: true,
+        status: true,
+        reason: true,
+        reviewedAt: true,
+      },
+    });
+  });
+}
+
+/**
+ * Document metadata with its owner and contents, for the download route to
+ * authorize and stream
+ */
+export async function getKycDocument(documentId: string) {
+  const document = await prisma.kycDocument.findUnique({
+    where: { id: documentId },
+    include: { submission: { select: { userId: true } } },
+  });
+
+  if (!document) {
+    throw new KycError("Document not found", 404);
+  }
+
+  return {
+    userId: document.submission.userId,
+    fileName: document.fileName,
+    read: async () => {
+      const stored = await getStorage().get(document.storageKey);
+      if (!stored) {
+        throw new KycError("Document file is missing", 404);
+      }
+      return stored;
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+  LedgerError,
+  fromKobo,
+  getAccountBalance,
+  getDistributionFund,
+  getSystemAccount,
+  getUserAccount,
+  getWalletSummary,
+  postTransaction,
+  recordDeposit,
+  recordDistributionFunding,
+  recordFee,
+  recordInvestment,
+  recordInvestmentRefund,
+  recordMaturity,
+  recordReturn,
+  recordWithdrawal,
+  toKobo,
+} from "@/lib/ledger";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+// Sum of every entry ever posted, which double entry keeps at zero
+async function ledgerTotal() {
+  const result = await prisma.ledgerEntry.aggregate({ _sum: { amount: true } });
+  return result._sum.amount ?? 0;
+}
+
+async function walletBalance(userId: string) {
+  const wallet = await getUserAccount(prisma, userId, "WALLET");
+  return getAccountBalance(prisma, wallet.id);
+}
+
+describe("kobo conversion", () => {
+  it("rounds naira to whole kobo and back", () => {
+    expect(toKobo(1234.565)).toBe(123457);
+    expect(toKobo(0.1 + 0.2)).toBe(30);
+    expect(fromKobo(123457)).toBe(1234.57);
+  });
+});
+
+describe("postTransaction", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = (await createUser()).id;
+  });
+
+  it("refuses entries that do not balance", async () => {
+    const wallet = await getUserAccount(prisma, userId, "WALLET");
+    const gateway = await getSystemAccount(prisma, "GATEWAY");
+
+    await expect(
+      postTransaction(prisma, {
+        type: "DEPOSIT",
+        reference: `unbalanced:${userId}`,
+        description: "Unbalanced",
+        entries: [
+          { accountId: gateway.id, amount: -100 },
+          { accountId: wallet.id, amount: 99 },
+        ],
+      })
+    ).rejects.toThrow("Transaction entries must sum to zero");
+    expect(
+      await prisma.ledgerTransaction.count({
+        where: { reference: `unbalanced:${userId}` },
+      })
+    ).toBe(0);
+  });
+
+  it("refuses single entries and fractional or zero amounts", async () => {
+    const wallet = await getUserAccount(prisma, userId, "WALLET");
+    const gateway = await getSystemAccount(prisma, "GATEWAY");
+    const post = (entries: { accountId: string; amount: number }[]) =>
+      postTransaction(prisma, {
+        type: "DEPOSIT",
+        reference: `invalid:${userId}`,
+        description: "Invalid",
+        entries,
+      });
+
+    await expect(post([{ accountId: wallet.id, amount: 0 }])).rejects.toThrow(
+      LedgerError
+    );
+    await expect(
+      post([
+        { accountId: gateway.id, amount: -0.5 },
+        { accountId: wallet.id, amount: 0.5 },
+      ])
+    ).rejects.toThrow("Entry amounts must be non-zero whole kobo");
+    await expect(
+      post([
+        { accountId: gateway.id, amount: 0 },
+        { accountId: wallet.id, amount: 0 },
+      ])
+    ).rejects.toThrow("Entry amounts must be non-zero whole kobo");
+  });
+
+  it("posts a reference only once", async () => {
+    const deposit = () =>
+      recordDeposit(prisma, {
+        userId,
+        amount: 50_000,
+        reference: `deposit:${userId}`,
+        description: "Deposit",
+      });
+
+    const first = await deposit();
+    const second = await deposit();
+
+    expect(second.id).toBe(first.id);
+    expect(await walletBalance(userId)).toBe(50_000);
+  });
+});
+
+describe("wallet postings", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = (await createUser()).id;
+    await recordDeposit(prisma, {
+      userId,
+      amount: 100_000,
+      reference: `deposit:${userId}`,
+      description: "Deposit",
+    });
+  });
+
+  it("keeps every account balanced through a full investment cycle", async () => {
+    const business = await createOpportunity();
+    const fund = await getDistributionFund(prisma, business);
+    await recordDistributionFunding(prisma, {
+      business,
+      amount: 20_000,
+      reference: `fund:${business.id}`,
+      description: "Fund",
+    });
+
+    await recordInvestment(prisma, {
+      userId,
+      amount: 60_000,
+      reference: `invest:${userId}`,
+      description: "Investment",
+    });
+    await recordReturn(prisma, {
+      userId,
+      amount: 5_000,
+      reference: `return:${userId}`,
+      description: "Return",
+      fundAccountId: fund.id,
+    });
+    await recordInvestmentRefund(prisma, {
+      userId,
+      amount: 10_000,
+      reference: `refund:${userId}`,
+      description: "Refund",
+    });
+    await recordMaturity(prisma, {
+      userId,
+      amount: 50_000,
+      reference: `maturity:${userId}`,
+      description: "Maturity",
+    });
+    await recordFee(prisma, {
+      userId,
+      amount: 1_000,
+      reference: `fee:${userId}`,
+      description: "Fee",
+    });
+    await recordWithdrawal(prisma, {
+      userId,
+      amount: 30_000,
+      reference: `withdraw:${userId}`,
+      description: "Withdrawal",
+    });
+
+    expect(await ledgerTotal()).toBe(0);
+    expect(await getAccountBalance(prisma, fund.id)).toBe(15_000);
+    expect(await getWalletSummary(userId, prisma)).toEqual({
+      available: 74_000,
+      invested: 0,
+      totalReturns: 5_000,
+      totalWithdrawn: 30_000,
+      totalFees: 1_000,
+    });
+  });
+
+  it.each([
+    ["an investment", recordInvestment],
+    ["a withdrawal", recordWithdrawal],
+    ["a fee", recordFee],
+  ])("refuses %s the wallet cannot cover", async (_label, post) => {
+    await expect(
+      post(prisma, {
+        userId,
+        amount: 100_001,
+        reference: `overdraft:${userId}`,
+        description: "Overdraft",
+      })
+    ).rejects.toThrow("Insufficient wallet balance");
+
+    expect(await walletBalance(userId)).toBe(100_000);
+    expect(await ledgerTotal()).toBe(0);
+  });
+
+  it("refuses amounts that are not positive whole kobo", async () => {
+    for (const amount of [0, -100, 10.5]) {
+      await expect(
+        recordDeposit(prisma, {
+          userId,
+          amount,
+          reference: `bad:${userId}:${amount}`,
+          description: "Bad",
+        })
+      ).rejects.toThrow("Amount must be a positive whole number of kobo");
+    }
+  });
+
+  it("does not let a user account be opened as a system account", async () => {
+    await expect(getSystemAccount(prisma, "WALLET")).rejects.toThrow(
+      "WALLET is not a system account type"
+    );
+    await expect(getUserAccount(prisma, userId, "FEES")).rejects.toThrow(
+      "FEES is not a user account type"
+    );
+  });
+});
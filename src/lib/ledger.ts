@@ -0,0 +1,436 @@
+// Double-entry ledger backing user wallets. All amounts are integer kobo;
+// balances are always derived from entries and never stored directly.
+
+import {
+  LedgerAccountType,
+  LedgerTransactionType,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+
+export type LedgerClient = Prisma.TransactionClient | typeof prisma;
+
+export interface LedgerEntryInput {
+  accountId: string;
+  amount: number; // in kobo; positive increases the account balance
+}
+
+export interface LedgerPostingInput {
+  userId: string;
+  amount: number; // in kobo
+  reference: string;
+  description: string;
+}
+
+export interface WalletSummary {
+  available: number;
+  invested: number;
+  totalReturns: number;
+  totalWithdrawn: number;
+  totalFees: number;
+}
+
+export class LedgerError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "LedgerError";
+  }
+}
+
+const USER_ACCOUNT_TYPES: LedgerAccountType[] = ["WALLET", "INVESTED"];
+const OPPORTUNITY_ACCOUNT_TYPES: LedgerAccountType[] = ["DISTRIBUTION_FUND"];
+
+/**
+ * Convert a naira amount to integer kobo
+ */
+export function toKobo(naira: number): number {
+  return Math.round(naira * 100);
+}
+
+/**
+ * Convert integer kobo to a naira amount
+ */
+export function fromKobo(kobo: number): number {
+  return kobo / 100;
+}
+
+/**
+ * Get (or lazily open) one of a user's wallet accounts
+ */
+export async function getUserAccount(
+  client: LedgerClient,
+  userId: string,
+  type: LedgerAccountType
+) {
+  if (!USER_ACCOUNT_TYPES.includes(type)) {
+    throw new LedgerError(`${type} is not a user account type`);
+  }
+
+  const code = `USER:${userId}:${type}`;
+  return client.ledgerAccount.upsert({
+    where: { code },
+    update: {},
+    create: { code, type, userId },
+  });
+}
+
+/**
+ * Get (or lazily open) a platform-level account
+ */
+export async function getSystemAccount(
+  client: LedgerClient,
+  type: LedgerAccountType
+) {
+  if (
+    USER_ACCOUNT_TYPES.includes(type) ||
+    OPPORTUNITY_ACCOUNT_TYPES.includes(type)
+  ) {
+    throw new LedgerError(`${type} is not a system account type`);
+  }
+
+  const code = `SYSTEM:${type}`;
+  return client.ledgerAccount.upsert({
+    where: { code },
+    update: {},
+    create: { code, type },
+  });
+}
+
+/**
+ * Get (or lazily open) the account an opportunity's owner pays into to fund
+ * distributions to its investors
+ */
+export async function getDistributionFund(
+  client: LedgerClient,
+  business: { id: string; ownerId: string }
+) {
+  const code = `BUSINESS:${business.id}:DISTRIBUTION_FUND`;
+  return client.ledgerAccount.upsert({
+    where: { code },
+    update: {},
+    create: { code, type: "DISTRIBUTION_FUND", userId: business.ownerId },
+  });
+}
+
+/**
+ * Current balance of an account in kobo
+ */
+export async function getAccountBalance(
+  client: LedgerClient,
+  accountId: string
+): Promise<number> {
+  const result = await client.ledgerEntry.aggregate({
+    where: { accountId },
+    _sum: { amount: true },
+  });
+  return result._sum.amount ?? 0;
+}
+
+/**
+ * Post a balanced transaction. The reference is an idempotency key: posting
+ * the same reference twice returns the original transaction unchanged.
+ * Entries are never updated or deleted; corrections are new transactions.
+ */
+export async function postTransaction(
+  client: LedgerClient,
+  input: {
+    type: LedgerTransactionType;
+    reference: string;
+    description: string;
+    entries: LedgerEntryInput[];
+  }
+) {
+  if (input.entries.length < 2) {
+    throw new LedgerError("A transaction needs at least two entries");
+  }
+
+  for (const entry of input.entries) {
+    if (!Number.isInteger(entry.amount) || entry.amount === 0) {
+      throw new LedgerError("Entry amounts must be non-zero whole kobo");
+    }
+  }
+
+  const total = input.entries.reduce((sum, entry) => sum + entry.amount, 0);
+  if (total !== 0) {
+    throw new LedgerError("Transaction entries must sum to zero");
+  }
+
+  const existing = await client.ledgerTransaction.findUnique({
+    where: { reference: input.reference },
+    include: { entries: true },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  return client.ledgerTransaction.create({
+    data: {
+      type: input.type,
+      reference: input.reference,
+      description: input.description,
+      entries: {
+        create: input.entries,
+      },
+    },
+    include: { entries: true },
+  });
+}
+
+// Move money between two accounts as a single balanced transaction
+async function transfer(
+  client: LedgerClient,
+  input: {
+    type: LedgerTransactionType;
+    reference: string;
+    description: string;
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+  }
+) {
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw new LedgerError("Amount must be a positive whole number of kobo");
+  }
+
+  return postTransaction(client, {
+    type: input.type,
+    reference: input.reference,
+    description: input.description,
+    entries: [
+      { accountId: input.fromAccountId, amount: -input.amount },
+      { accountId: input.toAccountId, amount: input.amount },
+    ],
+  });
+}
+
+/**
+ * Ensure a user's available balance covers a debit
+ */
+export async function assertSufficientBalance(
+  client: LedgerClient,
+  userId: string,
+  amount: number
+) {
+  const wallet = await getUserAccount(client, userId, "WALLET");
+  const balance = await getAccountBalance(client, wallet.id);
+  if (balance < amount) {
+    throw new LedgerError(
+      `Insufficient wallet balance. Available: ₦${fromKobo(
+        balance
+      ).toLocaleString()}`
+    );
+  }
+}
+
+/**
+ * Money received through a payment gateway into a user's wallet
+ */
+export async function recordDeposit(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  const gateway = await getSystemAccount(client, "GATEWAY");
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  return transfer(client, {
+    type: "DEPOSIT",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: gateway.id,
+    toAccountId: wallet.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Money an owner paid through a gateway into an opportunity's distribution
+ * fund
+ */
+export async function recordDistributionFunding(
+  client: LedgerClient,
+  input: Omit<LedgerPostingInput, "userId"> & {
+    business: { id: string; ownerId: string };
+  }
+) {
+  const gateway = await getSystemAccount(client, "GATEWAY");
+  const fund = await getDistributionFund(client, input.business);
+  return transfer(client, {
+    type: "DEPOSIT",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: gateway.id,
+    toAccountId: fund.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Commit wallet funds to an investment
+ */
+export async function recordInvestment(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  await assertSufficientBalance(client, input.userId, input.amount);
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  const invested = await getUserAccount(client, input.userId, "INVESTED");
+  return transfer(client, {
+    type: "INVESTMENT",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: wallet.id,
+    toAccountId: invested.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Release committed principal back to the user's wallet
+ */
+export async function recordInvestmentRefund(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  const invested = await getUserAccount(client, input.userId, "INVESTED");
+  return transfer(client, {
+    type: "INVESTMENT_REFUND",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: invested.id,
+    toAccountId: wallet.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Return the principal of a matured investment to the user's wallet
+ */
+export async function recordMaturity(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  const invested = await getUserAccount(client, input.userId, "INVESTED");
+  return transfer(client, {
+    type: "MATURITY",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: invested.id,
+    toAccountId: wallet.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Credit an investment return to a user's wallet from the opportunity's
+ * distribution fund
+ */
+export async function recordReturn(
+  client: LedgerClient,
+  input: LedgerPostingInput & { fundAccountId: string }
+) {
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  return transfer(client, {
+    type: "RETURN",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: input.fundAccountId,
+    toAccountId: wallet.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Pay funds out of a user's wallet. Fails if the wallet cannot cover it.
+ */
+export async function recordWithdrawal(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  await assertSufficientBalance(client, input.userId, input.amount);
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  const gateway = await getSystemAccount(client, "GATEWAY");
+  return transfer(client, {
+    type: "WITHDRAWAL",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: wallet.id,
+    toAccountId: gateway.id,
+    amount: input.amount,
+  });
+}
+
+/**
+ * Charge a platform fee against a user's wallet
+ */
+export async function recordFee(
+  client: LedgerClient,
+  input: LedgerPostingInput
+) {
+  await assertSufficientBalance(client, input.userId, input.amount);
+  const wallet = await getUserAccount(client, input.userId, "WALLET");
+  const fees = await getSystemAccount(client, "FEES");
+  return transfer(client, {
+    type: "FEE",
+    reference: input.reference,
+    description: input.description,
+    fromAccountId: wallet.id,
+    toAccountId: fees.id,
+    amount: input.amount,
+  });
+}
+
+// Sum of a user's wallet entries belonging to transactions of one type
+async function sumWalletEntries(
+  client: LedgerClient,
+  userId: string,
+  type: LedgerTransactionType
+): Promise<number> {
+  const result = await client.ledgerEntry.aggregate({
+    where: {
+      account: { userId, type: "WALLET" },
+      transaction: { type },
+    },
+    _sum: { amount: true },
+  });
+  return result._sum.amount ?? 0;
+}
+
+/**
+ * Balances and lifetime totals for a user's wallet, in kobo
+ */
+export async function getWalletSummary(
+  userId: string,
+  client: LedgerClient = prisma
+): Promise<WalletSummary> {
+  const balances = await client.ledgerEntry.groupBy({
+    by: ["accountId"],
+    where: { account: { userId } },
+    _sum: { amount: true },
+  });
+  const accounts = await client.ledgerAccount.findMany({
+    where: { userId },
+    select: { id: true, type: true },
+  });
+
+  const balanceOf = (type: LedgerAccountType) => {
+    const account = accounts.find((a) => a.type === type);
+    const row = balances.find((b) => b.accountId === account?.id);
+    return row?._sum.amount ?? 0;
+  };
+
+  const [totalReturns, withdrawn, fees] = await Promise.all([
+    sumWalletEntries(client, userId, "RETURN"),
+    sumWalletEntries(client, userId, "WITHDRAWAL"),
+    sumWalletEntries(client, userId, "FEE"),
+  ]);
+
+  return {
+    available: balanceOf("WALLET"),
+    invested: balanceOf("INVESTED"),
+    totalReturns,
+    totalWithdrawn: -withdrawn,
+    totalFees: -fees,
+  };
+}
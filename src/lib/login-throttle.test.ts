@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getRequestContext } from "@/lib/login-throttle";
+
+describe("getRequestContext", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it("ignores addresses the client put in X-Forwarded-For", () => {
+    const context = getRequestContext({
+      "x-forwarded-for": "1.1.1.1, 203.0.113.7",
+    });
+    expect(context.ip).toBe("203.0.113.7");
+  });
+
+  it("uses the address seen by the outermost trusted proxy", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    const context = getRequestContext({
+      "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2",
+    });
+    expect(context.ip).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP without X-Forwarded-For", () => {
+    const context = getRequestContext({ "x-real-ip": "203.0.113.7" });
+    expect(context.ip).toBe("203.0.113.7");
+  });
+});
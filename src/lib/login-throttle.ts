@@ -0,0 +1,246 @@
+// Sign-in throttling: per-account lockout with exponential backoff, a
+// per-IP failure limit, and the LoginEvent trail behind both.
+
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+
+// Failures allowed before an account is locked
+export const MAX_FAILED_ATTEMPTS = 5;
+// First lockout lasts this long and doubles with every further failure
+const BASE_LOCKOUT_MINUTES = 1;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+// Failures from one IP, across any accounts, before it is slowed down
+const IP_FAILURE_LIMIT = 20;
+const IP_WINDOW_MINUTES = 15;
+
+// Error codes returned to clients from authorize()
+export const ACCOUNT_LOCKED = "ACCOUNT_LOCKED";
+export const TOO_MANY_ATTEMPTS = "TOO_MANY_ATTEMPTS";
+
+export type LoginFailureReason =
+  | "UNKNOWN_USER"
+  | "INVALID_PASSWORD"
+  | "INVALID_TWO_FACTOR_CODE"
+  | "ACCOUNT_LOCKED"
+  | "ACCOUNT_SUSPENDED"
+  | "ACCOUNT_DEACTIVATED"
+  | "TOO_MANY_ATTEMPTS";
+
+export interface LoginContext {
+  email: string;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export class LoginThrottleError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "LoginThrottleError";
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+/**
+ * Client IP and user agent from the request next-auth passes to authorize()
+ */
+export function getRequestContext(
+  headers: Record<string, unknown> | undefined
+): { ip: string | null; userAgent: string | null } {
+  const header = (name: string) => {
+    const value = headers?.[name];
+    if (Array.isArray(value)) return String(value[0]);
+    return typeof value === "string" ? value : null;
+  };
+
+  // Each proxy appends the address it received the request from, so only the
+  // entry added by the outermost trusted proxy is safe to use; anything to
+  // its left was sent by the client
+  const forwarded = header("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hop = forwarded?.length
+    ? forwarded[Math.max(forwarded.length - getTrustedProxyHops(), 0)]
+    : null;
+
+  return {
+    ip: hop ?? header("x-real-ip"),
+    userAgent: header("user-agent"),
+  };
+}
+
+/**
+ * Lockout length after the given number of consecutive failures, or 0 while
+ * still under the limit
+ */
+export function getLockoutMinutes(failedCount: number): number {
+  if (failedCount < MAX_FAILED_ATTEMPTS) return 0;
+  return Math.min(
+    BASE_LOCKOUT_MINUTES * 2 ** (failedCount - MAX_FAILED_ATTEMPTS),
+    MAX_LOCKOUT_MINUTES
+  );
+}
+
+/**
+ * When the IP may try again, or null if it is not being throttled. Past the
+ * limit each further failure doubles the wait after the most recent one.
+ */
+export async function getIpRetryAt(
+  ip: string | null | undefined,
+  now = new Date()
+): Promise<Date | null> {
+  if (!ip) return null;
+
+  const since = new Date(now.getTime() - IP_WINDOW_MINUTES * 60 * 1000);
+  const where = { ip, success: false, createdAt: { gte: since } };
+
+  const count = await prisma.loginEvent.count({ where });
+  if (count < IP_FAILURE_LIMIT) return null;
+
+  const latest = await prisma.loginEvent.findFirst({
+    where,
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+  if (!latest) return null;
+
+  const waitMinutes = Math.min(
+    BASE_LOCKOUT_MINUTES * 2 ** (count - IP_FAILURE_LIMIT),
+    IP_WINDOW_MINUTES
+  );
+  const retryAt = new Date(
+    latest.createdAt.getTime() + waitMinutes * 60 * 1000
+  );
+
+  return retryAt > now ? retryAt : null;
+}
+
+export async function recordLoginSuccess(
+  userId: string,
+  context: LoginContext
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    }),
+    prisma.loginEvent.create({
+      data: {
+        userId,
+        email: context.email,
+        success: true,
+        ip: context.ip,
+        userAgent: context.userAgent,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Log a refused attempt. Wrong passwords and codes against a real account
+ * also count towards its lockout; attempts refused because of an existing
+ * lock do not extend it.
+ */
+export async function recordLoginFailure(
+  context: LoginContext,
+  reason: LoginFailureReason,
+  userId?: string
+): Promise<void> {
+  await prisma.loginEvent.create({
+    data: {
+      userId,
+      email: context.email,
+      success: false,
+      reason,
+      ip: context.ip,
+      userAgent: context.userAgent,
+    },
+  });
+
+  if (
+    !userId ||
+    (reason !== "INVALID_PASSWORD" && reason !== "INVALID_TWO_FACTOR_CODE")
+  ) {
+    return;
+  }
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+
+  const lockoutMinutes = getLockoutMinutes(user.failedLoginCount);
+  if (lockoutMinutes === 0) return;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: new Date(Date.now() + lockoutMinutes * 60 * 1000) },
+  });
+
+  // Tell the owner once, when the lock first kicks in
+  if (user.failedLoginCount === MAX_FAILED_ATTEMPTS) {
+    await prisma.notification.create({
+      data: {
+        title: "Account Temporarily Locked",
+        content: `Sign-in to your account was locked after ${MAX_FAILED_ATTEMPTS} failed attempts. If this wasn't you, reset your password.`,
+        userId,
+      },
+    });
+  }
+}
+
+export async function getRecentLoginEvents(userId: string, limit = 20) {
+  return prisma.loginEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      success: true,
+      reason: true,
+      ip: true,
+      userAgent: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Admin override: clear the failure count and any active lock
+ */
+export async function unlockAccount(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, lockedUntil: true, failedLoginCount: true },
+  });
+
+  if (!user) {
+    throw new LoginThrottleError("User not found", 404);
+  }
+
+  if (!user.lockedUntil && user.failedLoginCount === 0) {
+    throw new LoginThrottleError("Account is not locked");
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    }),
+    prisma.notification.create({
+      data: {
+        title: "Account Unlocked",
+        content:
+          "An administrator unlocked your account. You can sign in again.",
+        userId,
+      },
+    }),
+  ]);
+}
@@ -0,0 +1,40 @@
+// Outgoing email: transport selection and message sending
+
+import { createConsoleTransport } from "./transports/console";
+import { createFileTransport } from "./transports/file";
+import { MailMessage, MailTransport } from "./types";
+
+export * from "./types";
+
+const MAIL_FROM_NAME = "NaijaConnect Capital";
+
+let overrideTransport: MailTransport | null = null;
+
+/**
+ * Transport used for outgoing mail, selected with MAIL_TRANSPORT
+ * (console or file). Defaults to printing messages to the server log.
+ */
+export function getMailTransport(): MailTransport {
+  if (overrideTransport) return overrideTransport;
+
+  const configured = (process.env.MAIL_TRANSPORT || "console").toLowerCase();
+  if (configured === "file") {
+    return createFileTransport(process.env.MAIL_OUTPUT_DIR || ".mail");
+  }
+  return createConsoleTransport();
+}
+
+/**
+ * Replace the configured transport, e.g. with an SMTP or API-backed one.
+ * Pass null to go back to the MAIL_TRANSPORT setting.
+ */
+export function setMailTransport(transport: MailTransport | null) {
+  overrideTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    text: `${message.text}\n\n— ${MAIL_FROM_NAME}`,
+  });
+}
@@ -0,0 +1,23 @@
+import { MailMessage, MailTransport } from "../types";
+
+/**
+ * Prints messages to the server log instead of sending them. Default for
+ * local development so links in emails can be copied from the terminal.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+
+    async send(message: MailMessage): Promise<void> {
+      console.log(
+        [
+          "📧 Outgoing email",
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          "",
+          message.text,
+        ].join("\n")
+      );
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { MailMessage, MailTransport } from "../types";
+
+/**
+ * Writes each message to its own .eml file in a directory, so emails sent
+ * during manual testing can be inspected afterwards
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+
+    async send(message: MailMessage): Promise<void> {
+      await mkdir(directory, { recursive: true });
+
+      const fileName = `${new Date()
+        .toISOString()
+        .replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9]/gi, "_")}.eml`;
+
+      const contents = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text,
+      ].join("\n");
+
+      await writeFile(path.join(directory, fileName), contents, "utf8");
+    },
+  };
+}
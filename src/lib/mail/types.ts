@@ -0,0 +1,16 @@
+// Shared types for outgoing email
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Contract every mail transport implements
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
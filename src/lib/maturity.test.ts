@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { subMonths } from "date-fns";
+import { prisma } from "@/lib/prisma";
+import {
+  getAccountBalance,
+  getDistributionFund,
+  getWalletSummary,
+  recordDeposit,
+  recordDistributionFunding,
+  recordInvestment,
+} from "@/lib/ledger";
+import { transitionInvestment } from "@/lib/investments";
+import { processMaturedInvestments } from "@/lib/maturity";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+// ₦100,000 at 20% a year over 12 months earns ₦20,000
+const PRINCIPAL = 100_000;
+const FINAL_RETURN = 20_000;
+
+// An ACTIVE investment whose 12-month timeline ended a month ago
+async function createMaturedInvestment() {
+  const investor = await createUser();
+  const business = await createOpportunity({
+    status: "FULLY_FUNDED",
+    currentRaised: PRINCIPAL,
+  });
+  const investment = await prisma.investment.create({
+    data: {
+      amount: PRINCIPAL,
+      status: "ACTIVE",
+      investorId: investor.id,
+      businessId: business.id,
+      createdAt: subMonths(new Date(), 13),
+    },
+  });
+
+  await recordDeposit(prisma, {
+    userId: investor.id,
+    amount: PRINCIPAL * 100,
+    reference: `deposit:${investment.id}`,
+    description: "Deposit",
+  });
+  await recordInvestment(prisma, {
+    userId: investor.id,
+    amount: PRINCIPAL * 100,
+    reference: `investment:${investment.id}:commit`,
+    description: "Investment",
+  });
+
+  return { investor, business, investment };
+}
+
+function fundDistributions(
+  business: { id: string; ownerId: string },
+  naira: number
+) {
+  return recordDistributionFunding(prisma, {
+    business,
+    amount: naira * 100,
+    reference: `fund:${business.id}:${naira}`,
+    description: "Fund",
+  });
+}
+
+describe("maturity settlement", () => {
+  let setup: Awaited<ReturnType<typeof createMaturedInvestment>>;
+
+  beforeEach(async () => {
+    setup = await createMaturedInvestment();
+  });
+
+  async function settle() {
+    const results = await processMaturedInvestments();
+    return results.find((r) => r.investmentId === setup.investment.id);
+  }
+
+  it("pays the final return from the distribution fund", async () => {
+    await fundDistributions(setup.business, 25_000);
+
+    expect(await settle()).toMatchObject({
+      status: "settled",
+      principal: PRINCIPAL,
+      finalReturn: FINAL_RETURN,
+    });
+
+    const fund = await getDistributionFund(prisma, setup.business);
+    expect(await getAccountBalance(prisma, fund.id)).toBe(5_000 * 100);
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: (PRINCIPAL + FINAL_RETURN) * 100,
+      invested: 0,
+      totalReturns: FINAL_RETURN * 100,
+    });
+    expect(
+      (
+        await prisma.investment.findUniqueOrThrow({
+          where: { id: setup.investment.id },
+        })
+      ).status
+    ).toBe("COMPLETED");
+  });
+
+  it("leaves the investment active while the fund can't cover the final return", async () => {
+    await fundDistributions(setup.business, 15_000);
+
+    expect(await settle()).toMatchObject({
+      status: "skipped",
+      reason: expect.stringContaining("doesn't cover the ₦20,000 final return"),
+    });
+
+    const fund = await getDistributionFund(prisma, setup.business);
+    expect(await getAccountBalance(prisma, fund.id)).toBe(15_000 * 100);
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: 0,
+      invested: PRINCIPAL * 100,
+    });
+    expect(
+      await prisma.investment.findUniqueOrThrow({
+        where: { id: setup.investment.id },
+      })
+    ).toMatchObject({ status: "ACTIVE" });
+
+    // Topping up the fund lets the next run settle it
+    await fundDistributions(setup.business, 5_000);
+    expect(await settle()).toMatchObject({ status: "settled" });
+  });
+
+  it("refuses a manual completion the fund can't cover", async () => {
+    await expect(
+      transitionInvestment(setup.investment.id, "COMPLETED", {
+        role: "SYSTEM",
+      })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+});
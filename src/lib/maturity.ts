@@ -0,0 +1,99 @@
+// Maturity processing: settle ACTIVE investments whose timeline has elapsed
+
+import { prisma } from "@/lib/prisma";
+import { fromKobo } from "@/lib/ledger";
+import {
+  InvestmentError,
+  calculateMaturitySettlement,
+  getMaturityDate,
+  transitionInvestment,
+} from "@/lib/investments";
+
+export interface MaturityResult {
+  investmentId: string;
+  investorName: string;
+  businessTitle: string;
+  maturedAt: Date;
+  principal: number;
+  finalReturn: number;
+  total: number;
+  status: "settled" | "would_settle" | "skipped";
+  reason?: string;
+}
+
+/**
+ * ACTIVE investments that have reached maturity as of the given date
+ */
+export async function findMaturedInvestments(now: Date = new Date()) {
+  const investments = await prisma.investment.findMany({
+    where: { status: "ACTIVE" },
+    include: {
+      business: true,
+      investor: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      returns: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Maturity depends on each opportunity's timeline, so filter in memory
+  return investments.filter(
+    (investment) => getMaturityDate(investment, investment.business) <= now
+  );
+}
+
+/**
+ * Settle every matured investment and move it to COMPLETED. Investments
+ * already completed by an earlier or concurrent run are skipped, so the job
+ * can be re-run safely. With dryRun nothing is written.
+ */
+export async function processMaturedInvestments(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<MaturityResult[]> {
+  const investments = await findMaturedInvestments(options.now);
+  const results: MaturityResult[] = [];
+
+  for (const investment of investments) {
+    const settlement = calculateMaturitySettlement(
+      investment,
+      investment.business,
+      investment.returns.reduce((sum, ret) => sum + ret.amount, 0)
+    );
+
+    const result: MaturityResult = {
+      investmentId: investment.id,
+      investorName: investment.investor.name,
+      businessTitle: investment.business.title,
+      maturedAt: getMaturityDate(investment, investment.business),
+      principal: fromKobo(settlement.principal),
+      finalReturn: fromKobo(settlement.finalReturn),
+      total: fromKobo(settlement.total),
+      status: options.dryRun ? "would_settle" : "settled",
+    };
+
+    if (!options.dryRun) {
+      try {
+        await transitionInvestment(
+          investment.id,
+          "COMPLETED",
+          { role: "SYSTEM" },
+          "Investment reached maturity"
+        );
+      } catch (error) {
+        // Another run got there first, or the distribution fund can't cover
+        // the final return yet; the next run tries again
+        if (!(error instanceof InvestmentError)) throw error;
+        result.status = "skipped";
+        result.reason = error.message;
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,472 @@
+// Investment opportunities: the public detail view with funding progress,
+// the business owner, their company and team, progress reports and data
+// room, and the owner's edits and status changes once it is live. The
+// detailed business plan is only shown to signed-in users (FR-2.2), and
+// opportunities still in vetting only to their owner and administrators.
+
+import { InvestmentStatus, OpportunityStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { Actor, can } from "@/lib/authorization";
+import { EDITABLE_STATUSES, VETTING_STATUSES } from "@/lib/vetting";
+import {
+  applyInvestmentTransition,
+  InvestmentActor,
+  markFullyFundedIfMet,
+} from "@/lib/investments";
+import {
+  assertOwnCompanyProfile,
+  companyProfileSelect,
+  presentCompanyProfile,
+} from "@/lib/company-profiles";
+import { listDataRoom } from "@/lib/opportunity-documents";
+
+export class OpportunityError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "OpportunityError";
+  }
+}
+
+// Fields an owner fills in when creating or editing an opportunity
+export const opportunitySchema = z.object({
+  title: z.string().min(1, "Title is required").max(200, "Title is too long"),
+  description: z
+    .string()
+    .min(10, "Description must be at least 10 characters")
+    .max(1000, "Description is too long"),
+  detailedPlan: z
+    .string()
+    .min(50, "Detailed plan must be at least 50 characters")
+    .max(5000, "Detailed plan is too long"),
+  targetCapital: z
+    .number()
+    .min(1000, "Target capital must be at least ₦1,000")
+    .max(1000000000, "Target capital cannot exceed ₦1B"),
+  minimumInvestment: z
+    .number()
+    .min(100, "Minimum investment must be at least ₦100"),
+  expectedROI: z
+    .number()
+    .min(0, "Expected ROI cannot be negative")
+    .max(1000, "Expected ROI cannot exceed 1000%"),
+  timeline: z
+    .number()
+    .min(1, "Timeline must be at least 1 month")
+    .max(120, "Timeline cannot exceed 120 months"),
+  industry: z.string().min(1, "Industry is required"),
+  riskLevel: z.enum(["Low", "Medium", "High"]),
+  // One of the owner's company profiles; null unlinks it
+  companyProfileId: z.string().nullable().optional(),
+});
+
+export type OpportunityInput = z.infer<typeof opportunitySchema>;
+
+export type OpportunityDetail = Awaited<
+  ReturnType<typeof getOpportunityDetail>
+>;
+
+/**
+ * One opportunity with its owner, company profile and team, funding
+ * progress, investor count, reports and data room documents (those the
+ * viewer can't download are marked locked). detailedPlan is null unless
+ * the viewer is signed in; viewer is null for anonymous visitors.
+ */
+export async function getOpportunityDetail(
+  businessId: string,
+  viewer: Actor | null
+) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      detailedPlan: true,
+      targetCapital: true,
+      minimumInvestment: true,
+      expectedROI: true,
+      timeline: true,
+      industry: true,
+      riskLevel: true,
+      status: true,
+      currentRaised: true,
+      reservedCapital: true,
+      ownerId: true,
+      createdAt: true,
+      owner: {
+        select: {
+          id: true,
+          name: true,
+          createdAt: true,
+          _count: { select: { businesses: true } },
+        },
+      },
+      companyProfile: { select: companyProfileSelect },
+      reports: {
+        orderBy: { createdAt: "desc" },
+        select: { id: true, title: true, content: true, createdAt: true },
+      },
+    },
+  });
+
+  // Unpublished opportunities look missing to everyone else
+  if (
+    !business ||
+    ((VETTING_STATUSES as readonly string[]).includes(business.status) &&
+      !(viewer && can(viewer, "opportunity:preview", business)))
+  ) {
+    throw new OpportunityError("Opportunity not found", 404);
+  }
+
+  const [investors, documents] = await Promise.all([
+    // Investors who have actually put money in, counted once each
+    prisma.investment.groupBy({
+      by: ["investorId"],
+      where: { businessId, status: { in: ["ACTIVE", "COMPLETED"] } },
+    }),
+    listDataRoom(businessId, viewer),
+  ]);
+
+  const { owner, detailedPlan, companyProfile, ...details } = business;
+  const remaining = Math.max(
+    business.targetCapital - business.currentRaised - business.reservedCapital,
+    0
+  );
+
+  return {
+    ...details,
+    detailedPlan: viewer ? detailedPlan : null,
+    owner: {
+      id: owner.id,
+      name: owner.name,
+      memberSince: owner.createdAt,
+      opportunityCount: owner._count.businesses,
+    },
+    companyProfile: companyProfile
+      ? presentCompanyProfile(companyProfile)
+      : null,
+    funding: {
+      raised: business.currentRaised,
+      reserved: business.reservedCapital,
+      target: business.targetCapital,
+      remaining,
+      percentFunded:
+        business.targetCapital > 0
+          ? Math.min(
+              (business.currentRaised / business.targetCapital) * 100,
+              100
+            )
+          : 0,
+    },
+    investorCount: investors.length,
+    documents,
+  };
+}
+
+// Published opportunities; owners can still adjust some of their terms
+export const LIVE_STATUSES: OpportunityStatus[] = [
+  "OPEN",
+  "PAUSED",
+  "FULLY_FUNDED",
+];
+
+// The only terms an owner can change once published, by how they read in
+// the notification investors get. Everything else was approved in review,
+// so it stays as approved; the target can come down but not go up.
+const LIVE_EDITABLE_FIELDS: Partial<Record<keyof OpportunityInput, string>> = {
+  targetCapital: "target capital",
+  minimumInvestment: "minimum investment",
+};
+
+// Status changes an owner can make, and the statuses each is allowed from
+export const OWNER_STATUS_CHANGES = [
+  "OPEN",
+  "PAUSED",
+  "CLOSED",
+  "CANCELLED",
+] as const satisfies readonly OpportunityStatus[];
+
+export type OwnerStatusChange = (typeof OWNER_STATUS_CHANGES)[number];
+
+const STATUS_CHANGE_FROM: Record<OwnerStatusChange, OpportunityStatus[]> = {
+  OPEN: ["PAUSED"],
+  PAUSED: ["OPEN"],
+  CLOSED: ["OPEN", "PAUSED", "FULLY_FUNDED"],
+  CANCELLED: [
+    "DRAFT",
+    "CHANGES_REQUESTED",
+    "APPROVED",
+    "OPEN",
+    "PAUSED",
+    "FULLY_FUNDED",
+  ],
+};
+
+const STATUS_CHANGE_MESSAGES: Record<
+  OwnerStatusChange,
+  { title: string; content: (title: string) => string }
+> = {
+  OPEN: {
+    title: "Opportunity Reopened",
+    content: (title) => `${title} is open for investment again`,
+  },
+  PAUSED: {
+    title: "Opportunity Paused",
+    content: (title) =>
+      `${title} has been paused by its owner and isn't taking new investments for now`,
+  },
+  CLOSED: {
+    title: "Opportunity Closed",
+    content: (title) =>
+      `${title} has closed to new investment. Your investment continues as before.`,
+  },
+  CANCELLED: {
+    title: "Opportunity Cancelled",
+    content: (title) => `${title} has been cancelled by its owner`,
+  },
+};
+
+// Sent instead of the reopened message when the target was met while paused
+const FULLY_FUNDED_MESSAGE = {
+  title: "Opportunity Fully Funded",
+  content: (title: string) =>
+    `${title} has reached its funding target and isn't taking new investments`,
+};
+
+const formatNaira = (amount: number) => `₦${amount.toLocaleString()}`;
+
+/**
+ * Notify everyone holding an investment in one of the given statuses, once
+ * per investor
+ */
+async function notifyInvestors(
+  tx: Prisma.TransactionClient,
+  businessId: string,
+  statuses: InvestmentStatus[],
+  notification: { title: string; content: string }
+) {
+  const investors = await tx.investment.groupBy({
+    by: ["investorId"],
+    where: { businessId, status: { in: statuses } },
+  });
+
+  if (investors.length === 0) return;
+
+  await tx.notification.createMany({
+    data: investors.map(({ investorId }) => ({
+      ...notification,
+      userId: investorId,
+    })),
+  });
+}
+
+/**
+ * Change an opportunity's details. Drafts and opportunities sent back with
+ * requested changes can be edited freely. Live ones can only lower their
+ * target, not below what is already raised or reserved, and change their
+ * minimum investment; investors are told about either.
+ */
+export async function updateOpportunity(
+  businessId: string,
+  changes: Partial<OpportunityInput>
+) {
+  const business = await prisma.business.findUniqueOrThrow({
+    where: { id: businessId },
+  });
+  const live = LIVE_STATUSES.includes(business.status);
+
+  if (!live && !EDITABLE_STATUSES.includes(business.status)) {
+    throw new OpportunityError(
+      "This opportunity can't be edited while it is being reviewed, or once it has been closed",
+      409
+    );
+  }
+
+  const minimumInvestment =
+    changes.minimumInvestment ?? business.minimumInvestment;
+  const targetCapital = changes.targetCapital ?? business.targetCapital;
+  if (minimumInvestment > targetCapital) {
+    throw new OpportunityError(
+      "Minimum investment cannot be greater than target capital"
+    );
+  }
+
+  if (changes.companyProfileId) {
+    await assertOwnCompanyProfile(business.ownerId, changes.companyProfileId);
+  }
+
+  const changed = (Object.keys(changes) as (keyof OpportunityInput)[]).filter(
+    (field) =>
+      changes[field] !== undefined && changes[field] !== business[field]
+  );
+
+  if (live && changed.some((field) => !(field in LIVE_EDITABLE_FIELDS))) {
+    throw new OpportunityError(
+      "Only the target capital and minimum investment can change once an opportunity is published. Everything else stays as approved in review.",
+      409
+    );
+  }
+
+  if (live && targetCapital > business.targetCapital) {
+    throw new OpportunityError(
+      "Target capital can't be raised once an opportunity is published",
+      409
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guarded on status so an edit can't slip in after a submission
+    const updated = await tx.business.updateMany({
+      where: { id: businessId, status: business.status },
+      data: changes,
+    });
+
+    if (updated.count === 0) {
+      throw new OpportunityError(
+        "This opportunity changed status before your changes were saved",
+        409
+      );
+    }
+
+    if (live && changed.includes("targetCapital")) {
+      // Checked against the stored totals so an investment made meanwhile
+      // can't leave it overfunded; also marks it FULLY_FUNDED when the lower
+      // target has been met
+      const fits = await tx.$executeRaw`
+        UPDATE "businesses"
+        SET "status" = CASE
+          WHEN "status" = 'OPEN' AND "currentRaised" >= "targetCapital" THEN 'FULLY_FUNDED'
+          ELSE "status"
+        END
+        WHERE "id" = ${businessId}
+          AND "currentRaised" + "reservedCapital" <= "targetCapital"`;
+
+      if (fits === 0) {
+        throw new OpportunityError(
+          `Target capital can't be lower than the ${formatNaira(
+            business.currentRaised + business.reservedCapital
+          )} already raised or reserved`
+        );
+      }
+    }
+
+    if (live && changed.length > 0) {
+      const summary = changed
+        .map(
+          (field) =>
+            `${LIVE_EDITABLE_FIELDS[field]} changed from ${formatNaira(
+              business[field] as number
+            )} to ${formatNaira(changes[field] as number)}`
+        )
+        .join("; ");
+
+      await notifyInvestors(tx, businessId, ["PENDING", "ACTIVE"], {
+        title: "Opportunity Updated",
+        content: `${business.title} has been updated: ${summary}`,
+      });
+    }
+
+    return tx.business.findUniqueOrThrow({ where: { id: businessId } });
+  });
+}
+
+/**
+ * Pause, reopen, close or cancel an opportunity. Reopening one that has met
+ * its target marks it FULLY_FUNDED instead. Closing and cancelling
+ * cancel its pending investments, refunding any that were already paid;
+ * an opportunity that investors have funded can be closed but not
+ * cancelled.
+ */
+export async function changeOpportunityStatus(
+  businessId: string,
+  status: OwnerStatusChange,
+  actor: InvestmentActor,
+  reason?: string
+) {
+  const business = await prisma.business.findUniqueOrThrow({
+    where: { id: businessId },
+  });
+
+  if (!STATUS_CHANGE_FROM[status].includes(business.status)) {
+    throw new OpportunityError(
+      `An opportunity that is ${business.status} can't be changed to ${status}`,
+      409
+    );
+  }
+
+  if (status === "CANCELLED") {
+    const funded = await prisma.investment.count({
+      where: { businessId, status: { in: ["ACTIVE", "COMPLETED"] } },
+    });
+
+    if (funded > 0) {
+      throw new OpportunityError(
+        "Investors have already funded this opportunity. Close it to new investment instead.",
+        409
+      );
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guarded on status so an investment can't complete the funding meanwhile
+    const claimed = await tx.business.updateMany({
+      where: { id: businessId, status: business.status },
+      data: { status, pausedByOwner: status === "PAUSED" },
+    });
+
+    if (claimed.count === 0) {
+      throw new OpportunityError(
+        "This opportunity was updated by someone else",
+        409
+      );
+    }
+
+    // Payments that completed while it was paused, or a lowered target, may
+    // have met the target already
+    const fullyFunded =
+      status === "OPEN" && (await markFullyFundedIfMet(tx, businessId));
+
+    const ending = status === "CLOSED" || status === "CANCELLED";
+
+    if (ending) {
+      const pending = await tx.investment.findMany({
+        where: { businessId, status: "PENDING" },
+        select: { id: true },
+      });
+
+      const note = `${business.title} was ${status.toLowerCase()}${
+        reason ? `: ${reason}` : ""
+      }`;
+      for (const investment of pending) {
+        await applyInvestmentTransition(
+          tx,
+          investment.id,
+          "CANCELLED",
+          actor,
+          note
+        );
+      }
+    }
+
+    // Pending investors whose investments were just cancelled have already
+    // been told why
+    const message = fullyFunded
+      ? FULLY_FUNDED_MESSAGE
+      : STATUS_CHANGE_MESSAGES[status];
+    await notifyInvestors(
+      tx,
+      businessId,
+      ending ? ["ACTIVE"] : ["PENDING", "ACTIVE"],
+      {
+        title: message.title,
+        content: `${message.content(business.title)}${
+          reason ? `. Reason: ${reason}` : ""
+        }`,
+      }
+    );
+
+    return tx.business.findUniqueOrThrow({ where: { id: businessId } });
+  });
+}
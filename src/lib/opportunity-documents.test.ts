@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InvestmentStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  assertDocumentConfiguration,
+  listDataRoom,
+} from "@/lib/opportunity-documents";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+describe("investor documents", () => {
+  let businessId: string;
+  let investorId: string;
+
+  beforeEach(async () => {
+    businessId = (await createOpportunity()).id;
+    investorId = (await createUser()).id;
+    await prisma.opportunityDocument.create({
+      data: {
+        businessId,
+        title: "Audited accounts",
+        category: "AUDITED_ACCOUNTS",
+        fileName: "accounts.pdf",
+        contentType: "application/pdf",
+        size: 1024,
+        storageKey: `documents/${businessId}/accounts.pdf`,
+      },
+    });
+  });
+
+  async function isLocked() {
+    const [document] = await listDataRoom(businessId, {
+      id: investorId,
+      role: "INVESTOR",
+    });
+    return document.locked;
+  }
+
+  function invest(status: InvestmentStatus) {
+    return prisma.investment.create({
+      data: { amount: 50_000, status, investorId, businessId },
+    });
+  }
+
+  it("stay locked for an investment that has not been paid for", async () => {
+    const investment = await invest("PENDING");
+    await prisma.payment.create({
+      data: {
+        reference: `unpaid:${investment.id}`,
+        provider: "MOCK",
+        amount: 50_000,
+        investmentId: investment.id,
+        userId: investorId,
+      },
+    });
+
+    expect(await isLocked()).toBe(true);
+  });
+
+  it("unlock once a pending investment is paid for", async () => {
+    const investment = await invest("PENDING");
+    await prisma.payment.create({
+      data: {
+        reference: `paid:${investment.id}`,
+        provider: "MOCK",
+        status: "SUCCESSFUL",
+        amount: 50_000,
+        investmentId: investment.id,
+        userId: investorId,
+      },
+    });
+
+    expect(await isLocked()).toBe(false);
+  });
+
+  it.each<[InvestmentStatus, boolean]>([
+    ["ACTIVE", false],
+    ["COMPLETED", false],
+    ["CANCELLED", true],
+  ])("with a %s investment, locked is %s", async (status, locked) => {
+    await invest(status);
+    expect(await isLocked()).toBe(locked);
+  });
+});
+
+describe("document link signing", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("needs DOCUMENT_URL_SECRET, with no fallback", () => {
+    vi.stubEnv("DOCUMENT_URL_SECRET", "");
+    vi.stubEnv("NEXTAUTH_SECRET", "nextauth-secret");
+    expect(() => assertDocumentConfiguration()).toThrow(
+      "DOCUMENT_URL_SECRET is not set"
+    );
+
+    vi.stubEnv("DOCUMENT_URL_SECRET", "document-secret");
+    expect(() => assertDocumentConfiguration()).not.toThrow();
+  });
+});
@@ -0,0 +1,383 @@
+// Opportunity data rooms: business plans, projections, CAC certificates and
+// accounts that owners attach for investors. Each document is public, for
+// signed-in users or for the opportunity's investors only. Files are served
+// through short-lived signed URLs and every download is recorded.
+
+import { createHash, createHmac } from "crypto";
+import { DocumentCategory, DocumentVisibility, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { Actor, can } from "@/lib/authorization";
+import { generateStorageKey, getStorage } from "@/lib/storage";
+import { safeCompare } from "@/lib/payments/signature";
+import { VETTING_STATUSES } from "@/lib/vetting";
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+export const ALLOWED_DOCUMENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "text/csv",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+export const DOCUMENT_CATEGORIES = [
+  "BUSINESS_PLAN",
+  "FINANCIAL_PROJECTIONS",
+  "CAC_CERTIFICATE",
+  "AUDITED_ACCOUNTS",
+  "OTHER",
+] as const satisfies readonly DocumentCategory[];
+
+export const DOCUMENT_VISIBILITIES = [
+  "PUBLIC",
+  "SIGNED_IN",
+  "INVESTORS",
+] as const satisfies readonly DocumentVisibility[];
+
+// How long a download link works once issued
+export const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// No new documents once an opportunity can't go any further
+const CLOSED_TO_UPLOADS = ["REJECTED", "CANCELLED"];
+
+export interface DocumentUpload {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface DocumentInput {
+  title: string;
+  category: DocumentCategory;
+  visibility: DocumentVisibility;
+}
+
+export interface DownloadRequest {
+  documentId: string;
+  expires: number;
+  userId: string | null;
+  signature: string;
+}
+
+export class DocumentError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "DocumentError";
+  }
+}
+
+// Never expose storage keys outside this module
+const documentSelect = {
+  id: true,
+  title: true,
+  category: true,
+  visibility: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.OpportunityDocumentSelect;
+
+// Links are signed with a key derived from DOCUMENT_URL_SECRET, which has
+// no fallback
+function getSigningKey(): Buffer {
+  const secret = process.env.DOCUMENT_URL_SECRET;
+  if (!secret) {
+    throw new DocumentError(
+      "Documents are unavailable: DOCUMENT_URL_SECRET is not set",
+      503
+    );
+  }
+  return createHash("sha256").update(`document-urls:${secret}`).digest();
+}
+
+/**
+ * Check the link signing secret when the server starts, so a missing one
+ * stops it instead of failing the first download
+ */
+export function assertDocumentConfiguration() {
+  getSigningKey();
+}
+
+function sign(documentId: string, expires: number, userId: string | null) {
+  return createHmac("sha256", getSigningKey())
+    .update(`${documentId}.${expires}.${userId ?? ""}`)
+    .digest("base64url");
+}
+
+/**
+ * Whether the viewer holds an active or completed investment, or a pending
+ * one they have paid for. Opening a checkout without paying unlocks nothing.
+ */
+async function hasInvested(businessId: string, viewer: Actor | null) {
+  if (!viewer) return false;
+
+  const investment = await prisma.investment.findFirst({
+    where: {
+      businessId,
+      investorId: viewer.id,
+      OR: [
+        { status: { in: ["ACTIVE", "COMPLETED"] } },
+        { status: "PENDING", payments: { some: { status: "SUCCESSFUL" } } },
+      ],
+    },
+    select: { id: true },
+  });
+  return investment !== null;
+}
+
+function canDownload(
+  document: { visibility: DocumentVisibility; business: { ownerId: string } },
+  viewer: Actor | null,
+  invested: boolean
+) {
+  if (document.visibility === "PUBLIC") return true;
+  if (!viewer) return false;
+  return can(viewer, "document:download", {
+    ...document,
+    hasInvested: invested,
+  });
+}
+
+/**
+ * Every document in the data room, marking the ones the viewer can't open
+ * so they know what signing in or investing unlocks
+ */
+export async function listDataRoom(businessId: string, viewer: Actor | null) {
+  const [documents, invested] = await Promise.all([
+    prisma.opportunityDocument.findMany({
+      where: { businessId },
+      orderBy: { createdAt: "asc" },
+      select: { ...documentSelect, business: { select: { ownerId: true } } },
+    }),
+    hasInvested(businessId, viewer),
+  ]);
+
+  return documents.map(({ business, ...document }) => ({
+    ...document,
+    locked: !canDownload({ ...document, business }, viewer, invested),
+  }));
+}
+
+/**
+ * The data room as its owner manages it, with download counts
+ */
+export async function listOwnerDocuments(businessId: string) {
+  const [documents, downloaders] = await Promise.all([
+    prisma.opportunityDocument.findMany({
+      where: { businessId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        ...documentSelect,
+        _count: { select: { downloads: true } },
+      },
+    }),
+    // Signed-in downloaders counted once per document
+    prisma.documentDownload.groupBy({
+      by: ["documentId", "userId"],
+      where: { document: { businessId }, userId: { not: null } },
+    }),
+  ]);
+
+  return documents.map(({ _count, ...document }) => ({
+    ...document,
+    downloads: _count.downloads,
+    uniqueDownloaders: downloaders.filter(
+      (downloader) => downloader.documentId === document.id
+    ).length,
+  }));
+}
+
+/**
+ * A document with its opportunity's owner and status, for authorization
+ */
+export async function getDocument(businessId: string, documentId: string) {
+  const document = await prisma.opportunityDocument.findFirst({
+    where: { id: documentId, businessId },
+    select: {
+      ...documentSelect,
+      business: { select: { ownerId: true, status: true } },
+    },
+  });
+
+  if (!document) {
+    throw new DocumentError("Document not found", 404);
+  }
+
+  return document;
+}
+
+export async function uploadDocument(
+  businessId: string,
+  uploaderId: string,
+  input: DocumentInput,
+  upload: DocumentUpload
+) {
+  const business = await prisma.business.findUniqueOrThrow({
+    where: { id: businessId },
+    select: { status: true },
+  });
+
+  if (CLOSED_TO_UPLOADS.includes(business.status)) {
+    throw new DocumentError(
+      "Documents can't be added to a rejected or cancelled opportunity",
+      409
+    );
+  }
+  if (!ALLOWED_DOCUMENT_TYPES.includes(upload.contentType)) {
+    throw new DocumentError(
+      "Documents must be PDF, Word, Excel, CSV, JPEG or PNG files"
+    );
+  }
+  if (upload.body.length === 0) {
+    throw new DocumentError("The document is empty");
+  }
+  if (upload.body.length > MAX_DOCUMENT_SIZE) {
+    throw new DocumentError(
+      `Documents must be ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB or smaller`
+    );
+  }
+
+  const storage = getStorage();
+  const storageKey = generateStorageKey(
+    `opportunities/${businessId}`,
+    upload.fileName
+  );
+  await storage.put(storageKey, upload.body, upload.contentType);
+
+  try {
+    return await prisma.opportunityDocument.create({
+      data: {
+        ...input,
+        businessId,
+        uploadedById: uploaderId,
+        fileName: upload.fileName,
+        contentType: upload.contentType,
+        size: upload.body.length,
+        storageKey,
+      },
+      select: documentSelect,
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind when the document isn't saved
+    await storage.delete(storageKey);
+    throw error;
+  }
+}
+
+export async function updateDocument(
+  documentId: string,
+  changes: Partial<DocumentInput>
+) {
+  return prisma.opportunityDocument.update({
+    where: { id: documentId },
+    data: changes,
+    select: documentSelect,
+  });
+}
+
+/**
+ * Remove a document, its download history and its file
+ */
+export async function deleteDocument(documentId: string) {
+  const document = await prisma.opportunityDocument.delete({
+    where: { id: documentId },
+    select: { storageKey: true },
+  });
+
+  // The row is gone, so a file that can't be removed is only logged
+  await getStorage()
+    .delete(document.storageKey)
+    .catch((error) =>
+      console.error(`Failed to delete document ${document.storageKey}:`, error)
+    );
+}
+
+/**
+ * Signed link to download the document, valid for DOWNLOAD_URL_TTL_SECONDS.
+ * The link carries the viewer so the download is recorded against them.
+ */
+export async function createDownloadUrl(
+  businessId: string,
+  documentId: string,
+  viewer: Actor | null
+) {
+  const document = await getDocument(businessId, documentId);
+
+  // Documents of unpublished opportunities look missing to everyone else
+  if (
+    (VETTING_STATUSES as readonly string[]).includes(
+      document.business.status
+    ) &&
+    !(viewer && can(viewer, "opportunity:preview", document.business))
+  ) {
+    throw new DocumentError("Document not found", 404);
+  }
+
+  if (!canDownload(document, viewer, await hasInvested(businessId, viewer))) {
+    throw new DocumentError(
+      viewer
+        ? "This document is only available to the opportunity's investors"
+        : "Sign in to download this document",
+      viewer ? 403 : 401
+    );
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS;
+  const userId = viewer?.id ?? null;
+  const query = new URLSearchParams({
+    expires: expires.toString(),
+    ...(userId ? { user: userId } : {}),
+    signature: sign(document.id, expires, userId),
+  });
+
+  return {
+    url: `/api/opportunities/${businessId}/documents/${document.id}/download?${query}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Check a signed link, record the download and return the file
+ */
+export async function readDocumentDownload(
+  download: DownloadRequest,
+  origin: { ip?: string | null; userAgent?: string | null }
+) {
+  const expected = sign(download.documentId, download.expires, download.userId);
+
+  if (!safeCompare(download.signature, expected)) {
+    throw new DocumentError("This download link is invalid", 403);
+  }
+  if (download.expires * 1000 < Date.now()) {
+    throw new DocumentError(
+      "This download link has expired. Open the document again for a new one.",
+      410
+    );
+  }
+
+  const document = await prisma.opportunityDocument.findUnique({
+    where: { id: download.documentId },
+    select: { fileName: true, storageKey: true },
+  });
+  const stored = document ? await getStorage().get(document.storageKey) : null;
+
+  if (!document || !stored) {
+    throw new DocumentError("Document not found", 404);
+  }
+
+  await prisma.documentDownload.create({
+    data: {
+      documentId: download.documentId,
+      userId: download.userId,
+      ip: origin.ip ?? null,
+      userAgent: origin.userAgent ?? null,
+    },
+  });
+
+  return { fileName: document.fileName, stored };
+}
@@ -0,0 +1,106 @@
+// Shared password policy (FR-1.5). Used by every place a password is set and
+// safe to import in the browser so forms can show rule results live.
+
+import { z } from "zod";
+import { COMMON_PASSWORDS } from "@/lib/common-passwords";
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export type PasswordRuleId =
+  | "length"
+  | "uppercase"
+  | "lowercase"
+  | "digit"
+  | "symbol"
+  | "common";
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  rules: PasswordRuleResult[];
+  failures: PasswordRuleResult[];
+}
+
+const PASSWORD_RULES: {
+  id: PasswordRuleId;
+  label: string;
+  test: (password: string) => boolean;
+}[] = [
+  {
+    id: "length",
+    label: `Between ${PASSWORD_MIN_LENGTH} and ${PASSWORD_MAX_LENGTH} characters`,
+    test: (password) =>
+      password.length >= PASSWORD_MIN_LENGTH &&
+      password.length <= PASSWORD_MAX_LENGTH,
+  },
+  {
+    id: "uppercase",
+    label: "At least one uppercase letter",
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: "lowercase",
+    label: "At least one lowercase letter",
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: "digit",
+    label: "At least one number",
+    test: (password) => /[0-9]/.test(password),
+  },
+  {
+    id: "symbol",
+    label: "At least one symbol (e.g. ! @ # $)",
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+  },
+  {
+    id: "common",
+    label: "Not a common or previously breached password",
+    test: (password) => !isCommonPassword(password),
+  },
+];
+
+/**
+ * Whether a password is on the bundled common/breached list, either as-is or
+ * once the digits and symbols usually tacked on to meet the other rules are
+ * stripped (so "Password1!" is caught as "password")
+ */
+export function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+  const base = lowered.replace(/[^a-z]+$/, "").replace(/^[^a-z]+/, "");
+  return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(base);
+}
+
+/**
+ * Check a password against every rule
+ */
+export function checkPassword(password: string): PasswordCheck {
+  const rules = PASSWORD_RULES.map((rule) => ({
+    id: rule.id,
+    label: rule.label,
+    passed: rule.test(password),
+  }));
+  const failures = rules.filter((rule) => !rule.passed);
+
+  return { valid: failures.length === 0, rules, failures };
+}
+
+/**
+ * Zod schema for a new password. Each failing rule becomes its own issue
+ * with the rule id in `params.rule`, so API clients can map them back.
+ */
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const failure of checkPassword(password).failures) {
+    ctx.addIssue({
+      code: "custom",
+      message: failure.label,
+      params: { rule: failure.id },
+    });
+  }
+});
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { MailMessage, setMailTransport } from "@/lib/mail";
+import { requestPasswordReset, resetPassword } from "@/lib/password-reset";
+import { createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+describe("password reset", () => {
+  afterEach(() => {
+    setMailTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it("emails a link that sets a new password once", async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ name: "test", send: async (m) => void sent.push(m) });
+    const user = await createUser();
+
+    await requestPasswordReset(user.email);
+    const token = sent[0].text.match(/token=([\w-]+)/)![1];
+    await resetPassword(token, "new-password-123");
+
+    await expect(resetPassword(token, "another-password")).rejects.toThrow();
+  });
+
+  it("stays silent about an email that fails to send", async () => {
+    setMailTransport({
+      name: "test",
+      send: async () => {
+        throw new Error("SMTP unavailable");
+      },
+    });
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const user = await createUser();
+
+    await expect(requestPasswordReset(user.email)).resolves.toBeUndefined();
+    await expect(
+      requestPasswordReset("nobody@example.com")
+    ).resolves.toBeUndefined();
+    expect(logged).toHaveBeenCalledOnce();
+    expect(
+      await prisma.passwordResetToken.count({ where: { userId: user.id } })
+    ).toBe(1);
+  });
+});
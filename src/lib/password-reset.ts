@@ -0,0 +1,134 @@
+// Forgot-password flow: emailed single-use tokens that expire after an hour
+
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { generateToken, hashToken } from "@/lib/tokens";
+import { AppError } from "@/lib/errors";
+import { revokeSessions } from "@/lib/sessions";
+
+const BASE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// How long a reset link stays valid
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+export class PasswordResetError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "PasswordResetError";
+  }
+}
+
+/**
+ * Email a reset link if the address belongs to an account. Callers should
+ * respond the same way either way so the endpoint cannot be used to find
+ * out which emails are registered.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) return;
+
+  const { token, tokenHash } = generateToken();
+
+  // Only the most recent link should work
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        tokenHash,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+      },
+    }),
+  ]);
+
+  const resetUrl = `${BASE_URL}/auth/reset-password?token=${token}`;
+
+  // A failed send must not change the response, or it would reveal that
+  // the address is registered
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Reset your NaijaConnect Capital password",
+      text: [
+        `Hello ${user.name},`,
+        "",
+        "We received a request to reset your password. Use the link below to choose a new one:",
+        "",
+        resetUrl,
+        "",
+        `This link expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can only be used once. If you did not ask for a reset, you can ignore this email.`,
+      ].join("\n"),
+    });
+  } catch (mailError) {
+    console.error("Password reset email error:", mailError);
+  }
+}
+
+/**
+ * Set a new password using an emailed token. Marks the token used and
+ * signs the user out everywhere by revoking their sessions.
+ */
+export async function resetPassword(
+  token: string,
+  password: string
+): Promise<void> {
+  const tokenHash = hashToken(token);
+  const hashedPassword = await bcrypt.hash(password, 12);
+
+  await prisma.$transaction(async (tx) => {
+    const resetToken = await tx.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt.getTime() < Date.now()
+    ) {
+      throw new PasswordResetError(
+        "This password reset link is invalid or has expired"
+      );
+    }
+
+    // Guard on usedAt so the same link cannot be redeemed twice
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new PasswordResetError(
+        "This password reset link is invalid or has expired"
+      );
+    }
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        // Proving control of the inbox lifts any sign-in lockout
+        failedLoginCount: 0,
+        lockedUntil: null,
+      },
+    });
+
+    await tx.passwordResetToken.deleteMany({
+      where: { userId: resetToken.userId, usedAt: null },
+    });
+
+    await revokeSessions(tx, resetToken.userId, "PASSWORD_CHANGED");
+
+    await tx.notification.create({
+      data: {
+        title: "Password Changed",
+        content:
+          "Your password was reset and all other sessions have been signed out. If this wasn't you, contact support immediately.",
+        userId: resetToken.userId,
+      },
+    });
+  });
+}
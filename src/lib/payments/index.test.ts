@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+  getAccountBalance,
+  getDistributionFund,
+  getWalletSummary,
+} from "@/lib/ledger";
+import { reserveCapacity } from "@/lib/investments";
+import {
+  PaymentWebhookEvent,
+  applyPaymentEvent,
+  assertPaymentConfiguration,
+  buildMockWebhook,
+  getActiveProviderName,
+  processPaymentWebhook,
+} from "@/lib/payments";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+const AMOUNT = 50_000;
+
+let reference = 0;
+
+function createPayment(data: {
+  userId: string;
+  investmentId?: string;
+  businessId?: string;
+  amount?: number;
+}) {
+  return prisma.payment.create({
+    data: {
+      reference: `TEST-${++reference}`,
+      provider: "MOCK",
+      amount: AMOUNT,
+      ...data,
+    },
+  });
+}
+
+function paymentEvent(
+  payment: { reference: string },
+  overrides: Partial<PaymentWebhookEvent> = {}
+): PaymentWebhookEvent {
+  return {
+    reference: payment.reference,
+    status: "SUCCESSFUL",
+    amount: AMOUNT,
+    currency: "NGN",
+    ...overrides,
+  };
+}
+
+// A pending investment holding its reservation, as checkout leaves it
+async function createPendingInvestment() {
+  const investor = await createUser();
+  const business = await createOpportunity();
+  const investment = await prisma.$transaction(async (tx) => {
+    await reserveCapacity(tx, business.id, AMOUNT);
+    return tx.investment.create({
+      data: {
+        amount: AMOUNT,
+        investorId: investor.id,
+        businessId: business.id,
+      },
+    });
+  });
+  const payment = await createPayment({
+    userId: investor.id,
+    investmentId: investment.id,
+  });
+  return { investor, business, investment, payment };
+}
+
+function getBusiness(id: string) {
+  return prisma.business.findUniqueOrThrow({ where: { id } });
+}
+
+function getInvestment(id: string) {
+  return prisma.investment.findUniqueOrThrow({ where: { id } });
+}
+
+describe("applyPaymentEvent", () => {
+  let setup: Awaited<ReturnType<typeof createPendingInvestment>>;
+
+  beforeEach(async () => {
+    setup = await createPendingInvestment();
+  });
+
+  it("turns the reservation into raised capital when the payment matches", async () => {
+    const settled = await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment)
+    );
+
+    expect(settled.status).toBe("SUCCESSFUL");
+    expect(settled.paidAt).toBeInstanceOf(Date);
+    expect(await getBusiness(setup.business.id)).toMatchObject({
+      currentRaised: AMOUNT,
+      reservedCapital: 0,
+    });
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: 0,
+      invested: AMOUNT * 100,
+    });
+  });
+
+  it("applies a repeated delivery only once", async () => {
+    await applyPaymentEvent("MOCK", paymentEvent(setup.payment));
+    await applyPaymentEvent("MOCK", paymentEvent(setup.payment));
+    await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment, { status: "FAILED" })
+    );
+
+    expect(await getBusiness(setup.business.id)).toMatchObject({
+      currentRaised: AMOUNT,
+      reservedCapital: 0,
+    });
+    expect((await getInvestment(setup.investment.id)).status).toBe("PENDING");
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: 0,
+      invested: AMOUNT * 100,
+    });
+    expect(
+      await prisma.ledgerTransaction.count({
+        where: { reference: `payment:${setup.payment.id}:deposit` },
+      })
+    ).toBe(1);
+  });
+
+  it("credits an underpayment to the wallet and audits it", async () => {
+    const settled = await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment, { amount: 20_000 })
+    );
+
+    expect(settled.status).toBe("MISMATCHED");
+    expect((await getInvestment(setup.investment.id)).status).toBe("PENDING");
+    expect(await getBusiness(setup.business.id)).toMatchObject({
+      currentRaised: 0,
+      reservedCapital: AMOUNT,
+    });
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: 20_000 * 100,
+      invested: 0,
+    });
+
+    const audit = await prisma.auditEvent.findFirstOrThrow({
+      where: { action: "payment:mismatch", targetId: setup.payment.id },
+    });
+    expect(JSON.parse(audit.metadata!)).toMatchObject({
+      expected: { amount: AMOUNT, currency: "NGN" },
+      received: { amount: 20_000, currency: "NGN" },
+      credited: true,
+    });
+  });
+
+  it("holds a payment in another currency without crediting it", async () => {
+    const settled = await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment, { currency: "USD" })
+    );
+
+    expect(settled.status).toBe("MISMATCHED");
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: 0,
+      invested: 0,
+    });
+    const audit = await prisma.auditEvent.findFirstOrThrow({
+      where: { action: "payment:mismatch", targetId: setup.payment.id },
+    });
+    expect(JSON.parse(audit.metadata!)).toMatchObject({ credited: false });
+  });
+
+  it("cancels the investment when its only checkout fails", async () => {
+    const settled = await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment, { status: "FAILED" })
+    );
+
+    expect(settled.status).toBe("FAILED");
+    expect((await getInvestment(setup.investment.id)).status).toBe("CANCELLED");
+    expect((await getBusiness(setup.business.id)).reservedCapital).toBe(0);
+  });
+
+  it("keeps the investment pending while another checkout is open", async () => {
+    const restarted = await createPayment({
+      userId: setup.investor.id,
+      investmentId: setup.investment.id,
+    });
+
+    await applyPaymentEvent(
+      "MOCK",
+      paymentEvent(setup.payment, { status: "FAILED" })
+    );
+    expect((await getInvestment(setup.investment.id)).status).toBe("PENDING");
+
+    await applyPaymentEvent("MOCK", paymentEvent(restarted));
+    expect(await getBusiness(setup.business.id)).toMatchObject({
+      currentRaised: AMOUNT,
+      reservedCapital: 0,
+    });
+  });
+
+  it("credits a second successful checkout to the wallet", async () => {
+    const restarted = await createPayment({
+      userId: setup.investor.id,
+      investmentId: setup.investment.id,
+    });
+
+    await applyPaymentEvent("MOCK", paymentEvent(setup.payment));
+    // The restarted checkout was expired, but the investor paid it anyway
+    const late = await applyPaymentEvent("MOCK", paymentEvent(restarted));
+
+    expect(late.status).toBe("SUCCESSFUL");
+    expect((await getBusiness(setup.business.id)).currentRaised).toBe(AMOUNT);
+    expect(await getWalletSummary(setup.investor.id, prisma)).toMatchObject({
+      available: AMOUNT * 100,
+      invested: AMOUNT * 100,
+    });
+  });
+
+  it("credits a distribution fund payment to the fund", async () => {
+    const business = await createOpportunity();
+    const payment = await createPayment({
+      userId: business.ownerId,
+      businessId: business.id,
+    });
+
+    await applyPaymentEvent("MOCK", paymentEvent(payment));
+    await applyPaymentEvent("MOCK", paymentEvent(payment));
+
+    const fund = await getDistributionFund(prisma, business);
+    expect(await getAccountBalance(prisma, fund.id)).toBe(AMOUNT * 100);
+  });
+
+  it("refuses events for another provider's payment", async () => {
+    await expect(
+      applyPaymentEvent("PAYSTACK", paymentEvent(setup.payment))
+    ).rejects.toThrow("Payment not found");
+  });
+});
+
+describe("payment configuration", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to the mock provider outside production", () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "");
+    vi.stubEnv("MOCK_PAYMENT_SECRET", "");
+
+    expect(getActiveProviderName()).toBe("MOCK");
+    expect(() => assertPaymentConfiguration()).not.toThrow();
+  });
+
+  it("signs mock webhooks without a configured secret", async () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "");
+    vi.stubEnv("MOCK_PAYMENT_SECRET", "");
+    const { payment } = await createPendingInvestment();
+
+    const { rawBody, headers } = buildMockWebhook({
+      reference: payment.reference,
+      amount: AMOUNT,
+      currency: "NGN",
+      status: "successful",
+    });
+    await expect(
+      processPaymentWebhook("MOCK", rawBody, headers)
+    ).resolves.toEqual({ handled: true });
+
+    headers.set("x-mock-signature", "forged");
+    await expect(
+      processPaymentWebhook("MOCK", rawBody, headers)
+    ).rejects.toThrow("Invalid webhook signature");
+  });
+
+  it("only checks secrets at startup in production", () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "paystack");
+    vi.stubEnv("PAYSTACK_SECRET_KEY", "");
+    expect(() => assertPaymentConfiguration()).not.toThrow();
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(() => assertPaymentConfiguration()).toThrow(
+      "PAYSTACK_SECRET_KEY is not set"
+    );
+  });
+
+  it("has no default provider in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("PAYMENT_PROVIDER", "");
+    expect(() => getActiveProviderName()).toThrow(
+      "No payment provider is configured"
+    );
+
+    vi.stubEnv("PAYMENT_PROVIDER", "mock");
+    expect(() => getActiveProviderName()).toThrow(
+      "No payment provider is configured"
+    );
+  });
+});
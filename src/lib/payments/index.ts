@@ -0,0 +1,529 @@
+// Payment subsystem: gateway selection, checkout initialization and
+// confirmation of webhook events against stored payments
+
+import { randomBytes } from "crypto";
+import { PaymentStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  recordDeposit,
+  recordDistributionFunding,
+  recordInvestment,
+  toKobo,
+} from "@/lib/ledger";
+import {
+  applyInvestmentTransition,
+  confirmReservation,
+} from "@/lib/investments";
+import { createPaystackGateway } from "./providers/paystack";
+import { createFlutterwaveGateway } from "./providers/flutterwave";
+import { createMockGateway, signMockPayload } from "./providers/mock";
+import {
+  PaymentError,
+  PaymentGateway,
+  PaymentProviderName,
+  PaymentWebhookEvent,
+} from "./types";
+
+export * from "./types";
+
+const BASE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+const globalForMock = globalThis as unknown as {
+  mockPaymentSecret: string | undefined;
+};
+
+/**
+ * Whether the local mock gateway can be used. Outside production it is the
+ * default when PAYMENT_PROVIDER is unset; in production it is never
+ * available.
+ */
+export function isMockPaymentsEnabled(): boolean {
+  if (process.env.NODE_ENV === "production") {
+    return false;
+  }
+  const configured = process.env.PAYMENT_PROVIDER?.toUpperCase();
+  return !configured || configured === "MOCK";
+}
+
+/**
+ * Provider used for new checkouts, selected with PAYMENT_PROVIDER
+ * (paystack, flutterwave or, outside production, mock). Production has no
+ * default.
+ */
+export function getActiveProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER?.toUpperCase();
+  if (configured === "PAYSTACK" || configured === "FLUTTERWAVE") {
+    return configured;
+  }
+  if (isMockPaymentsEnabled()) {
+    return "MOCK";
+  }
+  throw new PaymentError("No payment provider is configured", 503);
+}
+
+function requireSecret(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new PaymentError(`Payments are unavailable: ${name} is not set`, 503);
+  }
+  return value;
+}
+
+// Mock webhooks are signed and verified by this server alone, so without
+// MOCK_PAYMENT_SECRET a random secret is made for the life of the process
+function getMockSecret(): string {
+  if (process.env.MOCK_PAYMENT_SECRET) {
+    return process.env.MOCK_PAYMENT_SECRET;
+  }
+  globalForMock.mockPaymentSecret ??= randomBytes(32).toString("hex");
+  return globalForMock.mockPaymentSecret;
+}
+
+export function getPaymentGateway(name: PaymentProviderName): PaymentGateway {
+  switch (name) {
+    case "PAYSTACK":
+      return createPaystackGateway(requireSecret("PAYSTACK_SECRET_KEY"));
+    case "FLUTTERWAVE":
+      return createFlutterwaveGateway(
+        requireSecret("FLUTTERWAVE_SECRET_KEY"),
+        requireSecret("FLUTTERWAVE_SECRET_HASH")
+      );
+    case "MOCK":
+      // Mock webhooks are refused unless the mock gateway is in use
+      if (!isMockPaymentsEnabled()) {
+        throw new PaymentError("Unknown payment provider", 404);
+      }
+      return createMockGateway(getMockSecret(), BASE_URL);
+  }
+}
+
+/**
+ * Check the payment settings when a production server starts, so a missing
+ * provider or secret stops it instead of failing the first checkout.
+ * Elsewhere they are only checked when a payment needs them.
+ */
+export function assertPaymentConfiguration() {
+  if (process.env.NODE_ENV !== "production") {
+    return;
+  }
+  getPaymentGateway(getActiveProviderName());
+}
+
+export function parseProviderName(value: string): PaymentProviderName | null {
+  const name = value.toUpperCase();
+  return name === "PAYSTACK" || name === "FLUTTERWAVE" || name === "MOCK"
+    ? name
+    : null;
+}
+
+function generateReference(): string {
+  return `NCC-${Date.now()}-${randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Create a Payment for a pending investment and open a checkout session
+ * with the active provider
+ */
+export async function initializeInvestmentCheckout(investmentId: string) {
+  const investment = await prisma.investment.findUnique({
+    where: { id: investmentId },
+    include: {
+      investor: true,
+      business: { select: { id: true, title: true } },
+      payments: true,
+    },
+  });
+
+  if (!investment) {
+    throw new PaymentError("Investment not found", 404);
+  }
+
+  if (investment.status !== "PENDING") {
+    throw new PaymentError("Only pending investments can be paid for");
+  }
+
+  if (investment.payments.some((p) => p.status === "SUCCESSFUL")) {
+    throw new PaymentError("This investment has already been paid for");
+  }
+
+  const gateway = getPaymentGateway(getActiveProviderName());
+  const reference = generateReference();
+
+  const session = await gateway.initializeCheckout({
+    reference,
+    amount: investment.amount,
+    currency: "NGN",
+    email: investment.investor.email,
+    name: investment.investor.name,
+    callbackUrl: `${BASE_URL}/dashboard?payment=${reference}`,
+    metadata: {
+      investmentId: investment.id,
+      businessId: investment.business.id,
+    },
+  });
+
+  return prisma.payment.create({
+    data: {
+      reference,
+      provider: gateway.name,
+      amount: investment.amount,
+      currency: "NGN",
+      checkoutUrl: session.checkoutUrl,
+      providerReference: session.providerReference,
+      investmentId: investment.id,
+      userId: investment.investorId,
+    },
+  });
+}
+
+/**
+ * Create a Payment into an opportunity's distribution fund and open a
+ * checkout session with the active provider. Only the owner pays in.
+ */
+export async function initializeDistributionFundingCheckout(
+  businessId: string,
+  amount: number
+) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true, title: true, owner: true },
+  });
+
+  if (!business) {
+    throw new PaymentError("Business opportunity not found", 404);
+  }
+
+  const gateway = getPaymentGateway(getActiveProviderName());
+  const reference = generateReference();
+
+  const session = await gateway.initializeCheckout({
+    reference,
+    amount,
+    currency: "NGN",
+    email: business.owner.email,
+    name: business.owner.name,
+    callbackUrl: `${BASE_URL}/dashboard?payment=${reference}`,
+    metadata: {
+      businessId: business.id,
+      purpose: "distribution_fund",
+    },
+  });
+
+  return prisma.payment.create({
+    data: {
+      reference,
+      provider: gateway.name,
+      amount,
+      currency: "NGN",
+      checkoutUrl: session.checkoutUrl,
+      providerReference: session.providerReference,
+      businessId: business.id,
+      userId: business.owner.id,
+    },
+  });
+}
+
+/**
+ * Verify, parse and apply a raw webhook delivery from a provider
+ */
+export async function processPaymentWebhook(
+  providerName: PaymentProviderName,
+  rawBody: string,
+  headers: Headers
+) {
+  const gateway = getPaymentGateway(providerName);
+
+  if (!gateway.verifySignature(rawBody, headers)) {
+    throw new PaymentError("Invalid webhook signature", 401);
+  }
+
+  const event = gateway.parseWebhook(rawBody);
+  if (!event) {
+    return { handled: false };
+  }
+
+  await applyPaymentEvent(providerName, event);
+  return { handled: true };
+}
+
+/**
+ * Settle a pending payment. Successful payments turn the investment's
+ * capacity reservation into raised capital and expire the investment's other
+ * open checkouts; failed ones cancel the pending investment and release its
+ * reservation, unless another of its checkouts is still open. An investment
+ * is only ever paid for once: money from any further checkout goes to the
+ * investor's wallet, and failures of other checkouts leave a paid investment
+ * alone.
+ * Successful payments into a distribution fund are credited to the fund.
+ * Payments of the wrong amount or currency are held as MISMATCHED (see
+ * holdMismatchedPayment).
+ * Events for settled payments are ignored, so repeated deliveries of the same
+ * webhook are harmless.
+ */
+export async function applyPaymentEvent(
+  providerName: PaymentProviderName,
+  event: PaymentWebhookEvent
+) {
+  const payment = await prisma.payment.findUnique({
+    where: { reference: event.reference },
+    include: {
+      investment: {
+        include: {
+          investor: { select: { name: true } },
+          business: { select: { id: true, title: true, ownerId: true } },
+        },
+      },
+      business: { select: { id: true, title: true, ownerId: true } },
+    },
+  });
+
+  if (!payment || payment.provider !== providerName) {
+    throw new PaymentError("Payment not found", 404);
+  }
+
+  const { investment, business } = payment;
+  const paid = event.status === "SUCCESSFUL";
+  const amountMatches =
+    Math.abs(event.amount - payment.amount) < 0.01 &&
+    event.currency === payment.currency;
+  const succeeded = paid && amountMatches;
+
+  // An expired checkout can still be paid, but not failed, after the fact
+  const settleable: PaymentStatus[] = paid
+    ? ["PENDING", "EXPIRED"]
+    : ["PENDING"];
+
+  if (!settleable.includes(payment.status)) {
+    return payment;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guard on status so concurrent deliveries settle the payment only once
+    const settled = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: settleable } },
+      data: {
+        status: succeeded ? "SUCCESSFUL" : paid ? "MISMATCHED" : "FAILED",
+        providerReference: event.providerReference ?? payment.providerReference,
+        paidAt: paid ? event.paidAt ?? new Date() : null,
+      },
+    });
+
+    if (settled.count === 0) {
+      return payment;
+    }
+
+    if (paid && !amountMatches) {
+      await holdMismatchedPayment(tx, payment, event);
+      return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    }
+
+    if (!investment) {
+      // A failed payment into a distribution fund moves no money
+      if (succeeded && business) {
+        await recordDistributionFunding(tx, {
+          business,
+          amount: toKobo(payment.amount),
+          reference: `payment:${payment.id}:fund`,
+          description: `Distribution fund payment ${payment.reference} via ${payment.provider}`,
+        });
+
+        await tx.notification.create({
+          data: {
+            title: "Distribution Fund Topped Up",
+            content: `Your payment of ₦${payment.amount.toLocaleString()} into the distribution fund for ${
+              business.title
+            } was received`,
+            userId: payment.userId,
+          },
+        });
+      }
+      return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    }
+
+    // The investor may have cancelled, or paid through or restarted another
+    // checkout, while this one was still open
+    const current = await tx.investment.findUniqueOrThrow({
+      where: { id: investment.id },
+      select: {
+        status: true,
+        payments: {
+          where: {
+            status: { in: ["SUCCESSFUL", "PENDING"] },
+            id: { not: payment.id },
+          },
+          select: { status: true },
+        },
+      },
+    });
+    const alreadyPaid = current.payments.some((p) => p.status === "SUCCESSFUL");
+    const otherCheckoutOpen = current.payments.some(
+      (p) => p.status === "PENDING"
+    );
+    const isPending = current.status === "PENDING" && !alreadyPaid;
+
+    if (succeeded) {
+      // Funds always land in the investor's wallet first
+      await recordDeposit(tx, {
+        userId: investment.investorId,
+        amount: toKobo(payment.amount),
+        reference: `payment:${payment.id}:deposit`,
+        description: `Payment ${payment.reference} via ${payment.provider}`,
+      });
+
+      if (!isPending) {
+        await tx.notification.create({
+          data: {
+            title: "Payment Credited to Wallet",
+            content: `Your payment of ₦${payment.amount.toLocaleString()} for ${
+              investment.business.title
+            } arrived after the investment was ${
+              alreadyPaid ? "already paid for" : "cancelled"
+            } and has been credited to your wallet`,
+            userId: investment.investorId,
+          },
+        });
+        return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+      }
+
+      await recordInvestment(tx, {
+        userId: investment.investorId,
+        amount: toKobo(investment.amount),
+        reference: `investment:${investment.id}:commit`,
+        description: `Investment in ${investment.business.title}`,
+      });
+
+      await confirmReservation(tx, investment.businessId, investment.amount);
+
+      // Checkouts restarted for this investment can no longer pay for it
+      await tx.payment.updateMany({
+        where: {
+          investmentId: investment.id,
+          status: "PENDING",
+          id: { not: payment.id },
+        },
+        data: { status: "EXPIRED" },
+      });
+
+      await tx.notification.create({
+        data: {
+          title: "New Investment Received",
+          content: `${
+            investment.investor.name
+          } has invested ₦${investment.amount.toLocaleString()} in ${
+            investment.business.title
+          }`,
+          userId: investment.business.ownerId,
+        },
+      });
+
+      await tx.notification.create({
+        data: {
+          title: "Payment Confirmed",
+          content: `Your payment of ₦${investment.amount.toLocaleString()} for ${
+            investment.business.title
+          } was received. Your investment is pending approval`,
+          userId: investment.investorId,
+        },
+      });
+    } else if (isPending && !otherCheckoutOpen) {
+      // Cancelling releases the reservation and notifies the investor
+      await applyInvestmentTransition(
+        tx,
+        investment.id,
+        "CANCELLED",
+        { role: "SYSTEM" },
+        "Payment could not be completed"
+      );
+    }
+
+    return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  });
+}
+
+type SettlingPayment = Prisma.PaymentGetPayload<{
+  include: {
+    investment: { include: { business: { select: { title: true } } } };
+    business: { select: { id: true; title: true; ownerId: true } };
+  };
+}>;
+
+/**
+ * Hold a payment that arrived for a different amount or currency than its
+ * checkout asked for, so it settles nothing. Naira is credited where it was
+ * headed, the investor's wallet or the distribution fund; anything else
+ * waits for finance to refund it. Either way it is written to the audit log.
+ */
+async function holdMismatchedPayment(
+  tx: Prisma.TransactionClient,
+  payment: SettlingPayment,
+  event: PaymentWebhookEvent
+) {
+  const received = toKobo(event.amount);
+  const credited = event.currency === payment.currency && received > 0;
+  const title = payment.investment?.business.title ?? payment.business?.title;
+
+  if (credited && payment.business) {
+    await recordDistributionFunding(tx, {
+      business: payment.business,
+      amount: received,
+      reference: `payment:${payment.id}:fund`,
+      description: `Distribution fund payment ${payment.reference} via ${payment.provider} (expected ₦${payment.amount})`,
+    });
+  } else if (credited) {
+    await recordDeposit(tx, {
+      userId: payment.userId,
+      amount: received,
+      reference: `payment:${payment.id}:deposit`,
+      description: `Payment ${payment.reference} via ${payment.provider} (expected ₦${payment.amount})`,
+    });
+  }
+
+  await tx.notification.create({
+    data: {
+      title: "Payment Amount Did Not Match",
+      content: credited
+        ? `Your payment of ₦${event.amount.toLocaleString()} for ${title} did not match the ₦${payment.amount.toLocaleString()} due and has been credited to ${
+            payment.business ? "the distribution fund" : "your wallet"
+          } instead`
+        : `Your payment of ${event.amount.toLocaleString()} ${
+            event.currency
+          } for ${title} was not in ${
+            payment.currency
+          } and is being reviewed. Contact support to have it refunded`,
+      userId: payment.userId,
+    },
+  });
+
+  await recordAuditEvent(
+    {
+      action: "payment:mismatch",
+      actor: { id: null, role: null },
+      target: { type: "Payment", id: payment.id },
+      metadata: {
+        reference: payment.reference,
+        expected: { amount: payment.amount, currency: payment.currency },
+        received: { amount: event.amount, currency: event.currency },
+        credited,
+      },
+    },
+    tx
+  );
+}
+
+/**
+ * Build a signed webhook delivery for the mock provider, as the local
+ * checkout page would receive from a real gateway
+ */
+export function buildMockWebhook(payload: {
+  reference: string;
+  amount: number;
+  currency: string;
+  status: "successful" | "failed";
+}) {
+  const rawBody = JSON.stringify(payload);
+  const headers = new Headers({
+    "x-mock-signature": signMockPayload(getMockSecret(), rawBody),
+  });
+  return { rawBody, headers };
+}
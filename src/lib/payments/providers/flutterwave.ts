@@ -0,0 +1,77 @@
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentError,
+  PaymentGateway,
+  PaymentWebhookEvent,
+} from "../types";
+import { safeCompare } from "../signature";
+
+const FLUTTERWAVE_BASE_URL = "https://api.flutterwave.com/v3";
+
+/**
+ * Flutterwave adapter. Amounts are sent in major units and webhooks carry
+ * the secret hash configured on the dashboard in the `verif-hash` header.
+ */
+export function createFlutterwaveGateway(
+  secretKey: string,
+  secretHash: string
+): PaymentGateway {
+  return {
+    name: "FLUTTERWAVE",
+
+    async initializeCheckout(
+      request: CheckoutRequest
+    ): Promise<CheckoutSession> {
+      const response = await fetch(`${FLUTTERWAVE_BASE_URL}/payments`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tx_ref: request.reference,
+          amount: request.amount,
+          currency: request.currency,
+          redirect_url: request.callbackUrl,
+          customer: {
+            email: request.email,
+            name: request.name,
+          },
+          meta: request.metadata,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || result.status !== "success") {
+        throw new PaymentError(
+          result.message || "Failed to initialize Flutterwave checkout",
+          502
+        );
+      }
+
+      return { checkoutUrl: result.data.link };
+    },
+
+    verifySignature(_rawBody: string, headers: Headers): boolean {
+      const signature = headers.get("verif-hash");
+      if (!signature || !secretHash) return false;
+      return safeCompare(signature, secretHash);
+    },
+
+    parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+      const payload = JSON.parse(rawBody);
+      const data = payload.data;
+      if (payload.event !== "charge.completed" || !data?.tx_ref) return null;
+
+      return {
+        reference: data.tx_ref,
+        status: data.status === "successful" ? "SUCCESSFUL" : "FAILED",
+        amount: data.amount,
+        currency: data.currency,
+        providerReference: data.id?.toString(),
+        paidAt: data.created_at ? new Date(data.created_at) : new Date(),
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { createHmac } from "crypto";
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentGateway,
+  PaymentWebhookEvent,
+} from "../types";
+import { safeCompare } from "../signature";
+
+/**
+ * Local gateway used in development and tests. Checkout redirects to an
+ * in-app page instead of a hosted payment page, and webhooks are signed with
+ * an HMAC-SHA256 of the raw body so the full verification path is exercised.
+ */
+export function createMockGateway(
+  secret: string,
+  baseUrl: string
+): PaymentGateway {
+  return {
+    name: "MOCK",
+
+    async initializeCheckout(
+      request: CheckoutRequest
+    ): Promise<CheckoutSession> {
+      return {
+        checkoutUrl: `${baseUrl}/payments/mock-checkout?reference=${encodeURIComponent(
+          request.reference
+        )}`,
+        providerReference: `mock_${request.reference}`,
+      };
+    },
+
+    verifySignature(rawBody: string, headers: Headers): boolean {
+      const signature = headers.get("x-mock-signature");
+      if (!signature) return false;
+      return safeCompare(signature, signMockPayload(secret, rawBody));
+    },
+
+    parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+      const payload = JSON.parse(rawBody);
+      if (!payload.reference) return null;
+
+      return {
+        reference: payload.reference,
+        status: payload.status === "successful" ? "SUCCESSFUL" : "FAILED",
+        amount: payload.amount,
+        currency: payload.currency || "NGN",
+        providerReference: `mock_${payload.reference}`,
+        paidAt: new Date(),
+      };
+    },
+  };
+}
+
+export function signMockPayload(secret: string, rawBody: string): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
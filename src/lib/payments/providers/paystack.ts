@@ -0,0 +1,97 @@
+import { createHmac } from "crypto";
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentError,
+  PaymentGateway,
+  PaymentWebhookEvent,
+} from "../types";
+import { safeCompare } from "../signature";
+
+const PAYSTACK_BASE_URL = "https://api.paystack.co";
+
+/**
+ * Paystack adapter. Amounts are sent in kobo and webhooks are signed with
+ * an HMAC-SHA512 of the raw body using the secret key.
+ */
+export function createPaystackGateway(secretKey: string): PaymentGateway {
+  return {
+    name: "PAYSTACK",
+
+    async initializeCheckout(
+      request: CheckoutRequest
+    ): Promise<CheckoutSession> {
+      const response = await fetch(
+        `${PAYSTACK_BASE_URL}/transaction/initialize`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${secretKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            email: request.email,
+            amount: Math.round(request.amount * 100),
+            currency: request.currency,
+            reference: request.reference,
+            callback_url: request.callbackUrl,
+            metadata: request.metadata,
+          }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok || !result.status) {
+        throw new PaymentError(
+          result.message || "Failed to initialize Paystack checkout",
+          502
+        );
+      }
+
+      return {
+        checkoutUrl: result.data.authorization_url,
+        providerReference: result.data.access_code,
+      };
+    },
+
+    verifySignature(rawBody: string, headers: Headers): boolean {
+      const signature = headers.get("x-paystack-signature");
+      if (!signature || !secretKey) return false;
+
+      const expected = createHmac("sha512", secretKey)
+        .update(rawBody)
+        .digest("hex");
+      return safeCompare(signature, expected);
+    },
+
+    parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+      const payload = JSON.parse(rawBody);
+      const data = payload.data;
+      if (!data?.reference) return null;
+
+      if (payload.event === "charge.success") {
+        return {
+          reference: data.reference,
+          status: "SUCCESSFUL",
+          amount: data.amount / 100,
+          currency: data.currency,
+          providerReference: data.id?.toString(),
+          paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
+        };
+      }
+
+      if (payload.event === "charge.failed") {
+        return {
+          reference: data.reference,
+          status: "FAILED",
+          amount: data.amount / 100,
+          currency: data.currency,
+          providerReference: data.id?.toString(),
+        };
+      }
+
+      // Other events (transfers, subscriptions, ...) are not relevant here
+      return null;
+    },
+  };
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Constant-time string comparison for webhook signatures
+ */
+export function safeCompare(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(a, b);
+}
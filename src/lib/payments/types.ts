@@ -0,0 +1,46 @@
+// Shared types for the payment gateway abstraction
+
+import { AppError } from "@/lib/errors";
+
+export type PaymentProviderName = "PAYSTACK" | "FLUTTERWAVE" | "MOCK";
+
+export interface CheckoutRequest {
+  reference: string;
+  amount: number; // in naira
+  currency: string;
+  email: string;
+  name: string;
+  callbackUrl: string;
+  metadata?: Record<string, string>;
+}
+
+export interface CheckoutSession {
+  checkoutUrl: string;
+  providerReference?: string;
+}
+
+export interface PaymentWebhookEvent {
+  reference: string;
+  status: "SUCCESSFUL" | "FAILED";
+  amount: number; // in naira
+  currency: string;
+  providerReference?: string;
+  paidAt?: Date;
+}
+
+/**
+ * Contract every payment gateway adapter implements
+ */
+export interface PaymentGateway {
+  name: PaymentProviderName;
+  initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  verifySignature(rawBody: string, headers: Headers): boolean;
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null;
+}
+
+export class PaymentError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "PaymentError";
+  }
+}
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { setMailTransport } from "@/lib/mail";
+import { reviewErasureRequest } from "@/lib/privacy";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+describe("account erasure", () => {
+  beforeAll(() => {
+    setMailTransport({ name: "test", send: async () => {} });
+  });
+
+  afterAll(() => {
+    setMailTransport(null);
+  });
+
+  async function erase(userId: string) {
+    const reviewer = await createUser({
+      role: "ADMINISTRATOR",
+      adminRole: "COMPLIANCE",
+    });
+    const request = await prisma.erasureRequest.create({ data: { userId } });
+    return reviewErasureRequest(request.id, "approve", reviewer.id);
+  }
+
+  it("anonymizes the account and deactivates it", async () => {
+    const user = await createUser({ phone: "08012345678" });
+
+    expect(await erase(user.id)).toMatchObject({ status: "APPROVED" });
+
+    expect(
+      await prisma.user.findUniqueOrThrow({ where: { id: user.id } })
+    ).toMatchObject({
+      name: "Deleted user",
+      email: `erased-${user.id}@erased.invalid`,
+      phone: null,
+      status: "DEACTIVATED",
+      erasedAt: expect.any(Date),
+    });
+  });
+
+  it("pauses the opportunities an erased owner leaves open", async () => {
+    const owner = await createUser({ role: "BUSINESS_OWNER" });
+    const open = await createOpportunity({ ownerId: owner.id });
+    const closed = await createOpportunity({
+      ownerId: owner.id,
+      status: "CLOSED",
+    });
+
+    await erase(owner.id);
+
+    const statuses = await prisma.business.findMany({
+      where: { id: { in: [open.id, closed.id] } },
+      select: { id: true, status: true },
+    });
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        { id: open.id, status: "PAUSED" },
+        { id: closed.id, status: "CLOSED" },
+      ])
+    );
+  });
+
+  it("refuses while an owned opportunity has investors", async () => {
+    const owner = await createUser({ role: "BUSINESS_OWNER" });
+    const business = await createOpportunity({ ownerId: owner.id });
+    await prisma.investment.create({
+      data: {
+        amount: 50_000,
+        status: "ACTIVE",
+        investorId: (await createUser()).id,
+        businessId: business.id,
+      },
+    });
+
+    await expect(erase(owner.id)).rejects.toThrow(
+      "Owned opportunities still have pending or active investors"
+    );
+    expect(
+      (await prisma.business.findUniqueOrThrow({ where: { id: business.id } }))
+        .status
+    ).toBe("OPEN");
+  });
+});
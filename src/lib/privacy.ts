@@ -0,0 +1,630 @@
+// Personal data rights under the NDPR: a downloadable copy of what we hold
+// about a user, and account erasure on request. Erasure needs a compliance
+// administrator's approval and anonymizes the account in place instead of
+// deleting it: investments, payments, returns, withdrawals and the ledger
+// must be retained, so they stay attached to a user that no longer
+// identifies anyone.
+
+import bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
+import { ErasureStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { AppError } from "@/lib/errors";
+import { getStorage } from "@/lib/storage";
+import { revealIdentityNumbers } from "@/lib/kyc";
+import { fromKobo, getWalletSummary } from "@/lib/ledger";
+import { syncOwnerOpportunities } from "@/lib/account-status";
+
+export const ERASED_NAME = "Deleted user";
+export const ERASURE_PAGE_SIZE = 20;
+
+export const ERASURE_STATUSES = [
+  "PENDING",
+  "APPROVED",
+  "REJECTED",
+  "CANCELLED",
+] as const satisfies readonly ErasureStatus[];
+
+export class PrivacyError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "PrivacyError";
+  }
+}
+
+const erasureRequestSelect = {
+  id: true,
+  status: true,
+  reason: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+} satisfies Prisma.ErasureRequestSelect;
+
+// Placeholder address that can never receive mail or collide with a real one
+const erasedEmail = (userId: string) => `erased-${userId}@erased.invalid`;
+
+/**
+ * Everything held about the user that they can take away with them, as
+ * plain JSON. Secrets (password and 2FA hashes, tokens) and other people's
+ * data beyond names on shared records are left out.
+ */
+export async function exportPersonalData(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      pendingEmail: true,
+      role: true,
+      phone: true,
+      address: true,
+      verified: true,
+      kycTier: true,
+      status: true,
+      theme: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!user) {
+    throw new PrivacyError("User not found", 404);
+  }
+
+  const [
+    investments,
+    businesses,
+    withdrawals,
+    sentMessages,
+    receivedMessages,
+    notifications,
+    verifications,
+    signIns,
+    sessions,
+    erasureRequests,
+    wallet,
+  ] = await Promise.all([
+    prisma.investment.findMany({
+      where: { investorId: userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        amount: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        business: { select: { id: true, title: true } },
+        returns: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            amount: true,
+            description: true,
+            createdAt: true,
+          },
+        },
+        payments: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            reference: true,
+            provider: true,
+            status: true,
+            amount: true,
+            currency: true,
+            paidAt: true,
+            createdAt: true,
+          },
+        },
+        statusHistory: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+          },
+        },
+      },
+    }),
+    prisma.business.findMany({
+      where: { ownerId: userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        industry: true,
+        targetCapital: true,
+        currentRaised: true,
+        status: true,
+        createdAt: true,
+      },
+    }),
+    prisma.withdrawalRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        amount: true,
+        status: true,
+        bankName: true,
+        accountNumber: true,
+        accountName: true,
+        reason: true,
+        payoutReference: true,
+        paidAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.message.findMany({
+      where: { senderId: userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        subject: true,
+        content: true,
+        createdAt: true,
+        receiver: { select: { name: true } },
+      },
+    }),
+    prisma.message.findMany({
+      where: { receiverId: userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        subject: true,
+        content: true,
+        status: true,
+        createdAt: true,
+        sender: { select: { name: true } },
+      },
+    }),
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        read: true,
+        createdAt: true,
+      },
+    }),
+    prisma.kycSubmission.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        requestedTier: true,
+        status: true,
+        bvn: true,
+        nin: true,
+        reason: true,
+        reviewedAt: true,
+        createdAt: true,
+        documents: {
+          select: { type: true, fileName: true, size: true, createdAt: true },
+        },
+      },
+    }),
+    prisma.loginEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        success: true,
+        reason: true,
+        ip: true,
+        userAgent: true,
+        createdAt: true,
+      },
+    }),
+    prisma.userSession.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        ip: true,
+        userAgent: true,
+        lastSeenAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.erasureRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: erasureRequestSelect,
+    }),
+    getWalletSummary(userId),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    wallet: {
+      available: fromKobo(wallet.available),
+      invested: fromKobo(wallet.invested),
+      totalReturns: fromKobo(wallet.totalReturns),
+      totalWithdrawn: fromKobo(wallet.totalWithdrawn),
+      totalFees: fromKobo(wallet.totalFees),
+    },
+    investments,
+    businesses,
+    withdrawals,
+    messages: { sent: sentMessages, received: receivedMessages },
+    notifications,
+    identityVerifications: verifications.map(revealIdentityNumbers),
+    signInHistory: signIns,
+    sessions,
+    erasureRequests,
+  };
+}
+
+/**
+ * Reasons the account can't be erased yet. Money still moving through it
+ * has to settle first, or there would be nobody to pay out to.
+ */
+export async function getErasureBlockers(userId: string): Promise<string[]> {
+  const [user, openInvestments, ownedWithInvestors, heldWithdrawals, wallet] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true, adminRole: true },
+      }),
+      prisma.investment.count({
+        where: { investorId: userId, status: { in: ["PENDING", "ACTIVE"] } },
+      }),
+      prisma.business.count({
+        where: {
+          ownerId: userId,
+          investments: { some: { status: { in: ["PENDING", "ACTIVE"] } } },
+        },
+      }),
+      prisma.withdrawalRequest.count({
+        where: { userId, status: { in: ["PENDING", "APPROVED"] } },
+      }),
+      getWalletSummary(userId),
+    ]);
+
+  const blockers: string[] = [];
+
+  if (user?.role === "ADMINISTRATOR" && user.adminRole) {
+    blockers.push("Administrator access has to be revoked first");
+  }
+  if (openInvestments > 0) {
+    blockers.push("There are pending or active investments");
+  }
+  if (ownedWithInvestors > 0) {
+    blockers.push("Owned opportunities still have pending or active investors");
+  }
+  if (heldWithdrawals > 0) {
+    blockers.push("A withdrawal is still being processed");
+  }
+  if (wallet.available > 0) {
+    blockers.push("The wallet still has a balance to withdraw");
+  }
+
+  return blockers;
+}
+
+/**
+ * The user's most recent erasure request with anything currently standing
+ * in its way
+ */
+export async function getErasureStatus(userId: string) {
+  const [request, blockers] = await Promise.all([
+    prisma.erasureRequest.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: erasureRequestSelect,
+    }),
+    getErasureBlockers(userId),
+  ]);
+
+  return { request, blockers };
+}
+
+/**
+ * Ask for the account to be erased. Confirmed with the password since it
+ * can't be undone once approved.
+ */
+export async function requestErasure(
+  userId: string,
+  password: string,
+  reason?: string
+) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || user.erasedAt) {
+    throw new PrivacyError("User not found", 404);
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    throw new PrivacyError("Password is incorrect");
+  }
+
+  const pending = await prisma.erasureRequest.findFirst({
+    where: { userId, status: "PENDING" },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new PrivacyError("You already have an erasure request under review");
+  }
+
+  const blockers = await getErasureBlockers(userId);
+  if (blockers.length > 0) {
+    throw new PrivacyError(
+      `Your account can't be erased yet: ${blockers.join("; ")}`
+    );
+  }
+
+  const request = await prisma.erasureRequest.create({
+    data: { userId, reason },
+    select: erasureRequestSelect,
+  });
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "We received your request to delete your account",
+      text: [
+        `Hello ${user.name},`,
+        "",
+        "We received a request to erase your NaijaConnect Capital account. Our compliance team will review it and email you once it has been processed.",
+        "",
+        "Investment, payment and withdrawal records are kept as the law requires, but they will no longer be linked to your name or contact details.",
+        "",
+        "If you didn't make this request, cancel it from your privacy settings and change your password.",
+      ].join("\n"),
+    });
+  } catch (mailError) {
+    console.error("Erasure request email error:", mailError);
+  }
+
+  return request;
+}
+
+/**
+ * Withdraw an erasure request that hasn't been reviewed yet
+ */
+export async function cancelErasureRequest(userId: string): Promise<void> {
+  const cancelled = await prisma.erasureRequest.updateMany({
+    where: { userId, status: "PENDING" },
+    data: { status: "CANCELLED" },
+  });
+
+  if (cancelled.count === 0) {
+    throw new PrivacyError("No erasure request is under review", 404);
+  }
+}
+
+/**
+ * One page of erasure requests in a status, oldest first. Pending requests
+ * come with their current blockers so reviewers can see what is holding
+ * them up.
+ */
+export async function listErasureRequests(status: ErasureStatus, page = 1) {
+  const where: Prisma.ErasureRequestWhereInput = { status };
+
+  const [requests, total] = await Promise.all([
+    prisma.erasureRequest.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+      skip: (page - 1) * ERASURE_PAGE_SIZE,
+      take: ERASURE_PAGE_SIZE,
+      select: {
+        ...erasureRequestSelect,
+        user: {
+          select: { id: true, name: true, email: true, role: true },
+        },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.erasureRequest.count({ where }),
+  ]);
+
+  return {
+    requests: await Promise.all(
+      requests.map(async (request) => ({
+        ...request,
+        blockers:
+          request.status === "PENDING"
+            ? await getErasureBlockers(request.user.id)
+            : [],
+      }))
+    ),
+    total,
+    page,
+    pageSize: ERASURE_PAGE_SIZE,
+  };
+}
+
+/**
+ * Replace the user's personal data with placeholders and remove what isn't
+ * part of the financial record: sign-in history, sessions, tokens,
+ * notifications, identity numbers and documents, and the text of messages
+ * they sent. The account is deactivated, so opportunities it owns are
+ * paused like those of any deactivated owner. Returns the storage keys of
+ * removed documents, to delete once the transaction has committed.
+ */
+async function anonymizeUser(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<string[]> {
+  const now = new Date();
+  // Nobody knows this password, so the account can't be signed into again
+  const unusablePassword = await bcrypt.hash(
+    randomBytes(32).toString("hex"),
+    12
+  );
+
+  await tx.user.update({
+    where: { id: userId },
+    data: {
+      name: ERASED_NAME,
+      email: erasedEmail(userId),
+      password: unusablePassword,
+      passwordChangedAt: now,
+      phone: null,
+      address: null,
+      pendingEmail: null,
+      theme: null,
+      adminRole: null,
+      kycTier: "NONE",
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastStep: null,
+      failedLoginCount: 0,
+      lockedUntil: null,
+      status: "DEACTIVATED",
+      statusReason: "Account erased at the user's request",
+      statusExpiresAt: null,
+      statusChangedAt: now,
+      erasedAt: now,
+    },
+  });
+  await syncOwnerOpportunities(tx, userId, "DEACTIVATED");
+
+  const documents = await tx.kycDocument.findMany({
+    where: { submission: { userId } },
+    select: { storageKey: true },
+  });
+
+  await tx.kycDocument.deleteMany({ where: { submission: { userId } } });
+  await tx.kycSubmission.updateMany({
+    where: { userId },
+    data: { bvn: null, nin: null },
+  });
+  await tx.message.updateMany({
+    where: { senderId: userId },
+    data: {
+      subject: "[deleted]",
+      content: "This message was removed when its sender's account was erased.",
+    },
+  });
+  await tx.userSession.deleteMany({ where: { userId } });
+  await tx.loginEvent.deleteMany({ where: { userId } });
+  await tx.passwordResetToken.deleteMany({ where: { userId } });
+  await tx.emailVerificationToken.deleteMany({ where: { userId } });
+  await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await tx.notification.deleteMany({ where: { userId } });
+  await tx.erasureRequest.updateMany({
+    where: { userId },
+    data: { reason: null },
+  });
+
+  return documents.map((document) => document.storageKey);
+}
+
+/**
+ * Compliance decision on a pending request. Approval erases the account
+ * straight away; the user is emailed at their old address either way.
+ */
+export async function reviewErasureRequest(
+  requestId: string,
+  decision: "approve" | "reject",
+  reviewerId: string,
+  note?: string
+) {
+  const request = await prisma.erasureRequest.findUnique({
+    where: { id: requestId },
+    include: { user: { select: { name: true, email: true } } },
+  });
+
+  if (!request) {
+    throw new PrivacyError("Erasure request not found", 404);
+  }
+
+  if (request.userId === reviewerId) {
+    throw new PrivacyError("You cannot review your own erasure request");
+  }
+
+  if (request.status !== "PENDING") {
+    throw new PrivacyError("This erasure request has already been reviewed");
+  }
+
+  if (decision === "reject" && !note) {
+    throw new PrivacyError("A reason is required to reject an erasure request");
+  }
+
+  if (decision === "approve") {
+    const blockers = await getErasureBlockers(request.userId);
+    if (blockers.length > 0) {
+      throw new PrivacyError(
+        `This account can't be erased yet: ${blockers.join("; ")}`
+      );
+    }
+  }
+
+  const { reviewed, storageKeys } = await prisma.$transaction(async (tx) => {
+    // Guarded on PENDING so two reviewers can't both decide it
+    const claimed = await tx.erasureRequest.updateMany({
+      where: { id: requestId, status: "PENDING" },
+      data: {
+        status: decision === "approve" ? "APPROVED" : "REJECTED",
+        reviewNote: decision === "reject" ? note : null,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new PrivacyError("This erasure request has already been reviewed");
+    }
+
+    let storageKeys: string[] = [];
+    if (decision === "approve") {
+      storageKeys = await anonymizeUser(tx, request.userId);
+    } else {
+      await tx.notification.create({
+        data: {
+          title: "Account Erasure Declined",
+          content: `Your request to erase your account was declined: ${note}`,
+          userId: request.userId,
+        },
+      });
+    }
+
+    const reviewed = await tx.erasureRequest.findUniqueOrThrow({
+      where: { id: requestId },
+      select: erasureRequestSelect,
+    });
+
+    return { reviewed, storageKeys };
+  });
+
+  const storage = getStorage();
+  await Promise.all(
+    storageKeys.map((key) =>
+      storage
+        .delete(key)
+        .catch((error) =>
+          console.error(`Failed to delete erased document ${key}:`, error)
+        )
+    )
+  );
+
+  try {
+    await sendMail({
+      to: request.user.email,
+      subject:
+        decision === "approve"
+          ? "Your NaijaConnect Capital account has been erased"
+          : "Your account erasure request was declined",
+      text: [
+        `Hello ${request.user.name},`,
+        "",
+        decision === "approve"
+          ? "Your account has been erased as you requested. Your personal details have been removed, and the investment and payment records we must keep are no longer linked to you. This is the last email you will receive from us."
+          : `Your request to erase your account was declined: ${note}`,
+      ].join("\n"),
+    });
+  } catch (mailError) {
+    console.error("Erasure review email error:", mailError);
+  }
+
+  return reviewed;
+}
@@ -0,0 +1,185 @@
+// Self-service profile management (FR-1.6): contact details, email and
+// password changes, and display preferences stored with the account.
+
+import bcrypt from "bcryptjs";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { sendVerificationEmail } from "@/lib/email-verification";
+import { AppError } from "@/lib/errors";
+import { revokeSessions } from "@/lib/sessions";
+
+export const THEMES = ["light", "dark"] as const;
+
+/**
+ * Phone number normalized to E.164 (+<country code><number>). Nigerian
+ * local numbers starting with 0 are assumed to be +234; anything else must
+ * include its country code so diaspora numbers are unambiguous.
+ */
+export const phoneSchema = z
+  .string()
+  .transform((value) => value.replace(/[\s\-().]/g, ""))
+  .transform((value) =>
+    /^0[789]\d{9}$/.test(value) ? `+234${value.slice(1)}` : value
+  )
+  .transform((value) => (value.startsWith("00") ? `+${value.slice(2)}` : value))
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^\+[1-9]\d{6,14}$/,
+        "Enter a phone number with its country code, e.g. +44 7700 900123"
+      )
+  );
+
+export interface ProfileUpdate {
+  name?: string;
+  phone?: string | null;
+  address?: string | null;
+  email?: string;
+  theme?: (typeof THEMES)[number] | null;
+  currentPassword?: string;
+  newPassword?: string;
+}
+
+export class ProfileError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "ProfileError";
+  }
+}
+
+const profileSelect = {
+  id: true,
+  name: true,
+  email: true,
+  pendingEmail: true,
+  role: true,
+  phone: true,
+  address: true,
+  verified: true,
+  theme: true,
+  kycTier: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export async function getProfile(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: profileSelect,
+  });
+
+  if (!user) {
+    throw new ProfileError("User not found", 404);
+  }
+
+  return user;
+}
+
+/**
+ * Apply a profile update. A new email only takes effect once the link sent
+ * to it is used, and changing email or password needs the current password.
+ * Changing the password signs out every session, including this one.
+ */
+export async function updateProfile(userId: string, update: ProfileUpdate) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new ProfileError("User not found", 404);
+  }
+
+  const emailChanged =
+    update.email !== undefined &&
+    update.email.toLowerCase() !== user.email.toLowerCase();
+
+  if (emailChanged || update.newPassword) {
+    if (!update.currentPassword) {
+      throw new ProfileError(
+        "Enter your current password to change your email or password"
+      );
+    }
+    if (!(await bcrypt.compare(update.currentPassword, user.password))) {
+      throw new ProfileError("Current password is incorrect");
+    }
+  }
+
+  if (update.newPassword && update.newPassword === update.currentPassword) {
+    throw new ProfileError(
+      "New password must be different from the current one"
+    );
+  }
+
+  if (emailChanged) {
+    const taken = await prisma.user.findUnique({
+      where: { email: update.email },
+      select: { id: true },
+    });
+    if (taken) {
+      throw new ProfileError("This email address is already in use");
+    }
+  }
+
+  const data: Prisma.UserUpdateInput = {
+    name: update.name,
+    phone: update.phone,
+    address: update.address,
+    theme: update.theme,
+  };
+
+  if (emailChanged) {
+    data.pendingEmail = update.email;
+  }
+
+  if (update.newPassword) {
+    data.password = await bcrypt.hash(update.newPassword, 12);
+    data.passwordChangedAt = new Date();
+    data.notifications = {
+      create: {
+        title: "Password Changed",
+        content:
+          "Your password was changed and all sessions have been signed out. If this wasn't you, reset your password and contact support immediately.",
+      },
+    };
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (update.newPassword) {
+      await revokeSessions(tx, userId, "PASSWORD_CHANGED");
+    }
+
+    return tx.user.update({
+      where: { id: userId },
+      data,
+      select: profileSelect,
+    });
+  });
+
+  if (emailChanged) {
+    await sendVerificationEmail(user, update.email);
+
+    // Warn the current address in case someone else is taking over
+    try {
+      await sendMail({
+        to: user.email,
+        subject: "Your NaijaConnect Capital email address is being changed",
+        text: [
+          `Hello ${user.name},`,
+          "",
+          `A request was made to change the email address on your account to ${update.email}. It will take effect once the new address is confirmed.`,
+          "",
+          "If this wasn't you, reset your password and contact support immediately.",
+        ].join("\n"),
+      });
+    } catch (mailError) {
+      console.error("Email change notice error:", mailError);
+    }
+  }
+
+  return {
+    user: updated,
+    emailVerificationSent: emailChanged,
+    passwordChanged: !!update.newPassword,
+  };
+}
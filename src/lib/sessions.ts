@@ -0,0 +1,150 @@
+// Server-side records of signed-in devices. Each session JWT carries the id
+// of its UserSession in the `sid` claim (next-auth rewrites `jti` on every
+// refresh, so it can't be used), and the jwt callback refuses tokens whose
+// record is missing or revoked.
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { LoginContext } from "@/lib/login-throttle";
+
+// How long a session lasts without activity; also the JWT lifetime
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+// lastSeenAt is only written this often to avoid a write per request
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SessionRevokeReason =
+  | "SIGNED_OUT"
+  | "REVOKED"
+  | "PASSWORD_CHANGED"
+  | "ACCOUNT_RESTRICTED";
+
+export class SessionError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "SessionError";
+  }
+}
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+function activeSince(now = new Date()): Date {
+  return new Date(now.getTime() - SESSION_MAX_AGE_SECONDS * 1000);
+}
+
+export async function createSession(
+  userId: string,
+  context: LoginContext
+): Promise<string> {
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+    },
+    select: { id: true },
+  });
+  return session.id;
+}
+
+/**
+ * Whether the token's session may still be used. Refreshes lastSeenAt
+ * when it has gone stale.
+ */
+export async function validateSession(
+  sessionId: string | undefined,
+  userId: string | undefined
+): Promise<boolean> {
+  if (!sessionId || !userId) return false;
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, lastSeenAt: true },
+  });
+
+  if (
+    !session ||
+    session.userId !== userId ||
+    session.revokedAt ||
+    session.lastSeenAt < activeSince()
+  ) {
+    return false;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * The user's sessions that can still be used, most recently active first
+ */
+export async function listActiveSessions(userId: string) {
+  return prisma.userSession.findMany({
+    where: { userId, revokedAt: null, lastSeenAt: { gte: activeSince() } },
+    orderBy: { lastSeenAt: "desc" },
+    select: {
+      id: true,
+      ip: true,
+      userAgent: true,
+      lastSeenAt: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Sign out one of the user's own sessions
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokeReason = "REVOKED"
+): Promise<void> {
+  const revoked = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  if (revoked.count === 0) {
+    throw new SessionError("Session not found", 404);
+  }
+}
+
+/**
+ * Sign out every session of the user except the given one. Pass
+ * keepSessionId as null to sign out all of them, e.g. after a password
+ * change. Accepts a transaction client so callers can revoke atomically
+ * with the change that prompted it.
+ */
+export async function revokeSessions(
+  client: Client,
+  userId: string,
+  reason: SessionRevokeReason,
+  keepSessionId: string | null = null
+): Promise<number> {
+  const revoked = await client.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(keepSessionId ? { id: { not: keepSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return revoked.count;
+}
+
+/**
+ * Mark a session signed out when its owner signs out normally
+ */
+export async function endSession(sessionId: string): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: "SIGNED_OUT" },
+  });
+}
@@ -0,0 +1,58 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { StorageAdapter, StoredObject } from "../types";
+
+// Content type is kept next to each file since the disk doesn't record it
+const META_SUFFIX = ".meta.json";
+
+/**
+ * Keeps files under a directory on the server's disk. Suitable for local
+ * development and single-server deployments.
+ */
+export function createLocalStorage(directory: string): StorageAdapter {
+  const root = path.resolve(directory);
+
+  // Refuse keys that would resolve outside the storage directory
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      await writeFile(
+        filePath + META_SUFFIX,
+        JSON.stringify({ contentType }),
+        "utf8"
+      );
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      const filePath = resolve(key);
+      try {
+        const [body, meta] = await Promise.all([
+          readFile(filePath),
+          readFile(filePath + META_SUFFIX, "utf8"),
+        ]);
+        return { body, contentType: JSON.parse(meta).contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      const filePath = resolve(key);
+      await rm(filePath, { force: true });
+      await rm(filePath + META_SUFFIX, { force: true });
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// Uploaded file storage: adapter selection and key generation
+
+import { randomBytes } from "crypto";
+import { createLocalStorage } from "./adapters/local";
+import { StorageAdapter } from "./types";
+
+export * from "./types";
+
+let overrideAdapter: StorageAdapter | null = null;
+
+/**
+ * Adapter used for uploaded files. Unless one is registered with
+ * setStorage(), files are kept on disk in STORAGE_LOCAL_DIR (default
+ * .storage).
+ */
+export function getStorage(): StorageAdapter {
+  if (overrideAdapter) return overrideAdapter;
+  return createLocalStorage(process.env.STORAGE_LOCAL_DIR || ".storage");
+}
+
+/**
+ * Replace the configured adapter, e.g. with an S3 or GCS-backed one.
+ * Pass null to go back to the local disk.
+ */
+export function setStorage(adapter: StorageAdapter | null) {
+  overrideAdapter = adapter;
+}
+
+/**
+ * Unguessable key under the given prefix, keeping the upload's extension
+ */
+export function generateStorageKey(prefix: string, fileName: string): string {
+  const extension = fileName.includes(".")
+    ? `.${fileName
+        .split(".")
+        .pop()!
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, "")}`
+    : "";
+  return `${prefix}/${Date.now()}-${randomBytes(12).toString(
+    "hex"
+  )}${extension}`;
+}
+
+/**
+ * Content-Disposition header for serving a file under its uploaded name: an
+ * ASCII-only filename= for older clients and the exact name as a UTF-8
+ * filename*=, so quotes, line breaks and non-ASCII characters in the name
+ * can't break the header
+ */
+export function contentDisposition(
+  type: "inline" | "attachment",
+  fileName: string
+): string {
+  // Lone surrogates can't be percent-encoded
+  const name = fileName.replace(/\p{Surrogate}/gu, "_");
+  const fallback = name.replace(/[^\x20-\x7e]|["\\%]/g, "_").trim();
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${
+    fallback || "download"
+  }"; filename*=UTF-8''${encoded}`;
+}
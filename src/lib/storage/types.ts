@@ -0,0 +1,17 @@
+// Shared types for uploaded file storage
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Contract every storage adapter implements. Keys are relative paths such
+ * as "kyc/<userId>/<file>" and are generated by the caller.
+ */
+export interface StorageAdapter {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
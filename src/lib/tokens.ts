@@ -0,0 +1,16 @@
+// One-time tokens sent to users by email. Only a SHA-256 hash is stored, so a
+// leaked database row cannot be turned back into a working link.
+
+import { createHash, randomBytes } from "crypto";
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a random URL-safe token together with the hash to store
+ */
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
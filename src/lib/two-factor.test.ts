@@ -0,0 +1,132 @@
+import { createHmac } from "crypto";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { prisma } from "@/lib/prisma";
+import { MAX_FAILED_ATTEMPTS } from "@/lib/login-throttle";
+import {
+  INVALID_TWO_FACTOR_CODE,
+  TWO_FACTOR_REQUIRED,
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  requireTwoFactorCode,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import { createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+// Independent RFC 6238 implementation, standing in for an authenticator app
+function totp(secret: string, offsetSteps = 0) {
+  let bits = "";
+  for (const char of secret) {
+    bits += "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+      .indexOf(char)
+      .toString(2)
+      .padStart(5, "0");
+  }
+  const key = Buffer.from(
+    bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2))
+  );
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(
+    BigInt(Math.floor(Date.now() / 30_000) + offsetSteps)
+  );
+  const hmac = createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000)
+    .toString()
+    .padStart(6, "0");
+}
+
+const request = () =>
+  new Request("http://localhost/api/test", {
+    headers: { "user-agent": "vitest" },
+  });
+
+describe("two-factor authentication", () => {
+  let userId: string;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  beforeAll(() => {
+    vi.stubEnv("FIELD_ENCRYPTION_KEY", "test-field-encryption-key");
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    userId = (await createUser()).id;
+    ({ secret } = await beginTwoFactorSetup(userId));
+    // The enrollment code is taken from the previous step, leaving the
+    // current one free for the tests
+    recoveryCodes = await enableTwoFactor(userId, totp(secret, -1));
+  });
+
+  it("stores the secret encrypted and issues recovery codes", async () => {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+    expect(user.twoFactorEnabled).toBe(true);
+    expect(user.twoFactorSecret).not.toContain(secret);
+    expect(recoveryCodes).toHaveLength(10);
+  });
+
+  it("accepts a code only once", async () => {
+    const code = totp(secret);
+
+    expect(await verifySecondFactor(userId, code)).toBe(true);
+    expect(await verifySecondFactor(userId, code)).toBe(false);
+  });
+
+  it("accepts each recovery code only once", async () => {
+    const [code] = recoveryCodes;
+
+    expect(await verifySecondFactor(userId, code.toUpperCase())).toBe(true);
+    expect(await verifySecondFactor(userId, code)).toBe(false);
+  });
+
+  it("asks for a code before a sensitive action", async () => {
+    const missing = await requireTwoFactorCode(userId, undefined, request());
+    expect(missing?.status).toBe(403);
+    expect(await missing?.json()).toMatchObject({ code: TWO_FACTOR_REQUIRED });
+
+    expect(await requireTwoFactorCode(userId, totp(secret), request())).toBe(
+      null
+    );
+  });
+
+  it("counts wrong codes towards the account lockout", async () => {
+    for (let attempt = 1; attempt < MAX_FAILED_ATTEMPTS; attempt++) {
+      const wrong = await requireTwoFactorCode(userId, "000000", request());
+      expect(await wrong?.json()).toMatchObject({
+        code: INVALID_TWO_FACTOR_CODE,
+      });
+    }
+    await requireTwoFactorCode(userId, "000000", request());
+
+    const locked = await requireTwoFactorCode(userId, totp(secret), request());
+    expect(locked?.status).toBe(429);
+  });
+
+  it("can't be turned off by an administrator", async () => {
+    const admin = await createUser({
+      role: "ADMINISTRATOR",
+      adminRole: "SUPPORT",
+    });
+
+    await expect(
+      disableTwoFactor(admin.id, "000000", request())
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,392 @@
+// TOTP two-factor authentication (RFC 6238): enrollment, verification,
+// recovery codes and re-verification before sensitive actions. Opt-in for
+// investors and business owners, mandatory for administrators.
+
+import { createHmac, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { hashToken } from "@/lib/tokens";
+import { AppError } from "@/lib/errors";
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { requestOrigin } from "@/lib/audit";
+import { ACCOUNT_LOCKED, recordLoginFailure } from "@/lib/login-throttle";
+
+const ISSUER = "NaijaConnect Capital";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes from one step either side to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+// Error codes returned to clients so they can prompt for a code
+export const TWO_FACTOR_REQUIRED = "TWO_FACTOR_REQUIRED";
+export const INVALID_TWO_FACTOR_CODE = "INVALID_TWO_FACTOR_CODE";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export class TwoFactorError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "TwoFactorError";
+  }
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Time step matched by a code, or null if it does not match any step in the
+ * allowed window
+ */
+function matchTotp(secret: string, code: string, now = Date.now()) {
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    if (generateCode(secret, current + offset) === code) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    }),
+  ]);
+
+  return codes;
+}
+
+export function isTwoFactorRequiredForRole(role?: string): boolean {
+  return role === "ADMINISTRATOR";
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      twoFactorEnabled: true,
+      _count: {
+        select: { recoveryCodes: { where: { usedAt: null } } },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+
+  return {
+    enabled: user.twoFactorEnabled,
+    required: isTwoFactorRequiredForRole(user.role),
+    recoveryCodesRemaining: user.twoFactorEnabled
+      ? user._count.recoveryCodes
+      : 0,
+  };
+}
+
+/**
+ * Start enrollment: store a new (not yet active) secret and return it with
+ * the otpauth:// URI authenticator apps scan as a QR code
+ */
+export async function beginTwoFactorSetup(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError("Two-factor authentication is already enabled");
+  }
+
+  const secret = base32Encode(randomBytes(20));
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return {
+    secret,
+    otpauthUri: `otpauth://totp/${label}?${params.toString()}`,
+  };
+}
+
+/**
+ * Finish enrollment once the user proves their app produces valid codes.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function enableTwoFactor(userId: string, code: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || !user.twoFactorSecret) {
+    throw new TwoFactorError("Start two-factor setup first");
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError("Two-factor authentication is already enabled");
+  }
+
+  const step = matchTotp(decryptSecret(user.twoFactorSecret), code.trim());
+  if (step === null) {
+    throw new TwoFactorError("Invalid authentication code");
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true, twoFactorLastStep: step },
+  });
+
+  return replaceRecoveryCodes(userId);
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled. Accepted TOTP
+ * steps and recovery codes cannot be used again.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = matchTotp(decryptSecret(user.twoFactorSecret), trimmed);
+    if (step === null) return false;
+
+    // Guard on the last step so a code cannot be replayed
+    const accepted = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return accepted.count === 1;
+  }
+
+  const used = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(trimmed)),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+  return used.count === 1;
+}
+
+/**
+ * Check a code from an already signed-in user. Wrong codes count towards the
+ * same lockout as sign-in, so a session cannot be used to guess codes, and a
+ * locked account cannot use its codes until the lock expires.
+ */
+async function verifySignedInCode(
+  userId: string,
+  code: string,
+  request: Request
+): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, lockedUntil: true, failedLoginCount: true },
+  });
+
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+
+  const context = { email: user.email, ...requestOrigin(request) };
+
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    await recordLoginFailure(context, "ACCOUNT_LOCKED", userId);
+    throw new TwoFactorError(
+      "Too many failed attempts. Please try again later.",
+      429
+    );
+  }
+
+  if (!(await verifySecondFactor(userId, code))) {
+    await recordLoginFailure(context, "INVALID_TWO_FACTOR_CODE", userId);
+    throw new TwoFactorError("Invalid authentication code");
+  }
+
+  if (user.failedLoginCount > 0) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    });
+  }
+}
+
+/**
+ * Issue a fresh set of recovery codes, invalidating the old ones
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+  request: Request
+) {
+  await verifySignedInCode(userId, code, request);
+  return replaceRecoveryCodes(userId);
+}
+
+/**
+ * Turn 2FA off. Not allowed for roles where it is mandatory.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  code: string,
+  request: Request
+) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+
+  if (isTwoFactorRequiredForRole(user.role)) {
+    throw new TwoFactorError(
+      "Two-factor authentication is required for administrators",
+      403
+    );
+  }
+
+  await verifySignedInCode(userId, code, request);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+/**
+ * Re-verification before a sensitive action such as a withdrawal or a role
+ * change. Returns the response to send when the code is missing, wrong or
+ * the account is locked, or null to continue. Users without 2FA enabled pass
+ * straight through.
+ */
+export async function requireTwoFactorCode(
+  userId: string,
+  code: string | undefined | null,
+  request: Request
+): Promise<NextResponse | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true },
+  });
+
+  if (!user?.twoFactorEnabled) return null;
+
+  if (!code) {
+    return NextResponse.json(
+      {
+        error: "Enter your authentication code to continue",
+        code: TWO_FACTOR_REQUIRED,
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await verifySignedInCode(userId, code, request);
+  } catch (error) {
+    if (!(error instanceof TwoFactorError)) throw error;
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: error.status === 429 ? ACCOUNT_LOCKED : INVALID_TWO_FACTOR_CODE,
+      },
+      { status: error.status === 429 ? 429 : 403 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,122 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { prisma } from "@/lib/prisma";
+import { setMailTransport } from "@/lib/mail";
+import {
+  VETTING_ITEMS,
+  publishOpportunity,
+  reviewOpportunity,
+  setVettingCheck,
+  submitOpportunity,
+} from "@/lib/vetting";
+import { createOpportunity, createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+describe("opportunity vetting", () => {
+  let businessId: string;
+  let ownerId: string;
+  let reviewerId: string;
+
+  beforeAll(() => {
+    setMailTransport({ name: "test", send: async () => {} });
+  });
+
+  afterAll(() => {
+    setMailTransport(null);
+  });
+
+  beforeEach(async () => {
+    const business = await createOpportunity({ status: "DRAFT" });
+    businessId = business.id;
+    ownerId = business.ownerId;
+    reviewerId = (
+      await createUser({ role: "ADMINISTRATOR", adminRole: "COMPLIANCE" })
+    ).id;
+  });
+
+  async function checkEverything() {
+    for (const item of VETTING_ITEMS) {
+      await setVettingCheck(businessId, item, true, reviewerId);
+    }
+  }
+
+  it("takes a draft through review to publication", async () => {
+    await submitOpportunity(businessId, ownerId);
+    await reviewOpportunity(businessId, "startReview", reviewerId);
+
+    await expect(
+      reviewOpportunity(businessId, "approve", reviewerId)
+    ).rejects.toThrow("Every checklist item must be confirmed before approval");
+
+    await checkEverything();
+    const approved = await reviewOpportunity(businessId, "approve", reviewerId);
+    expect(approved).toMatchObject({
+      status: "APPROVED",
+      approvedAt: expect.any(Date),
+      reviewedBy: { id: reviewerId },
+    });
+
+    expect(await publishOpportunity(businessId)).toMatchObject({
+      status: "OPEN",
+    });
+  });
+
+  it("checks a resubmission again from scratch", async () => {
+    await submitOpportunity(businessId, ownerId);
+    await reviewOpportunity(businessId, "startReview", reviewerId);
+    await checkEverything();
+
+    await expect(
+      reviewOpportunity(businessId, "requestChanges", reviewerId)
+    ).rejects.toThrow("A note for the owner is required");
+    await reviewOpportunity(
+      businessId,
+      "requestChanges",
+      reviewerId,
+      "Attach audited accounts"
+    );
+    await submitOpportunity(businessId, ownerId, "Accounts attached");
+
+    expect(await prisma.vettingCheck.count({ where: { businessId } })).toBe(0);
+    const notes = await prisma.vettingNote.findMany({
+      where: { businessId },
+      select: { kind: true },
+    });
+    expect(notes.map((note) => note.kind).sort()).toEqual([
+      "CHANGES_REQUESTED",
+      "RESPONSE",
+    ]);
+  });
+
+  it("lets only one decision through", async () => {
+    await submitOpportunity(businessId, ownerId);
+    await reviewOpportunity(businessId, "startReview", reviewerId);
+    await checkEverything();
+
+    await reviewOpportunity(businessId, "reject", reviewerId, "Not viable");
+    await expect(
+      reviewOpportunity(businessId, "approve", reviewerId)
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(publishOpportunity(businessId)).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it("doesn't let owners review their own opportunity", async () => {
+    await submitOpportunity(businessId, ownerId);
+
+    await expect(
+      reviewOpportunity(businessId, "startReview", ownerId)
+    ).rejects.toThrow("You cannot review your own opportunity");
+  });
+});
@@ -0,0 +1,525 @@
+// Vetting of new opportunities before investors see them. An owner drafts an
+// opportunity and submits it; a compliance reviewer takes it under review,
+// works through the due-diligence checklist and approves it, rejects it or
+// sends it back with requested changes. Approved opportunities go live when
+// the owner publishes them.
+
+import { OpportunityStatus, Prisma, VettingNoteKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendMail } from "@/lib/mail";
+import { AppError } from "@/lib/errors";
+import {
+  companyProfileSelect,
+  presentCompanyProfile,
+} from "@/lib/company-profiles";
+
+const BASE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+export const VETTING_PAGE_SIZE = 20;
+
+// Everything a reviewer must confirm before an opportunity can be approved
+export const VETTING_CHECKLIST = [
+  {
+    key: "cac_registration",
+    label: "CAC registration",
+    description:
+      "The business is registered with the Corporate Affairs Commission",
+  },
+  {
+    key: "owner_identity",
+    label: "Owner identity",
+    description: "The owner's identity and role in the business are verified",
+  },
+  {
+    key: "financial_statements",
+    label: "Financial statements",
+    description: "Recent accounts or management figures have been reviewed",
+  },
+  {
+    key: "business_plan",
+    label: "Business plan",
+    description: "The plan is complete and consistent with the summary",
+  },
+  {
+    key: "use_of_funds",
+    label: "Use of funds",
+    description: "It is clear what the capital raised will be spent on",
+  },
+  {
+    key: "terms",
+    label: "Return and timeline",
+    description: "Expected ROI, timeline and risk level are realistic",
+  },
+] as const;
+
+export type VettingItem = (typeof VETTING_CHECKLIST)[number]["key"];
+
+export const VETTING_ITEMS = VETTING_CHECKLIST.map((item) => item.key) as [
+  VettingItem,
+  ...VettingItem[]
+];
+
+// Statuses before an opportunity is published. Only its owner and
+// administrators can see an opportunity in one of these.
+export const VETTING_STATUSES = [
+  "DRAFT",
+  "SUBMITTED",
+  "UNDER_REVIEW",
+  "CHANGES_REQUESTED",
+  "APPROVED",
+  "REJECTED",
+] as const satisfies readonly OpportunityStatus[];
+
+// Statuses reviewers can filter the queue by
+export const VETTING_QUEUE_STATUSES = [
+  "SUBMITTED",
+  "UNDER_REVIEW",
+  "CHANGES_REQUESTED",
+  "APPROVED",
+  "REJECTED",
+] as const satisfies readonly OpportunityStatus[];
+
+// Owners can only edit an opportunity while nobody is reviewing it
+export const EDITABLE_STATUSES: OpportunityStatus[] = [
+  "DRAFT",
+  "CHANGES_REQUESTED",
+];
+
+export type ReviewAction =
+  | "startReview"
+  | "requestChanges"
+  | "approve"
+  | "reject";
+
+interface VettingTransition {
+  from: OpportunityStatus[];
+  to: OpportunityStatus;
+  // Requested changes and rejections are explained to the owner
+  requiresNote?: boolean;
+}
+
+export const VETTING_TRANSITIONS: Record<
+  "submit" | "publish" | ReviewAction,
+  VettingTransition
+> = {
+  submit: { from: ["DRAFT", "CHANGES_REQUESTED"], to: "SUBMITTED" },
+  startReview: { from: ["SUBMITTED"], to: "UNDER_REVIEW" },
+  requestChanges: {
+    from: ["UNDER_REVIEW"],
+    to: "CHANGES_REQUESTED",
+    requiresNote: true,
+  },
+  approve: { from: ["UNDER_REVIEW"], to: "APPROVED" },
+  reject: {
+    from: ["SUBMITTED", "UNDER_REVIEW"],
+    to: "REJECTED",
+    requiresNote: true,
+  },
+  publish: { from: ["APPROVED"], to: "OPEN" },
+};
+
+// Owner notification for each reviewer decision; starting a review is silent
+const DECISION_MESSAGES: Record<
+  Exclude<ReviewAction, "startReview">,
+  { title: string; content: (title: string, note?: string) => string }
+> = {
+  requestChanges: {
+    title: "Changes Requested",
+    content: (title, note) =>
+      `Our reviewers asked for changes to "${title}" before it can be approved: ${note}`,
+  },
+  approve: {
+    title: "Opportunity Approved",
+    content: (title) =>
+      `"${title}" passed review. Publish it from your dashboard when you're ready to open it to investors.`,
+  },
+  reject: {
+    title: "Opportunity Rejected",
+    content: (title, note) => `"${title}" was not approved: ${note}`,
+  },
+};
+
+const NOTE_KINDS: Partial<Record<ReviewAction, VettingNoteKind>> = {
+  requestChanges: "CHANGES_REQUESTED",
+  reject: "REJECTION",
+};
+
+// Notes an owner can read; COMMENT notes stay between reviewers
+export const OWNER_NOTE_KINDS: VettingNoteKind[] = [
+  "CHANGES_REQUESTED",
+  "REJECTION",
+  "RESPONSE",
+];
+
+export class VettingError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "VettingError";
+  }
+}
+
+const noteSelect = {
+  id: true,
+  kind: true,
+  content: true,
+  createdAt: true,
+  author: { select: { id: true, name: true } },
+} satisfies Prisma.VettingNoteSelect;
+
+/**
+ * Move an opportunity along the pipeline. Guarded on the current status so
+ * two reviewers can't both decide it.
+ */
+async function applyTransition(
+  tx: Prisma.TransactionClient,
+  businessId: string,
+  action: keyof typeof VETTING_TRANSITIONS,
+  data: Prisma.BusinessUncheckedUpdateManyInput = {}
+) {
+  const transition = VETTING_TRANSITIONS[action];
+
+  const claimed = await tx.business.updateMany({
+    where: { id: businessId, status: { in: transition.from } },
+    data: { ...data, status: transition.to },
+  });
+
+  if (claimed.count === 0) {
+    const business = await tx.business.findUnique({
+      where: { id: businessId },
+      select: { status: true },
+    });
+
+    if (!business) {
+      throw new VettingError("Opportunity not found", 404);
+    }
+
+    throw new VettingError(
+      `An opportunity that is ${business.status} can't be moved to ${transition.to}`,
+      409
+    );
+  }
+}
+
+/**
+ * Send a draft, or an opportunity with requested changes, for review. The
+ * owner can reply to the reviewers' requests in the same step.
+ */
+export async function submitOpportunity(
+  businessId: string,
+  ownerId: string,
+  response?: string
+) {
+  return prisma.$transaction(async (tx) => {
+    await applyTransition(tx, businessId, "submit", {
+      submittedAt: new Date(),
+    });
+
+    // The owner may have changed anything, so a resubmission is checked
+    // again from scratch
+    await tx.vettingCheck.deleteMany({ where: { businessId } });
+
+    if (response) {
+      await tx.vettingNote.create({
+        data: {
+          kind: "RESPONSE",
+          content: response,
+          businessId,
+          authorId: ownerId,
+        },
+      });
+    }
+
+    return tx.business.findUniqueOrThrow({
+      where: { id: businessId },
+      select: { id: true, title: true, status: true, submittedAt: true },
+    });
+  });
+}
+
+/**
+ * Open an approved opportunity to investors
+ */
+export async function publishOpportunity(businessId: string) {
+  return prisma.$transaction(async (tx) => {
+    await applyTransition(tx, businessId, "publish");
+
+    return tx.business.findUniqueOrThrow({
+      where: { id: businessId },
+      select: { id: true, title: true, status: true },
+    });
+  });
+}
+
+/**
+ * Opportunities waiting for or past review, oldest submission first
+ */
+export async function listVettingQueue(status: OpportunityStatus, page = 1) {
+  const where: Prisma.BusinessWhereInput = { status };
+
+  const [opportunities, total] = await Promise.all([
+    prisma.business.findMany({
+      where,
+      orderBy: { submittedAt: "asc" },
+      skip: (page - 1) * VETTING_PAGE_SIZE,
+      take: VETTING_PAGE_SIZE,
+      select: {
+        id: true,
+        title: true,
+        industry: true,
+        targetCapital: true,
+        riskLevel: true,
+        status: true,
+        submittedAt: true,
+        approvedAt: true,
+        owner: { select: { id: true, name: true, email: true, kycTier: true } },
+        reviewedBy: { select: { id: true, name: true } },
+        _count: { select: { vettingChecks: true } },
+      },
+    }),
+    prisma.business.count({ where }),
+  ]);
+
+  return {
+    opportunities,
+    checklistSize: VETTING_CHECKLIST.length,
+    total,
+    page,
+    pageSize: VETTING_PAGE_SIZE,
+  };
+}
+
+/**
+ * An opportunity's full vetting record for reviewers: the submission, the
+ * checklist with who confirmed each item, and every note
+ */
+export async function getVettingRecord(businessId: string) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      detailedPlan: true,
+      targetCapital: true,
+      minimumInvestment: true,
+      expectedROI: true,
+      timeline: true,
+      industry: true,
+      riskLevel: true,
+      status: true,
+      submittedAt: true,
+      approvedAt: true,
+      createdAt: true,
+      owner: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          kycTier: true,
+          verified: true,
+          createdAt: true,
+        },
+      },
+      reviewedBy: { select: { id: true, name: true } },
+      companyProfile: { select: companyProfileSelect },
+      documents: {
+        orderBy: { createdAt: "asc" },
+        select: { id: true, title: true, category: true, fileName: true },
+      },
+      vettingChecks: {
+        select: {
+          item: true,
+          note: true,
+          checkedAt: true,
+          checkedBy: { select: { id: true, name: true } },
+        },
+      },
+      vettingNotes: { orderBy: { createdAt: "asc" }, select: noteSelect },
+    },
+  });
+
+  if (!business) {
+    throw new VettingError("Opportunity not found", 404);
+  }
+
+  const { vettingChecks, vettingNotes, companyProfile, ...details } = business;
+
+  return {
+    ...details,
+    companyProfile: companyProfile
+      ? presentCompanyProfile(companyProfile)
+      : null,
+    checklist: VETTING_CHECKLIST.map((item) => ({
+      ...item,
+      check: vettingChecks.find((check) => check.item === item.key) ?? null,
+    })),
+    notes: vettingNotes,
+  };
+}
+
+/**
+ * Confirm or clear a checklist item. Only opportunities under review can be
+ * checked off.
+ */
+export async function setVettingCheck(
+  businessId: string,
+  item: VettingItem,
+  checked: boolean,
+  reviewerId: string,
+  note?: string
+) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { status: true },
+  });
+
+  if (!business) {
+    throw new VettingError("Opportunity not found", 404);
+  }
+
+  if (business.status !== "UNDER_REVIEW") {
+    throw new VettingError(
+      "The checklist can only be changed while the opportunity is under review",
+      409
+    );
+  }
+
+  if (!checked) {
+    await prisma.vettingCheck.deleteMany({ where: { businessId, item } });
+    return;
+  }
+
+  await prisma.vettingCheck.upsert({
+    where: { businessId_item: { businessId, item } },
+    create: { businessId, item, note, checkedById: reviewerId },
+    update: { note, checkedById: reviewerId, checkedAt: new Date() },
+  });
+}
+
+/**
+ * Leave an internal comment for other reviewers
+ */
+export async function addVettingComment(
+  businessId: string,
+  authorId: string,
+  content: string
+) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true },
+  });
+
+  if (!business) {
+    throw new VettingError("Opportunity not found", 404);
+  }
+
+  return prisma.vettingNote.create({
+    data: { kind: "COMMENT", content, businessId, authorId },
+    select: noteSelect,
+  });
+}
+
+/**
+ * Take a submission under review, or decide one: approve it once every
+ * checklist item is confirmed, send it back with requested changes, or
+ * reject it. The owner is notified of every decision.
+ */
+export async function reviewOpportunity(
+  businessId: string,
+  action: ReviewAction,
+  reviewerId: string,
+  note?: string
+) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    include: {
+      owner: { select: { id: true, name: true, email: true } },
+      _count: { select: { vettingChecks: true } },
+    },
+  });
+
+  if (!business) {
+    throw new VettingError("Opportunity not found", 404);
+  }
+
+  if (business.ownerId === reviewerId) {
+    throw new VettingError("You cannot review your own opportunity");
+  }
+
+  if (VETTING_TRANSITIONS[action].requiresNote && !note) {
+    throw new VettingError(
+      "A note for the owner is required to request changes or reject"
+    );
+  }
+
+  if (
+    action === "approve" &&
+    business._count.vettingChecks < VETTING_CHECKLIST.length
+  ) {
+    throw new VettingError(
+      "Every checklist item must be confirmed before approval"
+    );
+  }
+
+  const reviewed = await prisma.$transaction(async (tx) => {
+    await applyTransition(
+      tx,
+      businessId,
+      action,
+      action === "startReview"
+        ? { reviewedById: reviewerId }
+        : action === "approve"
+        ? { approvedAt: new Date() }
+        : {}
+    );
+
+    const kind = NOTE_KINDS[action];
+    if (kind && note) {
+      await tx.vettingNote.create({
+        data: { kind, content: note, businessId, authorId: reviewerId },
+      });
+    }
+
+    if (action !== "startReview") {
+      const message = DECISION_MESSAGES[action];
+      await tx.notification.create({
+        data: {
+          title: message.title,
+          content: message.content(business.title, note),
+          userId: business.ownerId,
+        },
+      });
+    }
+
+    return tx.business.findUniqueOrThrow({
+      where: { id: businessId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        approvedAt: true,
+        reviewedBy: { select: { id: true, name: true } },
+      },
+    });
+  });
+
+  if (action !== "startReview") {
+    try {
+      await sendMail({
+        to: business.owner.email,
+        subject: `${DECISION_MESSAGES[action].title}: ${business.title}`,
+        text: [
+          `Hello ${business.owner.name},`,
+          "",
+          DECISION_MESSAGES[action].content(business.title, note),
+          "",
+          `${BASE_URL}/dashboard`,
+        ].join("\n"),
+      });
+    } catch (mailError) {
+      console.error("Opportunity review email error:", mailError);
+    }
+  }
+
+  return reviewed;
+}
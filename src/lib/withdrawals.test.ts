@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { getWalletSummary, recordDeposit } from "@/lib/ledger";
+import {
+  getWithdrawableBalance,
+  requestWithdrawal,
+  transitionWithdrawal,
+} from "@/lib/withdrawals";
+import { createUser } from "@/test/fixtures";
+
+vi.mock("@/lib/prisma", async () => ({
+  prisma: await (await import("@/test/database")).createTestPrisma(),
+}));
+
+const BANK = {
+  bankName: "First Bank",
+  accountNumber: "0123456789",
+  accountName: "Test User",
+};
+
+describe("withdrawals", () => {
+  let userId: string;
+  let adminId: string;
+
+  beforeEach(async () => {
+    userId = (await createUser()).id;
+    adminId = (
+      await createUser({ role: "ADMINISTRATOR", adminRole: "FINANCE" })
+    ).id;
+    await recordDeposit(prisma, {
+      userId,
+      amount: 100_000 * 100,
+      reference: `deposit:${userId}`,
+      description: "Deposit",
+    });
+  });
+
+  it("holds requested funds until the request is settled", async () => {
+    await requestWithdrawal(userId, { amount: 60_000, ...BANK });
+
+    expect(await getWithdrawableBalance(prisma, userId)).toBe(40_000 * 100);
+    await expect(
+      requestWithdrawal(userId, { amount: 50_000, ...BANK })
+    ).rejects.toThrow("Withdrawal exceeds available earnings");
+  });
+
+  it("debits the wallet once when the withdrawal is paid", async () => {
+    const withdrawal = await requestWithdrawal(userId, {
+      amount: 60_000,
+      ...BANK,
+    });
+
+    await transitionWithdrawal(withdrawal.id, "approve", adminId);
+    const paid = await transitionWithdrawal(
+      withdrawal.id,
+      "mark_paid",
+      adminId
+    );
+
+    expect(paid.status).toBe("PAID");
+    expect(paid.events.map((event) => event.toStatus)).toEqual([
+      "PENDING",
+      "APPROVED",
+      "PAID",
+    ]);
+    await expect(
+      transitionWithdrawal(withdrawal.id, "mark_paid", adminId)
+    ).rejects.toMatchObject({ status: 409 });
+
+    expect(await getWalletSummary(userId, prisma)).toMatchObject({
+      available: 40_000 * 100,
+      totalWithdrawn: 60_000 * 100,
+    });
+    expect(await getWithdrawableBalance(prisma, userId)).toBe(40_000 * 100);
+  });
+
+  it("releases the hold when a request is rejected", async () => {
+    const withdrawal = await requestWithdrawal(userId, {
+      amount: 60_000,
+      ...BANK,
+    });
+
+    await expect(
+      transitionWithdrawal(withdrawal.id, "reject", adminId)
+    ).rejects.toThrow("A reason is required to reject a withdrawal");
+    await transitionWithdrawal(withdrawal.id, "reject", adminId, {
+      reason: "Account name does not match",
+    });
+
+    expect(await getWithdrawableBalance(prisma, userId)).toBe(100_000 * 100);
+    expect((await getWalletSummary(userId, prisma)).available).toBe(
+      100_000 * 100
+    );
+  });
+
+  it("can't be paid before it is approved", async () => {
+    const withdrawal = await requestWithdrawal(userId, {
+      amount: 10_000,
+      ...BANK,
+    });
+
+    await expect(
+      transitionWithdrawal(withdrawal.id, "mark_paid", adminId)
+    ).rejects.toThrow("Cannot mark paid a pending withdrawal");
+  });
+
+  it("refuses amounts below the minimum", async () => {
+    await expect(
+      requestWithdrawal(userId, { amount: 500, ...BANK })
+    ).rejects.toThrow("Minimum withdrawal amount is ₦1,000");
+  });
+});
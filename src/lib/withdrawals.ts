@@ -0,0 +1,242 @@
+// Withdrawal workflow: investor requests, admin review and payout
+
+import { WithdrawalStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  fromKobo,
+  getAccountBalance,
+  getUserAccount,
+  LedgerClient,
+  recordWithdrawal,
+  toKobo,
+} from "@/lib/ledger";
+import { AppError } from "@/lib/errors";
+
+// Smallest amount (in naira) that can be withdrawn in one request
+export const MINIMUM_WITHDRAWAL = 1000;
+
+// Requests in these states reserve wallet funds until they are settled
+const HELD_STATUSES: WithdrawalStatus[] = ["PENDING", "APPROVED"];
+
+export type WithdrawalAction = "approve" | "reject" | "mark_paid" | "cancel";
+
+const TRANSITIONS: Record<
+  WithdrawalAction,
+  { from: WithdrawalStatus[]; to: WithdrawalStatus }
+> = {
+  approve: { from: ["PENDING"], to: "APPROVED" },
+  reject: { from: ["PENDING", "APPROVED"], to: "REJECTED" },
+  mark_paid: { from: ["APPROVED"], to: "PAID" },
+  cancel: { from: ["PENDING"], to: "CANCELLED" },
+};
+
+const NOTIFICATIONS: Record<WithdrawalStatus, string> = {
+  PENDING: "Your withdrawal request has been received and is awaiting review",
+  APPROVED: "Your withdrawal request has been approved and will be paid out",
+  REJECTED: "Your withdrawal request has been rejected",
+  PAID: "Your withdrawal has been paid",
+  CANCELLED: "Your withdrawal request has been cancelled",
+};
+
+export class WithdrawalError extends AppError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = "WithdrawalError";
+  }
+}
+
+/**
+ * Amount (in kobo) a user can still request: the wallet balance minus funds
+ * held by requests that have not been paid or closed yet. Invested principal
+ * is not part of the wallet until it is released at maturity or on
+ * cancellation, so only earnings and released capital are withdrawable.
+ */
+export async function getWithdrawableBalance(
+  client: LedgerClient,
+  userId: string
+): Promise<number> {
+  const wallet = await getUserAccount(client, userId, "WALLET");
+  const balance = await getAccountBalance(client, wallet.id);
+
+  const held = await client.withdrawalRequest.aggregate({
+    where: { userId, status: { in: HELD_STATUSES } },
+    _sum: { amount: true },
+  });
+
+  return balance - toKobo(held._sum.amount ?? 0);
+}
+
+/**
+ * Create a withdrawal request against the user's withdrawable balance
+ */
+export async function requestWithdrawal(
+  userId: string,
+  data: {
+    amount: number;
+    bankName: string;
+    accountNumber: string;
+    accountName: string;
+  }
+) {
+  if (data.amount < MINIMUM_WITHDRAWAL) {
+    throw new WithdrawalError(
+      `Minimum withdrawal amount is ₦${MINIMUM_WITHDRAWAL.toLocaleString()}`
+    );
+  }
+
+  const withdrawal = await prisma.$transaction(async (tx) => {
+    const withdrawable = await getWithdrawableBalance(tx, userId);
+    if (toKobo(data.amount) > withdrawable) {
+      throw new WithdrawalError(
+        `Withdrawal exceeds available earnings. Available: ₦${fromKobo(
+          Math.max(0, withdrawable)
+        ).toLocaleString()}`
+      );
+    }
+
+    const created = await tx.withdrawalRequest.create({
+      data: {
+        amount: data.amount,
+        bankName: data.bankName,
+        accountNumber: data.accountNumber,
+        accountName: data.accountName,
+        userId,
+        events: {
+          create: {
+            toStatus: "PENDING",
+            actorId: userId,
+          },
+        },
+      },
+    });
+
+    await tx.notification.create({
+      data: {
+        title: "Withdrawal Requested",
+        content: `${NOTIFICATIONS.PENDING} (₦${data.amount.toLocaleString()})`,
+        userId,
+      },
+    });
+
+    return created;
+  });
+
+  // Let the administrators who review withdrawals know there is something
+  // in the queue
+  const admins = await prisma.user.findMany({
+    where: {
+      role: "ADMINISTRATOR",
+      adminRole: { in: ["FINANCE", "SUPER_ADMIN"] },
+    },
+    select: { id: true },
+  });
+  await prisma.notification.createMany({
+    data: admins.map((admin) => ({
+      title: "New Withdrawal Request",
+      content: `A withdrawal of ₦${data.amount.toLocaleString()} is awaiting review`,
+      userId: admin.id,
+    })),
+  });
+
+  return withdrawal;
+}
+
+/**
+ * Move a withdrawal request through its workflow. Marking a request as paid
+ * debits the user's wallet in the ledger.
+ */
+export async function transitionWithdrawal(
+  withdrawalId: string,
+  action: WithdrawalAction,
+  actorId: string,
+  options: { reason?: string; note?: string; payoutReference?: string } = {}
+) {
+  const transition = TRANSITIONS[action];
+
+  if (action === "reject" && !options.reason) {
+    throw new WithdrawalError("A reason is required to reject a withdrawal");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const withdrawal = await tx.withdrawalRequest.findUnique({
+      where: { id: withdrawalId },
+    });
+
+    if (!withdrawal) {
+      throw new WithdrawalError("Withdrawal request not found", 404);
+    }
+
+    if (!transition.from.includes(withdrawal.status)) {
+      throw new WithdrawalError(
+        `Cannot ${action.replace(
+          "_",
+          " "
+        )} a ${withdrawal.status.toLowerCase()} withdrawal`,
+        409
+      );
+    }
+
+    const isReview = action !== "cancel";
+    const now = new Date();
+
+    // Guard on the current status so concurrent reviews cannot both apply
+    const updated = await tx.withdrawalRequest.updateMany({
+      where: { id: withdrawal.id, status: withdrawal.status },
+      data: {
+        status: transition.to,
+        reason: action === "reject" ? options.reason : withdrawal.reason,
+        payoutReference: options.payoutReference ?? withdrawal.payoutReference,
+        reviewedById: isReview ? actorId : withdrawal.reviewedById,
+        reviewedAt: isReview ? now : withdrawal.reviewedAt,
+        paidAt: action === "mark_paid" ? now : withdrawal.paidAt,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new WithdrawalError(
+        "Withdrawal request was updated by someone else",
+        409
+      );
+    }
+
+    if (action === "mark_paid") {
+      await recordWithdrawal(tx, {
+        userId: withdrawal.userId,
+        amount: toKobo(withdrawal.amount),
+        reference: `withdrawal:${withdrawal.id}`,
+        description: `Withdrawal to ${withdrawal.bankName} ${withdrawal.accountNumber}`,
+      });
+    }
+
+    await tx.withdrawalEvent.create({
+      data: {
+        withdrawalId: withdrawal.id,
+        fromStatus: withdrawal.status,
+        toStatus: transition.to,
+        note: options.reason ?? options.note,
+        actorId,
+      },
+    });
+
+    await tx.notification.create({
+      data: {
+        title: "Withdrawal Update",
+        content: `${
+          NOTIFICATIONS[transition.to]
+        } (₦${withdrawal.amount.toLocaleString()})${
+          options.reason ? `. Reason: ${options.reason}` : ""
+        }`,
+        userId: withdrawal.userId,
+      },
+    });
+
+    return tx.withdrawalRequest.findUniqueOrThrow({
+      where: { id: withdrawal.id },
+      include: {
+        events: {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+  });
+}
@@ -0,0 +1,42 @@
+// Prisma client for tests, backed by a throwaway SQLite database with every
+// migration applied. Test files swap it in for the app's client with
+//
+//   vi.mock("@/lib/prisma", async () => ({
+//     prisma: await (await import("@/test/database")).createTestPrisma(),
+//   }));
+//
+// and then import `prisma` from "@/lib/prisma" as the code under test does.
+
+import { mkdtempSync, readFileSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createClient } from "@libsql/client";
+import { PrismaLibSQL } from "@prisma/adapter-libsql";
+import { PrismaClient } from "../../node_modules/.prisma/test-client";
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma/migrations");
+
+/**
+ * Open a client on a new database file in a temporary directory
+ */
+export async function createTestPrisma() {
+  const dir = mkdtempSync(path.join(tmpdir(), "ncc-test-"));
+  const url = `file:${path.join(dir, "test.db")}`;
+
+  const db = createClient({ url });
+  const migrations = readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    await db.executeMultiple(
+      readFileSync(
+        path.join(MIGRATIONS_DIR, migration, "migration.sql"),
+        "utf8"
+      )
+    );
+  }
+  db.close();
+
+  return new PrismaClient({ adapter: new PrismaLibSQL({ url }) });
+}
@@ -0,0 +1,42 @@
+// Records for database-backed tests. Every call creates fresh rows, so tests
+// sharing a database do not see each other's users or opportunities.
+
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export function createUser(data: Partial<Prisma.UserCreateInput> = {}) {
+  const id = randomUUID();
+  return prisma.user.create({
+    data: {
+      email: `${id}@example.com`,
+      name: "Test User",
+      password: "x",
+      verified: true,
+      ...data,
+    },
+  });
+}
+
+export async function createOpportunity(
+  data: Partial<Prisma.BusinessUncheckedCreateInput> = {}
+) {
+  const ownerId =
+    data.ownerId ?? (await createUser({ role: "BUSINESS_OWNER" })).id;
+  return prisma.business.create({
+    data: {
+      title: "Cassava Farm",
+      description: "Cassava Farm",
+      detailedPlan: "Cassava Farm",
+      targetCapital: 1_000_000,
+      minimumInvestment: 10_000,
+      expectedROI: 20,
+      timeline: 12,
+      industry: "Agriculture",
+      riskLevel: "Medium",
+      status: "OPEN",
+      ...data,
+      ownerId,
+    },
+  });
+}
@@ -8,16 +8,25 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       role?: string;
+      adminRole?: string | null;
+      twoFactorSetupRequired?: boolean;
     };
+    sessionId?: string; // UserSession behind this sign-in
   }
 
   interface User {
     role?: string;
+    adminRole?: string | null;
+    sessionId?: string;
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
     role?: string;
+    adminRole?: string | null;
+    authTime?: number; // ms timestamp of sign-in
+    twoFactorSetupRequired?: boolean;
+    sid?: string; // UserSession id; jti is regenerated on every refresh
   }
 }